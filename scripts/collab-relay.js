@@ -0,0 +1,133 @@
+// scripts/collab-relay.js
+//
+// Small WebSocket relay for real-time collaboration on a LAN:
+//
+//   npm run collab-relay            # listens on port 1234
+//   PORT=4000 npm run collab-relay
+//
+// Writers connect to ws://<this machine>:<port>/<room>. The relay keeps one Yjs document per room
+// in memory while anyone is connected, so a writer who joins or reconnects catches up.
+// The editors keep their own copy of the document, so freeing a room or restarting the relay
+// loses nothing: the next writer to join brings it back.
+// While a room is empty, exactly one writer is told to seed it with their project; writers joining
+// at the same time wait for that project instead of merging their own into it.
+
+import { WebSocketServer } from 'ws';
+import * as Y from 'yjs';
+
+// Message types, see src/services/syncProviders.ts
+const MESSAGE_SYNC_STEP_1 = 0;
+const MESSAGE_SYNC_STEP_2 = 1;
+const MESSAGE_UPDATE = 2;
+const MESSAGE_PRESENCE = 3;
+const MESSAGE_PEER_LEFT = 4;
+const MESSAGE_SEED = 5;
+
+const PORT = Number(process.env.PORT) || 1234;
+
+// Room name -> { doc, seeder, clients: Map<socket, { message, clientId } of the last presence, or null> }
+const rooms = new Map();
+
+const encodeMessage = (type, payload) => {
+  const message = new Uint8Array(payload.length + 1);
+  message[0] = type;
+  message.set(payload, 1);
+  return message;
+};
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(message);
+};
+
+const getRoom = (name) => {
+  let room = rooms.get(name);
+  if (!room) {
+    const doc = new Y.Doc();
+    room = { doc, seeder: null, clients: new Map() };
+    // Forward every change to everyone except the writer it came from
+    doc.on('update', (update, origin) => {
+      const message = encodeMessage(MESSAGE_UPDATE, update);
+      room.clients.forEach((_presence, client) => {
+        if (client !== origin) send(client, message);
+      });
+    });
+    rooms.set(name, room);
+  }
+  return room;
+};
+
+// Lets the longest connected writer fill an empty room, unless someone already may
+const grantSeed = (room) => {
+  if (room.seeder || room.doc.store.clients.size > 0) return;
+  const [first] = room.clients.keys();
+  if (!first) return;
+  room.seeder = first;
+  send(first, encodeMessage(MESSAGE_SEED, new Uint8Array()));
+};
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on('connection', (socket, request) => {
+  const roomName = decodeURIComponent((request.url || '/').slice(1)) || 'default';
+  const room = getRoom(roomName);
+  room.clients.set(socket, null);
+  console.log(`[relay] Writer joined "${roomName}" (${room.clients.size} connected)`);
+
+  // The newcomer sees everyone who is already there
+  room.clients.forEach((presence, client) => {
+    if (client !== socket && presence) send(socket, presence.message);
+  });
+  send(socket, encodeMessage(MESSAGE_SYNC_STEP_1, Y.encodeStateVector(room.doc)));
+  grantSeed(room);
+
+  socket.on('message', (data) => {
+    const message = new Uint8Array(data);
+    const payload = message.subarray(1);
+    try {
+      switch (message[0]) {
+        case MESSAGE_SYNC_STEP_1:
+          send(socket, encodeMessage(MESSAGE_SYNC_STEP_2, Y.encodeStateAsUpdate(room.doc, payload)));
+          break;
+        case MESSAGE_SYNC_STEP_2:
+        case MESSAGE_UPDATE:
+          Y.applyUpdate(room.doc, payload, socket);
+          break;
+        case MESSAGE_PRESENCE: {
+          // Malformed presence throws here and is neither kept nor forwarded
+          const { clientId } = JSON.parse(new TextDecoder().decode(payload));
+          if (!Number.isInteger(clientId)) throw new Error('Presence without a numeric clientId');
+          room.clients.set(socket, { message, clientId });
+          room.clients.forEach((_presence, client) => {
+            if (client !== socket) send(client, message);
+          });
+          break;
+        }
+        default:
+          console.warn(`[relay] Ignoring unknown message type ${message[0]}`);
+      }
+    } catch (error) {
+      console.error('[relay] Could not handle a message:', error);
+    }
+  });
+
+  socket.on('close', () => {
+    const presence = room.clients.get(socket);
+    room.clients.delete(socket);
+    console.log(`[relay] Writer left "${roomName}" (${room.clients.size} connected)`);
+    if (room.clients.size === 0) {
+      room.doc.destroy();
+      rooms.delete(roomName);
+      return;
+    }
+    if (room.seeder === socket) {
+      // Left before the room got a project: the next writer may seed it
+      room.seeder = null;
+      grantSeed(room);
+    }
+    if (!presence) return;
+    const message = encodeMessage(MESSAGE_PEER_LEFT, new TextEncoder().encode(JSON.stringify({ clientId: presence.clientId })));
+    room.clients.forEach((_presence, client) => send(client, message));
+  });
+});
+
+console.log(`[relay] Collaboration relay listening on ws://0.0.0.0:${PORT}`);
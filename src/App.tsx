@@ -1,11 +1,12 @@
 // File: src/App.tsx
-import React, { useCallback, useRef, useEffect, useState } from 'react';
+import React, { useCallback, useRef, useEffect, useState, useMemo } from 'react';
 import { ReactFlowProvider } from 'reactflow';
 import { ArrowDown, ArrowRight, GitFork } from 'lucide-react';
 
 // We'll fetch the changelog content at runtime instead of importing it
 
 import useNpcLayoutToggle from './hooks/useNpcLayoutToggle';
+import useKeybindings from './hooks/useKeybindings';
 
 import DialogueFlow from './components/DialogueFlow';
 import Header from './components/Header';
@@ -17,21 +18,41 @@ import EditModal from './components/EditModal';
 import InfoModal from './components/InfoModal';
 import ChangelogModal from './components/ChangelogModal'; // <-- Import the new modal
 import NodeInfoPanel from './components/NodeInfoPanel';
+import EdgeInfoPanel from './components/EdgeInfoPanel';
+import VariablesModal from './components/VariablesModal';
+import PlaytestPanel from './components/PlaytestPanel';
+import ValidationPanel from './components/ValidationPanel';
+import SearchPanel from './components/SearchPanel';
+import TranslationPanel from './components/TranslationPanel';
+import HistoryPanel from './components/HistoryPanel';
+import DiffPanel from './components/DiffPanel';
+import CollaborationPanel from './components/CollaborationPanel';
+import CommandPalette from './components/CommandPalette';
+import ProjectsModal from './components/ProjectsModal';
+import KeybindingsModal from './components/KeybindingsModal';
 
 import {
     useDialogueStore,
     useSidebarData,
 } from './store/dialogueStore';
+import { usePlaytestStore } from './store/playtestStore';
+import { useCollabStore } from './store/collabStore';
+import { useCommandStore, useRegisterCommands } from './store/commandStore';
 
 import { calculateDagreLayout } from './utils/dagreLayout';
-import { PositioningMode } from './types';
+import { startTabSync, stopTabSync } from './services/tabSync';
+import { getActiveProjectId, listProjects, switchProject } from './services/projectService';
+import { exportDialogueData } from './services/dialogueService';
+import { downloadFile, getDateStamp } from './utils/fileUtils';
+import { EditorCommand, NpcExpression, PortraitRef, PositioningMode, ProjectInfo } from './types';
 
 interface EditModalState {
   isOpen: boolean;
   entityType: 'NPC' | 'Dialogue';
   entityId: string;
   currentName: string;
-  currentImage?: string;
+  currentPortrait?: PortraitRef;
+  currentExpressions?: NpcExpression[];
   currentAccentColor?: string;
 }
 
@@ -48,15 +69,24 @@ const App: React.FC = () => {
   const selectedConversationId = useDialogueStore(state => state.selectedConversationId);
   const activeNodesLength = useDialogueStore(state => state.activeNodes().length);
   const selectedNpc = useDialogueStore(state => state.selectedNpc());
+  const localization = useDialogueStore(state => state.localization);
+  const activeLocale = useDialogueStore(state => state.activeLocale);
+  const setActiveLocale = useDialogueStore(state => state.setActiveLocale);
+  const isPlaytestOpen = usePlaytestStore(state => state.isOpen);
+  const openPlaytest = usePlaytestStore(state => state.open);
+  const closePlaytest = usePlaytestStore(state => state.close);
 
   const {
       deleteNpc,
       deleteConversation,
       updateNpcName,
       updateConversationName,
-      updateNpcImage,
+      updateNpcPortrait,
+      updateNpcExpressions,
       updateNpcAccentColor,
   } = useSidebarData();
+  const beginHistoryGroup = useDialogueStore(state => state.beginHistoryGroup);
+  const endHistoryGroup = useDialogueStore(state => state.endHistoryGroup);
 
   const [isDataManagementVisible, setIsDataManagementVisible] = useState<boolean>(false);
   const [isLayoutOptionsOpen, setIsLayoutOptionsOpen] = useState<boolean>(false);
@@ -65,12 +95,26 @@ const App: React.FC = () => {
   const [isInfoModalOpen, setIsInfoModalOpen] = useState<boolean>(false);
   const [isChangelogModalOpen, setIsChangelogModalOpen] = useState<boolean>(false); // <-- State for new modal
   const [changelogContent, setChangelogContent] = useState<string>(''); // Initialize empty, will be filled by fetch
+  const [isVariablesModalOpen, setIsVariablesModalOpen] = useState<boolean>(false);
+  const [isValidationPanelOpen, setIsValidationPanelOpen] = useState<boolean>(false);
+  const [isSearchPanelOpen, setIsSearchPanelOpen] = useState<boolean>(false);
+  const [isTranslationPanelOpen, setIsTranslationPanelOpen] = useState<boolean>(false);
+  const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState<boolean>(false);
+  const [isCollaborationPanelOpen, setIsCollaborationPanelOpen] = useState<boolean>(false);
+  const [isProjectsModalOpen, setIsProjectsModalOpen] = useState<boolean>(false);
+  const [isKeybindingsModalOpen, setIsKeybindingsModalOpen] = useState<boolean>(false);
+  const [projectName, setProjectName] = useState<string>();
   const [editModalState, setEditModalState] = useState<EditModalState>({
-    isOpen: false, entityType: 'NPC', entityId: '', currentName: '', currentImage: undefined, currentAccentColor: undefined,
+    isOpen: false, entityType: 'NPC', entityId: '', currentName: '', currentPortrait: undefined, currentAccentColor: undefined,
   });
   const [currentTool, setCurrentTool] = useState<ToolType | null>(null);
 
+  const isComparing = useDialogueStore(state => state.diffView !== null);
+  const closeDiffView = useDialogueStore(state => state.closeDiffView);
+  const collaboratorCount = useCollabStore(state => state.peers.length);
+
   const { isHorizontal, setLayout } = useNpcLayoutToggle();
+  useKeybindings();
 
   const triggerFitView = useCallback(() => {
     fitViewRef.current?.();
@@ -125,29 +169,76 @@ const App: React.FC = () => {
   const handleCloseChangelogModal = useCallback(() => { setIsChangelogModalOpen(false); }, []);
   // --- End Callbacks for Changelog Modal ---
 
-  const handleOpenEditModal = useCallback((type: 'NPC' | 'Dialogue', id: string, name: string, image?: string, accentColor?: string) => {
-      setEditModalState({ isOpen: true, entityType: type, entityId: id, currentName: name, currentImage: image, currentAccentColor: accentColor });
+  const handleOpenVariablesModal = useCallback(() => { setIsVariablesModalOpen(true); }, []);
+  const handleCloseVariablesModal = useCallback(() => { setIsVariablesModalOpen(false); }, []);
+
+  const toggleValidationPanel = useCallback(() => { setIsValidationPanelOpen(prev => !prev); }, []);
+  const handleCloseValidationPanel = useCallback(() => { setIsValidationPanelOpen(false); }, []);
+
+  const toggleSearchPanel = useCallback(() => { setIsSearchPanelOpen(prev => !prev); }, []);
+  const handleCloseSearchPanel = useCallback(() => { setIsSearchPanelOpen(false); }, []);
+
+  const toggleTranslationPanel = useCallback(() => { setIsTranslationPanelOpen(prev => !prev); }, []);
+  const handleCloseTranslationPanel = useCallback(() => { setIsTranslationPanelOpen(false); }, []);
+
+  const toggleHistoryPanel = useCallback(() => { setIsHistoryPanelOpen(prev => !prev); }, []);
+  const handleCloseHistoryPanel = useCallback(() => { setIsHistoryPanelOpen(false); }, []);
+
+  const toggleCollaborationPanel = useCallback(() => { setIsCollaborationPanelOpen(prev => !prev); }, []);
+  const handleCloseCollaborationPanel = useCallback(() => { setIsCollaborationPanelOpen(false); }, []);
+
+  const handleOpenProjectsModal = useCallback(() => { setIsProjectsModalOpen(true); }, []);
+  const handleCloseProjectsModal = useCallback(() => { setIsProjectsModalOpen(false); }, []);
+  const handleOpenKeybindingsModal = useCallback(() => { setIsKeybindingsModalOpen(true); }, []);
+  const handleCloseKeybindingsModal = useCallback(() => { setIsKeybindingsModalOpen(false); }, []);
+  const handleCustomizeShortcuts = useCallback(() => {
+    setIsInfoModalOpen(false);
+    setIsKeybindingsModalOpen(true);
+  }, []);
+
+  const handleProjectsChange = useCallback((projects: ProjectInfo[]) => {
+    setProjectName(projects.find(project => project.id === getActiveProjectId())?.name);
+  }, []);
+
+  const localeOptions = useMemo(() => [
+    { value: localization.sourceLocale, label: `${localization.sourceLocale} (source)` },
+    ...localization.targetLocales.map(locale => ({ value: locale, label: locale })),
+  ], [localization]);
+
+  const togglePlaytest = useCallback(() => {
+    if (isPlaytestOpen) closePlaytest();
+    else openPlaytest();
+  }, [isPlaytestOpen, openPlaytest, closePlaytest]);
+
+  const handleOpenEditModal = useCallback((type: 'NPC' | 'Dialogue', id: string, name: string, portrait?: PortraitRef, accentColor?: string) => {
+      const currentExpressions = type === 'NPC' ? useDialogueStore.getState().npcs.find(npc => npc.id === id)?.expressions : undefined;
+      setEditModalState({ isOpen: true, entityType: type, entityId: id, currentName: name, currentPortrait: portrait, currentExpressions, currentAccentColor: accentColor });
   }, []);
 
   const handleCloseEditModal = useCallback(() => { setEditModalState(prev => ({ ...prev, isOpen: false })); }, []);
 
-  const handleSaveChanges = useCallback((newName: string, imageDataUrl?: string, newColor?: string) => {
+  const handleSaveChanges = useCallback((newName: string, portraitId?: string, newColor?: string, expressions?: NpcExpression[]) => {
     const { entityType, entityId } = editModalState;
     if (!entityId) return;
 
     if (entityType === 'NPC') {
+       beginHistoryGroup(); // One undo step for the whole dialog
        updateNpcName(entityId, newName);
-       if (imageDataUrl !== undefined) {
-         updateNpcImage(entityId, imageDataUrl || undefined);
+       if (portraitId !== undefined) {
+         updateNpcPortrait(entityId, portraitId || undefined);
        }
        if (newColor) {
            updateNpcAccentColor(entityId, newColor);
        }
+       if (expressions) {
+           updateNpcExpressions(entityId, expressions);
+       }
+       endHistoryGroup();
     } else if (entityType === 'Dialogue') {
        updateConversationName(entityId, newName);
     }
     handleCloseEditModal();
-  }, [editModalState, updateNpcName, updateNpcImage, updateConversationName, updateNpcAccentColor, handleCloseEditModal]);
+  }, [editModalState, updateNpcName, updateNpcPortrait, updateNpcExpressions, updateConversationName, updateNpcAccentColor, beginHistoryGroup, endHistoryGroup, handleCloseEditModal]);
 
   const handleDeleteEntity = useCallback(() => {
     const { entityType, entityId } = editModalState;
@@ -183,10 +274,88 @@ const App: React.FC = () => {
     setTimeout(triggerFitView, 150);
   }, [setLayout, triggerFitView]);
 
+  const handleExportJson = useCallback(async () => {
+    try {
+      downloadFile(await exportDialogueData(), `dialogue-export-${getDateStamp()}.json`, 'application/json');
+    } catch (error) {
+      console.error('Export failed:', error);
+    }
+  }, []);
+
+  // Editor actions reachable from the command palette and key bindings
+  const commands = useMemo((): EditorCommand[] => {
+    const store = useDialogueStore.getState;
+    const hasConversation = () => store().selectedConversationId !== null;
+    return [
+      { id: 'layout.apply', title: 'Apply Layout', category: 'Layout', keywords: ['smart layout', 'arrange', 'dagre'], isAvailable: hasConversation, run: applyLayoutAndClose },
+      { id: 'layout.toggleDirection', title: 'Toggle Direction', category: 'Layout', keywords: ['horizontal', 'vertical'], run: () => handleSetDirection(!isHorizontal) },
+      { id: 'layout.options', title: 'Layout Options', category: 'Layout', run: toggleLayoutOptions },
+      { id: 'view.fit', title: 'Fit View', category: 'View', keywords: ['zoom'], run: triggerFitView },
+      { id: 'edit.undo', title: 'Undo', category: 'Edit', isAvailable: () => store().canUndo, run: () => store().undo() },
+      { id: 'edit.redo', title: 'Redo', category: 'Edit', isAvailable: () => store().canRedo, run: () => store().redo() },
+      { id: 'npc.add', title: 'Add NPC', category: 'NPC', keywords: ['new character'], run: () => store().addNpc('') },
+      {
+        id: 'conversation.add',
+        title: 'Add Conversation to Current NPC',
+        category: 'Dialogue',
+        keywords: ['new dialogue'],
+        isAvailable: () => store().selectedNpcId !== null,
+        run: () => store().addConversation(store().selectedNpcId!, ''),
+      },
+      { id: 'playtest.toggle', title: isPlaytestOpen ? 'Stop Playtest' : 'Playtest Dialogue', category: 'Dialogue', isAvailable: hasConversation, run: togglePlaytest },
+      { id: 'panel.search', title: 'Search & Replace', category: 'Panels', keywords: ['find'], run: toggleSearchPanel },
+      { id: 'panel.validation', title: 'Validate Dialogues', category: 'Panels', keywords: ['problems', 'errors'], run: toggleValidationPanel },
+      { id: 'panel.translations', title: 'Translations', category: 'Panels', keywords: ['locales', 'localization'], run: toggleTranslationPanel },
+      { id: 'panel.snapshots', title: 'Snapshots', category: 'Panels', keywords: ['history', 'versions'], run: toggleHistoryPanel },
+      { id: 'panel.collaboration', title: 'Collaborate', category: 'Panels', keywords: ['share', 'live'], run: toggleCollaborationPanel },
+      { id: 'modal.variables', title: 'Dialogue Variables', category: 'Project', run: handleOpenVariablesModal },
+      { id: 'modal.projects', title: 'Projects', category: 'Project', keywords: ['switch project', 'workspace'], run: handleOpenProjectsModal },
+      { id: 'data.toggle', title: 'Import / Export', category: 'File', keywords: ['data management'], run: toggleDataManagement },
+      { id: 'data.exportJson', title: 'Export JSON', category: 'File', keywords: ['download', 'save file'], run: handleExportJson },
+      { id: 'tool.auto', title: 'Toggle Auto Alternate Mode', category: 'Tools', keywords: ['tool'], run: () => setCurrentTool(tool => (tool === 'auto' ? null : 'auto')) },
+      { id: 'tool.user', title: 'Connect to User Nodes', category: 'Tools', keywords: ['tool'], run: () => setCurrentTool('user') },
+      { id: 'tool.npc', title: 'Connect to NPC Nodes', category: 'Tools', keywords: ['tool'], run: () => setCurrentTool('npc') },
+      { id: 'tool.none', title: 'Clear Tool', category: 'Tools', keywords: ['tool', 'default'], run: () => setCurrentTool(null) },
+      { id: 'help.shortcuts', title: 'Help & Shortcuts', category: 'Help', keywords: ['controls', 'info'], run: handleOpenInfoModal },
+      { id: 'settings.keybindings', title: 'Customize Keyboard Shortcuts', category: 'Help', keywords: ['keybindings', 'keys', 'settings'], run: handleOpenKeybindingsModal },
+      { id: 'help.changelog', title: 'Changelog', category: 'Help', keywords: ['whats new'], run: handleOpenChangelogModal },
+    ];
+  }, [
+    applyLayoutAndClose, handleSetDirection, isHorizontal, toggleLayoutOptions, triggerFitView, isPlaytestOpen, togglePlaytest,
+    toggleSearchPanel, toggleValidationPanel, toggleTranslationPanel, toggleHistoryPanel, toggleCollaborationPanel,
+    handleOpenVariablesModal, handleOpenProjectsModal, toggleDataManagement, handleExportJson, handleOpenInfoModal, handleOpenKeybindingsModal,
+    handleOpenChangelogModal,
+  ]);
+  useRegisterCommands(commands);
+
   useEffect(() => {
     loadInitialData();
   }, [loadInitialData]);
 
+  useEffect(() => {
+    useCommandStore.getState().loadKeybindings();
+  }, []);
+
+  // A project deleted in another tab can't stay open here; fall back to the first one
+  useEffect(() => {
+    listProjects()
+      .then(projects => {
+        if (!projects.some(project => project.id === getActiveProjectId())) switchProject(projects[0].id);
+        else handleProjectsChange(projects);
+      })
+      .catch(error => console.error('[Projects] Loading the project list failed:', error));
+  }, [handleProjectsChange]);
+
+  // Only one tab edits the project at a time; the others follow its saves read-only
+  useEffect(() => {
+    startTabSync({
+      onRoleChange: isWriter => useDialogueStore.getState().setWriterTab(isWriter),
+      onExternalSave: () => useDialogueStore.getState().handleExternalSave(),
+      beforeHandover: () => useDialogueStore.getState().triggerSave(true),
+    });
+    return stopTabSync;
+  }, []);
+
   useEffect(() => {
     const handleBeforeUnload = (event: BeforeUnloadEvent) => {
       if (useDialogueStore.getState().isSaving) {
@@ -233,7 +402,21 @@ const App: React.FC = () => {
        {/* ... (Header, Layout Options Panel, NodeInfoPanel) ... */}
         <div className="absolute top-4 right-4 z-30 flex flex-col space-y-3 items-end">
          <Header
+           projectName={projectName}
+           onOpenProjects={handleOpenProjectsModal}
            onToggleLayoutOptions={toggleLayoutOptions}
+           onOpenVariables={handleOpenVariablesModal}
+           onTogglePlaytest={selectedConversationId ? togglePlaytest : undefined}
+           isPlaytestActive={isPlaytestOpen}
+           onToggleValidation={toggleValidationPanel}
+           onToggleSearch={toggleSearchPanel}
+           onToggleTranslations={toggleTranslationPanel}
+           onToggleHistory={toggleHistoryPanel}
+           onToggleCollaboration={toggleCollaborationPanel}
+           collaboratorCount={collaboratorCount}
+           localeOptions={localeOptions}
+           activeLocale={activeLocale}
+           onLocaleChange={setActiveLocale}
          />
 
           {isLayoutOptionsOpen && (
@@ -345,7 +528,14 @@ const App: React.FC = () => {
              </>
           )}
 
+          {isSearchPanelOpen && <SearchPanel onClose={handleCloseSearchPanel} />}
+          {isValidationPanelOpen && <ValidationPanel onClose={handleCloseValidationPanel} />}
+          {isTranslationPanelOpen && <TranslationPanel onClose={handleCloseTranslationPanel} />}
+          {isHistoryPanelOpen && <HistoryPanel onClose={handleCloseHistoryPanel} />}
+          {isComparing && <DiffPanel onClose={closeDiffView} />}
+          {isCollaborationPanelOpen && <CollaborationPanel onClose={handleCloseCollaborationPanel} />}
           <NodeInfoPanel />
+          <EdgeInfoPanel />
        </div>
 
       <div className="absolute top-4 left-4 z-20">
@@ -363,12 +553,18 @@ const App: React.FC = () => {
          />
       </div>
 
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-30">
+        <PlaytestPanel />
+      </div>
+
       <AutoSaveIndicator />
+      <CommandPalette />
 
       {/* Render Modals */}
       <InfoModal
         isOpen={isInfoModalOpen}
         onClose={handleCloseInfoModal}
+        onCustomizeShortcuts={handleCustomizeShortcuts}
       />
       <ChangelogModal // <-- Render the new modal
         isOpen={isChangelogModalOpen}
@@ -376,6 +572,19 @@ const App: React.FC = () => {
         changelogContent={changelogContent}
         roadmapUrl={ROADMAP_URL}
       />
+      <VariablesModal
+        isOpen={isVariablesModalOpen}
+        onClose={handleCloseVariablesModal}
+      />
+      <ProjectsModal
+        isOpen={isProjectsModalOpen}
+        onClose={handleCloseProjectsModal}
+        onProjectsChange={handleProjectsChange}
+      />
+      <KeybindingsModal
+        isOpen={isKeybindingsModalOpen}
+        onClose={handleCloseKeybindingsModal}
+      />
       <EditModal
         isOpen={editModalState.isOpen}
         onClose={handleCloseEditModal}
@@ -383,7 +592,8 @@ const App: React.FC = () => {
         onDelete={handleDeleteEntity}
         title={`Edit ${editModalState.entityType}`}
         currentName={editModalState.currentName}
-        currentImage={editModalState.currentImage}
+        currentPortrait={editModalState.currentPortrait}
+        currentExpressions={editModalState.currentExpressions}
         currentAccentColor={editModalState.currentAccentColor}
         entityType={editModalState.entityType}
       />
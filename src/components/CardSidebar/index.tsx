@@ -2,13 +2,14 @@
 import React, { useState, CSSProperties } from 'react';
 import { Plus, Settings, User, Info, Map, Edit, Database, X } from 'lucide-react';
 import { useSidebarData } from '../../store/dialogueStore';
-import { NPC, Conversation } from '../../types';
+import { NPC, Conversation, PortraitRef } from '../../types';
 import Panel from '../ui/Panel';
 import Button from '../ui/Button';
 import IconButton from '../ui/IconButton';
 import Input from '../ui/Input';
 import { cardItemStyles } from '../../styles/commonStyles';
 import { hexToRgba } from '../../utils/colorUtils';
+import usePortraitUrl from '../../hooks/usePortraitUrl';
 
 // Dnd Kit imports
 import {
@@ -38,7 +39,7 @@ interface SortableNpcItemProps {
   npc: NPC;
   isSelected: boolean;
   onSelect: (id: string) => void;
-  onEdit: (id: string, name: string, image?: string, accentColor?: string) => void;
+  onEdit: (id: string, name: string, portrait?: PortraitRef, accentColor?: string) => void;
   isDragging?: boolean;
   isOverlay?: boolean;
 }
@@ -58,6 +59,7 @@ const SortableNpcItem: React.FC<SortableNpcItemProps> = ({
     transition,
     isDragging: hookIsDragging,
   } = useSortable({ id: npc.id });
+  const portraitUrl = usePortraitUrl(npc);
 
   const showLiftedStyle = isCurrentlyDragging || (isOverlay && hookIsDragging);
 
@@ -134,8 +136,8 @@ const SortableNpcItem: React.FC<SortableNpcItemProps> = ({
 
       {/* NPC Avatar/Icon */}
       <div className="absolute left-3 top-1/2 transform -translate-y-1/2 w-8 h-8 rounded-full overflow-hidden bg-gray-700 border border-gray-600 flex items-center justify-center pointer-events-none">
-        {npc.image ? (
-          <img src={npc.image} alt={npc.name} className="w-full h-full object-cover" />
+        {portraitUrl ? (
+          <img src={portraitUrl} alt={npc.name} className="w-full h-full object-cover" />
         ) : (
           <User size={20} className="text-gray-400" />
         )}
@@ -148,7 +150,7 @@ const SortableNpcItem: React.FC<SortableNpcItemProps> = ({
           onClick={(e) => {
             if (!isOverlay) { // Prevent action on overlay
                 e.stopPropagation(); // Prevent triggering the parent button's onClick
-                onEdit(npc.id, npc.name, npc.image, npc.accentColor);
+                onEdit(npc.id, npc.name, { portraitId: npc.portraitId, image: npc.image }, npc.accentColor);
             }
           }}
           title="Edit NPC"
@@ -284,7 +286,7 @@ const SortableDialogueItem: React.FC<SortableDialogueItemProps> = ({
 interface CardSidebarProps {
   onOpenInfoModal: () => void;
   onOpenChangelogModal: () => void;
-  onOpenEditModal: (type: 'NPC' | 'Dialogue', id: string, name: string, image?: string, accentColor?: string) => void;
+  onOpenEditModal: (type: 'NPC' | 'Dialogue', id: string, name: string, portrait?: PortraitRef, accentColor?: string) => void;
   isDataManagementVisible?: boolean;
   onToggleDataManagement?: () => void;
   betweenHeaderAndContent?: React.ReactNode; // For placing DataActions between header and panels
@@ -354,8 +356,8 @@ const CardSidebar: React.FC<CardSidebarProps> = ({
   };
 
   // Handlers to open the edit modal
-  const handleEditNpc = (npcId: string, name: string, image?: string, accentColor?: string) => {
-    onOpenEditModal('NPC', npcId, name, image, accentColor);
+  const handleEditNpc = (npcId: string, name: string, portrait?: PortraitRef, accentColor?: string) => {
+    onOpenEditModal('NPC', npcId, name, portrait, accentColor);
   };
 
   const handleEditConversation = (conversationId: string, name: string) => {
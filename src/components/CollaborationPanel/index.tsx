@@ -0,0 +1,142 @@
+// File: src/components/CollaborationPanel/index.tsx
+
+import React, { useEffect, useState } from 'react';
+import { X, Users, Plug, Unplug } from 'lucide-react';
+import Panel from '../ui/Panel';
+import Button from '../ui/Button';
+import IconButton from '../ui/IconButton';
+import Input from '../ui/Input';
+import { useCollabStore } from '../../store/collabStore';
+import { useDialogueStore } from '../../store/dialogueStore';
+import { CollabSettings, CollabStatus } from '../../types';
+import { findConversation } from '../../utils/conversationUtils';
+import { alertStyles, badgeStyles, typography } from '../../styles/commonStyles';
+
+interface CollaborationPanelProps {
+  onClose: () => void;
+}
+
+const STATUS_BADGES: Record<CollabStatus, { label: string; className: string }> = {
+  connected: { label: 'connected', className: badgeStyles.variants.green },
+  connecting: { label: 'connecting…', className: badgeStyles.variants.yellow },
+  disconnected: { label: 'offline', className: badgeStyles.variants.gray },
+};
+
+/**
+ * Joins a collaboration room through the LAN relay and lists the other writers in it.
+ */
+const CollaborationPanel: React.FC<CollaborationPanelProps> = ({ onClose }) => {
+  const { status, isActive, settings, peers, error, loadSettings, connect, disconnect } = useCollabStore();
+  const npcs = useDialogueStore(state => state.npcs);
+  const [form, setForm] = useState<CollabSettings>(settings);
+
+  useEffect(() => {
+    if (!isActive) loadSettings();
+  }, [isActive, loadSettings]);
+
+  useEffect(() => {
+    setForm(settings);
+  }, [settings]);
+
+  const updateForm = (changes: Partial<CollabSettings>) => setForm(prev => ({ ...prev, ...changes }));
+  const statusBadge = STATUS_BADGES[status];
+
+  const title = (
+    <h3 className="text-lg font-semibold text-gray-300 flex items-center gap-2">
+      <Users size={18} /> Collaborate
+    </h3>
+  );
+
+  const panelActions = (
+    <IconButton icon={<X size={16} />} label="Close Collaboration" onClick={onClose} variant="gray" />
+  );
+
+  return (
+    <Panel title={title} actions={panelActions} width="20rem" scrollable maxHeight="45vh" className="flex flex-col">
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Input
+            sizeVariant="sm"
+            label="Your name"
+            value={form.userName}
+            onChange={(e) => updateForm({ userName: e.target.value })}
+            disabled={isActive}
+            id="collab-user-name"
+          />
+          <Input
+            sizeVariant="sm"
+            label="Relay"
+            value={form.serverUrl}
+            onChange={(e) => updateForm({ serverUrl: e.target.value })}
+            disabled={isActive}
+            placeholder="ws://192.168.1.20:1234"
+            id="collab-server-url"
+          />
+          <Input
+            sizeVariant="sm"
+            label="Room"
+            value={form.room}
+            onChange={(e) => updateForm({ room: e.target.value })}
+            disabled={isActive}
+            id="collab-room"
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          {isActive ? (
+            <Button variant="secondary" size="sm" onClick={disconnect} leftIcon={<Unplug size={14} />}>
+              Leave Room
+            </Button>
+          ) : (
+            <Button variant="primary" size="sm" onClick={() => connect(form)} leftIcon={<Plug size={14} />}>
+              Join Room
+            </Button>
+          )}
+          <span className={`${badgeStyles.base} ${statusBadge.className}`}>{statusBadge.label}</span>
+        </div>
+
+        {!isActive && (
+          <p className={typography.placeholder}>
+            Start the relay on one machine with <code>npm run collab-relay</code>. Joining a room that already has a project replaces yours; a snapshot is taken first.
+          </p>
+        )}
+
+        {isActive && (
+          <div>
+            <h4 className={typography.sectionTitle}>Writers in the Room</h4>
+            {peers.length === 0 ? (
+              <p className={typography.placeholder}>
+                {status === 'connected' ? 'Nobody else is here yet.' : 'Edits are kept and shared once the relay is reachable again.'}
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {peers.map(peer => {
+                  const location = findConversation(npcs, peer.npcId ?? undefined, peer.conversationId ?? undefined);
+                  return (
+                    <li key={peer.clientId} className="flex items-center gap-2 text-sm text-gray-200">
+                      <span className="inline-block w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: peer.color }} />
+                      <span className="flex-1 min-w-0">
+                        <span className="block truncate">{peer.name}</span>
+                        <span className="block text-xs text-gray-400 truncate">
+                          {location ? `${location.npc.name} / ${location.conversation.name}` : 'No dialogue open'}
+                        </span>
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className={`${alertStyles.base} ${alertStyles.variants.error}`}>
+            <p className={alertStyles.message}>{error}</p>
+          </div>
+        )}
+      </div>
+    </Panel>
+  );
+};
+
+export default CollaborationPanel;
@@ -0,0 +1,198 @@
+// File: src/components/CommandPalette/index.tsx
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Hash, MessageSquare, Search, SquareTerminal, User } from 'lucide-react';
+import { useCommandStore, useRegisterCommands } from '../../store/commandStore';
+import { useDialogueStore } from '../../store/dialogueStore';
+import { fuzzyScore } from '../../utils/fuzzyMatch';
+import { EditorCommand, Keybindings, NPC } from '../../types';
+import { typography } from '../../styles/commonStyles';
+
+type PaletteItemKind = 'command' | 'npc' | 'conversation' | 'node';
+
+interface PaletteItem {
+  key: string;
+  kind: PaletteItemKind;
+  title: string;
+  detail?: string;
+  shortcut?: string;
+  score: number;
+  run: () => void;
+}
+
+interface Navigation {
+  selectNpc: (npcId: string) => void;
+  focusNode: (npcId: string, conversationId: string, nodeId?: string) => void;
+}
+
+const MAX_ITEMS = 50;
+// Among equally good matches, commands come first
+const KIND_ORDER: PaletteItemKind[] = ['command', 'npc', 'conversation', 'node'];
+const KIND_ICONS: Record<PaletteItemKind, React.ReactNode> = {
+  command: <SquareTerminal size={14} />,
+  npc: <User size={14} />,
+  conversation: <MessageSquare size={14} />,
+  node: <Hash size={14} />,
+};
+
+const sortItems = (items: PaletteItem[]): PaletteItem[] =>
+  items
+    .sort((a, b) => b.score - a.score || KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind))
+    .slice(0, MAX_ITEMS);
+
+// "#<id>" lists the nodes whose ID starts with it
+const findNodesById = (idQuery: string, npcs: NPC[], { focusNode }: Navigation): PaletteItem[] => {
+  const prefix = idQuery.trim().toLowerCase();
+  return sortItems(npcs.flatMap(npc => npc.conversations.flatMap(conv => conv.nodes
+    .filter(node => node.id.toLowerCase().startsWith(prefix))
+    .map(node => ({
+      key: `node:${conv.id}:${node.id}`,
+      kind: 'node' as const,
+      title: node.data.label,
+      detail: `#${node.id} · ${npc.name} / ${conv.name}`,
+      score: node.id.toLowerCase() === prefix ? 1 : 0,
+      run: () => focusNode(npc.id, conv.id, node.id),
+    })))));
+};
+
+const buildItems = (query: string, commands: EditorCommand[], keybindings: Keybindings, npcs: NPC[], navigation: Navigation): PaletteItem[] => {
+  if (query.startsWith('#')) return findNodesById(query.slice(1), npcs, navigation);
+
+  const items: PaletteItem[] = [];
+  // Scored by the best matching text
+  const add = (item: Omit<PaletteItem, 'score'>, texts: string[]) => {
+    const scores = texts.map(text => fuzzyScore(query, text)).filter((score): score is number => score !== null);
+    if (scores.length > 0) items.push({ ...item, score: Math.max(...scores) });
+  };
+
+  commands.filter(command => command.isAvailable?.() ?? true).forEach(command => add(
+    { key: `command:${command.id}`, kind: 'command', title: command.title, detail: command.category, shortcut: keybindings[command.id]?.[0], run: command.run },
+    [command.title, `${command.category} ${command.title}`, ...(command.keywords ?? [])]
+  ));
+  npcs.forEach(npc => {
+    add({ key: `npc:${npc.id}`, kind: 'npc', title: npc.name, detail: 'NPC', run: () => navigation.selectNpc(npc.id) }, [npc.name]);
+    npc.conversations.forEach(conv => {
+      add(
+        { key: `conversation:${conv.id}`, kind: 'conversation', title: conv.name, detail: npc.name, run: () => navigation.focusNode(npc.id, conv.id) },
+        [conv.name, `${npc.name} ${conv.name}`]
+      );
+      if (!query.trim()) return; // Nodes are listed once something is typed
+      conv.nodes.filter(node => node.type !== 'input').forEach(node => add(
+        { key: `node:${conv.id}:${node.id}`, kind: 'node', title: node.data.label, detail: `${npc.name} / ${conv.name}`, run: () => navigation.focusNode(npc.id, conv.id, node.id) },
+        [node.data.label]
+      ));
+    });
+  });
+  return sortItems(items);
+};
+
+const PaletteDialog: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const commands = useCommandStore(state => state.commands);
+  const keybindings = useCommandStore(state => state.keybindings);
+  const npcs = useDialogueStore(state => state.npcs);
+  const selectNpc = useDialogueStore(state => state.selectNpc);
+  const focusNode = useDialogueStore(state => state.focusNode);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const items = useMemo(
+    () => buildItems(query, commands, keybindings, npcs, { selectNpc, focusNode }),
+    [query, commands, keybindings, npcs, selectNpc, focusNode]
+  );
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runItem = (item: PaletteItem) => {
+    onClose();
+    item.run();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, items.length - 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      if (items[activeIndex]) runItem(items[activeIndex]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/60 z-50 flex justify-center items-start p-4 pt-[15vh] backdrop-blur-sm" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="w-full max-w-xl bg-[var(--color-surface)] rounded-lg shadow-xl border border-[var(--color-border)] overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-3 border-b border-[var(--color-border)]">
+          <Search size={16} className="text-gray-500 flex-shrink-0" />
+          <input
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setActiveIndex(0); }}
+            onKeyDown={handleKeyDown}
+            placeholder="Commands, NPCs, dialogues and nodes (#id jumps to a node)..."
+            aria-label="Search commands and dialogues"
+            className="flex-grow bg-transparent py-3 text-sm text-gray-100 placeholder-gray-500 outline-none"
+            autoFocus
+          />
+        </div>
+        {items.length === 0 ? (
+          <p className={`${typography.placeholder} px-4 py-3`}>No matches.</p>
+        ) : (
+          <ul ref={listRef} role="listbox" className="max-h-[50vh] overflow-y-auto card-scrollbar py-1">
+            {items.map((item, index) => (
+              <li key={item.key} role="option" aria-selected={index === activeIndex}>
+                <button
+                  type="button"
+                  onMouseMove={() => setActiveIndex(index)}
+                  onClick={() => runItem(item)}
+                  className={`w-full flex items-center gap-3 px-3 py-2 text-left text-sm transition-colors ${index === activeIndex ? 'bg-gray-700 text-gray-100' : 'text-gray-300'}`}
+                >
+                  <span className="text-gray-500 flex-shrink-0">{KIND_ICONS[item.kind]}</span>
+                  <span className="truncate">{item.title}</span>
+                  {item.detail && <span className="ml-auto pl-2 text-xs text-gray-500 truncate max-w-[50%]">{item.detail}</span>}
+                  {item.shortcut && <kbd className="flex-shrink-0 px-1.5 py-0.5 rounded border border-gray-600 bg-gray-800 text-[10px] text-gray-400 font-mono">{item.shortcut}</kbd>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+/**
+ * Palette (Ctrl+K by default) that fuzzy-finds registered commands, NPCs, dialogues and nodes.
+ */
+const CommandPalette: React.FC = () => {
+  const isOpen = useCommandStore(state => state.isPaletteOpen);
+  const setPaletteOpen = useCommandStore(state => state.setPaletteOpen);
+
+  // Global, so the palette is always one shortcut away, even from text fields
+  const commands = useMemo((): EditorCommand[] => [{
+    id: 'palette.open',
+    title: 'Command Palette',
+    category: 'Help',
+    isGlobal: true,
+    run: () => setPaletteOpen(!useCommandStore.getState().isPaletteOpen),
+  }], [setPaletteOpen]);
+  useRegisterCommands(commands);
+
+  return isOpen ? <PaletteDialog onClose={() => setPaletteOpen(false)} /> : null;
+};
+
+export default CommandPalette;
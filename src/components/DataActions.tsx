@@ -1,37 +1,85 @@
 // src/components/DataActions.tsx - Updated with new UI components
 import React, { useState, useRef } from 'react';
-import { exportDialogueData, importDialogueData } from '../services/dialogueService';
-import { Download, Upload, AlertTriangle } from 'lucide-react';
+import {
+  exportDialogueBundle,
+  exportDialogueData,
+  importDialogueData,
+  parseDialogueData,
+  readDialogueBundle,
+} from '../services/dialogueService';
+import { extractEmbeddedPortraits } from '../services/portraitService';
+import { Download, Upload, AlertTriangle, Info, GitMerge, GitCompare } from 'lucide-react';
 import Panel from './ui/Panel';
 import Button from './ui/Button';
+import Select from './ui/Select';
+import MergeImportModal from './MergeImportModal';
+import ImportReportModal from './ImportReportModal';
 import { alertStyles } from '../styles/commonStyles';
+import { useDialogueStore } from '../store/dialogueStore';
+import { exportToYarn } from '../utils/yarnExport';
+import { parseYarn } from '../utils/yarnImport';
+import { exportToInk } from '../utils/inkExport';
+import { exportToTwee } from '../utils/tweeExport';
+import { parseTwee } from '../utils/tweeImport';
+import { downloadFile, getDateStamp } from '../utils/fileUtils';
+import { buildImportChanges, buildMergePreview, MergeDecisions, MergePreview } from '../utils/mergeImport';
+import { validateImportData } from '../utils/importValidation';
+import { isZipFile } from '../utils/projectBundle';
+import { DialogueExportData, ImportProblem, PortraitExportMode } from '../types';
 
 interface DataActionsProps {
   onDataImported: () => void;
 }
 
+// What happens with a JSON file once it is read: replace the project, merge it in, or only compare
+type ImportMode = 'replace' | 'merge' | 'compare';
+
+const PORTRAIT_EXPORT_OPTIONS: { value: PortraitExportMode; label: string }[] = [
+  { value: 'none', label: 'Portraits: leave out' },
+  { value: 'embed', label: 'Portraits: embed in JSON' },
+  { value: 'zip', label: 'Portraits: zip bundle' },
+];
+
+// Number of conversion warnings listed in the panel; the rest go to the console
+const MAX_LISTED_WARNINGS = 3;
+
 const DataActions: React.FC<DataActionsProps> = ({ onDataImported }) => {
   const [isExporting, setIsExporting] = useState<boolean>(false);
   const [isImporting, setIsImporting] = useState<boolean>(false);
   const [importError, setImportError] = useState<string | null>(null);
   const [exportError, setExportError] = useState<string | null>(null);
+  const [conversionReport, setConversionReport] = useState<{ message: string; warnings: string[] } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const mergeInputRef = useRef<HTMLInputElement>(null);
+  const compareInputRef = useRef<HTMLInputElement>(null);
+  const yarnInputRef = useRef<HTMLInputElement>(null);
+  const tweeInputRef = useRef<HTMLInputElement>(null);
+  const [portraitExportMode, setPortraitExportMode] = useState<PortraitExportMode>('none');
+  const [inkScope, setInkScope] = useState<string>(''); // NPC id, or '' for the whole project
+  // Problems found in a file; the import continues from the report once the user chooses to
+  const [importReport, setImportReport] = useState<{ fileName: string; content: string; problems: ImportProblem[]; mode: ImportMode } | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<{ fileName: string; data: DialogueExportData; preview: MergePreview } | null>(null);
+  const importConversations = useDialogueStore(state => state.importConversations);
+  const applyImportChanges = useDialogueStore(state => state.applyImportChanges);
+  const openDiffView = useDialogueStore(state => state.openDiffView);
+  const npcOptions = useDialogueStore(state => state.getNpcListForDropdown());
+
+  const resetMessages = () => {
+    setImportError(null);
+    setExportError(null);
+    setConversionReport(null);
+  };
 
   const handleExport = async () => {
     setIsExporting(true);
-    setExportError(null);
-    setImportError(null);
+    resetMessages();
     try {
-      const jsonData = await exportDialogueData();
-      const blob = new Blob([jsonData], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `dialogue-export-${new Date().toISOString().slice(0, 10)}.json`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      if (portraitExportMode === 'zip') {
+        downloadFile(await exportDialogueBundle(), `dialogue-export-${getDateStamp()}.zip`, 'application/zip');
+      } else {
+        const jsonData = await exportDialogueData(portraitExportMode === 'embed');
+        downloadFile(jsonData, `dialogue-export-${getDateStamp()}.json`, 'application/json');
+      }
     } catch (error) {
       console.error('Export failed:', error);
       setExportError('Failed to export data. See console for details.');
@@ -40,24 +88,216 @@ const DataActions: React.FC<DataActionsProps> = ({ onDataImported }) => {
     }
   };
 
-  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
+  const runImport = async (content: string, repair: boolean) => {
     setIsImporting(true);
-    setImportError(null);
-    setExportError(null);
     try {
-      const fileContent = await file.text();
-      const success = await importDialogueData(fileContent);
+      const success = await importDialogueData(content, repair);
       if (success) {
         onDataImported(); // Reload data in App
       } else {
         setImportError('Invalid data format or structure. Please check the JSON file.');
       }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Compares an exported project with ours and opens the merge preview; nothing changes until it is applied
+  const openMergePreview = async (fileName: string, content: string, repair: boolean) => {
+    const parsed = parseDialogueData(content, repair);
+    if (parsed.npcs.length === 0) {
+      setImportError('No NPCs found in this file.');
+      return;
+    }
+    // Merged NPCs should refer to stored portraits like ours do
+    const data = { ...parsed, npcs: await extractEmbeddedPortraits(parsed.npcs) };
+    const { npcs, variables } = useDialogueStore.getState();
+    setPendingMerge({ fileName, data, preview: buildMergePreview(npcs, variables, data) });
+  };
+
+  // Shows what the file would change on the canvas and in the diff panel, without importing anything
+  const openComparison = (fileName: string, content: string, repair: boolean) => {
+    const data = parseDialogueData(content, repair);
+    const { npcs } = useDialogueStore.getState();
+    if (data.npcs.length === 0 && npcs.length === 0) {
+      setImportError('No NPCs found in this file.');
+      return;
+    }
+    openDiffView(fileName, data.npcs);
+  };
+
+  // Checks the file first; problems are listed in the import report instead of failing the import.
+  // Zip bundles store their portraits and continue with the JSON inside.
+  const readImportFile = async (e: React.ChangeEvent<HTMLInputElement>, mode: ImportMode) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    resetMessages();
+    try {
+      const content = isZipFile(file)
+        ? await readDialogueBundle(new Uint8Array(await file.arrayBuffer()))
+        : await file.text();
+      const problems = validateImportData(content);
+      if (problems.length > 0) {
+        setImportReport({ fileName: file.name, content, problems, mode });
+      } else if (mode === 'replace') {
+        await runImport(content, false);
+      } else if (mode === 'merge') {
+        await openMergePreview(file.name, content, false);
+      } else {
+        openComparison(file.name, content, false);
+      }
     } catch (error) {
       console.error('Import failed:', error);
       setImportError('Failed to read or process the file. See console for details.');
+    } finally {
+      e.target.value = ''; // Reset input
+    }
+  };
+
+  const handleReportImport = async (repair: boolean) => {
+    if (!importReport) return;
+    const { fileName, content, mode } = importReport;
+    setImportReport(null);
+    try {
+      if (mode === 'replace') await runImport(content, repair);
+      else if (mode === 'merge') await openMergePreview(fileName, content, repair);
+      else openComparison(fileName, content, repair);
+    } catch (error) {
+      console.error('Import failed:', error);
+      setImportError('Failed to read or process the file. See console for details.');
+    }
+  };
+
+  const handleApplyMerge = (decisions: MergeDecisions) => {
+    if (!pendingMerge) return;
+    const { npcs, variables } = useDialogueStore.getState();
+    // Built from the current state, in case the project changed while the preview was open
+    const preview = buildMergePreview(npcs, variables, pendingMerge.data);
+    const result = buildImportChanges(npcs, variables, preview, decisions);
+    applyImportChanges(result.changes, result.variables, preview.locales);
+    setConversionReport({
+      message: result.changes.length > 0
+        ? `Merged ${result.changes.length} change${result.changes.length === 1 ? '' : 's'} from ${pendingMerge.fileName}.`
+        : `Nothing to merge from ${pendingMerge.fileName}.`,
+      warnings: [],
+    });
+    setPendingMerge(null);
+  };
+
+  const handleYarnExport = () => {
+    resetMessages();
+    try {
+      const { npcs, variables } = useDialogueStore.getState();
+      downloadFile(exportToYarn(npcs, variables), `dialogue-export-${getDateStamp()}.yarn`, 'text/plain');
+    } catch (error) {
+      console.error('Yarn export failed:', error);
+      setExportError('Failed to export Yarn file. See console for details.');
+    }
+  };
+
+  const handleYarnImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsImporting(true);
+    resetMessages();
+    try {
+      const source = await file.text();
+      const { npcs, variables } = useDialogueStore.getState();
+      const defaultNpcName = file.name.replace(/\.yarn(\.txt)?$/i, '') || 'Yarn Import';
+      const result = parseYarn(source, npcs, variables, defaultNpcName);
+      const count = result.npcs.reduce((sum, npc) => sum + npc.conversations.length, 0);
+      if (count === 0) {
+        setImportError('No Yarn nodes found in this file.');
+        return;
+      }
+      importConversations(result.npcs, result.variables);
+      if (result.warnings.length > 0) console.warn('[YarnImport] Warnings:', result.warnings);
+      setConversionReport({
+        message: `Imported ${count} dialogue${count === 1 ? '' : 's'} from ${file.name}.`,
+        warnings: result.warnings,
+      });
+    } catch (error) {
+      console.error('Yarn import failed:', error);
+      setImportError('Failed to read or convert the Yarn file. See console for details.');
+    } finally {
+      setIsImporting(false);
+      e.target.value = ''; // Reset input
+    }
+  };
+
+  const handleInkExport = () => {
+    resetMessages();
+    try {
+      const { npcs, variables } = useDialogueStore.getState();
+      const scopeNpc = npcs.find(npc => npc.id === inkScope);
+      const result = exportToInk(npcs, variables, scopeNpc?.id);
+      const name = scopeNpc ? scopeNpc.name.trim().replace(/[^\w-]+/g, '_') : 'dialogue-export';
+      downloadFile(result.source, `${name}-${getDateStamp()}.ink`, 'text/plain');
+      if (result.warnings.length > 0) console.warn('[InkExport] Warnings:', result.warnings);
+      setConversionReport({
+        message: result.warnings.length > 0
+          ? `Exported ${scopeNpc ? scopeNpc.name : 'all NPCs'} to Ink with ${result.warnings.length} note${result.warnings.length === 1 ? '' : 's'}:`
+          : `Exported ${scopeNpc ? scopeNpc.name : 'all NPCs'} to Ink.`,
+        warnings: result.warnings,
+      });
+    } catch (error) {
+      console.error('Ink export failed:', error);
+      setExportError('Failed to export Ink file. See console for details.');
+    }
+  };
+
+  const handleTweeExport = () => {
+    resetMessages();
+    const { npcs, variables, selectedNpc, selectedConversation } = useDialogueStore.getState();
+    const npc = selectedNpc();
+    const conversation = selectedConversation();
+    if (!npc || !conversation) {
+      setExportError('Select a dialogue to export to Twee.');
+      return;
+    }
+    try {
+      const result = exportToTwee(npcs, variables, npc.id, conversation.id);
+      const name = `${npc.name}-${conversation.name}`.trim().replace(/[^\w-]+/g, '_');
+      downloadFile(result.source, `${name}.twee`, 'text/plain');
+      if (result.warnings.length > 0) {
+        console.warn('[TweeExport] Warnings:', result.warnings);
+        setConversionReport({ message: `Exported "${conversation.name}" to Twee with notes:`, warnings: result.warnings });
+      }
+    } catch (error) {
+      console.error('Twee export failed:', error);
+      setExportError('Failed to export Twee file. See console for details.');
+    }
+  };
+
+  const handleTweeImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsImporting(true);
+    resetMessages();
+    try {
+      const { npcs, variables, selectedNpc } = useDialogueStore.getState();
+      const owner = selectedNpc();
+      if (!owner) {
+        setImportError('Select the NPC that should receive the imported dialogue.');
+        return;
+      }
+      const result = parseTwee(await file.text(), owner, npcs, variables);
+      if (result.conversation.nodes.length <= 1) {
+        setImportError('No passages found in this file.');
+        return;
+      }
+      importConversations([{ ...owner, conversations: [result.conversation] }], result.variables);
+      if (result.warnings.length > 0) console.warn('[TweeImport] Warnings:', result.warnings);
+      setConversionReport({
+        message: `Imported "${result.conversation.name}" into ${owner.name}.`,
+        warnings: result.warnings,
+      });
+    } catch (error) {
+      console.error('Twee import failed:', error);
+      setImportError('Failed to read or convert the Twee file. See console for details.');
     } finally {
       setIsImporting(false);
       e.target.value = ''; // Reset input
@@ -91,10 +331,21 @@ const DataActions: React.FC<DataActionsProps> = ({ onDataImported }) => {
             >
               <div className="text-left flex-grow">
                 <div className="font-medium">Export Data</div>
-                <div className="text-xs opacity-80">Save all dialogues as JSON</div>
+                <div className="text-xs opacity-80">
+                  {portraitExportMode === 'zip' ? 'Save all dialogues and portraits as a zip' : 'Save all dialogues as JSON'}
+                </div>
               </div>
             </Button>
 
+            <Select
+              aria-label="Portraits in the export"
+              sizeVariant="sm"
+              value={portraitExportMode}
+              onChange={(e) => setPortraitExportMode(e.target.value as PortraitExportMode)}
+              options={PORTRAIT_EXPORT_OPTIONS}
+              disabled={isLoading}
+            />
+
             <Button
               variant="secondary"
               fullWidth
@@ -105,21 +356,184 @@ const DataActions: React.FC<DataActionsProps> = ({ onDataImported }) => {
             >
               <div className="text-left flex-grow">
                 <div className="font-medium">Import Data</div>
-                <div className="text-xs opacity-80">Load dialogues from file</div>
+                <div className="text-xs opacity-80">Replace all dialogues with a file</div>
               </div>
             </Button>
             
             <input 
               type="file" 
-              accept=".json" 
-              onChange={handleImport} 
+              accept=".json,.zip" 
+              onChange={(e) => readImportFile(e, 'replace')} 
               disabled={isLoading} 
               className="hidden" 
               ref={fileInputRef}
             />
+
+            <Button
+              variant="secondary"
+              fullWidth
+              leftIcon={<GitMerge size={18} />}
+              onClick={() => mergeInputRef.current?.click()}
+              disabled={isLoading}
+            >
+              <div className="text-left flex-grow">
+                <div className="font-medium">Merge Import</div>
+                <div className="text-xs opacity-80">Preview and pick what to take from a file</div>
+              </div>
+            </Button>
+
+            <input
+              type="file"
+              accept=".json,.zip"
+              onChange={(e) => readImportFile(e, 'merge')}
+              disabled={isLoading}
+              className="hidden"
+              ref={mergeInputRef}
+            />
+
+            <Button
+              variant="secondary"
+              fullWidth
+              leftIcon={<GitCompare size={18} />}
+              onClick={() => compareInputRef.current?.click()}
+              disabled={isLoading}
+            >
+              <div className="text-left flex-grow">
+                <div className="font-medium">Compare with File</div>
+                <div className="text-xs opacity-80">Show what a file changes, without importing</div>
+              </div>
+            </Button>
+
+            <input
+              type="file"
+              accept=".json,.zip"
+              onChange={(e) => readImportFile(e, 'compare')}
+              disabled={isLoading}
+              className="hidden"
+              ref={compareInputRef}
+            />
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wide">
+            Yarn Spinner
+          </h4>
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              leftIcon={<Download size={14} />}
+              onClick={handleYarnExport}
+              disabled={isLoading}
+            >
+              Export .yarn
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              leftIcon={<Upload size={14} />}
+              onClick={() => yarnInputRef.current?.click()}
+              disabled={isLoading}
+            >
+              Import .yarn
+            </Button>
+          </div>
+          <input
+            type="file"
+            accept=".yarn,.txt"
+            onChange={handleYarnImport}
+            disabled={isLoading}
+            className="hidden"
+            ref={yarnInputRef}
+          />
+        </div>
+
+        <div>
+          <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wide">
+            Twine (Twee 3)
+          </h4>
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              leftIcon={<Download size={14} />}
+              onClick={handleTweeExport}
+              disabled={isLoading}
+              title="Export the selected dialogue"
+            >
+              Export .twee
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              leftIcon={<Upload size={14} />}
+              onClick={() => tweeInputRef.current?.click()}
+              disabled={isLoading}
+              title="Import as a new dialogue of the selected NPC"
+            >
+              Import .twee
+            </Button>
+          </div>
+          <input
+            type="file"
+            accept=".twee,.tw,.txt"
+            onChange={handleTweeImport}
+            disabled={isLoading}
+            className="hidden"
+            ref={tweeInputRef}
+          />
+        </div>
+
+        <div>
+          <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wide">
+            Ink
+          </h4>
+          <div className="flex gap-2 items-center">
+            <Select
+              aria-label="Ink export scope"
+              sizeVariant="sm"
+              value={inkScope}
+              onChange={(e) => setInkScope(e.target.value)}
+              options={[{ value: '', label: 'Whole project' }, ...npcOptions]}
+              disabled={isLoading}
+            />
+            <Button
+              variant="secondary"
+              size="sm"
+              leftIcon={<Download size={14} />}
+              onClick={handleInkExport}
+              disabled={isLoading}
+              className="flex-shrink-0"
+            >
+              Export .ink
+            </Button>
           </div>
         </div>
 
+        {conversionReport && (
+          <div className={`${alertStyles.base} ${conversionReport.warnings.length > 0 ? alertStyles.variants.warning : alertStyles.variants.info}`}>
+            <div className="flex items-start">
+              {conversionReport.warnings.length > 0
+                ? <AlertTriangle size={16} className="flex-shrink-0 mr-2 text-yellow-500" />
+                : <Info size={16} className="flex-shrink-0 mr-2 text-blue-400" />}
+              <div className="text-sm">
+                <div>{conversionReport.message}</div>
+                {conversionReport.warnings.length > 0 && (
+                  <ul className="mt-1 text-xs list-disc pl-4 space-y-0.5">
+                    {conversionReport.warnings.slice(0, MAX_LISTED_WARNINGS).map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                    {conversionReport.warnings.length > MAX_LISTED_WARNINGS && (
+                      <li>{`…and ${conversionReport.warnings.length - MAX_LISTED_WARNINGS} more (see console)`}</li>
+                    )}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
         {(importError || exportError) && (
           <div className={alertStyles.variants.error}>
             <div className="flex items-start">
@@ -129,6 +543,24 @@ const DataActions: React.FC<DataActionsProps> = ({ onDataImported }) => {
           </div>
         )}
       </div>
+
+      {importReport && (
+        <ImportReportModal
+          fileName={importReport.fileName}
+          problems={importReport.problems}
+          onImport={handleReportImport}
+          onClose={() => setImportReport(null)}
+        />
+      )}
+
+      {pendingMerge && (
+        <MergeImportModal
+          fileName={pendingMerge.fileName}
+          preview={pendingMerge.preview}
+          onApply={handleApplyMerge}
+          onClose={() => setPendingMerge(null)}
+        />
+      )}
     </Panel>
   );
 };
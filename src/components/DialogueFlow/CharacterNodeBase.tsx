@@ -5,6 +5,7 @@ import { Handle, Position, NodeProps } from 'reactflow';
 import { User } from 'lucide-react';
 import { DialogueNodeData } from '../../types';
 import MarkdownRenderer from '../Markdown/MarkdownRenderer';
+import NodeActionsSummary from './NodeActionsSummary';
 import { hexToRgba } from '../../utils/colorUtils'; // Removed isColorLight import as it's no longer needed for text
 import { colors, typography } from '../../styles/commonStyles'; // Import common styles
 
@@ -45,7 +46,8 @@ const nodeTitleNameClasses = `
 interface CharacterNodeBaseProps extends NodeProps<DialogueNodeData> {
   nodeType: 'user' | 'npc';
   characterName?: string;
-  characterImage?: string;
+  characterImage?: string; // Portrait of the node's expression, if it has one
+  expressionName?: string;
   accentColor?: string;
 }
 
@@ -57,6 +59,7 @@ const CharacterNodeBase: React.FC<CharacterNodeBaseProps> = ({
   nodeType,
   characterName,
   characterImage,
+  expressionName,
   accentColor,
   // selected, // React Flow adds .selected class to the wrapper automatically
 }) => {
@@ -115,7 +118,7 @@ const CharacterNodeBase: React.FC<CharacterNodeBaseProps> = ({
       ) : characterImage ? (
          <img
            src={characterImage}
-           alt={characterName || 'NPC'}
+           alt={expressionName ? `${characterName || 'NPC'} (${expressionName})` : characterName || 'NPC'}
            className="w-full h-full object-cover"
          />
       ) : (
@@ -147,6 +150,7 @@ const CharacterNodeBase: React.FC<CharacterNodeBaseProps> = ({
             {/* headerTextColorClass is now always white, but the CSS variable --npc-contrast-color
                 set above and used in index.css will take precedence due to !important */}
             {titleLabelText}
+            {expressionName && <span className="font-normal opacity-75"> · {expressionName}</span>}
           </div>
           <div className={`${nodeTitleNameClasses} ${headerTextColorClass}`}>
             {data.label || defaultNodeName}
@@ -163,6 +167,9 @@ const CharacterNodeBase: React.FC<CharacterNodeBaseProps> = ({
         )}
       </div>
 
+      {/* Side-effects summary */}
+      <NodeActionsSummary actions={data.actions} />
+
       {/* Handles - Rely on global CSS styles in index.css */}
       <Handle
         type="target"
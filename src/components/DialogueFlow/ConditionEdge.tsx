@@ -0,0 +1,65 @@
+// File: src/components/DialogueFlow/ConditionEdge.tsx
+
+import React, { memo } from 'react';
+import { BaseEdge, EdgeLabelRenderer, EdgeProps, getBezierPath } from 'reactflow';
+import { Filter, AlertTriangle } from 'lucide-react';
+import { DialogueEdgeData } from '../../types';
+import { useDialogueStore } from '../../store/dialogueStore';
+import { validateCondition } from '../../utils/conditionUtils';
+
+/**
+ * Default edge for dialogue graphs.
+ * Draws the standard bezier path and, when the edge carries a condition,
+ * a badge with the expression at the middle of the path.
+ */
+const ConditionEdgeComponent: React.FC<EdgeProps<DialogueEdgeData>> = ({
+  id,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  style,
+  markerEnd,
+  selected,
+  data,
+}) => {
+  const variables = useDialogueStore(state => state.variables);
+
+  const [edgePath, labelX, labelY] = getBezierPath({
+    sourceX,
+    sourceY,
+    sourcePosition,
+    targetX,
+    targetY,
+    targetPosition,
+  });
+
+  const condition = data?.condition;
+  const error = condition ? validateCondition(condition, variables) : null;
+
+  const badgeClasses = error
+    ? 'bg-red-900/80 border-red-700 text-red-200'
+    : 'bg-gray-900/90 border-gray-600 text-gray-200';
+
+  return (
+    <>
+      <BaseEdge id={id} path={edgePath} style={style} markerEnd={markerEnd} />
+      {condition && (
+        <EdgeLabelRenderer>
+          <div
+            className={`condition-edge-badge absolute flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-mono shadow-md max-w-[200px] pointer-events-none ${badgeClasses} ${selected ? 'ring-1 ring-gray-400' : ''}`}
+            style={{ transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)` }}
+            title={error ? `${condition} (${error})` : condition}
+          >
+            {error ? <AlertTriangle size={10} className="flex-shrink-0" /> : <Filter size={10} className="flex-shrink-0" />}
+            <span className="truncate">{condition}</span>
+          </div>
+        </EdgeLabelRenderer>
+      )}
+    </>
+  );
+};
+
+export default memo(ConditionEdgeComponent);
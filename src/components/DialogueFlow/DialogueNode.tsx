@@ -5,6 +5,7 @@ import { Handle, Position, NodeProps } from 'reactflow';
 import { DialogueNodeData } from '../../types';
 import { colors } from '../../styles/commonStyles'; // Import common styles
 import MarkdownRenderer from '../Markdown/MarkdownRenderer'; // Import MarkdownRenderer
+import NodeActionsSummary from './NodeActionsSummary';
 
 interface DialogueNodeComponentProps extends NodeProps<DialogueNodeData> {}
 
@@ -76,6 +77,7 @@ const DialogueNodeComponent: React.FC<DialogueNodeComponentProps> = ({
                 </div>
             )}
           </div>
+          <NodeActionsSummary actions={data.actions} />
           {/* Source Handle */}
           <Handle
             type="source"
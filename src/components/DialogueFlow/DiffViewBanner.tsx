@@ -0,0 +1,50 @@
+// File: src/components/DialogueFlow/DiffViewBanner.tsx
+
+import React from 'react';
+import { GitCompare, X } from 'lucide-react';
+import Button from '../ui/Button';
+import { useDialogueStore } from '../../store/dialogueStore';
+import { DiffView } from '../../types';
+import { findConversation } from '../../utils/conversationUtils';
+
+interface DiffViewBannerProps {
+  diffView: DiffView;
+}
+
+const LEGEND = [
+  { label: 'Added', color: 'bg-green-500' },
+  { label: 'Removed', color: 'bg-red-500' },
+  { label: 'Modified', color: 'bg-amber-500' },
+];
+
+/**
+ * Shown on top of the canvas while the project is compared with a file (read-only).
+ */
+const DiffViewBanner: React.FC<DiffViewBannerProps> = ({ diffView }) => {
+  const closeDiffView = useDialogueStore(state => state.closeDiffView);
+  const npcs = useDialogueStore(state => state.npcs);
+  const match = findConversation(diffView.npcs, diffView.npcId, diffView.conversationId)
+    ?? findConversation(npcs, diffView.npcId, diffView.conversationId);
+
+  return (
+    <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 bg-sky-950/90 text-sky-100 px-4 py-2 rounded-md shadow-md border border-sky-800">
+      <GitCompare size={16} className="flex-shrink-0" />
+      <div className="text-sm">
+        <div className="font-medium">Comparing: {match ? `${match.npc.name} / ${match.conversation.name}` : 'Dialogue'}</div>
+        <div className="text-xs text-sky-300 flex items-center gap-3">
+          <span className="truncate max-w-[12rem]" title={diffView.fileName}>{diffView.fileName}</span>
+          {LEGEND.map(item => (
+            <span key={item.label} className="flex items-center gap-1">
+              <span className={`inline-block w-2 h-2 rounded-full ${item.color}`} /> {item.label}
+            </span>
+          ))}
+        </div>
+      </div>
+      <Button variant="secondary" size="sm" leftIcon={<X size={14} />} onClick={closeDiffView}>
+        Exit Comparison
+      </Button>
+    </div>
+  );
+};
+
+export default DiffViewBanner;
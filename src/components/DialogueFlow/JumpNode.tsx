@@ -7,6 +7,7 @@ import { ArrowRightCircle, AlertTriangle } from 'lucide-react';
 import { DialogueNodeData } from '../../types';
 import { useDialogueStore } from '../../store/dialogueStore';
 import Button from '../ui/Button';
+import NodeActionsSummary from './NodeActionsSummary';
 import { colors, typography } from '../../styles/commonStyles';
 
 interface JumpNodeProps extends NodeProps<DialogueNodeData> {}
@@ -18,7 +19,7 @@ const JumpNodeComponent: React.FC<JumpNodeProps> = ({
   sourcePosition = Position.Right,
   targetPosition = Position.Left,
 }) => {
-  const { targetNpcId, targetConversationId, label } = data;
+  const { targetNpcId, targetConversationId, label, actions } = data;
 
   const jumpToConversation = useDialogueStore((state) => state.jumpToConversation);
   // Use getState for synchronous access to avoid extra re-renders from selector
@@ -95,6 +96,13 @@ const JumpNodeComponent: React.FC<JumpNodeProps> = ({
         Go to Dialogue
       </Button>
 
+      {/* Side-effects summary (runs before the jump) */}
+      {actions && actions.length > 0 && (
+        <div className="-mx-3 -mb-3 rounded-b-lg overflow-hidden">
+          <NodeActionsSummary actions={actions} />
+        </div>
+      )}
+
       {/* Source Handle */}
       <Handle
         type="source"
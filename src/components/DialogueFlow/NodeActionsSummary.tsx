@@ -0,0 +1,39 @@
+// File: src/components/DialogueFlow/NodeActionsSummary.tsx
+
+import React, { memo } from 'react';
+import { Zap, Variable } from 'lucide-react';
+import { DialogueNodeAction } from '../../types';
+import { formatAction } from '../../utils/actionUtils';
+
+interface NodeActionsSummaryProps {
+  actions?: DialogueNodeAction[];
+  maxVisible?: number;
+}
+
+/**
+ * Compact, read-only list of a node's side-effects shown at the bottom of the node card.
+ */
+const NodeActionsSummary: React.FC<NodeActionsSummaryProps> = ({ actions, maxVisible = 3 }) => {
+  if (!actions || actions.length === 0) return null;
+
+  const visible = actions.slice(0, maxVisible);
+  const hiddenCount = actions.length - visible.length;
+
+  return (
+    <div className="node-actions-summary px-3 py-1.5 border-t border-[var(--color-border)] bg-black/20 space-y-0.5">
+      {visible.map((action, index) => (
+        <div key={index} className="flex items-center gap-1.5 text-[11px] font-mono text-gray-300 truncate" title={formatAction(action)}>
+          {action.type === 'event'
+            ? <Zap size={10} className="flex-shrink-0 text-yellow-400" />
+            : <Variable size={10} className="flex-shrink-0 text-blue-400" />}
+          <span className="truncate">{formatAction(action)}</span>
+        </div>
+      ))}
+      {hiddenCount > 0 && (
+        <div className="text-[11px] text-gray-500">+{hiddenCount} more</div>
+      )}
+    </div>
+  );
+};
+
+export default memo(NodeActionsSummary);
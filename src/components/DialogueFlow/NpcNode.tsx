@@ -5,6 +5,8 @@ import CharacterNodeBase from './CharacterNodeBase'; // Import the base componen
 import { DialogueNodeData } from '../../types';
 // --- MODIFIED: Import full store to get all NPCs ---
 import { useDialogueStore } from '../../store/dialogueStore'; // Hook to get selected NPC info
+import usePortraitUrl from '../../hooks/usePortraitUrl';
+import { getExpressionPortrait } from '../../utils/portraitUtils';
 
 interface NpcNodeProps extends NodeProps<DialogueNodeData> {}
 
@@ -22,7 +24,7 @@ const NpcNodeComponent: React.FC<NpcNodeProps> = (props) => {
 
   // --- Determine name, image, and color from the associated NPC ---
   const characterName = associatedNpc?.name;
-  const characterImage = associatedNpc?.image;
+  const characterImage = usePortraitUrl(getExpressionPortrait(associatedNpc, props.data.expression));
   const accentColor = associatedNpc?.accentColor; // Pass the accent color to the base component
 
   // --- Handle case where NPC might not be found (e.g., deleted) ---
@@ -38,6 +40,7 @@ const NpcNodeComponent: React.FC<NpcNodeProps> = (props) => {
       // --- Pass the data of the *associated* NPC ---
       characterName={characterName || 'Unknown NPC'} // Fallback name if NPC not found
       characterImage={characterImage}
+      expressionName={props.data.expression}
       accentColor={accentColor} // Pass the accent color to the base component
     />
   );
@@ -0,0 +1,45 @@
+// File: src/components/DialogueFlow/PasteSpeakerBanner.tsx
+
+import React from 'react';
+import { ClipboardPaste, X } from 'lucide-react';
+import Button from '../ui/Button';
+import { useDialogueStore } from '../../store/dialogueStore';
+import { PendingPaste } from '../../hooks/useNodeClipboard';
+
+interface PasteSpeakerBannerProps {
+  pendingPaste: PendingPaste;
+  onResolve: (reassignSpeaker: boolean) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks who speaks the NPC lines of nodes pasted from another NPC's dialogue.
+ */
+const PasteSpeakerBanner: React.FC<PasteSpeakerBannerProps> = ({ pendingPaste, onResolve, onCancel }) => {
+  const npcs = useDialogueStore(state => state.npcs);
+  const selectedNpcId = useDialogueStore(state => state.selectedNpcId);
+  const sourceName = npcs.find(npc => npc.id === pendingPaste.clipboard.sourceNpcId)?.name; // Unknown when copied from another project
+  const targetName = npcs.find(npc => npc.id === selectedNpcId)?.name ?? 'this NPC';
+  const count = pendingPaste.clipboard.nodes.length;
+
+  return (
+    <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 bg-sky-950/90 text-sky-100 px-4 py-2 rounded-md shadow-md border border-sky-800">
+      <ClipboardPaste size={16} className="flex-shrink-0" />
+      <div className="text-sm">
+        <div className="font-medium">Paste {count} node{count === 1 ? '' : 's'}</div>
+        <div className="text-xs text-sky-300">Some lines are spoken by {sourceName ?? 'an NPC of another project'}.</div>
+      </div>
+      <Button variant="secondary" size="sm" onClick={() => onResolve(true)}>
+        Speak as {targetName}
+      </Button>
+      <Button variant="secondary" size="sm" onClick={() => onResolve(false)}>
+        {sourceName ? `Keep ${sourceName}` : 'Keep Speaker'}
+      </Button>
+      <Button variant="ghost" size="sm" leftIcon={<X size={14} />} onClick={onCancel}>
+        Cancel
+      </Button>
+    </div>
+  );
+};
+
+export default PasteSpeakerBanner;
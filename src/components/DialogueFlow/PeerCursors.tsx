@@ -0,0 +1,37 @@
+// File: src/components/DialogueFlow/PeerCursors.tsx
+
+import React from 'react';
+import { useViewport } from 'reactflow';
+import { MousePointer2 } from 'lucide-react';
+import { PeerPresence } from '../../types';
+
+interface PeerCursorsProps {
+  peers: PeerPresence[];
+}
+
+/**
+ * Mouse pointers of the other writers on this dialogue. Their positions are in flow coordinates,
+ * so they stay on the same spot of the graph whatever each writer's zoom and pan.
+ */
+const PeerCursors: React.FC<PeerCursorsProps> = ({ peers }) => {
+  const { x, y, zoom } = useViewport();
+
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden z-10">
+      {peers.map(peer => peer.cursor && (
+        <div
+          key={peer.clientId}
+          className="absolute top-0 left-0 flex items-start transition-transform duration-75 ease-linear"
+          style={{ transform: `translate(${peer.cursor.x * zoom + x}px, ${peer.cursor.y * zoom + y}px)` }}
+        >
+          <MousePointer2 size={18} style={{ color: peer.color, fill: peer.color }} />
+          <span className="mt-4 px-1.5 py-0.5 rounded text-xs text-white whitespace-nowrap shadow" style={{ backgroundColor: peer.color }}>
+            {peer.name}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PeerCursors;
@@ -0,0 +1,45 @@
+// File: src/components/DialogueFlow/SnapshotPreviewBanner.tsx
+
+import React from 'react';
+import { Eye, RotateCcw, X } from 'lucide-react';
+import Button from '../ui/Button';
+import { useDialogueStore } from '../../store/dialogueStore';
+import { SnapshotPreview } from '../../types';
+import { findConversation } from '../../utils/conversationUtils';
+import { formatSnapshotTitle } from '../../utils/snapshotUtils';
+
+interface SnapshotPreviewBannerProps {
+  preview: SnapshotPreview;
+}
+
+/**
+ * Shown on top of the canvas while a snapshot conversation is previewed (read-only).
+ */
+const SnapshotPreviewBanner: React.FC<SnapshotPreviewBannerProps> = ({ preview }) => {
+  const restoreConversationFromSnapshot = useDialogueStore(state => state.restoreConversationFromSnapshot);
+  const closeSnapshotPreview = useDialogueStore(state => state.closeSnapshotPreview);
+  const match = findConversation(preview.snapshot.npcs, preview.npcId, preview.conversationId);
+
+  return (
+    <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 bg-sky-950/90 text-sky-100 px-4 py-2 rounded-md shadow-md border border-sky-800">
+      <Eye size={16} className="flex-shrink-0" />
+      <div className="text-sm">
+        <div className="font-medium">Read-only preview: {match ? `${match.npc.name} / ${match.conversation.name}` : 'Snapshot'}</div>
+        <div className="text-xs text-sky-300">{formatSnapshotTitle(preview.snapshot)}</div>
+      </div>
+      <Button
+        variant="secondary"
+        size="sm"
+        leftIcon={<RotateCcw size={14} />}
+        onClick={() => restoreConversationFromSnapshot(preview.snapshot, preview.conversationId)}
+      >
+        Restore Dialogue
+      </Button>
+      <Button variant="secondary" size="sm" leftIcon={<X size={14} />} onClick={closeSnapshotPreview}>
+        Exit Preview
+      </Button>
+    </div>
+  );
+};
+
+export default SnapshotPreviewBanner;
@@ -0,0 +1,62 @@
+// File: src/components/DialogueFlow/TabStatusBanner.tsx
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Download, Lock, PenLine, Upload } from 'lucide-react';
+import Button from '../ui/Button';
+import { useDialogueStore } from '../../store/dialogueStore';
+import { requestWriteAccess } from '../../services/tabSync';
+
+/**
+ * Shown on top of the canvas while the project is open in another tab that does the editing,
+ * or when another tab saved over this one's unsaved changes.
+ */
+const TabStatusBanner: React.FC = () => {
+  const isWriterTab = useDialogueStore(state => state.isWriterTab);
+  const hasExternalChange = useDialogueStore(state => state.hasExternalChange);
+  const resolveExternalChange = useDialogueStore(state => state.resolveExternalChange);
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  useEffect(() => {
+    setIsRequesting(false);
+  }, [isWriterTab]);
+
+  if (hasExternalChange) {
+    return (
+      <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 bg-amber-950/90 text-amber-100 px-4 py-2 rounded-md shadow-md border border-amber-800">
+        <AlertTriangle size={16} className="flex-shrink-0" />
+        <div className="text-sm">
+          <div className="font-medium">The project was changed in another tab</div>
+          <div className="text-xs text-amber-300">Saving is paused. Loading theirs keeps yours as a snapshot.</div>
+        </div>
+        <Button variant="secondary" size="sm" leftIcon={<Download size={14} />} onClick={() => resolveExternalChange('theirs')}>
+          Load Their Version
+        </Button>
+        <Button variant="secondary" size="sm" leftIcon={<Upload size={14} />} onClick={() => resolveExternalChange('mine')}>
+          Keep Mine
+        </Button>
+      </div>
+    );
+  }
+
+  if (isWriterTab) return null;
+
+  const handleEditHere = () => {
+    setIsRequesting(true);
+    requestWriteAccess();
+  };
+
+  return (
+    <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 bg-sky-950/90 text-sky-100 px-4 py-2 rounded-md shadow-md border border-sky-800">
+      <Lock size={16} className="flex-shrink-0" />
+      <div className="text-sm">
+        <div className="font-medium">Read-only: the project is open in another tab</div>
+        <div className="text-xs text-sky-300">Changes made there show up here as they are saved.</div>
+      </div>
+      <Button variant="secondary" size="sm" leftIcon={<PenLine size={14} />} onClick={handleEditHere} disabled={isRequesting}>
+        {isRequesting ? 'Switching…' : 'Edit Here'}
+      </Button>
+    </div>
+  );
+};
+
+export default TabStatusBanner;
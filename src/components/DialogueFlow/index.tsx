@@ -1,12 +1,13 @@
 // File: src/components/DialogueFlow/index.tsx
 // *** MODIFIED ***
-import React, { useEffect, memo, useCallback, useRef, useState } from 'react';
+import React, { useEffect, memo, useCallback, useRef, useState, useMemo } from 'react';
 import ReactFlow, {
   MiniMap,
   Controls,
   Background,
   useReactFlow,
   NodeTypes,
+  EdgeTypes,
   OnConnectStart,
   OnConnectEnd,
   BackgroundVariant,
@@ -18,10 +19,26 @@ import DialogueNode from './DialogueNode'; // Standard/Input node
 import UserNode from './UserNode';     // User node wrapper
 import NpcNode from './NpcNode';       // NPC node wrapper
 import JumpNode from './JumpNode';     // Jump node wrapper // *** ADDED IMPORT ***
+import ConditionEdge from './ConditionEdge'; // Edge with condition badge
+import SnapshotPreviewBanner from './SnapshotPreviewBanner';
+import DiffViewBanner from './DiffViewBanner';
+import TabStatusBanner from './TabStatusBanner';
+import PeerCursors from './PeerCursors';
+import PasteSpeakerBanner from './PasteSpeakerBanner';
 import { ToolType, DraggableNodeType } from '../Toolbar'; // Import DraggableNodeType
 
 import { useFlowData, useDialogueStore, createDialogueNode } from '../../store/dialogueStore';
-import { DialogueNode as DialogueNodeType, DialogueEdge } from '../../types';
+import { useRegisterCommands } from '../../store/commandStore';
+import { usePlaytestHighlightNodeId } from '../../store/playtestStore';
+import { usePeersOnConversation } from '../../store/collabStore';
+import { updateLocalCursor } from '../../services/collabService';
+import useNodeClipboard from '../../hooks/useNodeClipboard';
+import useNavigationHistory from '../../hooks/useNavigationHistory';
+import { DialogueNode as DialogueNodeType, DialogueEdge, EditorCommand } from '../../types';
+import IdManager from '../../utils/IdManager';
+import { findAdjacentNode, findConversation, NodeStep } from '../../utils/conversationUtils';
+import { buildDiffGraph, diffConversation } from '../../utils/diffUtils';
+import { getLocalizedValue, getTranslatableFields, getTranslationStatus } from '../../utils/localization';
 
 // Define nodeTypes mapping string identifiers to the component implementations
 const nodeTypes: NodeTypes = {
@@ -32,6 +49,11 @@ const nodeTypes: NodeTypes = {
   jump: JumpNode,       // Jump nodes // *** ADDED JUMP TYPE ***
 };
 
+// Override the default edge so every edge can show its condition badge
+const edgeTypes: EdgeTypes = {
+  default: ConditionEdge,
+};
+
 // Ref type to store information about the node/handle the connection started from
 interface ConnectingNodeRef {
   nodeId: string;
@@ -58,14 +80,88 @@ const DialogueFlow: React.FC<DialogueFlowProps> = memo(({
     onConnect,
     setNodes,
     setEdges,
+    deleteSelection,
+    isReadOnly, // A snapshot is previewed or a file compared
   } = useFlowData();
 
+  // While comparing with a file, show the conversation diff instead of the stored nodes and edges
+  const diffView = useDialogueStore(state => state.diffView);
+  const projectNpcs = useDialogueStore(state => state.npcs);
+  const diffGraph = useMemo(() => {
+    if (!diffView) return null;
+    const before = findConversation(projectNpcs, diffView.npcId, diffView.conversationId)?.conversation;
+    const after = findConversation(diffView.npcs, diffView.npcId, diffView.conversationId)?.conversation;
+    return before || after ? buildDiffGraph(diffConversation(diffView.npcId, before, after)) : null;
+  }, [diffView, projectNpcs]);
+  const flowNodes = diffGraph?.nodes ?? nodes;
+  const flowEdges = diffGraph?.edges ?? edges;
+
+  // Mark the node the playtest is on without touching the stored nodes
+  const playtestNodeId = usePlaytestHighlightNodeId();
+  const localization = useDialogueStore(state => state.localization);
+  const activeLocale = useDialogueStore(state => state.activeLocale);
+
+  // In a target locale the canvas shows translations, falling back to (and flagging) the source text
+  const localizedNodes = useMemo(() => {
+    if (activeLocale === localization.sourceLocale) return flowNodes;
+    return flowNodes.map(node => {
+      const fields = getTranslatableFields(node);
+      if (fields.length === 0) return node;
+      const isIncomplete = fields.some(({ field }) => getTranslationStatus(node, field, activeLocale) !== 'translated');
+      return {
+        ...node,
+        className: isIncomplete ? [node.className, 'translation-missing'].filter(Boolean).join(' ') : node.className,
+        data: {
+          ...node.data,
+          label: getLocalizedValue(node, 'label', activeLocale, localization),
+          text: getLocalizedValue(node, 'text', activeLocale, localization),
+        },
+      };
+    });
+  }, [flowNodes, activeLocale, localization]);
+
+  const highlightedNodes = useMemo(() => {
+    if (!playtestNodeId) return localizedNodes;
+    return localizedNodes.map(node => node.id === playtestNodeId
+      ? { ...node, className: [node.className, 'playtest-active'].filter(Boolean).join(' ') }
+      : node);
+  }, [localizedNodes, playtestNodeId]);
+
+  // Read-only views can't change the stored selection; the navigation commands move this one instead
+  const [viewSelectedNodeId, setViewSelectedNodeId] = useState<string | null>(null);
+  const viewSelectedNodes = useMemo(() => {
+    if (!isReadOnly || !viewSelectedNodeId) return highlightedNodes;
+    return highlightedNodes.map(node => (node.id === viewSelectedNodeId ? { ...node, selected: true } : node));
+  }, [highlightedNodes, isReadOnly, viewSelectedNodeId]);
+
+  // Other writers on this dialogue: their cursors, and their selections outlined in their color
+  const selectedConversationId = useDialogueStore(state => state.selectedConversationId);
+  const peers = usePeersOnConversation(isReadOnly ? null : selectedConversationId);
+  const displayNodes = useMemo(() => {
+    const peerByNodeId = new Map(peers.flatMap(peer => peer.selectedNodeIds.map(nodeId => [nodeId, peer] as const)));
+    if (peerByNodeId.size === 0) return viewSelectedNodes;
+    return viewSelectedNodes.map(node => {
+      const peer = peerByNodeId.get(node.id);
+      return peer
+        ? {
+            ...node,
+            className: [node.className, 'peer-selected'].filter(Boolean).join(' '),
+            style: { ...node.style, '--peer-color': peer.color } as React.CSSProperties,
+          }
+        : node;
+    });
+  }, [viewSelectedNodes, peers]);
+
   const [showStartNodeProtection] = useState(false); // State for protection message (currently unused visually)
   const reactFlowInstance = useReactFlow<DialogueNodeType, DialogueEdge>();
   const connectingNode = useRef<ConnectingNodeRef | null>(null);
   const reactFlowWrapper = useRef<HTMLDivElement>(null); // Ref for the wrapper div
 
   const selectedNpcId = useDialogueStore(state => state.selectedNpcId);
+  const focusRequest = useDialogueStore(state => state.focusRequest);
+  const clearFocusRequest = useDialogueStore(state => state.clearFocusRequest);
+  const snapshotPreview = useDialogueStore(state => state.snapshotPreview);
+  const showTabBanner = useDialogueStore(state => !state.isWriterTab || state.hasExternalChange);
 
   // Function to trigger fitView, passed from parent via onFitViewInitialized
   const handleFitView = useCallback(() => {
@@ -79,6 +175,56 @@ const DialogueFlow: React.FC<DialogueFlowProps> = memo(({
     }
   }, [handleFitView, onFitViewInitialized, reactFlowInstance]);
 
+  // Pan to a node requested from outside the canvas (e.g. the validation panel).
+  // Waits until the node is part of the rendered conversation, then gives React Flow a moment to measure it.
+  useEffect(() => {
+    if (!focusRequest || !nodes.some(node => node.id === focusRequest.nodeId)) return;
+    const timer = setTimeout(() => {
+      reactFlowInstance.fitView({ nodes: [{ id: focusRequest.nodeId }], padding: 0.6, maxZoom: 1.2, duration: 400 });
+      clearFocusRequest();
+    }, 50);
+    return () => clearTimeout(timer);
+  }, [focusRequest, nodes, reactFlowInstance, clearFocusRequest]);
+
+  // Frame the previewed snapshot or compared conversation, and the live one again when the preview ends
+  const previewKey = snapshotPreview
+    ? `${snapshotPreview.snapshot.id}:${snapshotPreview.conversationId}`
+    : diffView && `diff:${diffView.npcId}:${diffView.conversationId}`;
+  const hasPreviewedRef = useRef(false);
+  useEffect(() => {
+    if (!previewKey && !hasPreviewedRef.current) return;
+    hasPreviewedRef.current = true;
+    const timer = setTimeout(handleFitView, 50);
+    return () => clearTimeout(timer);
+  }, [previewKey, handleFitView]);
+
+  // Last pointer position over the canvas (screen coordinates), where pasted nodes go
+  const pointerRef = useRef<XYPosition | null>(null);
+
+  const onMouseMove = useCallback((event: React.MouseEvent) => {
+    pointerRef.current = { x: event.clientX, y: event.clientY };
+    updateLocalCursor(reactFlowInstance.screenToFlowPosition(pointerRef.current));
+  }, [reactFlowInstance]);
+
+  const onMouseLeave = useCallback(() => {
+    pointerRef.current = null;
+    updateLocalCursor(null);
+  }, []);
+
+  const getPastePosition = useCallback((): XYPosition => {
+    const bounds = reactFlowWrapper.current?.getBoundingClientRect();
+    const center = bounds ? { x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 } : { x: 0, y: 0 };
+    return reactFlowInstance.screenToFlowPosition(pointerRef.current ?? center);
+  }, [reactFlowInstance]);
+
+  const { pendingPaste, resolvePendingPaste, cancelPendingPaste } = useNodeClipboard({
+    isEnabled: !isReadOnly && selectedConversationId !== null,
+    isHorizontal,
+    getPastePosition,
+  });
+
+  useNavigationHistory();
+
   // Capture the source node/handle when a connection drag starts
   const onConnectStart: OnConnectStart = useCallback((_, { nodeId, handleId, handleType }) => {
       if (nodeId && handleType) {
@@ -151,12 +297,13 @@ const DialogueFlow: React.FC<DialogueFlowProps> = memo(({
           newNodeLabelPrefix,
           position,
           isHorizontal,
-          selectedNpcId
+          selectedNpcId,
+          nodes
         );
 
         // Create the connecting edge
         const newEdge: DialogueEdge = {
-          id: `e${sourceNodeId}-${newNode.id}-${Date.now()}`, // Ensure unique edge ID
+          id: IdManager.generateEdgeId(),
           source: sourceNodeId,
           target: newNode.id,
           sourceHandle: sourceHandleId,
@@ -167,7 +314,7 @@ const DialogueFlow: React.FC<DialogueFlowProps> = memo(({
         setEdges((eds) => [...eds, newEdge]);
       }
     },
-    [reactFlowInstance, setNodes, setEdges, isHorizontal, currentTool, selectedNpcId]
+    [reactFlowInstance, setNodes, setEdges, isHorizontal, currentTool, selectedNpcId, nodes]
   );
 
   // --- Drag and Drop from Toolbar ---
@@ -182,9 +329,52 @@ const DialogueFlow: React.FC<DialogueFlowProps> = memo(({
     }
   }, []);
 
+  // Creates a toolbar node type centered on a flow position; keyboard-created nodes become the selection
+  const addNodeAt = useCallback((nodeType: DraggableNodeType, position: XYPosition, isSelected = false) => {
+    // Adjust width/height based on type for centering calculation (rough estimate)
+    // *** UPDATED estimates for 'jump' ***
+    const nodeWidth = (nodeType === 'npc' || nodeType === 'user' || nodeType === 'jump') ? 250 : 180;
+    const nodeHeight = (nodeType === 'npc' || nodeType === 'user') ? 120 : (nodeType === 'jump' ? 130 : 60); // Increased jump height slightly
+
+    const adjustedPosition: XYPosition = {
+        x: position.x - nodeWidth / 2,
+        y: position.y - nodeHeight / 2, // Center vertically too
+    };
+
+    // Determine label prefix based on type
+    // *** ADDED case for 'jump' ***
+    let newNodeLabelPrefix: string;
+    switch (nodeType) {
+      case 'user': newNodeLabelPrefix = 'User Response'; break;
+      case 'npc': newNodeLabelPrefix = 'NPC Response'; break;
+      case 'jump': newNodeLabelPrefix = 'Jump'; break;
+      default: newNodeLabelPrefix = 'New Node'; // Fallback
+    }
+
+    // Create the new node using the helper function
+    const newNode = createDialogueNode(
+      nodeType, // Pass the correct type ('user', 'npc', or 'jump')
+      newNodeLabelPrefix,
+      adjustedPosition,
+      isHorizontal,
+      selectedNpcId,
+      nodes
+    );
+
+    console.log(`[DialogueFlow] Creating node ${newNode.id} of type ${nodeType} with data:`, newNode.data);
+
+    // Add the new node to the flow
+    if (isSelected) {
+      setNodes((nds) => [...nds.map(node => (node.selected ? { ...node, selected: false } : node)), { ...newNode, selected: true }]);
+    } else {
+      setNodes((nds) => nds.concat(newNode));
+    }
+  }, [setNodes, isHorizontal, selectedNpcId, nodes]);
+
   const onDrop = useCallback(
     (event: React.DragEvent<HTMLDivElement>) => {
       event.preventDefault();
+      if (isReadOnly) return;
 
       const nodeType = event.dataTransfer.getData('application/reactflow') as DraggableNodeType;
 
@@ -206,43 +396,62 @@ const DialogueFlow: React.FC<DialogueFlowProps> = memo(({
         x: event.clientX,
         y: event.clientY,
       });
+      addNodeAt(nodeType, position);
+    },
+    [reactFlowInstance, addNodeAt, isReadOnly] // Include dependencies
+  );
 
-      // Adjust width/height based on type for centering calculation (rough estimate)
-      // *** UPDATED estimates for 'jump' ***
-      const nodeWidth = (nodeType === 'npc' || nodeType === 'user' || nodeType === 'jump') ? 250 : 180;
-      const nodeHeight = (nodeType === 'npc' || nodeType === 'user') ? 120 : (nodeType === 'jump' ? 130 : 60); // Increased jump height slightly
-
-      const adjustedPosition: XYPosition = {
-          x: position.x - nodeWidth / 2,
-          y: position.y - nodeHeight / 2, // Center vertically too
-      };
-
-      // Determine label prefix based on type
-      // *** ADDED case for 'jump' ***
-      let newNodeLabelPrefix: string;
-      switch (nodeType) {
-        case 'user': newNodeLabelPrefix = 'User Response'; break;
-        case 'npc': newNodeLabelPrefix = 'NPC Response'; break;
-        case 'jump': newNodeLabelPrefix = 'Jump'; break;
-        default: newNodeLabelPrefix = 'New Node'; // Fallback
-      }
+  // --- Keyboard Commands ---
+
+  // Selects the node one step away from the selection (the start node when nothing is selected) and pans to it.
+  // Read-only views move their own selection over the nodes they show.
+  const selectAdjacentNode = useCallback((step: NodeStep) => {
+    const state = useDialogueStore.getState();
+    const currentNodes = isReadOnly ? flowNodes : state.activeNodes();
+    const currentEdges = isReadOnly ? flowEdges : state.activeEdges();
+    const current = isReadOnly ? currentNodes.find(node => node.id === viewSelectedNodeId) : currentNodes.find(node => node.selected);
+    const targetId = current
+      ? findAdjacentNode(currentNodes, currentEdges, current.id, step, isHorizontal)
+      : currentNodes.find(node => node.type === 'input')?.id;
+    if (!targetId) return;
+
+    if (isReadOnly) {
+      setViewSelectedNodeId(targetId);
+    } else {
+      state.onNodesChange(currentNodes
+        .filter(node => node.selected || node.id === targetId)
+        .map(node => ({ type: 'select', id: node.id, selected: node.id === targetId })));
+      const selectedEdges = currentEdges.filter(edge => edge.selected);
+      if (selectedEdges.length > 0) state.onEdgesChange(selectedEdges.map(edge => ({ type: 'select', id: edge.id, selected: false })));
+    }
 
-      // Create the new node using the helper function
-      const newNode = createDialogueNode(
-        nodeType, // Pass the correct type ('user', 'npc', or 'jump')
-        newNodeLabelPrefix,
-        adjustedPosition,
-        isHorizontal,
-        selectedNpcId
+    const target = reactFlowInstance.getNode(targetId);
+    if (target) {
+      reactFlowInstance.setCenter(
+        target.position.x + (target.width ?? 0) / 2,
+        target.position.y + (target.height ?? 0) / 2,
+        { zoom: reactFlowInstance.getZoom(), duration: 200 }
       );
-
-      console.log(`[DialogueFlow] Creating node ${newNode.id} of type ${nodeType} from toolbar drop with data:`, newNode.data);
-
-      // Add the new node to the flow
-      setNodes((nds) => nds.concat(newNode));
-    },
-    [reactFlowInstance, setNodes, isHorizontal, selectedNpcId] // Include dependencies
-  );
+    }
+  }, [isHorizontal, reactFlowInstance, isReadOnly, flowNodes, flowEdges, viewSelectedNodeId]);
+
+  const commands = useMemo((): EditorCommand[] => {
+    const canNavigate = () => selectedConversationId !== null;
+    const canEdit = () => !isReadOnly && canNavigate();
+    const addAtCursor = (nodeType: DraggableNodeType) => () => addNodeAt(nodeType, getPastePosition(), true);
+    const navigate = (step: NodeStep) => () => selectAdjacentNode(step);
+    return [
+      { id: 'node.addUser', title: 'Add User Node at Cursor', category: 'Node', keywords: ['create', 'player'], isAvailable: canEdit, run: addAtCursor('user') },
+      { id: 'node.addNpc', title: 'Add NPC Node at Cursor', category: 'Node', keywords: ['create', 'response'], isAvailable: canEdit, run: addAtCursor('npc') },
+      { id: 'node.addJump', title: 'Add Jump Node at Cursor', category: 'Node', keywords: ['create', 'link'], isAvailable: canEdit, run: addAtCursor('jump') },
+      { id: 'edit.delete', title: 'Delete Selection', category: 'Edit', keywords: ['remove'], isAvailable: canEdit, run: deleteSelection },
+      { id: 'nav.next', title: 'Select Next Node', category: 'Navigation', keywords: ['child'], isAvailable: canNavigate, run: navigate('next') },
+      { id: 'nav.previous', title: 'Select Previous Node', category: 'Navigation', keywords: ['parent'], isAvailable: canNavigate, run: navigate('previous') },
+      { id: 'nav.nextSibling', title: 'Select Next Sibling', category: 'Navigation', keywords: ['choice'], isAvailable: canNavigate, run: navigate('nextSibling') },
+      { id: 'nav.previousSibling', title: 'Select Previous Sibling', category: 'Navigation', keywords: ['choice'], isAvailable: canNavigate, run: navigate('previousSibling') },
+    ];
+  }, [isReadOnly, selectedConversationId, addNodeAt, getPastePosition, selectAdjacentNode, deleteSelection]);
+  useRegisterCommands(commands);
 
 
   return (
@@ -252,19 +461,26 @@ const DialogueFlow: React.FC<DialogueFlowProps> = memo(({
         ref={reactFlowWrapper}
         onDragOver={onDragOver}
         onDrop={onDrop}
+        onMouseMove={onMouseMove}
+        onMouseLeave={onMouseLeave}
     >
       {/* Add the 'dark' class to enable dark theme styling from index.css */}
       <ReactFlow
-        nodes={nodes}
-        edges={edges}
-        onNodesChange={onNodesChange}
-        onEdgesChange={onEdgesChange}
-        onConnect={onConnect}
-        onConnectStart={onConnectStart}
-        onConnectEnd={onConnectEnd}
+        nodes={displayNodes}
+        edges={flowEdges}
+        onNodesChange={isReadOnly ? undefined : onNodesChange}
+        onEdgesChange={isReadOnly ? undefined : onEdgesChange}
+        onConnect={isReadOnly ? undefined : onConnect}
+        onConnectStart={isReadOnly ? undefined : onConnectStart}
+        onConnectEnd={isReadOnly ? undefined : onConnectEnd}
+        nodesDraggable={!isReadOnly}
+        nodesConnectable={!isReadOnly}
+        elementsSelectable={!isReadOnly}
         nodeTypes={nodeTypes} // *** Use the updated nodeTypes map including JumpNode ***
+        edgeTypes={edgeTypes}
         attributionPosition="bottom-right"
-        deleteKeyCode={['Delete']}
+        deleteKeyCode={null} // Deleting is the 'edit.delete' command
+        disableKeyboardA11y // Arrow keys navigate between nodes instead of moving them
         className="dialogue-flow-canvas transition-colors duration-300 dark" // Ensure 'dark' class is present
         defaultViewport={{ x: 0, y: 0, zoom: 0.8 }}
         minZoom={0.3}
@@ -278,6 +494,15 @@ const DialogueFlow: React.FC<DialogueFlowProps> = memo(({
         <Background color="#aaa" gap={16} variant={BackgroundVariant.Dots} className="transition-all duration-300" />
       </ReactFlow>
 
+      {peers.length > 0 && <PeerCursors peers={peers} />}
+      {showTabBanner ? <TabStatusBanner /> : (
+        <>
+          {snapshotPreview && <SnapshotPreviewBanner preview={snapshotPreview} />}
+          {diffView && <DiffViewBanner diffView={diffView} />}
+          {pendingPaste && <PasteSpeakerBanner pendingPaste={pendingPaste} onResolve={resolvePendingPaste} onCancel={cancelPendingPaste} />}
+        </>
+      )}
+
       {/* Optional: Display message if start node deletion is attempted (logic not fully implemented here) */}
       {showStartNodeProtection && (
         <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-amber-900 text-amber-200 px-4 py-2 rounded-md shadow-md border border-amber-800 z-50 flex items-center">
@@ -0,0 +1,157 @@
+// File: src/components/DiffPanel/index.tsx
+
+import React, { useMemo } from 'react';
+import { X, GitCompare } from 'lucide-react';
+import Panel from '../ui/Panel';
+import IconButton from '../ui/IconButton';
+import { useDiffData } from '../../store/dialogueStore';
+import { ConversationDiff, DiffStatus, NodeDiff, WordDiffPart } from '../../types';
+import { countDiffStatuses, diffProject, diffWords } from '../../utils/diffUtils';
+import { badgeStyles, typography } from '../../styles/commonStyles';
+
+interface DiffPanelProps {
+  onClose: () => void;
+}
+
+const STATUS_BADGES: Record<Exclude<DiffStatus, 'unchanged'>, { label: string; className: string }> = {
+  added: { label: 'added', className: badgeStyles.variants.green },
+  removed: { label: 'removed', className: badgeStyles.variants.red },
+  modified: { label: 'modified', className: badgeStyles.variants.yellow },
+};
+
+const WORD_CLASSES: Record<WordDiffPart['type'], string> = {
+  same: 'text-gray-300',
+  added: 'bg-green-900/60 text-green-200',
+  removed: 'bg-red-900/60 text-red-200 line-through',
+};
+
+// Fields compared word by word; other changed fields are only named
+const TEXT_FIELDS = ['label', 'text'] as const;
+
+const StatusBadge: React.FC<{ status: DiffStatus }> = ({ status }) => {
+  if (status === 'unchanged') return null;
+  const badge = STATUS_BADGES[status];
+  return <span className={`${badgeStyles.base} ${badge.className}`}>{badge.label}</span>;
+};
+
+const WordDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+  <p className="text-xs whitespace-pre-wrap break-words">
+    {diffWords(before, after).map((part, index) => (
+      <span key={index} className={WORD_CLASSES[part.type]}>{part.value}</span>
+    ))}
+  </p>
+);
+
+const NodeChanges: React.FC<{ node: NodeDiff }> = ({ node }) => {
+  const textFields = TEXT_FIELDS.filter(field => node.changedFields.includes(field));
+  const otherFields = node.changedFields.filter(field => !(TEXT_FIELDS as readonly string[]).includes(field));
+  return (
+    <li className="rounded-md bg-gray-800/60 px-2 py-1.5 space-y-1">
+      <div className="text-xs font-medium text-gray-200 truncate" title={node.id}>
+        {node.after?.data.label || node.id}
+      </div>
+      {textFields.map(field => (
+        <div key={field}>
+          <div className="text-[10px] uppercase tracking-wide text-gray-500">{field}</div>
+          <WordDiff before={node.before?.data[field] ?? ''} after={node.after?.data[field] ?? ''} />
+        </div>
+      ))}
+      {otherFields.length > 0 && (
+        <p className="text-xs text-gray-400">Also changed: {otherFields.join(', ')}</p>
+      )}
+    </li>
+  );
+};
+
+const formatCounts = (items: { status: DiffStatus }[]) => {
+  const counts = countDiffStatuses(items);
+  return [`+${counts.added}`, `−${counts.removed}`, `~${counts.modified}`].join(' ');
+};
+
+/**
+ * Summarizes how a compared file differs from the project, per NPC and conversation, and lists
+ * the modified nodes of the conversation shown on the canvas with a word-level text diff.
+ */
+const DiffPanel: React.FC<DiffPanelProps> = ({ onClose }) => {
+  const { diffView, npcs, showDiffConversation } = useDiffData();
+
+  const projectDiff = useMemo(() => (diffView ? diffProject(npcs, diffView.npcs) : []), [diffView, npcs]);
+
+  if (!diffView) return null;
+
+  const shown: ConversationDiff | undefined = projectDiff
+    .flatMap(npc => npc.conversations)
+    .find(conv => conv.npcId === diffView.npcId && conv.conversationId === diffView.conversationId);
+  const modifiedNodes = shown?.nodes.filter(node => node.status === 'modified') ?? [];
+  const hasChanges = projectDiff.some(npc => npc.status !== 'unchanged');
+
+  const title = (
+    <h3 className="text-lg font-semibold text-gray-300 flex items-center gap-2">
+      <GitCompare size={18} /> Compare
+    </h3>
+  );
+
+  const panelActions = (
+    <IconButton icon={<X size={16} />} label="Close Comparison" onClick={onClose} variant="gray" />
+  );
+
+  return (
+    <Panel title={title} actions={panelActions} width="20rem" scrollable maxHeight="45vh" className="flex flex-col">
+      <div className="space-y-4">
+        <p className="text-xs text-gray-400 truncate" title={diffView.fileName}>
+          Project → {diffView.fileName}
+        </p>
+
+        {!hasChanges ? (
+          <p className={typography.placeholder}>The file matches the project.</p>
+        ) : (
+          <ul className="space-y-2">
+            {projectDiff.filter(npc => npc.status !== 'unchanged').map(npc => (
+              <li key={npc.npcId}>
+                <div className="flex items-center gap-2 text-sm text-gray-200">
+                  <span className="flex-1 truncate">{npc.name}</span>
+                  <StatusBadge status={npc.status} />
+                </div>
+                <ul className="mt-1 space-y-0.5">
+                  {npc.conversations.filter(conv => conv.status !== 'unchanged').map(conv => {
+                    const isShown = conv === shown;
+                    return (
+                      <li key={conv.conversationId}>
+                        <button
+                          type="button"
+                          onClick={() => showDiffConversation(conv.npcId, conv.conversationId)}
+                          className={`w-full flex items-center gap-2 text-left text-xs rounded px-1.5 py-0.5 transition-colors ${isShown ? 'bg-gray-700 text-gray-100' : 'text-gray-300 hover:bg-gray-800'}`}
+                          title="Show on the canvas"
+                        >
+                          <span className="flex-1 truncate">{conv.name}</span>
+                          {conv.status === 'modified'
+                            ? <span className="text-gray-400 font-mono" title="Nodes added, removed, modified">{formatCounts(conv.nodes)}</span>
+                            : <StatusBadge status={conv.status} />}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {shown && (
+          <div>
+            <h4 className={typography.sectionTitle}>Modified Nodes · {shown.name}</h4>
+            {modifiedNodes.length === 0 ? (
+              <p className={typography.placeholder}>No modified nodes in this dialogue.</p>
+            ) : (
+              <ul className="space-y-1.5">
+                {modifiedNodes.map(node => <NodeChanges key={node.id} node={node} />)}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </Panel>
+  );
+};
+
+export default DiffPanel;
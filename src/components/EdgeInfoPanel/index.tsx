@@ -0,0 +1,133 @@
+// File: src/components/EdgeInfoPanel/index.tsx
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Trash2, ArrowRight } from 'lucide-react';
+import { EdgeChange } from 'reactflow';
+import { useEdgeInfoPanelData } from '../../store/dialogueStore';
+import Input from '../ui/Input';
+import Panel from '../ui/Panel';
+import IconButton from '../ui/IconButton';
+import { typography, badgeStyles } from '../../styles/commonStyles';
+import { validateCondition } from '../../utils/conditionUtils';
+
+const EdgeInfoPanel: React.FC = () => {
+  const {
+    selectedEdge: edge,
+    nodes,
+    variables,
+    onEdgesChange,
+    updateEdgeCondition,
+  } = useEdgeInfoPanelData();
+
+  const [condition, setCondition] = useState<string>('');
+  const prevEdgeId = useRef<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const syncedCondition = useRef<string | null>(null); // Stored condition the input was last set from
+
+  // Sync local state with the selected edge, and with changes made outside the panel (e.g. undo/redo)
+  useEffect(() => {
+    if (!edge) {
+      setCondition('');
+      prevEdgeId.current = null;
+      syncedCondition.current = null;
+      return;
+    }
+    const storedCondition = edge.data?.condition || '';
+    if (edge.id !== prevEdgeId.current || storedCondition !== syncedCondition.current) {
+      setCondition(storedCondition);
+      prevEdgeId.current = edge.id;
+      syncedCondition.current = storedCondition;
+    }
+  }, [edge]);
+
+  const commitCondition = () => {
+    if (edge && condition.trim() !== (edge.data?.condition || '')) {
+      updateEdgeCondition(edge.id, condition);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!edge) return;
+    if (event.key === 'Enter') {
+      commitCondition();
+      inputRef.current?.blur();
+    } else if (event.key === 'Escape') {
+      setCondition(edge.data?.condition || ''); // Reset on escape
+      inputRef.current?.blur();
+    }
+  };
+
+  // Append a variable name to the expression when its chip is clicked
+  const handleInsertVariable = (name: string) => {
+    setCondition(prev => (prev.trim() ? `${prev.trimEnd()} ${name}` : name));
+    inputRef.current?.focus();
+  };
+
+  const handleDeleteEdge = useCallback(() => {
+    if (edge && onEdgesChange) {
+      const deleteChange: EdgeChange = { type: 'remove', id: edge.id };
+      onEdgesChange([deleteChange]);
+    }
+  }, [edge, onEdgesChange]);
+
+  if (!edge) {
+    return null;
+  }
+
+  const sourceLabel = nodes.find(n => n.id === edge.source)?.data.label || edge.source;
+  const targetLabel = nodes.find(n => n.id === edge.target)?.data.label || edge.target;
+  const error = validateCondition(condition, variables);
+
+  const panelActions = <IconButton icon={<Trash2 size={16} />} label="Delete Connection" onClick={handleDeleteEdge} variant="danger" />;
+
+  return (
+    <Panel title="Edit Connection" width="18rem" actions={panelActions}>
+      <div className="space-y-4">
+        <div className={`flex items-center gap-2 ${typography.body.sm}`}>
+          <span className="truncate" title={sourceLabel}>{sourceLabel}</span>
+          <ArrowRight size={12} className="flex-shrink-0" />
+          <span className="truncate" title={targetLabel}>{targetLabel}</span>
+        </div>
+
+        <Input
+          ref={inputRef}
+          label="Condition"
+          value={condition}
+          onChange={(e) => setCondition(e.target.value)}
+          onBlur={commitCondition}
+          onKeyDown={handleKeyDown}
+          placeholder="e.g. trust >= 3 && has_key"
+          id={`edge-condition-${edge.id}`}
+          className="font-mono"
+          error={error ?? undefined}
+          helpText="Leave empty to always allow this path. Operators: == != < <= > >= && || !"
+        />
+
+        <div>
+          <h4 className={typography.sectionTitle}>Variables</h4>
+          {variables.length > 0 ? (
+            <div className="flex flex-wrap gap-1.5">
+              {variables.map(variable => (
+                <button
+                  key={variable.id}
+                  type="button"
+                  className={`${badgeStyles.base} ${badgeStyles.variants.gray} font-mono hover:bg-gray-600 transition-colors`}
+                  onMouseDown={(e) => e.preventDefault()} // Keep focus in the condition input
+                  onClick={() => handleInsertVariable(variable.name)}
+                  title={`${variable.type} (default: ${String(variable.defaultValue)})`}
+                >
+                  {variable.name}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className={typography.placeholder}>No variables defined yet.</p>
+          )}
+        </div>
+      </div>
+    </Panel>
+  );
+};
+
+export default EdgeInfoPanel;
@@ -1,10 +1,18 @@
 // src/components/EditModal.tsx
 import React, { useState, useEffect, useRef } from 'react';
-import { User, Camera, Trash2, Plus } from 'lucide-react';
+import { isEqual } from 'lodash';
+import { User, Camera, Trash2, Plus, Crop } from 'lucide-react';
 import { hexToRgba } from '../utils/colorUtils';
 import Modal from './ui/Modal';
 import Button from './ui/Button';
 import Input from './ui/Input';
+import PortraitEditor from './PortraitEditor';
+import ExpressionList, { getExpressionNameError, getSuggestedExpressionName } from './ExpressionList';
+import usePortraitUrl from '../hooks/usePortraitUrl';
+import { createPortrait, getPortrait, preparePortraitSource } from '../services/portraitService';
+import { dataUrlToBlob, DEFAULT_CROP, DEFAULT_FOCAL_POINT, isDataUrl } from '../utils/portraitUtils';
+import IdManager from '../utils/IdManager';
+import { FocalPoint, NpcExpression, PortraitCrop, PortraitRef } from '../types';
 import { formStyles, alertStyles } from '../styles/commonStyles';
 
 // --- Preset colors array ---
@@ -24,14 +32,27 @@ const PRESET_COLORS = [
 // --- Default Color Picker Color ---
 const DEFAULT_COLOR_PICKER = '#4f46e5'; // Indigo
 
+// Uploads are scaled down before they are stored, so larger files are fine
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+// Image being cropped: a new upload or the source of the current portrait
+interface CropSession {
+  target: string | null; // Expression ID, or null for the NPC's own portrait
+  source: Blob;
+  crop: PortraitCrop;
+  focalPoint: FocalPoint;
+}
+
 interface EditModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (newName: string, imageDataUrl?: string, newColor?: string) => void;
+  // portraitId: '' when removed; portraitId and expressions: undefined when unchanged
+  onSave: (newName: string, portraitId?: string, newColor?: string, expressions?: NpcExpression[]) => void;
   onDelete?: () => void;
   title: string;
   currentName: string;
-  currentImage?: string;
+  currentPortrait?: PortraitRef;
+  currentExpressions?: NpcExpression[];
   currentAccentColor?: string;
   entityType: 'NPC' | 'Dialogue';
 }
@@ -43,12 +64,18 @@ const EditModal: React.FC<EditModalProps> = ({
   onDelete,
   title,
   currentName,
-  currentImage,
+  currentPortrait,
+  currentExpressions,
   currentAccentColor,
   entityType,
 }) => {
   const [name, setName] = useState(currentName);
-  const [image, setImage] = useState<string | undefined>(currentImage);
+  const [portrait, setPortrait] = useState<PortraitRef | undefined>(currentPortrait);
+  const [isPortraitChanged, setIsPortraitChanged] = useState(false);
+  const [expressions, setExpressions] = useState<NpcExpression[]>(currentExpressions ?? []);
+  const [cropSession, setCropSession] = useState<CropSession | null>(null);
+  const [isProcessingImage, setIsProcessingImage] = useState(false);
+  const image = usePortraitUrl(portrait);
   const [color, setColor] = useState<string>(currentAccentColor || DEFAULT_COLOR_PICKER);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -61,38 +88,98 @@ const EditModal: React.FC<EditModalProps> = ({
   // Reset state when modal opens or relevant props change
   useEffect(() => {
     setName(currentName);
-    setImage(currentImage);
+    setPortrait(currentPortrait);
+    setIsPortraitChanged(false);
+    setExpressions(currentExpressions ?? []);
+    setCropSession(null);
     setColor(currentAccentColor || DEFAULT_COLOR_PICKER);
     setShowDeleteConfirm(false); // Reset delete confirmation
     setShowCustomColorPicker(false); // Reset color picker state
-  }, [isOpen, currentName, currentImage, currentAccentColor]);
+  }, [isOpen, currentName, currentPortrait, currentExpressions, currentAccentColor]);
+
+  const hasExpressionErrors = expressions.some((_, index) => getExpressionNameError(expressions, index) !== undefined);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (name.trim()) {
-      onSave(name.trim(), image, entityType === 'NPC' ? color : undefined);
+    if (name.trim() && !hasExpressionErrors) {
+      const portraitId = isPortraitChanged ? portrait?.portraitId ?? '' : undefined;
+      const trimmedExpressions = expressions.map(expression => ({ ...expression, name: expression.name.trim() }));
+      const changedExpressions = entityType === 'NPC' && !isEqual(trimmedExpressions, currentExpressions ?? [])
+        ? trimmedExpressions
+        : undefined;
+      onSave(name.trim(), portraitId, entityType === 'NPC' ? color : undefined, changedExpressions);
     }
   };
 
-  const handleImageChange = (file: File | null) => {
+  const handleAddExpression = () => {
+    setExpressions(prev => [...prev, { id: IdManager.generateExpressionId(), name: getSuggestedExpressionName(prev) }]);
+  };
+
+  // New uploads go to the crop editor first; the portrait is stored once the crop is applied
+  const handleImageChange = async (file: File | null, target: string | null = null) => {
     if (!file) return;
 
     if (!file.type.startsWith('image/')) {
-      alert('Please upload an image file (PNG, JPG, GIF).');
+      alert('Please upload an image file (PNG, JPG, GIF, WebP).');
       return;
     }
-    if (file.size > 2 * 1024 * 1024) { // 2MB limit
-      alert('Image size exceeds 2MB limit.');
+    if (file.size > MAX_UPLOAD_SIZE) {
+      alert('Image size exceeds 10MB limit.');
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      if (event.target?.result) {
-        setImage(event.target.result as string);
+    setIsProcessingImage(true);
+    try {
+      setCropSession({ target, source: await preparePortraitSource(file), crop: DEFAULT_CROP, focalPoint: DEFAULT_FOCAL_POINT });
+    } catch (error) {
+      console.error('[EditModal] Reading the image failed:', error);
+      alert('This image could not be read.');
+    } finally {
+      setIsProcessingImage(false);
+    }
+  };
+
+  const handleAdjustCrop = async (target: string | null = null) => {
+    const ref: PortraitRef | undefined = target ? expressions.find(expression => expression.id === target) : portrait;
+    setIsProcessingImage(true);
+    try {
+      const record = ref?.portraitId ? await getPortrait(ref.portraitId) : undefined;
+      if (record) {
+        setCropSession({ target, source: record.source, crop: record.crop, focalPoint: record.focalPoint });
+      } else if (isDataUrl(ref?.image)) {
+        const source = await preparePortraitSource(await dataUrlToBlob(ref.image));
+        setCropSession({ target, source, crop: DEFAULT_CROP, focalPoint: DEFAULT_FOCAL_POINT });
+      }
+    } catch (error) {
+      console.error('[EditModal] Loading the portrait failed:', error);
+    } finally {
+      setIsProcessingImage(false);
+    }
+  };
+
+  const handleApplyCrop = async (crop: PortraitCrop, focalPoint: FocalPoint) => {
+    if (!cropSession) return;
+    setIsProcessingImage(true);
+    try {
+      const portraitId = await createPortrait(cropSession.source, crop, focalPoint);
+      const { target } = cropSession;
+      if (target) {
+        setExpressions(prev => prev.map(expression => {
+          if (expression.id !== target) return expression;
+          const { image: _image, ...rest } = expression; // Replaces an embedded data URL as well
+          return { ...rest, portraitId };
+        }));
+      } else {
+        setPortrait({ portraitId });
+        setIsPortraitChanged(true);
       }
-    };
-    reader.readAsDataURL(file);
+      setCropSession(null);
+    } catch (error) {
+      console.error('[EditModal] Saving the portrait failed:', error);
+      alert('The portrait could not be saved.');
+    } finally {
+      setIsProcessingImage(false);
+    }
   };
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -100,7 +187,8 @@ const EditModal: React.FC<EditModalProps> = ({
   };
 
   const handleRemoveImage = () => {
-    setImage(undefined);
+    setPortrait(undefined);
+    setIsPortraitChanged(true);
     if (fileInputRef.current) {
       fileInputRef.current.value = ''; // Reset file input
     }
@@ -137,7 +225,7 @@ const EditModal: React.FC<EditModalProps> = ({
       <Button
         variant="primary"
         onClick={handleSubmit}
-        disabled={!name.trim()}
+        disabled={!name.trim() || hasExpressionErrors || cropSession !== null || isProcessingImage}
       >
         Save Changes
       </Button>
@@ -166,6 +254,17 @@ const EditModal: React.FC<EditModalProps> = ({
     handleImageChange(e.dataTransfer.files?.[0] || null);
   };
 
+  const renderCropEditor = (session: CropSession) => (
+    <PortraitEditor
+      source={session.source}
+      initialCrop={session.crop}
+      initialFocalPoint={session.focalPoint}
+      isApplying={isProcessingImage}
+      onApply={handleApplyCrop}
+      onCancel={() => setCropSession(null)}
+    />
+  );
+
   // Determine if we're showing delete confirmation or edit form
   const renderContent = () => {
     if (showDeleteConfirm) {
@@ -223,11 +322,12 @@ const EditModal: React.FC<EditModalProps> = ({
                 type="file"
                 ref={fileInputRef}
                 onChange={handleFileInputChange}
-                accept="image/png, image/jpeg, image/gif"
+                accept="image/png, image/jpeg, image/gif, image/webp"
                 className="hidden"
                 aria-label="Upload profile image"
               />
 
+              {cropSession && cropSession.target === null ? renderCropEditor(cropSession) : (
               <div className="flex items-center space-x-4">
                 {/* Image Preview / Placeholder */}
                 <div
@@ -239,7 +339,7 @@ const EditModal: React.FC<EditModalProps> = ({
                   role="button"
                   tabIndex={0}
                   aria-label="Image upload area"
-                  title="Click or drag image (Max 2MB)"
+                  title="Click or drag image (Max 10MB)"
                 >
                   {image ? (
                     <div className="relative w-16 h-16 flex-shrink-0">
@@ -266,14 +366,46 @@ const EditModal: React.FC<EditModalProps> = ({
 
                 {/* Upload/Change Button */}
                 <Button
+                  type="button"
                   variant="ghost"
                   leftIcon={<Camera size={14} />}
                   onClick={() => fileInputRef.current?.click()}
+                  isLoading={isProcessingImage}
+                  disabled={cropSession !== null}
                 >
                   {image ? 'Change Image' : 'Upload Image'}
                 </Button>
+
+                {image && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    leftIcon={<Crop size={14} />}
+                    onClick={() => handleAdjustCrop()}
+                    disabled={isProcessingImage || cropSession !== null}
+                  >
+                    Adjust Crop
+                  </Button>
+                )}
               </div>
-              <p className={formStyles.helpText}>Max 2MB. PNG, JPG, GIF.</p>
+              )}
+              <p className={formStyles.helpText}>PNG, JPG, GIF or WebP, up to 10MB. Large images are scaled down.</p>
+            </div>
+
+            {/* Expressions Section */}
+            <div className={formStyles.group}>
+              <label className={formStyles.label}>Expressions</label>
+              {cropSession && cropSession.target !== null ? renderCropEditor(cropSession) : (
+                <ExpressionList
+                  expressions={expressions}
+                  fallbackImage={image}
+                  disabled={isProcessingImage || cropSession !== null}
+                  onChange={setExpressions}
+                  onUpload={(expressionId, file) => handleImageChange(file, expressionId)}
+                  onAdjustCrop={handleAdjustCrop}
+                  onAdd={handleAddExpression}
+                />
+              )}
             </div>
 
             {/* Accent Color Section */}
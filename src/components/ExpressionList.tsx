@@ -0,0 +1,148 @@
+// src/components/ExpressionList.tsx
+import React, { useRef } from 'react';
+import { Camera, Crop, Plus, Trash2, User } from 'lucide-react';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import IconButton from './ui/IconButton';
+import usePortraitUrl from '../hooks/usePortraitUrl';
+import { NpcExpression } from '../types';
+import { formStyles } from '../styles/commonStyles';
+
+// Offered in this order when adding an expression
+const SUGGESTED_NAMES = ['neutral', 'happy', 'angry', 'sad', 'surprised', 'afraid'];
+
+interface ExpressionListProps {
+  expressions: NpcExpression[];
+  fallbackImage?: string; // The NPC's portrait, shown for expressions without their own
+  disabled?: boolean;
+  onChange: (expressions: NpcExpression[]) => void;
+  onUpload: (expressionId: string, file: File) => void;
+  onAdjustCrop: (expressionId: string) => void;
+  onAdd: () => void;
+}
+
+/**
+ * Names an expression can't have: empty, or the same as an earlier one.
+ */
+export const getExpressionNameError = (expressions: NpcExpression[], index: number): string | undefined => {
+  const name = expressions[index].name.trim();
+  if (!name) return 'Name is required';
+  if (expressions.slice(0, index).some(other => other.name.trim() === name)) return 'Name is already used';
+  return undefined;
+};
+
+export const getSuggestedExpressionName = (expressions: NpcExpression[]): string =>
+  SUGGESTED_NAMES.find(name => !expressions.some(expression => expression.name === name)) ?? '';
+
+interface ExpressionRowProps {
+  expression: NpcExpression;
+  error?: string;
+  fallbackImage?: string;
+  disabled?: boolean;
+  onRename: (name: string) => void;
+  onUpload: (file: File) => void;
+  onAdjustCrop: () => void;
+  onRemove: () => void;
+}
+
+const ExpressionRow: React.FC<ExpressionRowProps> = ({
+  expression,
+  error,
+  fallbackImage,
+  disabled,
+  onRename,
+  onUpload,
+  onAdjustCrop,
+  onRemove,
+}) => {
+  const ownImage = usePortraitUrl(expression);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const image = ownImage ?? fallbackImage;
+
+  return (
+    <div className="flex items-start gap-2">
+      <button
+        type="button"
+        className="flex-shrink-0 w-9 h-9 rounded-full overflow-hidden border border-gray-600 bg-gray-800 flex items-center justify-center hover:border-gray-400 disabled:opacity-50"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled}
+        title={ownImage ? 'Change portrait' : 'Upload portrait (uses the NPC portrait until then)'}
+      >
+        {image
+          ? <img src={image} alt={expression.name} className={`w-full h-full object-cover ${ownImage ? '' : 'opacity-40'}`} />
+          : <User size={16} className="text-gray-500" />}
+      </button>
+      <input
+        type="file"
+        ref={fileInputRef}
+        accept="image/png, image/jpeg, image/gif, image/webp"
+        className="hidden"
+        aria-label={`Upload portrait for ${expression.name || 'expression'}`}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onUpload(file);
+          e.target.value = '';
+        }}
+      />
+      <Input
+        sizeVariant="sm"
+        value={expression.name}
+        onChange={(e) => onRename(e.target.value)}
+        placeholder="e.g. angry"
+        error={error}
+        aria-label="Expression name"
+        disabled={disabled}
+      />
+      {ownImage ? (
+        <IconButton type="button" icon={<Crop size={14} />} label="Adjust crop" onClick={onAdjustCrop} disabled={disabled} />
+      ) : (
+        <IconButton type="button" icon={<Camera size={14} />} label="Upload portrait" onClick={() => fileInputRef.current?.click()} disabled={disabled} />
+      )}
+      <IconButton type="button" icon={<Trash2 size={14} />} label="Remove expression" variant="danger" onClick={onRemove} disabled={disabled} />
+    </div>
+  );
+};
+
+/**
+ * Named alternative portraits of an NPC (neutral, angry, ...). NPC nodes pick one by name.
+ */
+const ExpressionList: React.FC<ExpressionListProps> = ({
+  expressions,
+  fallbackImage,
+  disabled,
+  onChange,
+  onUpload,
+  onAdjustCrop,
+  onAdd,
+}) => {
+  const updateExpression = (id: string, changes: Partial<NpcExpression>) =>
+    onChange(expressions.map(expression => (expression.id === id ? { ...expression, ...changes } : expression)));
+
+  return (
+    <div className="space-y-2">
+      {expressions.map((expression, index) => (
+        <ExpressionRow
+          key={expression.id}
+          expression={expression}
+          error={getExpressionNameError(expressions, index)}
+          fallbackImage={fallbackImage}
+          disabled={disabled}
+          onRename={(name) => updateExpression(expression.id, { name })}
+          onUpload={(file) => onUpload(expression.id, file)}
+          onAdjustCrop={() => onAdjustCrop(expression.id)}
+          onRemove={() => onChange(expressions.filter(other => other.id !== expression.id))}
+        />
+      ))}
+      <Button type="button" variant="ghost" size="sm" leftIcon={<Plus size={14} />} onClick={onAdd} disabled={disabled}>
+        Add Expression
+      </Button>
+      <p className={formStyles.helpText}>
+        {expressions.length > 0
+          ? 'Pick an expression per NPC node. Renaming one updates the nodes that use it.'
+          : 'Alternative portraits, e.g. angry or happy, to pick per NPC node.'}
+      </p>
+    </div>
+  );
+};
+
+export default ExpressionList;
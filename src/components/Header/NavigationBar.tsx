@@ -0,0 +1,121 @@
+// File: src/components/Header/NavigationBar.tsx
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, CornerDownRight } from 'lucide-react';
+import { useDialogueStore } from '../../store/dialogueStore';
+import { useNavigationStore } from '../../store/navigationStore';
+import { useKeybindingLabel } from '../../store/commandStore';
+import { findConversation, findIncomingJumps } from '../../utils/conversationUtils';
+import { NavigationEntry, NPC } from '../../types';
+import { typography } from '../../styles/commonStyles';
+
+const navButtonClass = 'p-1 rounded-md text-gray-300 hover:bg-gray-800 disabled:text-gray-600 disabled:hover:bg-transparent transition-colors';
+
+// "Back to Guard / Greeting (Alt+ArrowLeft)"
+const describeStep = (action: string, entry: NavigationEntry | undefined, npcs: NPC[], key?: string): string => {
+  const target = entry && findConversation(npcs, entry.npcId, entry.conversationId);
+  const title = target ? `${action} to ${target.npc.name} / ${target.conversation.name}` : action;
+  return key ? `${title} (${key})` : title;
+};
+
+/**
+ * Back/forward through the dialogues visited, the NPC / dialogue shown on the canvas, and the jump
+ * nodes anywhere in the project that lead to it.
+ */
+const NavigationBar: React.FC = () => {
+  const npcs = useDialogueStore(state => state.npcs);
+  const selectedNpcId = useDialogueStore(state => state.selectedNpcId);
+  const selectedConversationId = useDialogueStore(state => state.selectedConversationId);
+  const focusNode = useDialogueStore(state => state.focusNode);
+  const back = useNavigationStore(state => state.back);
+  const forward = useNavigationStore(state => state.forward);
+  const goBack = useNavigationStore(state => state.goBack);
+  const goForward = useNavigationStore(state => state.goForward);
+  const backKey = useKeybindingLabel('nav.back');
+  const forwardKey = useKeybindingLabel('nav.forward');
+  const [isIncomingOpen, setIsIncomingOpen] = useState(false);
+  const incomingRef = useRef<HTMLDivElement>(null);
+
+  const current = findConversation(npcs, selectedNpcId ?? undefined, selectedConversationId ?? undefined);
+  const incomingJumps = useMemo(
+    () => (selectedNpcId && selectedConversationId ? findIncomingJumps(npcs, selectedNpcId, selectedConversationId) : []),
+    [npcs, selectedNpcId, selectedConversationId]
+  );
+
+  // The list closes on a click elsewhere or Escape
+  useEffect(() => {
+    if (!isIncomingOpen) return;
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!incomingRef.current?.contains(event.target as Node)) setIsIncomingOpen(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsIncomingOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isIncomingOpen]);
+
+  if (!current) return null;
+
+  const backLabel = describeStep('Back', back[back.length - 1], npcs, backKey);
+  const forwardLabel = describeStep('Forward', forward[forward.length - 1], npcs, forwardKey);
+
+  return (
+    <div className="flex items-center gap-1 max-w-[24rem] bg-[var(--color-surface)] text-gray-300 rounded-xl px-2 py-1.5 shadow-lg border-2 border-[var(--color-border)]">
+      <button type="button" onClick={goBack} disabled={back.length === 0} title={backLabel} aria-label={backLabel} className={navButtonClass}>
+        <ChevronLeft size={16} />
+      </button>
+      <button type="button" onClick={goForward} disabled={forward.length === 0} title={forwardLabel} aria-label={forwardLabel} className={navButtonClass}>
+        <ChevronRight size={16} />
+      </button>
+
+      <nav aria-label="Breadcrumb" className="flex items-center gap-1 min-w-0 px-1 text-sm">
+        <span className="truncate text-gray-400" title={current.npc.name}>{current.npc.name}</span>
+        <span className="text-gray-600" aria-hidden="true">/</span>
+        <span className="truncate text-gray-100" title={current.conversation.name} aria-current="page">{current.conversation.name}</span>
+      </nav>
+
+      <div ref={incomingRef} className="relative flex-shrink-0">
+        <button
+          type="button"
+          onClick={() => setIsIncomingOpen(prev => !prev)}
+          disabled={incomingJumps.length === 0}
+          title={incomingJumps.length === 0 ? 'No jump nodes lead here' : 'Jump nodes leading here'}
+          aria-label="Incoming jumps"
+          aria-expanded={isIncomingOpen}
+          className={`${navButtonClass} flex items-center gap-1 text-xs`}
+        >
+          <CornerDownRight size={14} /> {incomingJumps.length}
+        </button>
+        {isIncomingOpen && (
+          <div className="absolute right-0 top-full mt-2 w-72 max-h-72 overflow-y-auto card-scrollbar bg-[var(--color-surface)] rounded-lg shadow-xl border border-[var(--color-border)] py-1 z-50">
+            <p className={`${typography.sectionTitle} px-3 pt-1`}>Incoming jumps</p>
+            <ul>
+              {incomingJumps.map(({ npc, conversation, node }) => (
+                <li key={`${conversation.id}:${node.id}`}>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setIsIncomingOpen(false);
+                      focusNode(npc.id, conversation.id, node.id);
+                    }}
+                    className="w-full text-left px-3 py-1.5 hover:bg-gray-800 transition-colors"
+                  >
+                    <span className="block text-sm text-gray-200 truncate">{node.data.label || 'Jump Node'}</span>
+                    <span className="block text-xs text-gray-500 truncate">{npc.name} / {conversation.name}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NavigationBar;
@@ -1,18 +1,139 @@
 // src/components/Header/index.tsx - Consolidated with all top buttons
 import React, { memo } from 'react';
-import { GitFork } from 'lucide-react';
+import { GitFork, Variable, Play, ListChecks, Languages, History, Users, FolderOpen, Search } from 'lucide-react';
 import IconButton from '../ui/IconButton';
+import Select, { SelectOption } from '../ui/Select';
+import NavigationBar from './NavigationBar';
 
 interface HeaderProps {
+  // Project switcher, showing the open project's name
+  projectName?: string;
+  onOpenProjects?: () => void;
   // Layout options related props
   onToggleLayoutOptions?: () => void;
+  onOpenVariables?: () => void;
+  onTogglePlaytest?: () => void;
+  isPlaytestActive?: boolean;
+  onToggleValidation?: () => void;
+  onToggleSearch?: () => void;
+  onToggleTranslations?: () => void;
+  onToggleHistory?: () => void;
+  onToggleCollaboration?: () => void;
+  collaboratorCount?: number; // Other writers in the room, shown on the button
+  // Locale switcher, shown once the project has target locales
+  localeOptions?: SelectOption[];
+  activeLocale?: string;
+  onLocaleChange?: (locale: string) => void;
 }
 
 const Header: React.FC<HeaderProps> = memo(({
+  projectName,
+  onOpenProjects,
   onToggleLayoutOptions,
+  onOpenVariables,
+  onTogglePlaytest,
+  isPlaytestActive = false,
+  onToggleValidation,
+  onToggleSearch,
+  onToggleTranslations,
+  onToggleHistory,
+  onToggleCollaboration,
+  collaboratorCount = 0,
+  localeOptions = [],
+  activeLocale,
+  onLocaleChange,
 }) => {
   return (
     <div className="flex space-x-3">
+      {onOpenProjects && (
+        <button
+          type="button"
+          onClick={onOpenProjects}
+          title="Projects"
+          aria-label="Projects"
+          className="flex items-center gap-2 max-w-[14rem] bg-[var(--color-surface)] hover:bg-gray-800 text-gray-300 rounded-xl px-3 py-2 transition-colors shadow-lg border-2 border-[var(--color-border)] focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-1"
+        >
+          <FolderOpen size={18} className="flex-shrink-0" />
+          <span className="text-sm truncate">{projectName ?? 'Projects'}</span>
+        </button>
+      )}
+      <NavigationBar />
+      {onLocaleChange && localeOptions.length > 1 && (
+        <div className="w-36 [&>div]:mb-0" title="Locale shown and edited on the canvas">
+          <Select
+            id="header-locale"
+            aria-label="Active locale"
+            value={activeLocale}
+            onChange={(e) => onLocaleChange(e.target.value)}
+            options={localeOptions}
+            className="h-full rounded-full"
+          />
+        </div>
+      )}
+      {onTogglePlaytest && (
+        <IconButton
+          icon={<Play size={18} />}
+          label={isPlaytestActive ? 'Stop Playtest' : 'Playtest Dialogue'}
+          onClick={onTogglePlaytest}
+          variant="original"
+          className={isPlaytestActive ? 'ring-2 ring-green-500' : ''}
+        />
+      )}
+      {onToggleSearch && (
+        <IconButton
+          icon={<Search size={18} />}
+          label="Search & Replace"
+          onClick={onToggleSearch}
+          variant="original"
+        />
+      )}
+      {onToggleValidation && (
+        <IconButton
+          icon={<ListChecks size={18} />}
+          label="Validate Dialogues"
+          onClick={onToggleValidation}
+          variant="original"
+        />
+      )}
+      {onToggleTranslations && (
+        <IconButton
+          icon={<Languages size={18} />}
+          label="Translations"
+          onClick={onToggleTranslations}
+          variant="original"
+        />
+      )}
+      {onToggleHistory && (
+        <IconButton
+          icon={<History size={18} />}
+          label="Snapshots"
+          onClick={onToggleHistory}
+          variant="original"
+        />
+      )}
+      {onToggleCollaboration && (
+        <div className="relative">
+          <IconButton
+            icon={<Users size={18} />}
+            label="Collaborate"
+            onClick={onToggleCollaboration}
+            variant="original"
+          />
+          {collaboratorCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-green-600 text-white text-[10px] leading-[1.1rem] text-center pointer-events-none">
+              {collaboratorCount}
+            </span>
+          )}
+        </div>
+      )}
+      {onOpenVariables && (
+        <IconButton
+          icon={<Variable size={18} />}
+          label="Dialogue Variables"
+          onClick={onOpenVariables}
+          variant="original"
+        />
+      )}
       {/* Layout Options Button (previously NodePositioner) */}
       {onToggleLayoutOptions && (
         <IconButton
@@ -0,0 +1,186 @@
+// File: src/components/HistoryPanel/index.tsx
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, History, Camera, ChevronDown, ChevronRight, Eye, RotateCcw, Trash2 } from 'lucide-react';
+import Panel from '../ui/Panel';
+import Button from '../ui/Button';
+import IconButton from '../ui/IconButton';
+import Input from '../ui/Input';
+import { useSnapshotData } from '../../store/dialogueStore';
+import { deleteSnapshot, listSnapshots, subscribeToSnapshots } from '../../services/snapshotService';
+import { ProjectSnapshot } from '../../types';
+import {
+  countSnapshotConversations,
+  formatSnapshotDate,
+  SNAPSHOT_TRIGGER_LABELS,
+} from '../../utils/snapshotUtils';
+import { alertStyles, badgeStyles, typography } from '../../styles/commonStyles';
+
+interface HistoryPanelProps {
+  onClose: () => void;
+}
+
+/**
+ * Lists the named and automatic project snapshots. A snapshot conversation can be previewed
+ * read-only on the canvas; the whole project or a single conversation can be restored from it.
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onClose }) => {
+  const {
+    snapshotPreview,
+    takeSnapshot,
+    previewSnapshot,
+    restoreSnapshot,
+    restoreConversationFromSnapshot,
+  } = useSnapshotData();
+
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]);
+  const [note, setNote] = useState<string>('');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(() => {
+    listSnapshots()
+      .then(setSnapshots)
+      .catch(loadError => {
+        console.error('Loading snapshots failed:', loadError);
+        setError('Failed to load snapshots. See console for details.');
+      });
+  }, []);
+
+  useEffect(() => {
+    reload();
+    return subscribeToSnapshots(reload); // Automatic snapshots are taken in the background
+  }, [reload]);
+
+  const handleTakeSnapshot = async () => {
+    setError(null);
+    try {
+      await takeSnapshot(note);
+      setNote('');
+    } catch (snapshotError) {
+      console.error('Taking a snapshot failed:', snapshotError);
+      setError('Failed to take the snapshot. See console for details.');
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    setError(null);
+    try {
+      await deleteSnapshot(id);
+    } catch (deleteError) {
+      console.error('Deleting the snapshot failed:', deleteError);
+      setError('Failed to delete the snapshot. See console for details.');
+    }
+  };
+
+  const title = (
+    <h3 className="text-lg font-semibold text-gray-300 flex items-center gap-2">
+      <History size={18} /> Snapshots
+    </h3>
+  );
+
+  const panelActions = (
+    <IconButton icon={<X size={16} />} label="Close Snapshots" onClick={onClose} variant="gray" />
+  );
+
+  return (
+    <Panel title={title} actions={panelActions} width="20rem" scrollable maxHeight="45vh" className="flex flex-col">
+      <div className="space-y-4">
+        <div className="flex items-start gap-2">
+          <Input
+            sizeVariant="sm"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleTakeSnapshot(); }}
+            placeholder="Note, e.g. before rewrite"
+            id="history-snapshot-note"
+          />
+          <Button variant="secondary" size="sm" onClick={handleTakeSnapshot} leftIcon={<Camera size={14} />}>
+            Save
+          </Button>
+        </div>
+
+        {snapshots.length === 0 ? (
+          <p className={typography.placeholder}>No snapshots yet. They are also taken automatically while you work and before imports, deletes and restores.</p>
+        ) : (
+          <ul className="space-y-1">
+            {snapshots.map(snapshot => {
+              const isExpanded = expandedId === snapshot.id;
+              const conversationCount = countSnapshotConversations(snapshot);
+              return (
+                <li key={snapshot.id}>
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(isExpanded ? null : snapshot.id)}
+                    className="w-full flex items-center gap-2 text-left text-sm rounded-md px-2 py-1 text-gray-200 hover:bg-gray-800 transition-colors"
+                  >
+                    {isExpanded ? <ChevronDown size={14} className="flex-shrink-0" /> : <ChevronRight size={14} className="flex-shrink-0" />}
+                    <span className="flex-1 min-w-0">
+                      <span className="block truncate" title={snapshot.note}>{snapshot.note || SNAPSHOT_TRIGGER_LABELS[snapshot.trigger]}</span>
+                      <span className="block text-xs text-gray-400">{formatSnapshotDate(snapshot)}</span>
+                    </span>
+                    {snapshot.trigger !== 'manual' && (
+                      <span className={`${badgeStyles.base} ${badgeStyles.variants.gray}`}>auto</span>
+                    )}
+                  </button>
+                  {isExpanded && (
+                    <div className="pl-6 pr-1 pb-1 space-y-2">
+                      <p className="text-xs text-gray-400">
+                        {snapshot.npcs.length} NPC{snapshot.npcs.length === 1 ? '' : 's'} · {conversationCount} dialogue{conversationCount === 1 ? '' : 's'}
+                      </p>
+                      <ul className="space-y-0.5">
+                        {snapshot.npcs.flatMap(npc => npc.conversations.map(conv => {
+                          const isPreviewed = snapshotPreview?.snapshot.id === snapshot.id && snapshotPreview.conversationId === conv.id;
+                          return (
+                            <li key={`${npc.id}:${conv.id}`} className="flex items-center gap-1">
+                              <button
+                                type="button"
+                                onClick={() => previewSnapshot(snapshot, npc.id, conv.id)}
+                                className={`flex-1 flex items-center gap-1.5 min-w-0 text-left text-xs rounded px-1.5 py-0.5 transition-colors ${isPreviewed ? 'bg-gray-700 text-gray-100' : 'text-gray-300 hover:bg-gray-800'}`}
+                                title="Preview read-only on the canvas"
+                              >
+                                <Eye size={12} className="flex-shrink-0" />
+                                <span className="truncate">{npc.name} / {conv.name}</span>
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => restoreConversationFromSnapshot(snapshot, conv.id)}
+                                className="text-gray-500 hover:text-green-400"
+                                title="Restore this dialogue"
+                              >
+                                <RotateCcw size={12} />
+                              </button>
+                            </li>
+                          );
+                        }))}
+                      </ul>
+                      <div className="grid grid-cols-[1fr_auto] gap-2">
+                        <Button variant="secondary" size="sm" onClick={() => restoreSnapshot(snapshot)} leftIcon={<RotateCcw size={14} />}>
+                          Restore Project
+                        </Button>
+                        <IconButton
+                          icon={<Trash2 size={14} />}
+                          label="Delete Snapshot"
+                          onClick={() => handleDelete(snapshot.id)}
+                          variant="danger"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {error && (
+          <div className={`${alertStyles.base} ${alertStyles.variants.error}`}>
+            <p className={alertStyles.message}>{error}</p>
+          </div>
+        )}
+      </div>
+    </Panel>
+  );
+};
+
+export default HistoryPanel;
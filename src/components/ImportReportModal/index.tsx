@@ -0,0 +1,85 @@
+// File: src/components/ImportReportModal/index.tsx
+
+import React from 'react';
+import { AlertCircle, AlertTriangle, FileJson, Wrench } from 'lucide-react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import { ImportProblem } from '../../types';
+import { isRepairable } from '../../utils/importValidation';
+import { typography } from '../../styles/commonStyles';
+
+interface ImportReportModalProps {
+  fileName: string;
+  problems: ImportProblem[];
+  onImport: (repair: boolean) => void;
+  onClose: () => void;
+}
+
+// Published with the app, see public/
+const SCHEMA_URL = '/dialogue-export.schema.json';
+
+/**
+ * Lists the problems the import check found in a file, each with its path. Files with errors
+ * can only be imported after the automatic repair; warnings can be imported as they are.
+ */
+const ImportReportModal: React.FC<ImportReportModalProps> = ({ fileName, problems, onImport, onClose }) => {
+  const errorCount = problems.filter(problem => problem.severity === 'error').length;
+  const warningCount = problems.length - errorCount;
+  const canRepair = isRepairable(problems) && problems.some(problem => problem.repair);
+
+  const footer = (
+    <>
+      <Button variant="secondary" onClick={onClose}>Cancel</Button>
+      {errorCount === 0 && (
+        <Button variant="secondary" onClick={() => onImport(false)}>Import As Is</Button>
+      )}
+      <Button variant="primary" leftIcon={<Wrench size={16} />} onClick={() => onImport(true)} disabled={!canRepair}>
+        Repair and Import
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal isOpen onClose={onClose} title={`Import Check: ${fileName}`} footer={footer} maxWidth="3xl">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-3 text-sm">
+          <div className="flex items-center gap-3">
+            <span className="flex items-center gap-1 text-red-300"><AlertCircle size={14} /> {errorCount} error{errorCount === 1 ? '' : 's'}</span>
+            <span className="flex items-center gap-1 text-yellow-300"><AlertTriangle size={14} /> {warningCount} warning{warningCount === 1 ? '' : 's'}</span>
+          </div>
+          <a
+            href={SCHEMA_URL}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-xs text-gray-400 hover:text-gray-200"
+          >
+            <FileJson size={14} /> JSON Schema
+          </a>
+        </div>
+
+        {!canRepair && errorCount > 0 && (
+          <p className="text-sm text-red-300">Some errors can't be repaired automatically. Fix them in the file and import it again.</p>
+        )}
+
+        <ul className="max-h-[55vh] overflow-y-auto card-scrollbar pr-2 space-y-1.5">
+          {problems.map((problem, index) => (
+            <li key={`${problem.path}:${index}`} className="flex items-start gap-2 text-sm">
+              {problem.severity === 'error'
+                ? <AlertCircle size={14} className="flex-shrink-0 mt-0.5 text-red-400" />
+                : <AlertTriangle size={14} className="flex-shrink-0 mt-0.5 text-yellow-400" />}
+              <div className="min-w-0">
+                <code className="block truncate font-mono text-xs text-gray-400" title={problem.path}>{problem.path}</code>
+                <div className="text-gray-200">{problem.message}</div>
+                {problem.repair
+                  ? <div className="text-xs text-gray-400">Repair: {problem.repair}</div>
+                  : <div className={typography.placeholder}>No automatic repair</div>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </Modal>
+  );
+};
+
+export default ImportReportModal;
@@ -2,8 +2,10 @@
 
 import React from 'react';
 import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import { useKeybindingLabel } from '../../store/commandStore';
 import {
-  MousePointer2, ZoomIn, ZoomOut, Maximize2, Trash2, GitFork, Move, Spline, Plus, Command, ArrowBigUp
+  MousePointer2, ZoomIn, ZoomOut, Maximize2, Trash2, GitFork, Move, Spline, Plus, Command, ArrowBigUp, Copy, CopyPlus, Keyboard, SquarePlus, Navigation, ArrowLeftRight
 } from 'lucide-react';
 
 interface SectionProps {
@@ -46,25 +48,49 @@ const KeyName: React.FC<{ children: React.ReactNode }> = ({ children }) => (
   </kbd>
 );
 
+// The first key currently bound to a command (see the Keyboard Shortcuts settings)
+const BoundKey: React.FC<{ commandId: string }> = ({ commandId }) => {
+  const combo = useKeybindingLabel(commandId);
+  return combo ? <KeyName>{combo}</KeyName> : <em className="text-gray-500">no key</em>;
+};
+
 interface InfoModalProps {
   isOpen: boolean;
   onClose: () => void;
+  onCustomizeShortcuts?: () => void;
 }
 
-const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose }) => {
+const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose, onCustomizeShortcuts }) => {
+  const footer = onCustomizeShortcuts && (
+    <Button type="button" variant="secondary" leftIcon={<Keyboard size={14} />} onClick={onCustomizeShortcuts}>
+      Customize Shortcuts
+    </Button>
+  );
+
   return (
     <Modal
       isOpen={isOpen}
       onClose={onClose}
       title="Help & Shortcuts"
       maxWidth="2xl"
+      footer={footer}
     >
       <div className="space-y-5">
         <Section title="Canvas Navigation" icon={<Move size={18} />}>
           <Shortcut icon={<MousePointer2 size={16} />} action="Pan Canvas" description="Click and drag on an empty area of the canvas." />
           <Shortcut icon={<ZoomIn size={16} className="text-green-400" />} action="Zoom In" description="Use the scroll wheel upwards or pinch-out gesture." />
           <Shortcut icon={<ZoomOut size={16} className="text-red-400" />} action="Zoom Out" description="Use the scroll wheel downwards or pinch-in gesture." />
-          <Shortcut icon={<Maximize2 size={16} className="text-purple-400" />} action="Fit View" description="Click the Fit View button in controls or Layout Options." />
+          <Shortcut icon={<Maximize2 size={16} className="text-purple-400" />} action="Fit View" description={<span>Press <BoundKey commandId="view.fit" /> or click the Fit View button in controls or Layout Options.</span>} />
+          <Shortcut
+            icon={<Navigation size={16} className="text-sky-400" />}
+            action="Walk the Dialogue"
+            description={<span>Press <BoundKey commandId="nav.next" /> / <BoundKey commandId="nav.previous" /> to select the next or previous connected node, and <BoundKey commandId="nav.previousSibling" /> / <BoundKey commandId="nav.nextSibling" /> to move between choices.</span>}
+          />
+          <Shortcut
+            icon={<ArrowLeftRight size={16} className="text-purple-400" />}
+            action="Back / Forward"
+            description={<span>Press <BoundKey commandId="nav.back" /> / <BoundKey commandId="nav.forward" />, the mouse's side buttons or the arrows in the header to return to dialogues visited through jumps or the sidebar. The header also lists the jump nodes leading to the current dialogue.</span>}
+          />
         </Section>
 
         <Section title="Node & Edge Interaction" icon={<Spline size={18} />}>
@@ -73,16 +99,36 @@ const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose }) => {
           <Shortcut icon={<MousePointer2 size={16} />} action="Move Node" description="Click and drag a selected node." />
           <Shortcut icon={<Spline size={16} className="text-orange-500 dark:text-orange-400" />} action="Connect Nodes" description="Drag from a source handle to a target handle." />
           <Shortcut icon={<Spline size={16} className="text-teal-400" />} action="Create Node & Connect" description="Drag from a source handle and release on empty canvas area." />
+          <Shortcut
+            icon={<SquarePlus size={16} className="text-teal-400" />}
+            action="Create Node at Cursor"
+            description={<span>Press <BoundKey commandId="node.addUser" /> (User), <BoundKey commandId="node.addNpc" /> (NPC) or <BoundKey commandId="node.addJump" /> (Jump), then <BoundKey commandId="node.editDetails" /> to edit its title.</span>}
+          />
+          <Shortcut
+            icon={<Copy size={16} className="text-sky-400" />}
+            action="Copy / Cut / Paste"
+            description={<span>Press <KeyName>Ctrl</KeyName> + <KeyName>C</KeyName>, <KeyName>X</KeyName> or <KeyName>V</KeyName>. Nodes are pasted at the cursor, also in another dialogue or browser window.</span>}
+          />
+          <Shortcut
+            icon={<CopyPlus size={16} className="text-sky-400" />}
+            action="Duplicate Selected"
+            description={<span>Press <BoundKey commandId="edit.duplicate" />.</span>}
+          />
           <Shortcut
             icon={<Trash2 size={16} className="text-red-400" />}
             action="Delete Selected"
-            description={<span>Press <KeyName>Delete</KeyName> or <KeyName>Del</KeyName> key.</span>}
+            description={<span>Press <BoundKey commandId="edit.delete" />.</span>}
           />
         </Section>
 
         <Section title="Layout & Management" icon={<GitFork size={18} />}>
-          <Shortcut icon={<GitFork size={16} className="text-yellow-600 dark:text-yellow-400" />} action="Smart Layout" description="Click 'Layout Options' -> 'Smart Layout' to auto-arrange nodes." />
-          <Shortcut icon={<GitFork size={16} className="text-yellow-400" />} action="Change Direction" description="Use Horizontal/Vertical buttons in 'Layout Options'." />
+          <Shortcut
+            icon={<Command size={16} className="text-sky-400" />}
+            action="Command Palette"
+            description={<span>Press <BoundKey commandId="palette.open" /> to find commands, NPCs, dialogues and nodes. Type <KeyName>#</KeyName> and a node ID to jump to it.</span>}
+          />
+          <Shortcut icon={<GitFork size={16} className="text-yellow-600 dark:text-yellow-400" />} action="Smart Layout" description={<span>Press <BoundKey commandId="layout.apply" /> or click 'Layout Options' -&gt; 'Smart Layout' to auto-arrange nodes.</span>} />
+          <Shortcut icon={<GitFork size={16} className="text-yellow-400" />} action="Change Direction" description={<span>Press <BoundKey commandId="layout.toggleDirection" /> or use the Horizontal/Vertical buttons in 'Layout Options'.</span>} />
         </Section>
 
         <p className="text-xs text-center text-gray-500 dark:text-gray-400 pt-2">
@@ -0,0 +1,179 @@
+// File: src/components/KeybindingsModal/index.tsx
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, RotateCcw, X } from 'lucide-react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import IconButton from '../ui/IconButton';
+import Input from '../ui/Input';
+import { useCommandStore } from '../../store/commandStore';
+import { DEFAULT_KEYBINDINGS } from '../../constants/keybindings';
+import { getKeyCombo } from '../../utils/keyboardUtils';
+import { EditorCommand } from '../../types';
+import { alertStyles, typography } from '../../styles/commonStyles';
+
+interface KeybindingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface CommandGroup {
+  category: string;
+  commands: EditorCommand[];
+}
+
+const isSameCombos = (a: string[], b: string[]): boolean => a.length === b.length && a.every((combo, index) => combo === b[index]);
+
+interface KeyChipProps {
+  combo: string;
+  conflicts: string[]; // Titles of the other commands bound to the combo
+  onRemove: () => void;
+}
+
+const KeyChip: React.FC<KeyChipProps> = ({ combo, conflicts, onRemove }) => (
+  <span
+    className={`inline-flex items-center gap-1 pl-2 pr-0.5 py-0.5 rounded-md border text-xs font-mono ${conflicts.length > 0 ? 'border-red-700 bg-red-900/30 text-red-200' : 'border-gray-600 bg-gray-800 text-gray-200'}`}
+    title={conflicts.length > 0 ? `Also bound to ${conflicts.join(', ')}` : undefined}
+  >
+    {combo}
+    <button
+      type="button"
+      onClick={onRemove}
+      aria-label={`Remove ${combo}`}
+      className="p-0.5 rounded text-gray-400 hover:text-gray-100 hover:bg-gray-700 transition-colors"
+    >
+      <X size={12} />
+    </button>
+  </span>
+);
+
+/**
+ * Lists the registered commands with their keys. Keys are added by pressing them, and a key bound
+ * to more than one command is flagged until one of them lets go of it.
+ */
+const KeybindingsModal: React.FC<KeybindingsModalProps> = ({ isOpen, onClose }) => {
+  const commands = useCommandStore(state => state.commands);
+  const keybindings = useCommandStore(state => state.keybindings);
+  const setKeybinding = useCommandStore(state => state.setKeybinding);
+  const resetKeybindings = useCommandStore(state => state.resetKeybindings);
+  const [filter, setFilter] = useState('');
+  const [capturingId, setCapturingId] = useState<string | null>(null);
+
+  const groups = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    const byCategory = new Map<string, EditorCommand[]>();
+    [...commands]
+      .filter(command => !query || `${command.category} ${command.title} ${keybindings[command.id]?.join(' ') ?? ''}`.toLowerCase().includes(query))
+      .sort((a, b) => a.category.localeCompare(b.category) || a.title.localeCompare(b.title))
+      .forEach(command => byCategory.set(command.category, [...(byCategory.get(command.category) ?? []), command]));
+    return Array.from(byCategory, ([category, grouped]): CommandGroup => ({ category, commands: grouped }));
+  }, [commands, keybindings, filter]);
+
+  // Registered commands bound to each combo
+  const commandsByCombo = useMemo(() => {
+    const bound = new Map<string, EditorCommand[]>();
+    commands.forEach(command => (keybindings[command.id] ?? []).forEach(combo => bound.set(combo, [...(bound.get(combo) ?? []), command])));
+    return bound;
+  }, [commands, keybindings]);
+  const conflictCount = Array.from(commandsByCombo.values()).filter(bound => bound.length > 1).length;
+
+  // While capturing, the next key press becomes a binding instead of reaching the editor (or closing the dialog)
+  useEffect(() => {
+    if (!capturingId) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      const combo = getKeyCombo(event);
+      if (!combo) return; // Wait for the key that goes with the modifiers
+      if (combo !== 'Escape') setKeybinding(capturingId, [...(useCommandStore.getState().keybindings[capturingId] ?? []), combo]);
+      setCapturingId(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturingId, setKeybinding]);
+
+  const handleClose = () => {
+    setCapturingId(null);
+    onClose();
+  };
+
+  const footer = (
+    <div className="flex justify-between w-full">
+      <Button type="button" variant="secondary" leftIcon={<RotateCcw size={14} />} onClick={() => resetKeybindings()}>
+        Reset All
+      </Button>
+      <Button type="button" onClick={handleClose}>Done</Button>
+    </div>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Keyboard Shortcuts" maxWidth="2xl" footer={footer}>
+      <p className={typography.body.md}>
+        Click <Plus size={12} className="inline-block -mt-px" /> and press the new keys. Shortcuts are kept for every project in this browser.
+      </p>
+
+      <Input
+        sizeVariant="sm"
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        placeholder="Filter commands or keys..."
+        aria-label="Filter commands"
+      />
+
+      {conflictCount > 0 && (
+        <div className={`${alertStyles.base} ${alertStyles.variants.warning} ${alertStyles.message}`}>
+          {conflictCount} key{conflictCount === 1 ? ' is' : 's are'} bound to more than one command; only the first available command runs.
+        </div>
+      )}
+
+      {groups.length === 0 ? (
+        <p className={typography.placeholder}>No matching commands.</p>
+      ) : (
+        <div className="space-y-4">
+          {groups.map(group => (
+            <div key={group.category}>
+              <h4 className={typography.sectionTitle}>{group.category}</h4>
+              <ul className="space-y-1">
+                {group.commands.map(command => {
+                  const combos = keybindings[command.id] ?? [];
+                  const isDefault = isSameCombos(combos, DEFAULT_KEYBINDINGS[command.id] ?? []);
+                  return (
+                    <li key={command.id} className="flex items-center gap-2 rounded-md px-2 py-1 hover:bg-gray-800 transition-colors">
+                      <span className="flex-grow text-sm text-gray-200 truncate">{command.title}</span>
+                      <div className="flex flex-wrap justify-end items-center gap-1">
+                        {combos.map(combo => (
+                          <KeyChip
+                            key={combo}
+                            combo={combo}
+                            conflicts={(commandsByCombo.get(combo) ?? []).filter(other => other.id !== command.id).map(other => other.title)}
+                            onRemove={() => setKeybinding(command.id, combos.filter(other => other !== combo))}
+                          />
+                        ))}
+                        {capturingId === command.id ? (
+                          <span className="px-2 py-0.5 rounded-md border border-sky-600 text-xs text-sky-300 animate-pulse">
+                            Press keys (Esc to cancel)
+                          </span>
+                        ) : (
+                          <IconButton type="button" icon={<Plus size={14} />} label="Add Shortcut" onClick={() => setCapturingId(command.id)} />
+                        )}
+                        <IconButton
+                          type="button"
+                          icon={<RotateCcw size={14} />}
+                          label="Reset to Default"
+                          onClick={() => resetKeybindings(command.id)}
+                          disabled={isDefault}
+                        />
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default KeybindingsModal;
@@ -0,0 +1,160 @@
+// File: src/components/MergeImportModal/index.tsx
+
+import React, { useMemo, useState } from 'react';
+import { GitMerge } from 'lucide-react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import { MergeItemStatus, MergeResolution } from '../../types';
+import {
+  getDefaultDecisions,
+  hasConversationChoices,
+  MergeDecisions,
+  MergePreview,
+} from '../../utils/mergeImport';
+import { badgeStyles, typography } from '../../styles/commonStyles';
+
+interface MergeImportModalProps {
+  fileName: string;
+  preview: MergePreview;
+  onApply: (decisions: MergeDecisions) => void;
+  onClose: () => void;
+}
+
+const STATUS_BADGES: Record<MergeItemStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: badgeStyles.variants.green },
+  changed: { label: 'Changed', className: badgeStyles.variants.yellow },
+  conflicting: { label: 'Conflict', className: badgeStyles.variants.red },
+  unchanged: { label: 'Identical', className: badgeStyles.variants.gray },
+};
+
+const NEW_ITEM_CHOICES: { value: MergeResolution; label: string }[] = [
+  { value: 'ours', label: 'Skip' },
+  { value: 'theirs', label: 'Import' },
+];
+
+const EXISTING_ITEM_CHOICES: { value: MergeResolution; label: string }[] = [
+  { value: 'ours', label: 'Keep ours' },
+  { value: 'theirs', label: 'Take theirs' },
+  { value: 'both', label: 'Keep both' },
+];
+
+interface ResolutionPickerProps {
+  status: MergeItemStatus;
+  value: MergeResolution;
+  onChange: (value: MergeResolution) => void;
+}
+
+const ResolutionPicker: React.FC<ResolutionPickerProps> = ({ status, value, onChange }) => {
+  if (status === 'unchanged') return null;
+  // Taking over a conflict would overwrite an unrelated entity of ours; it can only be kept as a copy
+  const choices = status === 'new' ? NEW_ITEM_CHOICES
+    : status === 'conflicting' ? EXISTING_ITEM_CHOICES.filter(choice => choice.value !== 'theirs')
+    : EXISTING_ITEM_CHOICES;
+  return (
+    <div className="flex flex-shrink-0 rounded-md overflow-hidden border border-[var(--color-border)] text-xs">
+      {choices.map(choice => (
+        <button
+          key={choice.value}
+          type="button"
+          onClick={() => onChange(choice.value)}
+          className={`px-2 py-0.5 transition-colors ${value === choice.value ? 'bg-gray-700 text-gray-100' : 'text-gray-400 hover:bg-gray-800'}`}
+        >
+          {choice.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const StatusBadge: React.FC<{ status: MergeItemStatus }> = ({ status }) => (
+  <span className={`${badgeStyles.base} ${STATUS_BADGES[status].className} flex-shrink-0`}>{STATUS_BADGES[status].label}</span>
+);
+
+/**
+ * Preview of a merge import: every incoming NPC and conversation with its status compared to
+ * the project, and a choice per item. Nothing is changed until the user applies the merge.
+ */
+const MergeImportModal: React.FC<MergeImportModalProps> = ({ fileName, preview, onApply, onClose }) => {
+  const [decisions, setDecisions] = useState<MergeDecisions>(() => getDefaultDecisions(preview));
+
+  const counts = useMemo(() => {
+    const result: Record<MergeItemStatus, number> = { new: 0, changed: 0, conflicting: 0, unchanged: 0 };
+    preview.items.forEach(item => item.conversations.forEach(conv => { result[conv.status]++; }));
+    return result;
+  }, [preview]);
+
+  const setDecision = (key: string, value: MergeResolution) => setDecisions(prev => ({ ...prev, [key]: value }));
+
+  const footer = (
+    <>
+      <Button variant="secondary" onClick={onClose}>Cancel</Button>
+      <Button variant="primary" leftIcon={<GitMerge size={16} />} onClick={() => onApply(decisions)}>
+        Apply Merge
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal isOpen onClose={onClose} title={`Merge Import: ${fileName}`} footer={footer} maxWidth="3xl">
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+          <span>Dialogues:</span>
+          {(Object.keys(STATUS_BADGES) as MergeItemStatus[]).map(status => (
+            <span key={status} className={`${badgeStyles.base} ${STATUS_BADGES[status].className}`}>
+              {counts[status]} {STATUS_BADGES[status].label.toLowerCase()}
+            </span>
+          ))}
+          {preview.newVariables.length > 0 && (
+            <span>· {preview.newVariables.length} new variable{preview.newVariables.length === 1 ? '' : 's'}</span>
+          )}
+        </div>
+
+        <ul className="max-h-[55vh] overflow-y-auto card-scrollbar pr-2 space-y-3">
+          {preview.items.map(item => {
+            const showConversationChoices = hasConversationChoices(item, decisions);
+            return (
+              <li key={item.key} className="rounded-md border border-[var(--color-border)] p-2">
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 min-w-0 truncate font-medium text-gray-200" title={item.npc.name}>
+                    {item.npc.name}
+                    {item.status === 'conflicting' && item.ours && (
+                      <span className="ml-1 text-xs font-normal text-gray-400">(ours: {item.ours.name})</span>
+                    )}
+                  </span>
+                  <StatusBadge status={item.status} />
+                  <ResolutionPicker status={item.status} value={decisions[item.key]} onChange={value => setDecision(item.key, value)} />
+                </div>
+                {item.conversations.length === 0 ? (
+                  <p className={`${typography.placeholder} pl-4 mt-1`}>No dialogues.</p>
+                ) : (
+                  <ul className="mt-1 pl-4 space-y-1">
+                    {item.conversations.map(conv => (
+                      <li key={conv.key} className="flex items-center gap-2 text-sm">
+                        <span className="flex-1 min-w-0 truncate text-gray-300" title={conv.conversation.name}>
+                          {conv.conversation.name}
+                          {conv.status === 'conflicting' && conv.ours && (
+                            <span className="ml-1 text-xs text-gray-400">(ours: {conv.ours.conversation.name})</span>
+                          )}
+                        </span>
+                        <StatusBadge status={conv.status} />
+                        {showConversationChoices && (
+                          <ResolutionPicker status={conv.status} value={decisions[conv.key]} onChange={value => setDecision(conv.key, value)} />
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <p className={typography.placeholder}>
+          "Keep both" adds their version as a copy with new IDs. Identical items are left as they are.
+        </p>
+      </div>
+    </Modal>
+  );
+};
+
+export default MergeImportModal;
@@ -0,0 +1,187 @@
+// File: src/components/NodeInfoPanel/NodeActionsEditor.tsx
+
+import React from 'react';
+import { ArrowUp, ArrowDown, X, Plus, Variable, Zap } from 'lucide-react';
+import Button from '../ui/Button';
+import { DialogueNodeAction, DialogueVariable, DialogueActionOperator, DialogueVariableValue } from '../../types';
+import { getOperatorsForType, validateAction } from '../../utils/actionUtils';
+import { getInitialValueForType } from '../../utils/conditionUtils';
+import { inputStyles, typography } from '../../styles/commonStyles';
+
+interface NodeActionsEditorProps {
+  nodeId: string;
+  actions: DialogueNodeAction[];
+  variables: DialogueVariable[];
+  eventNames: string[];
+  onChange: (actions: DialogueNodeAction[]) => void;
+}
+
+const smallInputClasses = `${inputStyles.base} ${inputStyles.size.sm}`;
+const rowButtonClasses = 'p-1 rounded text-gray-400 hover:text-gray-200 hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent';
+
+/**
+ * Structured editor for the ordered list of node side-effects.
+ * Each row is either "set variable" (variable, operator, value) or "fire event" (name, argument).
+ */
+const NodeActionsEditor: React.FC<NodeActionsEditorProps> = ({
+  nodeId,
+  actions,
+  variables,
+  eventNames,
+  onChange,
+}) => {
+  const updateAt = (index: number, action: DialogueNodeAction) => {
+    onChange(actions.map((a, i) => (i === index ? action : a)));
+  };
+
+  const removeAt = (index: number) => {
+    onChange(actions.filter((_, i) => i !== index));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= actions.length) return;
+    const next = [...actions];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const addSetVariable = () => {
+    const variable = variables[0];
+    onChange([...actions, {
+      type: 'setVariable',
+      variable: variable?.name ?? '',
+      operator: '=',
+      value: variable ? getInitialValueForType(variable.type, variable.enumValues) : '',
+    }]);
+  };
+
+  const addEvent = () => {
+    onChange([...actions, { type: 'event', event: '', argument: '' }]);
+  };
+
+  const renderValueInput = (action: DialogueNodeAction & { type: 'setVariable' }, index: number) => {
+    if (action.operator === 'toggle') return null;
+    const variable = variables.find(v => v.name === action.variable);
+    const setValue = (value: DialogueVariableValue) => updateAt(index, { ...action, value });
+
+    switch (variable?.type) {
+      case 'boolean':
+        return (
+          <select className={smallInputClasses} value={String(action.value)} onChange={(e) => setValue(e.target.value === 'true')} aria-label="Value">
+            <option value="true">true</option>
+            <option value="false">false</option>
+          </select>
+        );
+      case 'number':
+        return (
+          <input type="number" className={smallInputClasses} value={Number(action.value ?? 0)} onChange={(e) => setValue(Number(e.target.value) || 0)} aria-label="Value" />
+        );
+      case 'enum':
+        return (
+          <select className={smallInputClasses} value={String(action.value ?? '')} onChange={(e) => setValue(e.target.value)} aria-label="Value">
+            {(variable.enumValues || []).map(v => <option key={v} value={v}>{v}</option>)}
+          </select>
+        );
+      default:
+        return (
+          <input type="text" className={smallInputClasses} value={String(action.value ?? '')} onChange={(e) => setValue(e.target.value)} aria-label="Value" />
+        );
+    }
+  };
+
+  const renderAction = (action: DialogueNodeAction, index: number) => {
+    const error = validateAction(action, variables);
+
+    return (
+      <div key={index} className="p-2 rounded-md border border-[var(--color-border)] bg-black/20 space-y-1.5">
+        <div className="flex items-center gap-1">
+          {action.type === 'event' ? <Zap size={12} className="text-yellow-400" /> : <Variable size={12} className="text-blue-400" />}
+          <span className={`${typography.body.sm} flex-grow`}>{action.type === 'event' ? 'Fire event' : 'Set variable'}</span>
+          <button type="button" className={rowButtonClasses} onClick={() => move(index, -1)} disabled={index === 0} title="Move up"><ArrowUp size={12} /></button>
+          <button type="button" className={rowButtonClasses} onClick={() => move(index, 1)} disabled={index === actions.length - 1} title="Move down"><ArrowDown size={12} /></button>
+          <button type="button" className={rowButtonClasses} onClick={() => removeAt(index)} title="Remove action"><X size={12} /></button>
+        </div>
+
+        {action.type === 'setVariable' ? (
+          <div className="grid grid-cols-[1fr_4.5rem] gap-1.5">
+            <select
+              className={`${smallInputClasses} font-mono`}
+              value={action.variable}
+              onChange={(e) => {
+                const variable = variables.find(v => v.name === e.target.value);
+                const operators = getOperatorsForType(variable?.type);
+                updateAt(index, {
+                  ...action,
+                  variable: e.target.value,
+                  operator: operators.includes(action.operator) ? action.operator : operators[0],
+                  value: variable ? getInitialValueForType(variable.type, variable.enumValues) : action.value,
+                });
+              }}
+              aria-label="Variable"
+            >
+              {!variables.some(v => v.name === action.variable) && <option value={action.variable}>{action.variable || 'Select...'}</option>}
+              {variables.map(v => <option key={v.id} value={v.name}>{v.name}</option>)}
+            </select>
+            <select
+              className={`${smallInputClasses} font-mono`}
+              value={action.operator}
+              onChange={(e) => updateAt(index, { ...action, operator: e.target.value as DialogueActionOperator })}
+              aria-label="Operator"
+            >
+              {getOperatorsForType(variables.find(v => v.name === action.variable)?.type).map(op => (
+                <option key={op} value={op}>{op}</option>
+              ))}
+            </select>
+            <div className="col-span-2">{renderValueInput(action, index)}</div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-1.5">
+            <input
+              type="text"
+              className={`${smallInputClasses} font-mono`}
+              value={action.event}
+              onChange={(e) => updateAt(index, { ...action, event: e.target.value })}
+              placeholder="start_quest"
+              list={`node-event-names-${nodeId}`}
+              aria-label="Event name"
+            />
+            <input
+              type="text"
+              className={`${smallInputClasses} font-mono`}
+              value={action.argument ?? ''}
+              onChange={(e) => updateAt(index, { ...action, argument: e.target.value })}
+              placeholder="q_intro"
+              aria-label="Event argument"
+            />
+          </div>
+        )}
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <label className={typography.label}>Actions</label>
+      <datalist id={`node-event-names-${nodeId}`}>
+        {eventNames.map(name => <option key={name} value={name} />)}
+      </datalist>
+      <div className="space-y-2">
+        {actions.map(renderAction)}
+        {actions.length === 0 && <p className={typography.placeholder}>No actions. Actions run in order when this node is reached.</p>}
+      </div>
+      <div className="flex gap-2 mt-2">
+        <Button type="button" variant="secondary" size="xs" leftIcon={<Plus size={12} />} onClick={addSetVariable} disabled={variables.length === 0} title={variables.length === 0 ? 'Define a variable first' : 'Add a variable change'}>
+          Variable
+        </Button>
+        <Button type="button" variant="secondary" size="xs" leftIcon={<Plus size={12} />} onClick={addEvent}>
+          Event
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default NodeActionsEditor;
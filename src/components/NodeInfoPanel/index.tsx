@@ -1,15 +1,19 @@
 // File: src/components/NodeInfoPanel/index.tsx
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Trash2 } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Trash2, CheckCircle2 } from 'lucide-react';
 import { NodeChange } from 'reactflow';
 import { useNodeInfoPanelData } from '../../store/dialogueStore';
+import { useRegisterCommands } from '../../store/commandStore';
 import Input from '../ui/Input';
 import Panel from '../ui/Panel';
 import Select, { SelectOption } from '../ui/Select';
 import IconButton from '../ui/IconButton';
 import { typography } from '../../styles/commonStyles';
+import { isTranslatableNode } from '../../utils/localization';
+import { DialogueNode, EditorCommand, TranslatableField } from '../../types';
 import MarkdownEditor from '../Markdown/MarkdownEditor';
+import NodeActionsEditor from './NodeActionsEditor';
 
 const NodeInfoPanel: React.FC = () => {
   const {
@@ -19,38 +23,71 @@ const NodeInfoPanel: React.FC = () => {
     updateNodeText,
     updateNodeType,
     updateNodeNpcId,
+    updateNodeExpression,
     updateNodeTargetConversation, // Action for jump node target
     availableNodeTypes,
     npcOptions,
+    npcs,
     allConversationsForDropdown, // Selector for jump node target dropdown
+    updateNodeActions,
+    variables,
+    eventNames,
+    localization,
+    activeLocale,
+    markTranslationReviewed,
   } = useNodeInfoPanelData();
 
+  // In a target locale the title and text fields edit the translation instead of the source
+  const isTranslating = !!node && activeLocale !== localization.sourceLocale && isTranslatableNode(node);
+  const getFieldValue = (target: DialogueNode, field: TranslatableField) =>
+    isTranslating ? target.data.translations?.[activeLocale]?.[field]?.value || '' : target.data[field] || '';
+  const nodeLabel = node ? getFieldValue(node, 'label') : '';
+  const nodeText = node ? getFieldValue(node, 'text') : '';
+
   const [label, setLabel] = useState<string>('');
   const [text, setText] = useState<string>('');
   const [selectedType, setSelectedType] = useState<string>('');
 
   const prevNodeId = useRef<string | null>(null);
+  const prevLocale = useRef<string>(activeLocale);
   const inputRef = useRef<HTMLInputElement>(null);
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const lastSentTextRef = useRef<string>(''); // Last text handed to the store by this panel
+  const syncedLabel = useRef<string>(''); // Stored title the field was last set from
+  const syncedType = useRef<string>(''); // Stored type the dropdown was last set from
 
-  // Sync local state with selected node from global store
+  // Sync local state with the selected node, and pick up changes made outside the panel (e.g. undo/redo)
+  // to the node being edited. Text the panel sent itself is ignored so a late store update can't
+  // overwrite newer typing.
   useEffect(() => {
-    if (node && node.id !== prevNodeId.current) {
-      setLabel(node.data.label || '');
-      setText(node.data.text || '');
-      setSelectedType(node.type || 'custom');
-      prevNodeId.current = node.id;
-    } else if (!node) {
+    if (!node) {
       // Reset local state if no node is selected
       setLabel('');
       setText('');
       setSelectedType('');
       prevNodeId.current = null;
+      return;
+    }
+    const nodeType = node.type || 'custom';
+    const isNewTarget = node.id !== prevNodeId.current || activeLocale !== prevLocale.current;
+    if (isNewTarget || nodeLabel !== syncedLabel.current) {
+      setLabel(nodeLabel);
+      syncedLabel.current = nodeLabel;
+    }
+    if (isNewTarget || nodeText !== lastSentTextRef.current) {
+      setText(nodeText);
+      lastSentTextRef.current = nodeText;
     }
-  }, [node]);
+    if (isNewTarget || nodeType !== syncedType.current) {
+      setSelectedType(nodeType);
+      syncedType.current = nodeType;
+    }
+    prevNodeId.current = node.id;
+    prevLocale.current = activeLocale;
+  }, [node, activeLocale]);
 
   const handleLabelBlur = () => {
-    if (node && label.trim() && label.trim() !== node.data.label) {
+    if (node && label.trim() && label.trim() !== nodeLabel) {
       updateNodeData(node.id, label.trim());
     }
   };
@@ -59,14 +96,18 @@ const NodeInfoPanel: React.FC = () => {
     setText(newText);
     if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current);
     debounceTimerRef.current = setTimeout(() => {
-      if (node) updateNodeText(node.id, newText);
+      if (node) {
+        lastSentTextRef.current = newText;
+        updateNodeText(node.id, newText);
+      }
     }, 50); // Short debounce for text input
   };
 
   const handleTextBlur = () => {
     // Ensure latest text is saved on blur, clearing any pending debounce
     if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current);
-    if (node && text !== (node.data.text || '')) {
+    if (node && text !== nodeText) {
+      lastSentTextRef.current = text;
       updateNodeText(node.id, text);
     }
   };
@@ -74,12 +115,12 @@ const NodeInfoPanel: React.FC = () => {
   const handleLabelKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
     if (!node) return;
     if (event.key === 'Enter') {
-      if (label.trim() && label.trim() !== node.data.label) {
+      if (label.trim() && label.trim() !== nodeLabel) {
         updateNodeData(node.id, label.trim());
       }
       inputRef.current?.blur();
     } else if (event.key === 'Escape') {
-      setLabel(node.data.label || ''); // Reset on escape
+      setLabel(nodeLabel); // Reset on escape
       inputRef.current?.blur();
     }
   };
@@ -99,6 +140,12 @@ const NodeInfoPanel: React.FC = () => {
     }
   };
 
+  const handleExpressionChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    if (node && node.type === 'npc') {
+      updateNodeExpression(node.id, event.target.value || undefined);
+    }
+  };
+
   const handleJumpTargetChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
     const selectedValue = event.target.value;
     if (node && node.type === 'jump') {
@@ -131,6 +178,20 @@ const NodeInfoPanel: React.FC = () => {
     }
   }, [node, onNodesChange]);
 
+  // Moves the keyboard into the panel, e.g. right after creating a node
+  const commands = useMemo((): EditorCommand[] => [{
+    id: 'node.editDetails',
+    title: 'Edit Node Details',
+    category: 'Node',
+    keywords: ['rename', 'focus panel'],
+    isAvailable: () => inputRef.current !== null,
+    run: () => {
+      inputRef.current?.focus();
+      inputRef.current?.select();
+    },
+  }], []);
+  useRegisterCommands(commands);
+
   // Prepare options for the type dropdown
   const nodeTypeOptions: SelectOption[] = availableNodeTypes.map(type => ({
     value: type,
@@ -145,13 +206,48 @@ const NodeInfoPanel: React.FC = () => {
   // Prepare the delete action button for the panel header
   const panelActions = <IconButton icon={<Trash2 size={16} />} label="Delete Node" onClick={handleDeleteNode} variant="danger" />;
 
+  // Expressions of the node's NPC; the NPC's own portrait is the default
+  const nodeNpc = node.type === 'npc' ? npcs.find(npc => npc.id === node.data.npcId) : undefined;
+  const expressionOptions: SelectOption[] = [
+    { value: '', label: 'Default portrait' },
+    ...(nodeNpc?.expressions ?? []).map(expression => ({ value: expression.name, label: expression.name })),
+  ];
+  if (node.data.expression && !nodeNpc?.expressions?.some(expression => expression.name === node.data.expression)) {
+    expressionOptions.push({ value: node.data.expression, label: `${node.data.expression} (not defined)` });
+  }
+
   // Determine the current value for the jump target dropdown
   const jumpTargetValue = node.type === 'jump' && node.data.targetNpcId && node.data.targetConversationId
     ? `${node.data.targetNpcId}|${node.data.targetConversationId}`
     : '';
 
+  // Source text shown under a translated field, with a way to confirm an outdated translation still fits
+  const renderTranslationSource = (field: TranslatableField) => {
+    if (!isTranslating) return null;
+    const translation = node.data.translations?.[activeLocale]?.[field];
+    return (
+      <div className="mt-1.5 space-y-1">
+        <p className="text-xs text-gray-400">
+          <span className="uppercase text-gray-500">{localization.sourceLocale}:</span> {node.data[field] || <span className={typography.placeholder}>empty</span>}
+        </p>
+        {translation?.outdated && (
+          <div className="flex items-center justify-between gap-2 text-xs text-amber-300">
+            <span>Source changed since translation</span>
+            <button
+              type="button"
+              className="flex items-center gap-1 text-gray-300 hover:text-white"
+              onClick={() => markTranslationReviewed(node.id, activeLocale, field)}
+            >
+              <CheckCircle2 size={12} /> Mark as up to date
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
-    <Panel title="Edit Node" width="18rem" actions={panelActions}>
+    <Panel title={isTranslating ? `Edit Node (${activeLocale})` : 'Edit Node'} width="18rem" actions={panelActions} scrollable maxHeight="calc(100vh - 6rem)">
       <div className="space-y-4">
         {/* Node Title Input */}
         <Input
@@ -161,9 +257,10 @@ const NodeInfoPanel: React.FC = () => {
           onChange={(e) => setLabel(e.target.value)}
           onBlur={handleLabelBlur}
           onKeyDown={handleLabelKeyDown}
-          placeholder="Enter node title"
+          placeholder={isTranslating ? 'Enter translated title' : 'Enter node title'}
           id={`node-label-${node.id}`}
         />
+        {renderTranslationSource('label')}
 
         {/* Node Text Editor (Hidden for jump nodes) */}
         {node.type !== 'jump' && (
@@ -177,6 +274,7 @@ const NodeInfoPanel: React.FC = () => {
                 placeholder="Enter text with markdown formatting..."
                 rows={5}
               />
+              {renderTranslationSource('text')}
             </div>
         )}
 
@@ -201,6 +299,17 @@ const NodeInfoPanel: React.FC = () => {
           />
         )}
 
+        {/* Expression of the NPC for this line */}
+        {nodeNpc?.expressions?.length || node.data.expression ? (
+          <Select
+            id={`node-expression-${node.id}`}
+            label="Expression"
+            value={node.data.expression || ''}
+            onChange={handleExpressionChange}
+            options={expressionOptions}
+          />
+        ) : null}
+
         {/* Conditional Jump Target Selector */}
         {node.type === 'jump' && (
           <Select
@@ -212,6 +321,15 @@ const NodeInfoPanel: React.FC = () => {
             placeholder="Select Target Dialogue..."
           />
         )}
+
+        {/* Side-effects run when the node is reached */}
+        <NodeActionsEditor
+          nodeId={node.id}
+          actions={node.data.actions || []}
+          variables={variables}
+          eventNames={eventNames}
+          onChange={(actions) => updateNodeActions(node.id, actions)}
+        />
       </div>
     </Panel>
   );
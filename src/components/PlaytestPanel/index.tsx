@@ -0,0 +1,164 @@
+// File: src/components/PlaytestPanel/index.tsx
+
+import React, { useEffect, useRef, useState } from 'react';
+import { RotateCcw, X, User, MessageSquare, ChevronRight, Variable } from 'lucide-react';
+import Panel from '../ui/Panel';
+import Button from '../ui/Button';
+import IconButton from '../ui/IconButton';
+import MarkdownRenderer from '../Markdown/MarkdownRenderer';
+import { usePlaytestStore } from '../../store/playtestStore';
+import { useDialogueStore } from '../../store/dialogueStore';
+import { PlaytestEntry, NPC } from '../../types';
+import { hexToRgba } from '../../utils/colorUtils';
+import { DEFAULT_NPC_ACCENT_COLOR } from '../../constants/initialData';
+import { alertStyles, typography } from '../../styles/commonStyles';
+import usePortraitUrl from '../../hooks/usePortraitUrl';
+import { getExpressionPortrait } from '../../utils/portraitUtils';
+
+interface TranscriptEntryProps {
+  entry: PlaytestEntry;
+  npc?: NPC;
+}
+
+const TranscriptEntry: React.FC<TranscriptEntryProps> = ({ entry, npc }) => {
+  const portraitUrl = usePortraitUrl(getExpressionPortrait(npc, entry.expression));
+  switch (entry.kind) {
+    case 'npc': {
+      const accentColor = npc?.accentColor || DEFAULT_NPC_ACCENT_COLOR;
+      return (
+        <div className="flex items-start gap-2 pr-8">
+          <div className="flex-shrink-0 w-8 h-8 rounded-full overflow-hidden border bg-gray-700 flex items-center justify-center" style={{ borderColor: accentColor }}>
+            {portraitUrl
+              ? <img src={portraitUrl} alt={npc?.name} className="w-full h-full object-cover" />
+              : <User size={16} className="text-gray-400" />}
+          </div>
+          <div className="min-w-0">
+            <div className="text-xs font-semibold text-gray-300 mb-0.5">{npc?.name || 'Unknown NPC'}</div>
+            <div
+              className="rounded-2xl rounded-tl-sm px-3 py-2 text-sm border"
+              style={{ backgroundColor: hexToRgba(accentColor, 0.2), borderColor: accentColor }}
+            >
+              {entry.text
+                ? <MarkdownRenderer markdown={entry.text} />
+                : <span className={typography.placeholder}>{entry.label}</span>}
+            </div>
+          </div>
+        </div>
+      );
+    }
+    case 'user':
+      return (
+        <div className="flex justify-end pl-8">
+          <div className="rounded-2xl rounded-tr-sm px-3 py-2 text-sm bg-gray-700 border border-gray-600 text-gray-100">
+            <MarkdownRenderer markdown={entry.text} />
+          </div>
+        </div>
+      );
+    case 'narration':
+      return (
+        <div className="text-center text-sm italic text-gray-400 px-4">
+          <MarkdownRenderer markdown={entry.text} />
+        </div>
+      );
+    default:
+      return <div className="text-center text-[11px] font-mono text-gray-500">{entry.text}</div>;
+  }
+};
+
+/**
+ * Floating chat-style simulator that plays the selected conversation from its start node.
+ */
+const PlaytestPanel: React.FC = () => {
+  const { isOpen, session, error, close, restart, choose } = usePlaytestStore();
+  const npcs = useDialogueStore(state => state.npcs);
+  const [showVariables, setShowVariables] = useState(false);
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest line in view
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [session?.transcript.length]);
+
+  if (!isOpen) return null;
+
+  const panelActions = (
+    <>
+      <IconButton icon={<Variable size={16} />} label={showVariables ? 'Hide Variables' : 'Show Variables'} onClick={() => setShowVariables(prev => !prev)} variant="gray" />
+      <IconButton icon={<RotateCcw size={16} />} label="Restart Playtest" onClick={restart} variant="gray" />
+      <IconButton icon={<X size={16} />} label="Stop Playtest" onClick={close} variant="gray" />
+    </>
+  );
+
+  const title = (
+    <h3 className="text-lg font-semibold text-gray-300 flex items-center gap-2">
+      <MessageSquare size={18} /> Playtest
+    </h3>
+  );
+
+  const values = session ? Object.entries(session.values) : [];
+
+  return (
+    <Panel title={title} actions={panelActions} width="26rem" className="flex flex-col max-h-[60vh]">
+      {error && (
+        <div className={`${alertStyles.base} ${alertStyles.variants.warning}`}>
+          <span className={alertStyles.message}>{error}</span>
+        </div>
+      )}
+
+      {session && (
+        <div className="flex flex-col gap-3 min-h-0 max-h-[calc(60vh-5rem)]">
+          {showVariables && (
+            <div className="rounded-md border border-[var(--color-border)] bg-black/20 p-2 max-h-24 overflow-y-auto card-scrollbar">
+              {values.length > 0 ? (
+                <div className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-xs font-mono">
+                  {values.map(([name, value]) => (
+                    <React.Fragment key={name}>
+                      <span className="text-gray-400 truncate">{name}</span>
+                      <span className="text-gray-200 truncate">{String(value)}</span>
+                    </React.Fragment>
+                  ))}
+                </div>
+              ) : (
+                <p className={typography.placeholder}>No variables defined.</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex-1 overflow-y-auto card-scrollbar space-y-3 pr-1 min-h-[8rem]">
+            {session.transcript.map(entry => (
+              <TranscriptEntry
+                key={entry.id}
+                entry={entry}
+                npc={entry.npcId ? npcs.find(n => n.id === entry.npcId) : undefined}
+              />
+            ))}
+            <div ref={transcriptEndRef} />
+          </div>
+
+          <div className="flex flex-col gap-1.5 border-t border-[var(--color-border)] pt-3">
+            {session.options.map(option => (
+              <Button
+                key={option.nodeId}
+                variant={option.kind === 'choice' ? 'secondary' : 'ghost'}
+                size="sm"
+                fullWidth
+                className="justify-start text-left"
+                rightIcon={option.kind === 'continue' ? <ChevronRight size={14} /> : undefined}
+                onClick={() => choose(option)}
+              >
+                <span className="flex-grow truncate">{option.label}</span>
+              </Button>
+            ))}
+            {session.finished && (
+              <Button variant="primary" size="sm" fullWidth leftIcon={<RotateCcw size={14} />} onClick={restart}>
+                Play Again
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </Panel>
+  );
+};
+
+export default PlaytestPanel;
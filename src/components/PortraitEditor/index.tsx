@@ -0,0 +1,208 @@
+// File: src/components/PortraitEditor/index.tsx
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, RotateCcw } from 'lucide-react';
+import Button from '../ui/Button';
+import { FocalPoint, PortraitCrop } from '../../types';
+import {
+  clampCrop,
+  clampFocalPoint,
+  DEFAULT_CROP,
+  DEFAULT_FOCAL_POINT,
+  getThumbnailSquare,
+  MIN_CROP_SIZE,
+} from '../../utils/portraitUtils';
+import { formStyles } from '../../styles/commonStyles';
+
+interface PortraitEditorProps {
+  source: Blob;
+  initialCrop: PortraitCrop;
+  initialFocalPoint: FocalPoint;
+  isApplying?: boolean;
+  onApply: (crop: PortraitCrop, focalPoint: FocalPoint) => void;
+  onCancel: () => void;
+}
+
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+type DragMode = 'move' | 'focal' | Corner;
+
+interface DragState {
+  mode: DragMode;
+  startX: number;
+  startY: number;
+  crop: PortraitCrop;
+  focalPoint: FocalPoint;
+}
+
+const CORNERS: { corner: Corner; className: string }[] = [
+  { corner: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { corner: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { corner: 'sw', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { corner: 'se', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+];
+
+const PREVIEW_SIZE = 64; // px, same as the avatar in the edit dialog
+
+// Moves the dragged corner, keeping the opposite one in place
+const resizeCrop = (crop: PortraitCrop, corner: Corner, dx: number, dy: number): PortraitCrop => {
+  let left = crop.x;
+  let top = crop.y;
+  let right = crop.x + crop.width;
+  let bottom = crop.y + crop.height;
+  if (corner.includes('w')) left = Math.min(Math.max(0, left + dx), right - MIN_CROP_SIZE);
+  if (corner.includes('e')) right = Math.max(Math.min(1, right + dx), left + MIN_CROP_SIZE);
+  if (corner.includes('n')) top = Math.min(Math.max(0, top + dy), bottom - MIN_CROP_SIZE);
+  if (corner.includes('s')) bottom = Math.max(Math.min(1, bottom + dy), top + MIN_CROP_SIZE);
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+/**
+ * Crops an uploaded portrait and sets its focal point, the spot round avatars are centered on.
+ */
+const PortraitEditor: React.FC<PortraitEditorProps> = ({
+  source,
+  initialCrop,
+  initialFocalPoint,
+  isApplying = false,
+  onApply,
+  onCancel,
+}) => {
+  const [sourceUrl, setSourceUrl] = useState<string>();
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [crop, setCrop] = useState(initialCrop);
+  const [focalPoint, setFocalPoint] = useState(initialFocalPoint);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(source);
+    setSourceUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [source]);
+
+  const startDrag = (mode: DragMode) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, crop, focalPoint };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const bounds = containerRef.current?.getBoundingClientRect();
+    if (!drag || !bounds) return;
+    const dx = (e.clientX - drag.startX) / bounds.width;
+    const dy = (e.clientY - drag.startY) / bounds.height;
+    if (drag.mode === 'move') {
+      setCrop(clampCrop({ ...drag.crop, x: drag.crop.x + dx, y: drag.crop.y + dy }));
+    } else if (drag.mode === 'focal') {
+      setFocalPoint(clampFocalPoint({
+        x: drag.focalPoint.x + dx / drag.crop.width,
+        y: drag.focalPoint.y + dy / drag.crop.height,
+      }));
+    } else {
+      setCrop(resizeCrop(drag.crop, drag.mode, dx, dy));
+    }
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const handleReset = () => {
+    setCrop(DEFAULT_CROP);
+    setFocalPoint(DEFAULT_FOCAL_POINT);
+  };
+
+  // Shows the same square the thumbnail will be rendered from
+  const previewStyle: React.CSSProperties = {};
+  if (imageSize && sourceUrl) {
+    const square = getThumbnailSquare(imageSize.width, imageSize.height, crop, focalPoint);
+    const scale = PREVIEW_SIZE / square.size;
+    previewStyle.backgroundImage = `url(${sourceUrl})`;
+    previewStyle.backgroundSize = `${imageSize.width * scale}px ${imageSize.height * scale}px`;
+    previewStyle.backgroundPosition = `${-square.x * scale}px ${-square.y * scale}px`;
+  }
+
+  const percent = (value: number) => `${value * 100}%`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start gap-4">
+        <div
+          ref={containerRef}
+          className="relative inline-block overflow-hidden rounded-md border border-gray-600 select-none touch-none"
+          onPointerMove={handlePointerMove}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+        >
+          {sourceUrl && (
+            <img
+              src={sourceUrl}
+              alt="Portrait to crop"
+              className="block max-w-[16rem] max-h-64"
+              draggable={false}
+              onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            />
+          )}
+          {imageSize && (
+            <div
+              className="absolute border-2 border-white cursor-move"
+              style={{
+                left: percent(crop.x),
+                top: percent(crop.y),
+                width: percent(crop.width),
+                height: percent(crop.height),
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)', // Dims everything outside the crop
+              }}
+              onPointerDown={startDrag('move')}
+              aria-label="Crop area"
+            >
+              {CORNERS.map(({ corner, className }) => (
+                <span
+                  key={corner}
+                  className={`absolute w-3 h-3 bg-white border border-gray-700 ${className}`}
+                  onPointerDown={startDrag(corner)}
+                />
+              ))}
+              <span
+                className="absolute w-4 h-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-amber-400 bg-amber-400/30 cursor-crosshair"
+                style={{ left: percent(focalPoint.x), top: percent(focalPoint.y) }}
+                onPointerDown={startDrag('focal')}
+                title="Focal point"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col items-center gap-1 flex-shrink-0">
+          <div
+            className="w-16 h-16 rounded-full border border-gray-600 bg-gray-700 bg-no-repeat"
+            style={previewStyle}
+            aria-label="Avatar preview"
+          />
+          <span className="text-xs text-gray-400">Avatar</span>
+        </div>
+      </div>
+
+      <p className={formStyles.helpText}>
+        Drag the frame or its corners to crop. Drag the dot to set the focal point avatars are centered on.
+      </p>
+
+      <div className="flex items-center gap-2">
+        <Button type="button" variant="ghost" size="sm" leftIcon={<RotateCcw size={14} />} onClick={handleReset} disabled={isApplying}>
+          Reset
+        </Button>
+        <div className="flex-grow" />
+        <Button type="button" variant="secondary" size="sm" onClick={onCancel} disabled={isApplying}>
+          Cancel
+        </Button>
+        <Button type="button" variant="primary" size="sm" leftIcon={<Check size={14} />} onClick={() => onApply(crop, focalPoint)} isLoading={isApplying}>
+          Apply
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PortraitEditor;
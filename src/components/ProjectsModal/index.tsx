@@ -0,0 +1,248 @@
+// File: src/components/ProjectsModal/index.tsx
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Copy, Download, FolderOpen, Pencil, Plus, Trash2, Upload, X } from 'lucide-react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import IconButton from '../ui/IconButton';
+import Input from '../ui/Input';
+import { useDialogueStore } from '../../store/dialogueStore';
+import {
+  createProject,
+  deleteProject,
+  duplicateProject,
+  exportProjectFile,
+  getActiveProjectId,
+  importProjectFile,
+  listProjects,
+  renameProject,
+  switchProject,
+} from '../../services/projectService';
+import { downloadFile, getDateStamp } from '../../utils/fileUtils';
+import { ProjectInfo } from '../../types';
+import { alertStyles, typography } from '../../styles/commonStyles';
+
+interface ProjectsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onProjectsChange: (projects: ProjectInfo[]) => void; // Called with the list after every reload, e.g. to show a rename
+}
+
+// Pending changes go to the database before the open project is copied, exported or left
+const saveOpenProject = () => useDialogueStore.getState().triggerSave(true);
+
+interface ProjectRowProps {
+  project: ProjectInfo;
+  isActive: boolean;
+  disabled: boolean;
+  onOpen: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+}
+
+const ProjectRow: React.FC<ProjectRowProps> = ({ project, isActive, disabled, onOpen, onRename, onDuplicate, onExport, onDelete }) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [name, setName] = useState(project.name);
+
+  useEffect(() => { setName(project.name); }, [project.name]);
+
+  const commitName = () => {
+    setIsRenaming(false);
+    if (name.trim() && name.trim() !== project.name) onRename(name.trim());
+    else setName(project.name);
+  };
+
+  if (isConfirmingDelete) {
+    return (
+      <div className={`${alertStyles.base} ${alertStyles.variants.error} flex items-center gap-2`}>
+        <span className="flex-grow text-sm">Delete "{project.name}" with all its dialogues and snapshots?</span>
+        <Button type="button" size="sm" variant="secondary" onClick={() => setIsConfirmingDelete(false)}>Cancel</Button>
+        <Button type="button" size="sm" variant="danger" onClick={onDelete} disabled={disabled}>Delete</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex items-center gap-2 rounded-md border px-3 py-2 ${isActive ? 'border-gray-400 bg-gray-800' : 'border-gray-700 bg-black/20'}`}>
+      <div className="flex-grow min-w-0">
+        {isRenaming ? (
+          <Input
+            sizeVariant="sm"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={commitName}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitName();
+              if (e.key === 'Escape') { setName(project.name); setIsRenaming(false); }
+            }}
+            aria-label="Project name"
+            autoFocus
+          />
+        ) : (
+          <>
+            <div className="text-sm text-gray-100 truncate">
+              {project.name}
+              {isActive && <span className="ml-2 text-xs text-green-400">Open</span>}
+            </div>
+            <div className="text-xs text-gray-500">Created {new Date(project.createdAt).toLocaleDateString()}</div>
+          </>
+        )}
+      </div>
+      {!isActive && (
+        <Button type="button" size="sm" variant="secondary" leftIcon={<FolderOpen size={14} />} onClick={onOpen} disabled={disabled}>
+          Open
+        </Button>
+      )}
+      <IconButton type="button" icon={<Pencil size={14} />} label="Rename" onClick={() => setIsRenaming(true)} disabled={disabled} />
+      <IconButton type="button" icon={<Copy size={14} />} label="Duplicate" onClick={onDuplicate} disabled={disabled} />
+      <IconButton type="button" icon={<Download size={14} />} label="Export project file" onClick={onExport} disabled={disabled} />
+      <IconButton
+        type="button"
+        icon={<Trash2 size={14} />}
+        label={isActive ? 'Open another project to delete this one' : 'Delete'}
+        variant="danger"
+        onClick={() => setIsConfirmingDelete(true)}
+        disabled={disabled || isActive}
+      />
+    </div>
+  );
+};
+
+/**
+ * Project workspaces: each project has its own NPCs, variables, settings, snapshots and portraits.
+ */
+const ProjectsModal: React.FC<ProjectsModalProps> = ({ isOpen, onClose, onProjectsChange }) => {
+  const [projects, setProjects] = useState<ProjectInfo[]>([]);
+  const [newName, setNewName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const activeProjectId = getActiveProjectId();
+
+  const refresh = useCallback(async () => {
+    const list = await listProjects();
+    setProjects(list);
+    onProjectsChange(list);
+  }, [onProjectsChange]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setMessage(null);
+    refresh().catch(error => console.error('[Projects] Loading the project list failed:', error));
+  }, [isOpen, refresh]);
+
+  // Runs one project action at a time and reports failures in the dialog
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`[Projects] ${failure}:`, error);
+      setMessage({ text: `${failure}: ${error instanceof Error ? error.message : String(error)}`, isError: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleOpen = (projectId: string) => run(async () => {
+    await saveOpenProject();
+    switchProject(projectId);
+  }, 'Opening the project failed');
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const project = await createProject(newName);
+      await saveOpenProject();
+      switchProject(project.id);
+    }, 'Creating the project failed');
+  };
+
+  const handleDuplicate = (project: ProjectInfo) => run(async () => {
+    if (project.id === activeProjectId) await saveOpenProject();
+    const copy = await duplicateProject(project.id);
+    await refresh();
+    setMessage({ text: `Created "${copy.name}".`, isError: false });
+  }, 'Duplicating the project failed');
+
+  const handleExport = (project: ProjectInfo) => run(async () => {
+    if (project.id === activeProjectId) await saveOpenProject();
+    const name = project.name.trim().replace(/[^\w-]+/g, '_') || 'project';
+    downloadFile(await exportProjectFile(project.id), `${name}-${getDateStamp()}.zip`, 'application/zip');
+  }, 'Exporting the project failed');
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Reset input
+    if (!file) return;
+    await run(async () => {
+      const project = await importProjectFile(new Uint8Array(await file.arrayBuffer()));
+      await refresh();
+      setMessage({ text: `Imported "${project.name}".`, isError: false });
+    }, 'Importing the project failed');
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Projects" maxWidth="2xl">
+      <p className={typography.body.md}>
+        Each project keeps its own dialogues, variables, settings, snapshots and portraits. Opening another project reloads the editor.
+      </p>
+
+      <form onSubmit={handleCreate} className="flex gap-2 items-start">
+        <Input
+          sizeVariant="sm"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New project name..."
+          aria-label="New project name"
+        />
+        <Button type="submit" size="sm" leftIcon={<Plus size={14} />} disabled={isBusy || !newName.trim()} className="flex-shrink-0">
+          Create
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="secondary"
+          leftIcon={<Upload size={14} />}
+          onClick={() => importInputRef.current?.click()}
+          disabled={isBusy}
+          className="flex-shrink-0"
+        >
+          Import
+        </Button>
+        <input type="file" accept=".zip" onChange={handleImport} className="hidden" ref={importInputRef} aria-label="Import project file" />
+      </form>
+
+      {message && (
+        <div className={`${alertStyles.base} ${message.isError ? alertStyles.variants.error : alertStyles.variants.success} flex items-start gap-2`}>
+          <span className={`flex-grow ${alertStyles.message}`}>{message.text}</span>
+          <button type="button" onClick={() => setMessage(null)} aria-label="Dismiss" className="text-gray-400 hover:text-gray-200">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-[50vh] overflow-y-auto card-scrollbar pr-1">
+        {projects.map(project => (
+          <ProjectRow
+            key={project.id}
+            project={project}
+            isActive={project.id === activeProjectId}
+            disabled={isBusy}
+            onOpen={() => handleOpen(project.id)}
+            onRename={(name) => run(async () => { await renameProject(project.id, name); await refresh(); }, 'Renaming the project failed')}
+            onDuplicate={() => handleDuplicate(project)}
+            onExport={() => handleExport(project)}
+            onDelete={() => run(async () => { await deleteProject(project.id); await refresh(); }, 'Deleting the project failed')}
+          />
+        ))}
+      </div>
+    </Modal>
+  );
+};
+
+export default ProjectsModal;
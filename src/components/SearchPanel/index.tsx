@@ -0,0 +1,229 @@
+// File: src/components/SearchPanel/index.tsx
+
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { X, Search, Replace, CaseSensitive, Regex } from 'lucide-react';
+import Panel from '../ui/Panel';
+import Button from '../ui/Button';
+import IconButton from '../ui/IconButton';
+import Input from '../ui/Input';
+import { useSearchPanelData } from '../../store/dialogueStore';
+import { createReplacements, searchProject, SEARCH_FIELD_LABELS } from '../../utils/searchUtils';
+import { SearchMatch, SearchOptions, TextReplacement } from '../../types';
+import { formStyles, typography } from '../../styles/commonStyles';
+
+interface SearchPanelProps {
+  onClose: () => void;
+}
+
+interface MatchGroup {
+  key: string;
+  title: string;
+  matches: SearchMatch[];
+}
+
+// Results listed in the panel; replacing still covers every match
+const MAX_LISTED_MATCHES = 300;
+// Longer texts are cut down to this many characters around their first match
+const SNIPPET_LENGTH = 120;
+const SNIPPET_CONTEXT = 40;
+
+const HighlightedText: React.FC<{ value: string; ranges: SearchMatch['ranges'] }> = ({ value, ranges }) => {
+  const isLong = value.length > SNIPPET_LENGTH;
+  const start = isLong && ranges.length > 0 ? Math.max(0, ranges[0].start - SNIPPET_CONTEXT) : 0;
+  const end = isLong ? Math.min(value.length, start + SNIPPET_LENGTH) : value.length;
+  const parts: React.ReactNode[] = [];
+  let position = start;
+  ranges.filter(range => range.start >= start && range.end <= end).forEach(range => {
+    if (range.start > position) parts.push(value.slice(position, range.start));
+    parts.push(<mark key={range.start} className="bg-yellow-500/40 text-inherit rounded-sm">{value.slice(range.start, range.end)}</mark>);
+    position = range.end;
+  });
+  parts.push(value.slice(position, end));
+  return <>{start > 0 && '…'}{parts}{end < value.length && '…'}</>;
+};
+
+const ToggleButton: React.FC<{ isActive: boolean; label: string; icon: React.ReactNode; onClick: () => void }> = ({ isActive, label, icon, onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    title={label}
+    aria-label={label}
+    aria-pressed={isActive}
+    className={`p-1.5 rounded-md border transition-colors ${isActive ? 'bg-gray-700 text-gray-100 border-gray-500' : 'text-gray-400 border-[var(--color-border)] hover:bg-gray-800'}`}
+  >
+    {icon}
+  </button>
+);
+
+/**
+ * Searches NPC names, dialogue names and node labels/text across the project. In replace mode
+ * every change is previewed and can be left out before all of them are applied as one undo step.
+ */
+const SearchPanel: React.FC<SearchPanelProps> = ({ onClose }) => {
+  const { npcs, focusNode, selectNpc, replaceText, isReadOnly } = useSearchPanelData();
+  const [query, setQuery] = useState('');
+  const [isRegex, setIsRegex] = useState(false);
+  const [matchCase, setMatchCase] = useState(false);
+  const [isReplaceMode, setIsReplaceMode] = useState(false);
+  const [replacement, setReplacement] = useState('');
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+
+  const deferredQuery = useDeferredValue(query);
+  const options: SearchOptions = useMemo(() => ({ query: deferredQuery, isRegex, matchCase }), [deferredQuery, isRegex, matchCase]);
+
+  const { matches, error } = useMemo(() => {
+    try {
+      return { matches: searchProject(npcs, options), error: undefined };
+    } catch (e) {
+      return { matches: [], error: e instanceof Error ? e.message : 'Invalid regular expression' };
+    }
+  }, [npcs, options]);
+
+  // Keyed by match ID; matches whose field wouldn't change have no entry
+  const replacements = useMemo(
+    () => (isReplaceMode ? createReplacements(matches, options, replacement) : new Map<string, TextReplacement>()),
+    [isReplaceMode, matches, options, replacement]
+  );
+  const selectedReplacements = Array.from(replacements.entries()).filter(([id]) => !excludedIds.has(id)).map(([, edit]) => edit);
+
+  // Group the listed matches by NPC / dialogue, keeping the project order
+  const groups = useMemo(() => {
+    const npcNames = new Map(npcs.map(npc => [npc.id, npc.name]));
+    const conversationNames = new Map(npcs.flatMap(npc => npc.conversations.map(conv => [conv.id, conv.name])));
+    const byKey = new Map<string, MatchGroup>();
+    matches.slice(0, MAX_LISTED_MATCHES).forEach(match => {
+      const key = `${match.npcId}:${match.conversationId ?? ''}`;
+      if (!byKey.has(key)) {
+        const title = [npcNames.get(match.npcId), match.conversationId && conversationNames.get(match.conversationId)].filter(Boolean).join(' / ');
+        byKey.set(key, { key, title, matches: [] });
+      }
+      byKey.get(key)!.matches.push(match);
+    });
+    return Array.from(byKey.values());
+  }, [matches, npcs]);
+
+  const conversationCount = new Set(matches.map(match => match.conversationId).filter(Boolean)).size;
+
+  const handleOpen = (match: SearchMatch) => {
+    if (match.conversationId) focusNode(match.npcId, match.conversationId, match.nodeId);
+    else selectNpc(match.npcId);
+  };
+
+  const toggleExcluded = (id: string) => setExcludedIds(prev => {
+    const next = new Set(prev);
+    if (!next.delete(id)) next.add(id);
+    return next;
+  });
+
+  const handleReplaceAll = () => {
+    replaceText(selectedReplacements);
+    setExcludedIds(new Set());
+  };
+
+  const title = (
+    <h3 className="text-lg font-semibold text-gray-300 flex items-center gap-2">
+      <Search size={18} /> Search
+    </h3>
+  );
+
+  const panelActions = (
+    <IconButton icon={<X size={16} />} label="Close Search" onClick={onClose} variant="gray" />
+  );
+
+  return (
+    <Panel title={title} actions={panelActions} width="24rem" scrollable maxHeight="60vh" className="flex flex-col">
+      <div className="space-y-2 mb-3">
+        <div className="flex items-start gap-1">
+          <Input
+            sizeVariant="sm"
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setExcludedIds(new Set()); }}
+            placeholder="Find in names, labels and text..."
+            aria-label="Search query"
+            error={error}
+            autoFocus
+          />
+          <ToggleButton isActive={matchCase} label="Match Case" icon={<CaseSensitive size={16} />} onClick={() => setMatchCase(prev => !prev)} />
+          <ToggleButton isActive={isRegex} label="Regular Expression" icon={<Regex size={16} />} onClick={() => setIsRegex(prev => !prev)} />
+          <ToggleButton isActive={isReplaceMode} label="Replace" icon={<Replace size={16} />} onClick={() => setIsReplaceMode(prev => !prev)} />
+        </div>
+        {isReplaceMode && (
+          <div className="flex items-start gap-1">
+            <Input
+              sizeVariant="sm"
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+              placeholder={isRegex ? 'Replace with ($1 for groups)...' : 'Replace with...'}
+              aria-label="Replacement"
+            />
+            <Button
+              type="button"
+              size="sm"
+              onClick={handleReplaceAll}
+              disabled={isReadOnly || selectedReplacements.length === 0}
+              className="flex-shrink-0"
+            >
+              Replace {selectedReplacements.length}
+            </Button>
+          </div>
+        )}
+        {isReplaceMode && isReadOnly && (
+          <p className={formStyles.helpText}>The project is read-only right now; replacing is unavailable.</p>
+        )}
+      </div>
+
+      {!deferredQuery || error ? (
+        <p className={typography.placeholder}>Type to search every dialogue.</p>
+      ) : matches.length === 0 ? (
+        <p className={typography.placeholder}>No matches.</p>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-400">
+            {matches.length} match{matches.length === 1 ? '' : 'es'} in {conversationCount} dialogue{conversationCount === 1 ? '' : 's'}
+            {matches.length > MAX_LISTED_MATCHES && `, first ${MAX_LISTED_MATCHES} listed`}
+          </p>
+          {groups.map(group => (
+            <div key={group.key}>
+              <h4 className="text-xs font-medium text-gray-400 uppercase mb-1 truncate" title={group.title}>
+                {group.title}
+              </h4>
+              <ul className="space-y-1">
+                {group.matches.map(match => {
+                  const edit = replacements.get(match.id);
+                  return (
+                    <li key={match.id} className="flex items-start gap-2">
+                      {edit && (
+                        <input
+                          type="checkbox"
+                          checked={!excludedIds.has(match.id)}
+                          onChange={() => toggleExcluded(match.id)}
+                          aria-label="Include this replacement"
+                          className="mt-2 flex-shrink-0"
+                        />
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => handleOpen(match)}
+                        className="flex-grow min-w-0 text-left text-sm rounded-md px-2 py-1 text-gray-200 hover:bg-gray-800 transition-colors"
+                      >
+                        <span className="block text-[10px] uppercase tracking-wide text-gray-500">{SEARCH_FIELD_LABELS[match.field]}</span>
+                        <span className={`block break-words ${edit && !excludedIds.has(match.id) ? 'line-through decoration-red-400/70' : ''}`}>
+                          <HighlightedText value={match.value} ranges={match.ranges} />
+                        </span>
+                        {edit && !excludedIds.has(match.id) && (
+                          <span className="block break-words text-green-300">{edit.to || <em className="text-gray-500">(empty)</em>}</span>
+                        )}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </Panel>
+  );
+};
+
+export default SearchPanel;
@@ -6,11 +6,15 @@ import {
   UserSquare,
   Repeat,
   Move, // Keep Move icon for drag handle indication
-  ArrowRightCircle // Import icon for Jump Node
+  ArrowRightCircle, // Import icon for Jump Node
+  Undo2,
+  Redo2,
 } from 'lucide-react';
-import { useSidebarData } from '../../store/dialogueStore';
+import { useSidebarData, useHistoryControls } from '../../store/dialogueStore';
+import { useKeybindingLabel } from '../../store/commandStore';
 import IconButton from '../ui/IconButton';
 import { tooltipStyles } from '../../styles/commonStyles';
+import usePortraitUrl from '../../hooks/usePortraitUrl';
 
 // Tool type enum for tracking selected tool
 export type ToolType = 'user' | 'npc' | 'auto'; // Keep as is, drag doesn't need a 'tool' state
@@ -35,9 +39,13 @@ const Toolbar: React.FC<ToolbarProps> = ({
 }) => {
   // Get the selected NPC data from the store
   const { selectedNpc } = useSidebarData();
+  const { canUndo, canRedo, undo, redo } = useHistoryControls();
+  const undoKey = useKeybindingLabel('edit.undo');
+  const redoKey = useKeybindingLabel('edit.redo');
+  const autoKey = useKeybindingLabel('tool.auto');
 
   // Determine if we have a custom NPC image to use
-  const hasNpcImage = selectedNpc && selectedNpc.image;
+  const npcImage = usePortraitUrl(selectedNpc);
 
   // Handler for tool selection (click) - Only for non-draggable tools
   const handleToolSelect = (tool: ToolType) => {
@@ -70,9 +78,9 @@ const Toolbar: React.FC<ToolbarProps> = ({
       {/* Draggable NPC Node Button */}
       <ToolbarButton
         icon={
-          hasNpcImage ? (
+          npcImage ? (
             <div className="w-5 h-5 rounded-md overflow-hidden border border-gray-600">
-              <img src={selectedNpc?.image} alt={selectedNpc?.name || 'NPC'} className="w-full h-full object-cover" />
+              <img src={npcImage} alt={selectedNpc?.name || 'NPC'} className="w-full h-full object-cover" />
             </div>
           ) : (
              <div className="w-5 h-5 rounded-md bg-gray-700 flex items-center justify-center border border-gray-600">
@@ -99,12 +107,29 @@ const Toolbar: React.FC<ToolbarProps> = ({
       {/* Non-Draggable Auto Alternate Mode Button */}
       <ToolbarButton
         icon={<Repeat size={18} />}
-        label="Auto Alternate Mode (Click Only)"
+        label={autoKey ? `Auto Alternate Mode (${autoKey})` : "Auto Alternate Mode (Click Only)"}
         active={activeTool === 'auto'}
         onClick={() => handleToolSelect('auto')}
         draggable={false} // Explicitly non-draggable
       />
 
+      {/* Separator */}
+       <div className="h-6 w-px bg-gray-700 mx-1"></div>
+
+      {/* Undo / Redo */}
+      <ToolbarButton
+        icon={<Undo2 size={18} />}
+        label={undoKey ? `Undo (${undoKey})` : "Undo"}
+        onClick={undo}
+        disabled={!canUndo}
+      />
+      <ToolbarButton
+        icon={<Redo2 size={18} />}
+        label={redoKey ? `Redo (${redoKey})` : "Redo"}
+        onClick={redo}
+        disabled={!canRedo}
+      />
+
     </div>
   );
 };
@@ -143,8 +168,8 @@ const ToolbarButton: React.FC<ToolbarButtonProps> = ({
                 // Apply drag cursor styles if draggable
                 : draggable
                     ? 'cursor-grab active:cursor-grabbing'
-                    // Default pointer for click-based tools
-                    : 'cursor-pointer'
+                    // Default pointer for click-based tools, dimmed while unavailable (e.g. nothing to undo)
+                    : 'cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed'
         }
         draggable={draggable} // Pass draggable to underlying button
         onDragStart={draggable ? onDragStart : undefined} // Pass onDragStart only if draggable
@@ -0,0 +1,299 @@
+// File: src/components/TranslationPanel/index.tsx
+
+import React, { useMemo, useRef, useState } from 'react';
+import { X, Languages, Plus, Download, Upload, AlertTriangle, CheckCircle2, ChevronDown, ChevronRight } from 'lucide-react';
+import Panel from '../ui/Panel';
+import Button from '../ui/Button';
+import IconButton from '../ui/IconButton';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import { useLocalizationData } from '../../store/dialogueStore';
+import {
+  getStringKey,
+  getTranslatableFields,
+  getTranslationStatus,
+  normalizeLocaleCode,
+  summarizeTranslations,
+} from '../../utils/localization';
+import { exportStringTable, importStringTable, STRING_TABLE_FORMATS } from '../../utils/stringTables';
+import { downloadFile, getDateStamp } from '../../utils/fileUtils';
+import { StringTableFormat, TranslatableField, TranslationStatus } from '../../types';
+import { alertStyles, typography } from '../../styles/commonStyles';
+
+interface TranslationPanelProps {
+  onClose: () => void;
+}
+
+interface PendingString {
+  key: string;
+  nodeId: string;
+  nodeLabel: string;
+  field: TranslatableField;
+  status: Exclude<TranslationStatus, 'translated'>;
+}
+
+// Number of import warnings listed in the panel; the rest go to the console
+const MAX_LISTED_WARNINGS = 3;
+
+/**
+ * Manages the project locales and shows, per dialogue, which strings are missing or outdated
+ * in a target locale. String tables (XLIFF / CSV) are exported and imported from here.
+ */
+const TranslationPanel: React.FC<TranslationPanelProps> = ({ onClose }) => {
+  const {
+    npcs,
+    localization,
+    activeLocale,
+    selectedConversationId,
+    setActiveLocale,
+    addLocale,
+    removeLocale,
+    applyTranslations,
+    markTranslationReviewed,
+    focusNode,
+  } = useLocalizationData();
+
+  const [newLocale, setNewLocale] = useState<string>('');
+  const [localeError, setLocaleError] = useState<string | null>(null);
+  const [format, setFormat] = useState<StringTableFormat>('xliff12');
+  const [expandedConversationId, setExpandedConversationId] = useState<string | null>(selectedConversationId);
+  const [report, setReport] = useState<{ message: string; warnings: string[]; isError?: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { sourceLocale, targetLocales } = localization;
+  // Status is shown for the locale being edited, or the first target while editing the source
+  const statusLocale = targetLocales.includes(activeLocale) ? activeLocale : targetLocales[0];
+
+  const conversations = useMemo(() => {
+    if (!statusLocale) return [];
+    return npcs.flatMap(npc => npc.conversations.map(conv => {
+      const pending: PendingString[] = [];
+      conv.nodes.forEach(node => getTranslatableFields(node).forEach(({ field }) => {
+        const status = getTranslationStatus(node, field, statusLocale);
+        if (status !== 'translated') {
+          pending.push({ key: getStringKey(node.id, field), nodeId: node.id, nodeLabel: node.data.label, field, status });
+        }
+      }));
+      return { npc, conv, summary: summarizeTranslations(conv, statusLocale), pending };
+    }));
+  }, [npcs, statusLocale]);
+
+  const handleAddLocale = () => {
+    const code = normalizeLocaleCode(newLocale);
+    if (!code) {
+      setLocaleError('Use a locale code like "de" or "pt-BR".');
+      return;
+    }
+    if (code === sourceLocale || targetLocales.includes(code)) {
+      setLocaleError(`${code} is already part of the project.`);
+      return;
+    }
+    addLocale(code);
+    setNewLocale('');
+    setLocaleError(null);
+  };
+
+  const handleExport = () => {
+    if (!statusLocale) return;
+    setReport(null);
+    try {
+      const option = STRING_TABLE_FORMATS.find(f => f.value === format)!;
+      const content = exportStringTable(npcs, localization, format, statusLocale);
+      const suffix = format === 'csv' ? 'all' : statusLocale;
+      downloadFile(content, `strings-${suffix}-${getDateStamp()}.${option.extension}`, option.mimeType);
+    } catch (error) {
+      console.error('String table export failed:', error);
+      setReport({ message: 'Failed to export the string table. See console for details.', warnings: [], isError: true });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setReport(null);
+    try {
+      const result = importStringTable(await file.text(), npcs, localization);
+      applyTranslations(result.updates);
+      if (result.warnings.length > 0) console.warn('[StringTableImport] Warnings:', result.warnings);
+      const localeList = result.locales.length > 0 ? ` (${result.locales.join(', ')})` : '';
+      setReport({
+        message: `Imported ${result.updates.length} translation${result.updates.length === 1 ? '' : 's'}${localeList} from ${file.name}.`,
+        warnings: result.warnings,
+      });
+    } catch (error) {
+      console.error('String table import failed:', error);
+      setReport({ message: 'Failed to read the string table. See console for details.', warnings: [], isError: true });
+    } finally {
+      e.target.value = ''; // Reset input
+    }
+  };
+
+  const title = (
+    <h3 className="text-lg font-semibold text-gray-300 flex items-center gap-2">
+      <Languages size={18} /> Translations
+    </h3>
+  );
+
+  const panelActions = (
+    <IconButton icon={<X size={16} />} label="Close Translations" onClick={onClose} variant="gray" />
+  );
+
+  return (
+    <Panel title={title} actions={panelActions} width="20rem" scrollable maxHeight="45vh" className="flex flex-col">
+      <div className="space-y-4">
+        {/* Locales */}
+        <div>
+          <h4 className={typography.sectionTitle}>Locales</h4>
+          <div className="flex flex-wrap gap-1.5 mb-2">
+            <span className="px-2 py-0.5 rounded-md text-xs bg-gray-700 text-gray-200" title="Source locale">
+              {sourceLocale} (source)
+            </span>
+            {targetLocales.map(locale => (
+              <span key={locale} className="flex items-center gap-1 px-2 py-0.5 rounded-md text-xs bg-gray-800 text-gray-300">
+                {locale}
+                <button
+                  type="button"
+                  onClick={() => removeLocale(locale)}
+                  className="text-gray-500 hover:text-red-400"
+                  title={`Remove ${locale} and its translations`}
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+          </div>
+          <div className="flex items-start gap-2">
+            <Input
+              sizeVariant="sm"
+              value={newLocale}
+              onChange={(e) => { setNewLocale(e.target.value); setLocaleError(null); }}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleAddLocale(); }}
+              placeholder="Add locale, e.g. de"
+              error={localeError ?? undefined}
+              id="translation-new-locale"
+            />
+            <Button variant="secondary" size="sm" onClick={handleAddLocale} leftIcon={<Plus size={14} />}>
+              Add
+            </Button>
+          </div>
+        </div>
+
+        {!statusLocale ? (
+          <p className={typography.placeholder}>Add a target locale to start translating.</p>
+        ) : (
+          <>
+            {/* Status per dialogue */}
+            <div>
+              <h4 className={typography.sectionTitle}>Status ({statusLocale})</h4>
+              <ul className="space-y-1">
+                {conversations.map(({ npc, conv, summary, pending }) => {
+                  const isExpanded = expandedConversationId === conv.id;
+                  const isComplete = summary.missing === 0 && summary.outdated === 0;
+                  return (
+                    <li key={conv.id}>
+                      <button
+                        type="button"
+                        onClick={() => setExpandedConversationId(isExpanded ? null : conv.id)}
+                        className="w-full flex items-center gap-2 text-left text-sm rounded-md px-2 py-1 text-gray-200 hover:bg-gray-800 transition-colors"
+                      >
+                        {isExpanded ? <ChevronDown size={14} className="flex-shrink-0" /> : <ChevronRight size={14} className="flex-shrink-0" />}
+                        <span className="flex-1 truncate" title={`${npc.name} / ${conv.name}`}>{npc.name} / {conv.name}</span>
+                        {isComplete
+                          ? <CheckCircle2 size={14} className="flex-shrink-0 text-green-400" />
+                          : <span className="text-xs text-gray-400">{summary.translated}/{summary.total}</span>}
+                      </button>
+                      {isExpanded && (
+                        <div className="pl-6 pr-1 pb-1">
+                          <p className="text-xs text-gray-400 mb-1">
+                            {summary.missing} missing · {summary.outdated} outdated
+                          </p>
+                          {pending.length === 0 ? (
+                            <p className={typography.placeholder}>Everything is translated.</p>
+                          ) : (
+                            <ul className="space-y-0.5">
+                              {pending.map(item => (
+                                <li key={item.key} className="flex items-center gap-1">
+                                  <button
+                                    type="button"
+                                    onClick={() => {
+                                      setActiveLocale(statusLocale);
+                                      focusNode(npc.id, conv.id, item.nodeId);
+                                    }}
+                                    className="flex-1 flex items-center gap-1.5 min-w-0 text-left text-xs rounded px-1.5 py-0.5 text-gray-300 hover:bg-gray-800 transition-colors"
+                                  >
+                                    {item.status === 'outdated'
+                                      ? <AlertTriangle size={12} className="flex-shrink-0 text-yellow-400" />
+                                      : <span className="w-3 h-3 flex-shrink-0 rounded-full border border-gray-500" />}
+                                    <span className="truncate">{item.nodeLabel}</span>
+                                    <span className="text-gray-500">{item.field}</span>
+                                  </button>
+                                  {item.status === 'outdated' && (
+                                    <button
+                                      type="button"
+                                      onClick={() => markTranslationReviewed(item.nodeId, statusLocale, item.field)}
+                                      className="text-gray-500 hover:text-green-400"
+                                      title="Mark as up to date"
+                                    >
+                                      <CheckCircle2 size={12} />
+                                    </button>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+
+            {/* String tables */}
+            <div>
+              <h4 className={typography.sectionTitle}>String Tables</h4>
+              <Select
+                sizeVariant="sm"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as StringTableFormat)}
+                options={STRING_TABLE_FORMATS.map(({ value, label }) => ({ value, label }))}
+                id="translation-format"
+              />
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                <Button variant="secondary" size="sm" onClick={handleExport} leftIcon={<Download size={14} />}>
+                  Export
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => fileInputRef.current?.click()} leftIcon={<Upload size={14} />}>
+                  Import
+                </Button>
+              </div>
+              <input
+                type="file"
+                ref={fileInputRef}
+                accept=".xlf,.xliff,.csv"
+                onChange={handleImport}
+                className="hidden"
+              />
+            </div>
+          </>
+        )}
+
+        {report && (
+          <div className={`${alertStyles.base} ${report.isError ? alertStyles.variants.error : report.warnings.length > 0 ? alertStyles.variants.warning : alertStyles.variants.info}`}>
+            <p className={alertStyles.message}>{report.message}</p>
+            {report.warnings.length > 0 && (
+              <ul className="mt-1 list-disc list-inside text-xs space-y-0.5">
+                {report.warnings.slice(0, MAX_LISTED_WARNINGS).map((warning, index) => <li key={index}>{warning}</li>)}
+                {report.warnings.length > MAX_LISTED_WARNINGS && (
+                  <li>…and {report.warnings.length - MAX_LISTED_WARNINGS} more (see console)</li>
+                )}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </Panel>
+  );
+};
+
+export default TranslationPanel;
@@ -0,0 +1,122 @@
+// File: src/components/ValidationPanel/index.tsx
+
+import React, { useMemo, useState } from 'react';
+import { X, AlertCircle, AlertTriangle, CheckCircle, ListChecks } from 'lucide-react';
+import Panel from '../ui/Panel';
+import IconButton from '../ui/IconButton';
+import { useValidationPanelData } from '../../store/dialogueStore';
+import { validateProject } from '../../utils/graphValidation';
+import { ValidationIssue, ValidationSeverity } from '../../types';
+import { typography } from '../../styles/commonStyles';
+
+interface ValidationPanelProps {
+  onClose: () => void;
+}
+
+type SeverityFilter = ValidationSeverity | 'all';
+
+interface IssueGroup {
+  key: string;
+  title: string;
+  issues: ValidationIssue[];
+}
+
+const FILTERS: { value: SeverityFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'error', label: 'Errors' },
+  { value: 'warning', label: 'Warnings' },
+];
+
+/**
+ * Lists problems found across every conversation. Results update live as the graph is edited;
+ * clicking an issue opens its dialogue and focuses the node on the canvas.
+ */
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ onClose }) => {
+  const { npcs, focusNode } = useValidationPanelData();
+  const [filter, setFilter] = useState<SeverityFilter>('all');
+
+  const issues = useMemo(() => validateProject(npcs), [npcs]);
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  // Group the visible issues by NPC / dialogue, keeping the project order
+  const groups = useMemo(() => {
+    const visible = filter === 'all' ? issues : issues.filter(issue => issue.severity === filter);
+    const byConversation = new Map<string, IssueGroup>();
+    npcs.forEach(npc => npc.conversations.forEach(conv => {
+      const key = `${npc.id}:${conv.id}`;
+      byConversation.set(key, { key, title: `${npc.name} / ${conv.name}`, issues: [] });
+    }));
+    visible.forEach(issue => byConversation.get(`${issue.npcId}:${issue.conversationId}`)?.issues.push(issue));
+    return Array.from(byConversation.values()).filter(group => group.issues.length > 0);
+  }, [issues, filter, npcs]);
+
+  const title = (
+    <h3 className="text-lg font-semibold text-gray-300 flex items-center gap-2">
+      <ListChecks size={18} /> Validation
+    </h3>
+  );
+
+  const panelActions = (
+    <IconButton icon={<X size={16} />} label="Close Validation" onClick={onClose} variant="gray" />
+  );
+
+  return (
+    <Panel title={title} actions={panelActions} width="20rem" scrollable maxHeight="45vh" className="flex flex-col">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-3 text-xs">
+          <span className="flex items-center gap-1 text-red-300"><AlertCircle size={12} /> {errorCount}</span>
+          <span className="flex items-center gap-1 text-yellow-300"><AlertTriangle size={12} /> {warningCount}</span>
+        </div>
+        <div className="flex rounded-md overflow-hidden border border-[var(--color-border)] text-xs">
+          {FILTERS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setFilter(option.value)}
+              className={`px-2 py-0.5 transition-colors ${filter === option.value ? 'bg-gray-700 text-gray-100' : 'text-gray-400 hover:bg-gray-800'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {issues.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-green-300">
+          <CheckCircle size={16} /> No problems found.
+        </div>
+      ) : groups.length === 0 ? (
+        <p className={typography.placeholder}>No issues match this filter.</p>
+      ) : (
+        <div className="space-y-3">
+          {groups.map(group => (
+            <div key={group.key}>
+              <h4 className="text-xs font-medium text-gray-400 uppercase mb-1 truncate" title={group.title}>
+                {group.title}
+              </h4>
+              <ul className="space-y-1">
+                {group.issues.map(issue => (
+                  <li key={issue.id}>
+                    <button
+                      type="button"
+                      onClick={() => focusNode(issue.npcId, issue.conversationId, issue.nodeId)}
+                      className="w-full flex items-start gap-2 text-left text-sm rounded-md px-2 py-1 text-gray-200 hover:bg-gray-800 transition-colors"
+                    >
+                      {issue.severity === 'error'
+                        ? <AlertCircle size={14} className="flex-shrink-0 mt-0.5 text-red-400" />
+                        : <AlertTriangle size={14} className="flex-shrink-0 mt-0.5 text-yellow-400" />}
+                      <span>{issue.message}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </Panel>
+  );
+};
+
+export default ValidationPanel;
@@ -0,0 +1,253 @@
+// File: src/components/VariablesModal/index.tsx
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import IconButton from '../ui/IconButton';
+import Input from '../ui/Input';
+import Select, { SelectOption } from '../ui/Select';
+import { useDialogueStore, useVariablesData } from '../../store/dialogueStore';
+import { DialogueVariable, DialogueVariableType } from '../../types';
+import { VARIABLE_NAME_PATTERN } from '../../utils/conditionUtils';
+import { findVariableUsages } from '../../utils/conversationUtils';
+import { alertStyles, inputStyles, typography } from '../../styles/commonStyles';
+
+const VARIABLE_TYPE_OPTIONS: SelectOption[] = [
+  { value: 'boolean', label: 'Boolean' },
+  { value: 'number', label: 'Number' },
+  { value: 'string', label: 'String' },
+  { value: 'enum', label: 'Enum' },
+];
+
+interface VariableRowProps {
+  variable: DialogueVariable;
+  existingNames: string[];
+  usedIn: string[] | null; // Dialogues that kept the last delete from happening
+  onUpdate: (variableId: string, changes: Partial<Omit<DialogueVariable, 'id'>>) => void;
+  onDelete: (variableId: string) => void;
+}
+
+/**
+ * Single editable row of the variable registry.
+ * Text fields keep local state and commit on blur, like NodeInfoPanel.
+ */
+const VariableRow: React.FC<VariableRowProps> = ({ variable, existingNames, usedIn, onUpdate, onDelete }) => {
+  const [name, setName] = useState(variable.name);
+  const [enumText, setEnumText] = useState((variable.enumValues || []).join(', '));
+
+  useEffect(() => { setName(variable.name); }, [variable.name]);
+  useEffect(() => { setEnumText((variable.enumValues || []).join(', ')); }, [variable.enumValues]);
+
+  const trimmedName = name.trim();
+  const nameError = !VARIABLE_NAME_PATTERN.test(trimmedName)
+    ? 'Use letters, digits, _ or . (no leading digit)'
+    : trimmedName !== variable.name && existingNames.includes(trimmedName)
+      ? 'Name already in use'
+      : undefined;
+
+  const commitName = () => {
+    if (nameError) {
+      setName(variable.name);
+      return;
+    }
+    if (trimmedName !== variable.name) onUpdate(variable.id, { name: trimmedName });
+  };
+
+  const commitEnumValues = () => {
+    const values = Array.from(new Set(enumText.split(',').map(v => v.trim()).filter(Boolean)));
+    const defaultValue = values.includes(String(variable.defaultValue)) ? variable.defaultValue : (values[0] ?? '');
+    onUpdate(variable.id, { enumValues: values, defaultValue });
+  };
+
+  const renderDefaultValueInput = () => {
+    switch (variable.type) {
+      case 'boolean':
+        return (
+          <Select
+            sizeVariant="sm"
+            value={String(variable.defaultValue)}
+            onChange={(e) => onUpdate(variable.id, { defaultValue: e.target.value === 'true' })}
+            options={[{ value: 'false', label: 'false' }, { value: 'true', label: 'true' }]}
+            aria-label={`Default value of ${variable.name}`}
+          />
+        );
+      case 'number':
+        return (
+          <input
+            type="number"
+            className={`${inputStyles.base} ${inputStyles.size.sm}`}
+            value={Number(variable.defaultValue)}
+            onChange={(e) => onUpdate(variable.id, { defaultValue: Number(e.target.value) || 0 })}
+            aria-label={`Default value of ${variable.name}`}
+          />
+        );
+      case 'enum':
+        return (
+          <Select
+            sizeVariant="sm"
+            value={String(variable.defaultValue)}
+            onChange={(e) => onUpdate(variable.id, { defaultValue: e.target.value })}
+            options={(variable.enumValues || []).map(v => ({ value: v, label: v }))}
+            placeholder="Add values first"
+            aria-label={`Default value of ${variable.name}`}
+          />
+        );
+      default:
+        return (
+          <input
+            type="text"
+            className={`${inputStyles.base} ${inputStyles.size.sm}`}
+            defaultValue={String(variable.defaultValue)}
+            onBlur={(e) => onUpdate(variable.id, { defaultValue: e.target.value })}
+            aria-label={`Default value of ${variable.name}`}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="p-3 rounded-lg border border-[var(--color-border)] bg-black/20">
+      <div className="grid grid-cols-[1fr_7rem_8rem_auto] gap-2 items-start">
+        <Input
+          sizeVariant="sm"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          error={nameError}
+          className="font-mono"
+          aria-label="Variable name"
+        />
+        <Select
+          sizeVariant="sm"
+          value={variable.type}
+          onChange={(e) => onUpdate(variable.id, { type: e.target.value as DialogueVariableType })}
+          options={VARIABLE_TYPE_OPTIONS}
+          aria-label={`Type of ${variable.name}`}
+        />
+        {renderDefaultValueInput()}
+        <IconButton icon={<Trash2 size={14} />} label={`Delete ${variable.name}`} onClick={() => onDelete(variable.id)} variant="danger" className="p-1.5" />
+      </div>
+      {variable.type === 'enum' && (
+        <Input
+          sizeVariant="sm"
+          value={enumText}
+          onChange={(e) => setEnumText(e.target.value)}
+          onBlur={commitEnumValues}
+          placeholder="Comma separated values, e.g. friendly, neutral, hostile"
+          aria-label={`Values of ${variable.name}`}
+        />
+      )}
+      {usedIn && (
+        <div className={`${alertStyles.base} ${alertStyles.variants.warning} ${alertStyles.message} mt-2`}>
+          Can't delete a variable that is still in use. Remove it from the conditions and actions in: {usedIn.join(', ')}.
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface VariablesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Modal for managing the project-level variable registry used by edge conditions.
+ */
+const VariablesModal: React.FC<VariablesModalProps> = ({ isOpen, onClose }) => {
+  const { variables, addVariable, updateVariable, deleteVariable } = useVariablesData();
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState<DialogueVariableType>('boolean');
+  const [blockedDelete, setBlockedDelete] = useState<{ variableId: string; usedIn: string[] } | null>(null);
+
+  const existingNames = variables.map(v => v.name);
+  const trimmedNewName = newName.trim();
+  const newNameError = trimmedNewName && !VARIABLE_NAME_PATTERN.test(trimmedNewName)
+    ? 'Use letters, digits, _ or . (no leading digit)'
+    : existingNames.includes(trimmedNewName)
+      ? 'Name already in use'
+      : undefined;
+
+  // Variables still used by conditions or actions stay; the row lists where they are used instead
+  const handleDelete = (variableId: string) => {
+    const variable = variables.find(v => v.id === variableId);
+    const usages = variable ? findVariableUsages(useDialogueStore.getState().npcs, variable.name) : [];
+    if (usages.length > 0) {
+      setBlockedDelete({ variableId, usedIn: usages.map(({ npc, conversation }) => `${npc.name} / ${conversation.name}`) });
+      return;
+    }
+    setBlockedDelete(null);
+    deleteVariable(variableId);
+  };
+
+  const handleClose = () => {
+    setBlockedDelete(null);
+    onClose();
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmedNewName || newNameError) return;
+    addVariable(trimmedNewName, newType);
+    setNewName('');
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Dialogue Variables" maxWidth="2xl">
+      <p className={typography.body.md}>
+        Variables describe game state. Use their names in connection conditions, e.g. <code className="font-mono">trust &gt;= 3 &amp;&amp; has_key</code>.
+      </p>
+
+      <form onSubmit={handleAdd} className="grid grid-cols-[1fr_7rem_auto] gap-2 items-start">
+        <Input
+          sizeVariant="sm"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New variable name..."
+          error={newNameError}
+          className="font-mono"
+          aria-label="New variable name"
+        />
+        <Select
+          sizeVariant="sm"
+          value={newType}
+          onChange={(e) => setNewType(e.target.value as DialogueVariableType)}
+          options={VARIABLE_TYPE_OPTIONS}
+          aria-label="New variable type"
+        />
+        <Button type="submit" size="sm" leftIcon={<Plus size={14} />} disabled={!trimmedNewName || !!newNameError}>
+          Add
+        </Button>
+      </form>
+
+      <div className="space-y-2 max-h-[50vh] overflow-y-auto card-scrollbar pr-1">
+        {variables.length > 0 && (
+          <div className={`grid grid-cols-[1fr_7rem_8rem_auto] gap-2 px-3 ${typography.sectionTitle}`}>
+            <span>Name</span>
+            <span>Type</span>
+            <span>Default</span>
+            <span className="w-7" />
+          </div>
+        )}
+        {variables.map(variable => (
+          <VariableRow
+            key={variable.id}
+            variable={variable}
+            existingNames={existingNames}
+            usedIn={blockedDelete?.variableId === variable.id ? blockedDelete.usedIn : null}
+            onUpdate={updateVariable}
+            onDelete={handleDelete}
+          />
+        ))}
+        {variables.length === 0 && (
+          <div className="text-gray-400 text-xs italic text-center py-3 px-2 bg-black/40 rounded-md border border-gray-600">
+            No variables defined yet.
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default VariablesModal;
@@ -0,0 +1,33 @@
+// File: src/constants/keybindings.ts
+import { Keybindings } from '../types';
+
+/**
+ * Key bindings until the user changes them (see the Keyboard Shortcuts settings). Keys refer to
+ * command IDs of the command registry; commands without an entry have no shortcut.
+ * Copy, cut and paste use the browser's own clipboard shortcuts and can't be rebound.
+ */
+export const DEFAULT_KEYBINDINGS: Keybindings = {
+  'palette.open': ['Ctrl+K'],
+  'edit.undo': ['Ctrl+Z'],
+  'edit.redo': ['Ctrl+Shift+Z', 'Ctrl+Y'],
+  'edit.delete': ['Delete'],
+  'edit.duplicate': ['Ctrl+D'],
+  'node.addUser': ['U'],
+  'node.addNpc': ['N'],
+  'node.addJump': ['J'],
+  'node.editDetails': ['F2'],
+  'tool.auto': ['1'],
+  'tool.user': ['2'],
+  'tool.npc': ['3'],
+  'tool.none': ['0'],
+  'nav.next': ['ArrowDown'],
+  'nav.previous': ['ArrowUp'],
+  'nav.nextSibling': ['ArrowRight'],
+  'nav.previousSibling': ['ArrowLeft'],
+  'nav.back': ['Alt+ArrowLeft'],
+  'nav.forward': ['Alt+ArrowRight'],
+  'view.fit': ['F'],
+  'layout.apply': ['L'],
+  'layout.toggleDirection': ['Shift+L'],
+  'panel.search': ['Ctrl+Shift+F'],
+};
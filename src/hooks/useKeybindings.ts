@@ -0,0 +1,38 @@
+// src/hooks/useKeybindings.ts
+import { useEffect } from 'react';
+import { useCommandStore } from '../store/commandStore';
+import { getKeyCombo, isTextInputTarget } from '../utils/keyboardUtils';
+
+// An open dialog (a modal or the command palette) takes the keyboard for itself
+const isDialogOpen = (): boolean => document.querySelector('[aria-modal="true"]') !== null;
+
+/**
+ * Hook that runs the registered command bound to each key press (see the command store). Outside
+ * of global commands, key presses in text fields and open dialogs keep their usual meaning.
+ * Mount it once, at the root of the app.
+ */
+const useKeybindings = (): void => {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) return;
+      const combo = getKeyCombo(event);
+      if (!combo) return;
+
+      const { commands, keybindings } = useCommandStore.getState();
+      const isBlocked = isTextInputTarget(event.target) || isDialogOpen();
+      const command = commands.find(candidate =>
+        keybindings[candidate.id]?.includes(combo)
+        && (candidate.isGlobal || !isBlocked)
+        && (candidate.isAvailable?.() ?? true));
+      if (!command) return;
+
+      event.preventDefault();
+      command.run();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
+
+export default useKeybindings;
@@ -0,0 +1,79 @@
+// src/hooks/useNavigationHistory.ts
+import { useEffect, useMemo } from 'react';
+import { NodeChange, useReactFlow } from 'reactflow';
+import { useDialogueStore } from '../store/dialogueStore';
+import { useNavigationStore } from '../store/navigationStore';
+import { useRegisterCommands } from '../store/commandStore';
+import { findConversation } from '../utils/conversationUtils';
+import { EditorCommand } from '../types';
+
+// MouseEvent.button values of the side buttons most mice have
+const MOUSE_BACK_BUTTON = 3;
+const MOUSE_FORWARD_BUTTON = 4;
+
+/**
+ * Hook that feeds the navigation history from the canvas: every time another dialogue is shown,
+ * the one left behind is recorded with its viewport and selection, and these are restored when the
+ * history leads back to it. Also binds the back/forward commands and mouse buttons.
+ * Use inside the ReactFlowProvider.
+ */
+const useNavigationHistory = (): void => {
+  const reactFlowInstance = useReactFlow();
+  const restoreRequest = useNavigationStore(state => state.restoreRequest);
+  const selectedConversationId = useDialogueStore(state => state.selectedConversationId);
+
+  useEffect(() => {
+    const { setViewportSource } = useNavigationStore.getState();
+    setViewportSource(reactFlowInstance.getViewport);
+    return () => setViewportSource(null);
+  }, [reactFlowInstance]);
+
+  // Runs before the canvas re-renders, so the viewport still belongs to the dialogue being left
+  useEffect(() => useDialogueStore.subscribe((state, prev) => {
+    if (state.selectedNpcId === prev.selectedNpcId && state.selectedConversationId === prev.selectedConversationId) return;
+    if (!prev.selectedNpcId || !prev.selectedConversationId || useNavigationStore.getState().restoreRequest) return;
+    const left = findConversation(state.npcs, prev.selectedNpcId, prev.selectedConversationId)?.conversation;
+    if (!left) return; // Deleted, nothing to come back to
+    useNavigationStore.getState().record({
+      npcId: prev.selectedNpcId,
+      conversationId: prev.selectedConversationId,
+      viewport: reactFlowInstance.getViewport(),
+      selectedNodeIds: left.nodes.filter(node => node.selected).map(node => node.id),
+    });
+  }), [reactFlowInstance]);
+
+  useEffect(() => {
+    if (!restoreRequest || restoreRequest.conversationId !== selectedConversationId) return;
+    const state = useDialogueStore.getState();
+    const selectedIds = new Set(restoreRequest.selectedNodeIds);
+    const changes: NodeChange[] = state.activeNodes()
+      .filter(node => !!node.selected !== selectedIds.has(node.id))
+      .map(node => ({ type: 'select', id: node.id, selected: selectedIds.has(node.id) }));
+    if (changes.length > 0) state.onNodesChange(changes);
+    if (restoreRequest.viewport) reactFlowInstance.setViewport(restoreRequest.viewport, { duration: 300 });
+    useNavigationStore.getState().clearRestoreRequest();
+  }, [restoreRequest, selectedConversationId, reactFlowInstance]);
+
+  useEffect(() => {
+    const handleMouseUp = (event: MouseEvent) => {
+      if (event.button !== MOUSE_BACK_BUTTON && event.button !== MOUSE_FORWARD_BUTTON) return;
+      event.preventDefault(); // Keeps the browser from leaving the editor
+      const { goBack, goForward } = useNavigationStore.getState();
+      if (event.button === MOUSE_BACK_BUTTON) goBack();
+      else goForward();
+    };
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, []);
+
+  const commands = useMemo((): EditorCommand[] => {
+    const navigation = useNavigationStore.getState;
+    return [
+      { id: 'nav.back', title: 'Go Back', category: 'Navigation', keywords: ['history', 'previous dialogue'], isAvailable: () => navigation().back.length > 0, run: () => navigation().goBack() },
+      { id: 'nav.forward', title: 'Go Forward', category: 'Navigation', keywords: ['history', 'next dialogue'], isAvailable: () => navigation().forward.length > 0, run: () => navigation().goForward() },
+    ];
+  }, []);
+  useRegisterCommands(commands);
+};
+
+export default useNavigationHistory;
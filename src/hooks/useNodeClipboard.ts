@@ -0,0 +1,133 @@
+// src/hooks/useNodeClipboard.ts
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { XYPosition } from 'reactflow';
+import { useDialogueStore } from '../store/dialogueStore';
+import { useRegisterCommands } from '../store/commandStore';
+import {
+  copyNodeSelection,
+  createPastedNodes,
+  getSelectionOrigin,
+  hasForeignSpeaker,
+  NodeClipboard,
+  parseNodeClipboard,
+  serializeNodeClipboard,
+} from '../utils/clipboardUtils';
+import { isTextInputTarget } from '../utils/keyboardUtils';
+import { EditorCommand } from '../types';
+
+const DUPLICATE_OFFSET = 40; // px, down and right of the original
+
+export interface PendingPaste {
+  clipboard: NodeClipboard;
+  position: XYPosition;
+  conversationId: string | null; // The paste is dropped when another dialogue is opened
+}
+
+interface NodeClipboardOptions {
+  isEnabled: boolean; // False while the canvas is read-only
+  isHorizontal: boolean;
+  getPastePosition: () => XYPosition; // Flow position under the cursor, or the middle of the view
+}
+
+// Text selected on the page (e.g. in a panel) keeps the browser's own copy
+const hasTextSelection = (): boolean => !(window.getSelection()?.isCollapsed ?? true);
+
+const copySelectedNodes = (): NodeClipboard | null => {
+  const state = useDialogueStore.getState();
+  return copyNodeSelection(state.activeNodes(), state.activeEdges(), state.selectedNpcId);
+};
+
+/**
+ * Hook that binds copy, cut and paste (through the system clipboard) and the 'edit.duplicate'
+ * command to the canvas selection. A paste into another NPC's dialogue waits in `pendingPaste` until the user
+ * decides whether that NPC takes over the copied lines.
+ */
+const useNodeClipboard = ({ isEnabled, isHorizontal, getPastePosition }: NodeClipboardOptions) => {
+  const [pendingPaste, setPendingPaste] = useState<PendingPaste | null>(null);
+  const selectedConversationId = useDialogueStore(state => state.selectedConversationId);
+
+  const paste = useCallback((clipboard: NodeClipboard, position: XYPosition, reassignSpeaker: boolean) => {
+    const state = useDialogueStore.getState();
+    const { nodes, edges } = createPastedNodes(clipboard, {
+      position,
+      isHorizontal,
+      speaker: reassignSpeaker ? state.selectedNpc() : undefined,
+    });
+    state.pasteNodes(nodes, edges);
+  }, [isHorizontal]);
+
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    // Writes the selection to the clipboard; returns what was copied
+    const writeSelection = (event: ClipboardEvent): NodeClipboard | null => {
+      if (!event.clipboardData || isTextInputTarget(event.target) || hasTextSelection()) return null;
+      const clipboard = copySelectedNodes();
+      if (!clipboard) return null;
+      event.clipboardData.setData('text/plain', serializeNodeClipboard(clipboard));
+      event.preventDefault();
+      return clipboard;
+    };
+
+    const handleCopy = (event: ClipboardEvent) => {
+      writeSelection(event);
+    };
+
+    const handleCut = (event: ClipboardEvent) => {
+      const clipboard = writeSelection(event);
+      if (clipboard) useDialogueStore.getState().deleteNodes(clipboard.nodes.map(node => node.id));
+    };
+
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isTextInputTarget(event.target)) return;
+      const clipboard = parseNodeClipboard(event.clipboardData?.getData('text/plain') ?? '');
+      if (!clipboard) return;
+      event.preventDefault();
+      const { selectedNpcId, selectedConversationId: conversationId } = useDialogueStore.getState();
+      const position = getPastePosition();
+      if (hasForeignSpeaker(clipboard, selectedNpcId)) {
+        setPendingPaste({ clipboard, position, conversationId });
+      } else {
+        paste(clipboard, position, false);
+      }
+    };
+
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCut);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCut);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [isEnabled, getPastePosition, paste]);
+
+  // Bound to Ctrl+D by default, which also keeps the browser from bookmarking the page
+  const commands = useMemo((): EditorCommand[] => [{
+    id: 'edit.duplicate',
+    title: 'Duplicate Selection',
+    category: 'Edit',
+    keywords: ['copy', 'clone'],
+    isAvailable: () => isEnabled && copySelectedNodes() !== null,
+    run: () => {
+      const clipboard = copySelectedNodes();
+      if (!clipboard) return;
+      const origin = getSelectionOrigin(clipboard);
+      paste(clipboard, { x: origin.x + DUPLICATE_OFFSET, y: origin.y + DUPLICATE_OFFSET }, false);
+    },
+  }], [isEnabled, paste]);
+  useRegisterCommands(commands);
+
+  const currentPaste = isEnabled && pendingPaste?.conversationId === selectedConversationId ? pendingPaste : null;
+
+  const resolvePendingPaste = useCallback((reassignSpeaker: boolean) => {
+    if (currentPaste) paste(currentPaste.clipboard, currentPaste.position, reassignSpeaker);
+    setPendingPaste(null);
+  }, [currentPaste, paste]);
+
+  const cancelPendingPaste = useCallback(() => setPendingPaste(null), []);
+
+  return { pendingPaste: currentPaste, resolvePendingPaste, cancelPendingPaste };
+};
+
+export default useNodeClipboard;
@@ -0,0 +1,34 @@
+// src/hooks/usePortraitUrl.ts
+import { useEffect, useState } from 'react';
+import { PortraitRef } from '../types';
+import { loadPortraitUrl, peekPortraitUrl, PortraitVariant } from '../services/portraitService';
+
+/**
+ * Hook that resolves an NPC's portrait to a URL for an <img>: the stored portrait, or the
+ * data URL of an NPC that still carries one (e.g. restored from an old snapshot).
+ *
+ * @param portrait - The NPC, or just its portrait fields
+ * @param variant - 'thumbnail' for avatars, 'image' for the whole crop
+ * @returns The URL, or undefined while loading and when there is no portrait
+ */
+const usePortraitUrl = (portrait: PortraitRef | undefined, variant: PortraitVariant = 'thumbnail'): string | undefined => {
+  const portraitId = portrait?.portraitId;
+  const [loaded, setLoaded] = useState<{ key: string; url: string | undefined } | null>(null);
+  const key = `${portraitId}:${variant}`;
+
+  useEffect(() => {
+    if (!portraitId || peekPortraitUrl(portraitId, variant)) return;
+    let isCurrent = true;
+    loadPortraitUrl(portraitId, variant)
+      .then(url => { if (isCurrent) setLoaded({ key: `${portraitId}:${variant}`, url }); })
+      .catch(error => console.error(`[usePortraitUrl] Loading portrait ${portraitId} failed:`, error));
+    return () => { isCurrent = false; };
+  }, [portraitId, variant]);
+
+  const storedUrl = portraitId
+    ? peekPortraitUrl(portraitId, variant) ?? (loaded?.key === key ? loaded.url : undefined)
+    : undefined;
+  return storedUrl ?? portrait?.image;
+};
+
+export default usePortraitUrl;
@@ -0,0 +1,279 @@
+// src/services/collabService.ts
+import * as Y from 'yjs';
+import { debounce, throttle } from 'lodash';
+import { XYPosition } from 'reactflow';
+import db from './dbService';
+import { createSnapshot } from './snapshotService';
+import { createWebSocketProvider, SyncProvider, SyncProviderEvents, SyncProviderFactory } from './syncProviders';
+import { DialogueState, useDialogueStore } from '../store/dialogueStore';
+import { CollabSettings, CollabStatus, PeerPresence } from '../types';
+import { CollabProject, isDocEmpty, readProjectFromDoc, writeProjectToDoc } from '../utils/collabDoc';
+
+/*
+ * Real-time collaboration: the project in useDialogueStore is mirrored into a Yjs document that a
+ * sync provider shares with the other writers of a room.
+ *
+ * - Local edits are written to the document synchronously from a store subscription, as a diff
+ *   against the last state the two had in common (`synced`).
+ * - Remote updates are read back into the store right away (applyRemoteProject), so the store
+ *   and the document never drift apart.
+ * - The document is kept per room in IndexedDB. When a session starts again, the store changes
+ *   made since the stored state are written on top, and the sync merges them with the room.
+ * - A writer new to the room takes over the room's project. Only when the room is empty does the
+ *   relay let one writer seed it with their own; the others wait for that project to arrive.
+ */
+
+const SETTINGS_KEY = 'collaboration';
+const PRESENCE_INTERVAL = 50; // ms between presence messages while the cursor moves
+const PERSIST_DELAY = 1000;
+
+const LOCAL_ORIGIN = Symbol('local');
+const PERSISTENCE_ORIGIN = Symbol('persistence');
+
+const PEER_COLORS = ['#f97316', '#22c55e', '#3b82f6', '#a855f7', '#ec4899', '#14b8a6', '#eab308', '#ef4444'];
+
+export const DEFAULT_COLLAB_SETTINGS: CollabSettings = {
+  serverUrl: `ws://${typeof window !== 'undefined' && window.location.hostname ? window.location.hostname : 'localhost'}:1234`,
+  room: 'dialogue-project',
+  userName: '',
+};
+
+export interface CollabCallbacks {
+  onStatusChange: (status: CollabStatus) => void;
+  onPeersChange: (peers: PeerPresence[]) => void;
+}
+
+interface CollabSession {
+  room: string;
+  doc: Y.Doc;
+  provider: SyncProvider;
+  callbacks: CollabCallbacks;
+  peers: Map<number, PeerPresence>;
+  presence: PeerPresence;
+  baseline: CollabProject | undefined; // Project as last stored for this room, if this client was in it before
+  hasSynced: boolean; // Caught up with the room since connecting
+  canSeed: boolean; // The room is empty and this writer may fill it
+  synced: CollabProject | null; // Last project the store and the document had in common; null until bound
+  isApplyingRemote: boolean;
+  sendPresence: ReturnType<typeof throttle>;
+  persist: ReturnType<typeof debounce>;
+  unsubscribeStore: (() => void) | null;
+}
+
+let session: CollabSession | null = null;
+let startCount = 0; // Tells a start that finished loading whether another start or a stop came in between
+
+export const getPeerColor = (clientId: number): string => PEER_COLORS[clientId % PEER_COLORS.length];
+
+export const loadCollabSettings = async (): Promise<CollabSettings> => {
+  try {
+    const record = await db.settings.get(SETTINGS_KEY);
+    return { ...DEFAULT_COLLAB_SETTINGS, ...(record?.value as Partial<CollabSettings> | undefined) };
+  } catch (error) {
+    console.error('[Collab] Loading settings failed:', error);
+    return { ...DEFAULT_COLLAB_SETTINGS };
+  }
+};
+
+export const saveCollabSettings = async (settings: CollabSettings): Promise<void> => {
+  await db.settings.put({ key: SETTINGS_KEY, value: settings });
+};
+
+const notifyPeers = (current: CollabSession) => {
+  current.callbacks.onPeersChange(Array.from(current.peers.values()).sort((a, b) => a.name.localeCompare(b.name)));
+};
+
+const getSelectionPresence = (state: DialogueState) => ({
+  npcId: state.selectedNpcId,
+  conversationId: state.selectedConversationId,
+  selectedNodeIds: state.activeNodes().filter(node => node.selected).map(node => node.id),
+});
+
+const updatePresence = (current: CollabSession, changes: Partial<PeerPresence>) => {
+  const next = { ...current.presence, ...changes };
+  if (JSON.stringify(next) === JSON.stringify(current.presence)) return;
+  current.presence = next;
+  current.sendPresence();
+};
+
+const applyRemoteChanges = (current: CollabSession) => {
+  const { npcs, variables, localization, applyRemoteProject } = useDialogueStore.getState();
+  const next = readProjectFromDoc(current.doc, { npcs, variables, localization });
+  current.synced = next;
+  current.isApplyingRemote = true;
+  try {
+    applyRemoteProject(next.npcs, next.variables, next.localization);
+  } finally {
+    current.isApplyingRemote = false;
+  }
+};
+
+const handleStoreChange = (current: CollabSession, state: DialogueState) => {
+  if (current.isApplyingRemote || state.isLoading || !current.synced) return;
+  const { synced } = current;
+  if (state.npcs !== synced.npcs || state.variables !== synced.variables || state.localization !== synced.localization) {
+    const next = { npcs: state.npcs, variables: state.variables, localization: state.localization };
+    writeProjectToDoc(current.doc, next, current.synced, LOCAL_ORIGIN);
+    current.synced = next;
+  }
+  updatePresence(current, getSelectionPresence(state));
+};
+
+/**
+ * Runs once the first sync with the room finished: merges the store into the document (or takes
+ * over the room's project) and starts mirroring both ways.
+ */
+const bindStore = (current: CollabSession) => {
+  const { baseline } = current;
+  const { npcs, variables, localization } = useDialogueStore.getState();
+  if (!baseline && !isDocEmpty(current.doc)) {
+    // Joining a room that already has a project: it replaces ours, which stays restorable from the history
+    createSnapshot(npcs, 'import', `Before joining room "${current.room}"`)
+      .catch(error => console.error('[Collab] Snapshot failed:', error));
+    console.log(`[Collab] Took over the project of room "${current.room}".`);
+  } else {
+    writeProjectToDoc(current.doc, { npcs, variables, localization }, baseline, LOCAL_ORIGIN);
+  }
+  applyRemoteChanges(current);
+  current.persist();
+  current.unsubscribeStore = useDialogueStore.subscribe(state => handleStoreChange(current, state));
+  updatePresence(current, getSelectionPresence(useDialogueStore.getState()));
+};
+
+/**
+ * Binds the store once the session caught up with the room, unless it is new to an empty room that
+ * another writer is to seed. It is then tried again when the seed is granted or the project arrives.
+ */
+const tryBindStore = (current: CollabSession) => {
+  if (current.synced || !current.hasSynced) return;
+  if (current.baseline || current.canSeed || !isDocEmpty(current.doc)) {
+    bindStore(current);
+  }
+};
+
+/**
+ * Provider events of a session, which is read through getSession as the provider is created before it.
+ */
+const createProviderEvents = (getSession: () => CollabSession): SyncProviderEvents => ({
+  onStatusChange: status => {
+    const current = getSession();
+    if (status !== 'connected') {
+      // A seed and the sync only hold for the connection they came with
+      current.hasSynced = false;
+      current.canSeed = false;
+    }
+    if (status !== 'connected' && current.peers.size > 0) {
+      current.peers.clear();
+      notifyPeers(current);
+    }
+    current.callbacks.onStatusChange(status);
+  },
+  onSynced: () => {
+    const current = getSession();
+    current.hasSynced = true;
+    tryBindStore(current);
+    if (!current.synced) console.log(`[Collab] Waiting for the project of room "${current.room}".`);
+  },
+  onSeedGranted: () => {
+    const current = getSession();
+    current.canSeed = true;
+    tryBindStore(current);
+  },
+  onPresence: presence => {
+    const current = getSession();
+    if (presence.clientId === current.doc.clientID) return;
+    current.peers.set(presence.clientId, presence);
+    notifyPeers(current);
+  },
+  onPeerLeft: clientId => {
+    const current = getSession();
+    if (current.peers.delete(clientId)) notifyPeers(current);
+  },
+});
+
+/**
+ * Joins a room, replacing any running session.
+ * @param createProvider Transport to use; defaults to the WebSocket relay at settings.serverUrl
+ */
+export const startCollaboration = async (
+  settings: CollabSettings,
+  callbacks: CollabCallbacks,
+  createProvider: SyncProviderFactory = createWebSocketProvider(settings.serverUrl)
+): Promise<void> => {
+  stopCollaboration();
+  const startId = ++startCount;
+  const { room } = settings;
+
+  const doc = new Y.Doc();
+  const stored = await db.collabDocs.get(room);
+  if (startId !== startCount) return; // Stopped or restarted while loading
+  if (stored) Y.applyUpdate(doc, stored.update, PERSISTENCE_ORIGIN);
+  const baseline = stored ? readProjectFromDoc(doc) : undefined;
+
+  // The provider's events only fire once connected, by which time the session exists
+  const provider = createProvider(doc, room, createProviderEvents(() => current));
+  const current: CollabSession = {
+    room,
+    doc,
+    provider,
+    callbacks,
+    peers: new Map(),
+    presence: {
+      clientId: doc.clientID,
+      name: settings.userName.trim() || `Writer ${doc.clientID % 1000}`,
+      color: getPeerColor(doc.clientID),
+      npcId: null,
+      conversationId: null,
+      cursor: null,
+      selectedNodeIds: [],
+    },
+    baseline,
+    hasSynced: false,
+    canSeed: false,
+    synced: null,
+    isApplyingRemote: false,
+    sendPresence: throttle(() => current.provider.setPresence(current.presence), PRESENCE_INTERVAL),
+    persist: debounce(() => {
+      db.collabDocs.put({ room, update: Y.encodeStateAsUpdate(doc), updatedAt: Date.now() })
+        .catch(error => console.error('[Collab] Storing the document failed:', error));
+    }, PERSIST_DELAY),
+    unsubscribeStore: null,
+  };
+
+  // Only stored once bound: a stored state is the baseline for the next session and must match the store
+  doc.on('update', (_update: Uint8Array, origin: unknown) => {
+    if (!current.synced) {
+      // The seeded project arriving in a room this writer waits to join
+      if (origin !== LOCAL_ORIGIN) tryBindStore(current);
+      return;
+    }
+    current.persist();
+    if (origin !== LOCAL_ORIGIN) applyRemoteChanges(current);
+  });
+
+  session = current;
+  console.log(`[Collab] Joining room "${room}".`);
+  current.provider.connect();
+};
+
+export const stopCollaboration = (): void => {
+  startCount++;
+  if (!session) return;
+  const current = session;
+  session = null;
+  current.unsubscribeStore?.();
+  current.sendPresence.cancel();
+  current.persist.flush();
+  current.provider.destroy();
+  current.doc.destroy();
+  current.callbacks.onPeersChange([]);
+  console.log(`[Collab] Left room "${current.room}".`);
+};
+
+/**
+ * Shares where this writer's mouse is on the canvas (flow coordinates), or null when it left it.
+ */
+export const updateLocalCursor = (cursor: XYPosition | null): void => {
+  if (session?.synced) updatePresence(session, { cursor });
+};
+
@@ -1,31 +1,243 @@
 // src/services/dbService.ts
-import Dexie, { Table } from 'dexie';
-import { NPC } from '../types';
+import Dexie, { Table, Transaction } from 'dexie';
+import { NPC, Conversation, DialogueNode, DialogueEdge, DialogueVariable, FocalPoint, PortraitCrop, ProjectInfo, ProjectSnapshot } from '../types';
 
-// *** CHOOSE A FIXED STARTING VERSION (e.g., 1) ***
-const DATABASE_VERSION = 1;
+// Bump this whenever the schema below changes and add a matching this.version(...) block
+export const DATABASE_VERSION = 7;
+
+/*
+ * Every project has a database of its own. The project that existed before workspaces keeps the
+ * original database; the registry database lists the projects. A tab opens the database of its
+ * project once at startup, so switching projects reloads the page (see projectService).
+ */
+export const DEFAULT_PROJECT_ID = 'default';
+const DEFAULT_DATABASE_NAME = 'DialogueBuilderDB';
+const REGISTRY_DATABASE_NAME = 'DialogueBuilderProjects';
+// The tab's project (sessionStorage) and the last project opened, for new tabs (localStorage)
+const ACTIVE_PROJECT_KEY = 'dialogueBuilder_activeProject';
+
+export const getProjectDatabaseName = (projectId: string): string =>
+  projectId === DEFAULT_PROJECT_ID ? DEFAULT_DATABASE_NAME : `${DEFAULT_DATABASE_NAME}-${projectId}`;
+
+const readActiveProjectId = (): string => {
+  try {
+    return sessionStorage.getItem(ACTIVE_PROJECT_KEY) || localStorage.getItem(ACTIVE_PROJECT_KEY) || DEFAULT_PROJECT_ID;
+  } catch {
+    return DEFAULT_PROJECT_ID; // Storage unavailable (private mode, tests)
+  }
+};
+
+/**
+ * Remembers the project to open on the next load of this tab, and in new tabs.
+ */
+export const storeActiveProjectId = (projectId: string): void => {
+  try {
+    sessionStorage.setItem(ACTIVE_PROJECT_KEY, projectId);
+    localStorage.setItem(ACTIVE_PROJECT_KEY, projectId);
+  } catch (error) {
+    console.error('[DialogueDatabase] Storing the active project failed:', error);
+  }
+};
+
+export const activeProjectId = readActiveProjectId();
+
+// Project-wide settings stored by key, e.g. 'localization'
+export interface SettingRecord {
+  key: string;
+  value: unknown;
+}
+
+// Normalized records (version 4+). `order` keeps the position within the parent list,
+// which matters for edges: the playtest follows the first passing connection.
+export type NpcRecord = Omit<NPC, 'conversations'> & { order: number };
+export type ConversationRecord = Omit<Conversation, 'nodes' | 'edges'> & { npcId: string; order: number };
+export type NodeRecord = DialogueNode & { conversationId: string; order: number };
+export type EdgeRecord = DialogueEdge & { conversationId: string; order: number };
+
+// Snapshots keep a whole copy of the NPCs in one record; the ID is assigned by Dexie
+export type SnapshotRecord = Omit<ProjectSnapshot, 'id'> & { id?: number };
+
+// Encoded state of the shared collaboration document of a room, so offline edits survive a reload
+export interface CollabDocRecord {
+  room: string;
+  update: Uint8Array; // Y.encodeStateAsUpdate of the whole document
+  updatedAt: number;
+}
+
+// NPC portrait; records are never changed, a new crop is a new record (so undo can go back to the old one)
+export interface PortraitRecord {
+  id: string;
+  source: Blob; // Uploaded image, scaled down; kept so the crop can be adjusted later
+  crop: PortraitCrop;
+  focalPoint: FocalPoint;
+  image: Blob; // Cropped image
+  thumbnail: Blob; // Square around the focal point, for avatars
+  createdAt: number;
+}
+
+// Nodes and edges are keyed per conversation: [conversationId, id]
+export type ChildRecordKey = [string, string];
+
+export const toNpcRecord = ({ conversations: _conversations, ...npc }: NPC, order: number): NpcRecord => ({ ...npc, order });
+export const toConversationRecord = ({ nodes: _nodes, edges: _edges, ...conversation }: Conversation, npcId: string, order: number): ConversationRecord =>
+  ({ ...conversation, npcId, order });
+export const toNodeRecord = (node: DialogueNode, conversationId: string, order: number): NodeRecord => ({ ...node, conversationId, order });
+export const toEdgeRecord = (edge: DialogueEdge, conversationId: string, order: number): EdgeRecord => ({ ...edge, conversationId, order });
+
+/**
+ * Splits NPCs into the records of the normalized tables.
+ */
+export const toRecords = (npcs: NPC[]) => {
+  const npcRecords: NpcRecord[] = [];
+  const conversationRecords: ConversationRecord[] = [];
+  const nodeRecords: NodeRecord[] = [];
+  const edgeRecords: EdgeRecord[] = [];
+  npcs.forEach((npc, npcIndex) => {
+    npcRecords.push(toNpcRecord(npc, npcIndex));
+    (npc.conversations ?? []).forEach((conv, convIndex) => {
+      conversationRecords.push(toConversationRecord(conv, npc.id, convIndex));
+      (conv.nodes ?? []).forEach((node, index) => nodeRecords.push(toNodeRecord(node, conv.id, index)));
+      (conv.edges ?? []).forEach((edge, index) => edgeRecords.push(toEdgeRecord(edge, conv.id, index)));
+    });
+  });
+  return { npcRecords, conversationRecords, nodeRecords, edgeRecords };
+};
+
+/**
+ * Reassembles NPCs from the normalized tables, in their saved order.
+ */
+export const fromRecords = (
+  npcRecords: NpcRecord[],
+  conversationRecords: ConversationRecord[],
+  nodeRecords: NodeRecord[],
+  edgeRecords: EdgeRecord[]
+): NPC[] => {
+  const byOrder = (a: { order: number }, b: { order: number }) => a.order - b.order;
+  const groupBy = <T>(records: T[], getKey: (record: T) => string) => {
+    const groups = new Map<string, T[]>();
+    records.forEach(record => {
+      const key = getKey(record);
+      groups.set(key, [...(groups.get(key) ?? []), record]);
+    });
+    return groups;
+  };
+  const conversationsByNpc = groupBy([...conversationRecords].sort(byOrder), record => record.npcId);
+  const nodesByConversation = groupBy([...nodeRecords].sort(byOrder), record => record.conversationId);
+  const edgesByConversation = groupBy([...edgeRecords].sort(byOrder), record => record.conversationId);
+
+  return [...npcRecords].sort(byOrder).map(({ order: _order, ...npc }) => ({
+    ...npc,
+    conversations: (conversationsByNpc.get(npc.id) ?? []).map(({ npcId: _npcId, order: _convOrder, ...conv }) => ({
+      ...conv,
+      nodes: (nodesByConversation.get(conv.id) ?? []).map(({ conversationId: _c, order: _o, ...node }) => node),
+      edges: (edgesByConversation.get(conv.id) ?? []).map(({ conversationId: _c, order: _o, ...edge }) => edge),
+    })),
+  }));
+};
+
+/**
+ * Version 4 upgrade: splits the NPC documents of versions 1-3 (NPC > conversations > nodes/edges)
+ * into the normalized tables. Dexie runs it inside the version change transaction, so if anything
+ * fails the database stays at its previous version with the old data untouched.
+ */
+const migrateToNormalizedTables = async (tx: Transaction) => {
+  const legacyNpcs = await tx.table<NPC, string>('npcs').toArray();
+  const { npcRecords, conversationRecords, nodeRecords, edgeRecords } = toRecords(legacyNpcs);
+  await tx.table('conversations').bulkPut(conversationRecords);
+  await tx.table('nodes').bulkPut(nodeRecords);
+  await tx.table('edges').bulkPut(edgeRecords);
+  await tx.table('npcs').bulkPut(npcRecords); // Replaces each NPC document, dropping the nested conversations
+  console.log(`[DialogueDatabase] Migrated ${npcRecords.length} NPCs, ${conversationRecords.length} conversations, ${nodeRecords.length} nodes and ${edgeRecords.length} edges to the normalized schema.`);
+};
 
 /**
  * DialogueDatabase class for IndexedDB operations
- * Stores all NPCs (which include conversations and nodes)
+ * Stores NPCs, conversations, nodes and edges in separate tables so saves only
+ * rewrite the records that changed, plus the project-level dialogue variables and settings
+ * and the project snapshots, collaboration documents and NPC portraits
  *
  * Updated with FIXED version handling.
  */
-class DialogueDatabase extends Dexie {
-  npcs!: Table<NPC, string>;
+export class DialogueDatabase extends Dexie {
+  npcs!: Table<NpcRecord, string>;
+  conversations!: Table<ConversationRecord, string>;
+  nodes!: Table<NodeRecord, ChildRecordKey>;
+  edges!: Table<EdgeRecord, ChildRecordKey>;
+  variables!: Table<DialogueVariable, string>;
+  settings!: Table<SettingRecord, string>;
+  snapshots!: Table<SnapshotRecord, number>;
+  collabDocs!: Table<CollabDocRecord, string>;
+  portraits!: Table<PortraitRecord, string>;
 
-  constructor() {
-    super('DialogueBuilderDB');
+  constructor(name: string = DEFAULT_DATABASE_NAME) {
+    super(name);
 
     console.log(`[DialogueDatabase] Defining schema version ${DATABASE_VERSION}`);
 
-    // Define schema with a FIXED version number
-    this.version(DATABASE_VERSION).stores({
+    // Version 1: NPCs only
+    this.version(1).stores({
       npcs: 'id' // Primary key is id
     });
 
-    // Optional: Add upgrade logic here if you increment DATABASE_VERSION later
-    // this.version(2).stores({ ... }).upgrade(tx => { ... });
+    // Version 2: project-level dialogue variables (no data migration needed)
+    this.version(2).stores({
+      npcs: 'id',
+      variables: 'id'
+    });
+
+    // Version 3: key/value project settings such as the localization locales
+    this.version(3).stores({
+      npcs: 'id',
+      variables: 'id',
+      settings: 'key'
+    });
+
+    // Version 4: normalized NPC / conversation / node / edge tables
+    this.version(4).stores({
+      npcs: 'id',
+      conversations: 'id, npcId',
+      nodes: '[conversationId+id], conversationId',
+      edges: '[conversationId+id], conversationId',
+      variables: 'id',
+      settings: 'key'
+    }).upgrade(migrateToNormalizedTables);
+
+    // Version 5: project snapshots (no data migration needed)
+    this.version(5).stores({
+      npcs: 'id',
+      conversations: 'id, npcId',
+      nodes: '[conversationId+id], conversationId',
+      edges: '[conversationId+id], conversationId',
+      variables: 'id',
+      settings: 'key',
+      snapshots: '++id, createdAt, trigger'
+    });
+
+    // Version 6: collaboration documents per room (no data migration needed)
+    this.version(6).stores({
+      npcs: 'id',
+      conversations: 'id, npcId',
+      nodes: '[conversationId+id], conversationId',
+      edges: '[conversationId+id], conversationId',
+      variables: 'id',
+      settings: 'key',
+      snapshots: '++id, createdAt, trigger',
+      collabDocs: 'room'
+    });
+
+    // Version 7: NPC portraits as blobs. Data URLs still in NPC records are moved over when the
+    // project loads, since resizing them needs a canvas and can't run inside the upgrade transaction
+    this.version(7).stores({
+      npcs: 'id',
+      conversations: 'id, npcId',
+      nodes: '[conversationId+id], conversationId',
+      edges: '[conversationId+id], conversationId',
+      variables: 'id',
+      settings: 'key',
+      snapshots: '++id, createdAt, trigger',
+      collabDocs: 'room',
+      portraits: 'id'
+    });
   }
 
   /**
@@ -64,6 +276,14 @@ class DialogueDatabase extends Dexie {
            if (!this.isOpen()) return { name: this.name, version: 'N/A (Closed)', stores: [], recordCounts: {} };
          }
       const npcCount = await this.npcs.count();
+      const conversationCount = await this.conversations.count();
+      const nodeCount = await this.nodes.count();
+      const edgeCount = await this.edges.count();
+      const variableCount = await this.variables.count();
+      const settingCount = await this.settings.count();
+      const snapshotCount = await this.snapshots.count();
+      const collabDocCount = await this.collabDocs.count();
+      const portraitCount = await this.portraits.count();
       const db = this.backendDB();
 
       return {
@@ -71,7 +291,15 @@ class DialogueDatabase extends Dexie {
         version: db.version, // Get actual browser DB version
         stores: Array.from(db.objectStoreNames),
         recordCounts: {
-          npcs: npcCount
+          npcs: npcCount,
+          conversations: conversationCount,
+          nodes: nodeCount,
+          edges: edgeCount,
+          variables: variableCount,
+          settings: settingCount,
+          snapshots: snapshotCount,
+          collabDocs: collabDocCount,
+          portraits: portraitCount
         }
       };
     } catch (error) {
@@ -81,8 +309,30 @@ class DialogueDatabase extends Dexie {
   }
 }
 
-// Create a database instance
-const db = new DialogueDatabase();
+/**
+ * The list of projects, shared by all of them.
+ */
+class ProjectRegistryDatabase extends Dexie {
+  projects!: Table<ProjectInfo, string>;
+  settings!: Table<SettingRecord, string>;
+
+  constructor() {
+    super(REGISTRY_DATABASE_NAME);
+    this.version(1).stores({
+      projects: 'id'
+    });
+    // Version 2: settings shared by all projects, such as the key bindings
+    this.version(2).stores({
+      projects: 'id',
+      settings: 'key'
+    });
+  }
+}
+
+export const projectRegistry = new ProjectRegistryDatabase();
+
+// Create the database instance of this tab's project
+const db = new DialogueDatabase(getProjectDatabaseName(activeProjectId));
 
 // Export the database
 export default db;
\ No newline at end of file
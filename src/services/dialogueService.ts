@@ -1,86 +1,384 @@
 // src/services/dialogueService.ts
-import db from './dbService';
-import { NPC } from '../types';
+import db, {
+  ChildRecordKey,
+  fromRecords,
+  toConversationRecord,
+  toEdgeRecord,
+  toNodeRecord,
+  toNpcRecord,
+  toRecords,
+  ConversationRecord,
+  EdgeRecord,
+  NodeRecord,
+  NpcRecord,
+} from './dbService';
+import { NPC, Conversation, DialogueVariable, DialogueExportData, DialogueExportFile, LocalizationSettings } from '../types';
 import { initialNpcs } from '../constants/initialData';
+import { DEFAULT_LOCALIZATION } from '../utils/localization';
+import { checkImportData, DIALOGUE_EXPORT_FORMAT, DIALOGUE_EXPORT_VERSION, ImportValidationError } from '../utils/importValidation';
+import { createProjectBundle, readProjectBundle } from '../utils/projectBundle';
+import { createSnapshot } from './snapshotService';
+import { collectPortraitFiles, embedPortraits, extractEmbeddedPortraits, importPortraitFiles } from './portraitService';
+import { announceSave } from './tabSync';
+
+const LOCALIZATION_SETTING_KEY = 'localization';
+// Counter bumped by every save, so a tab can tell that someone else wrote since it last loaded or saved
+const REVISION_SETTING_KEY = 'revision';
+
+/**
+ * Thrown by saveProjectChanges when the database was written by another tab or window since this
+ * one last loaded or saved; the incremental save would otherwise mix both versions.
+ */
+export class ExternalChangeError extends Error {
+  constructor() {
+    super('The project was changed in another tab or window.');
+    this.name = 'ExternalChangeError';
+  }
+}
+
+/*
+ * Incremental saves: the store state is immutable (immer), so anything whose object identity or
+ * position is unchanged since the last save is also unchanged in the database. `savedState` holds
+ * what the database currently contains; it starts out empty, which makes the first save a full
+ * write (without clearing anything), and is updated only after a save transaction has committed.
+ */
+interface SavedState {
+  npcs: NPC[];
+  variables: DialogueVariable[];
+  localization?: LocalizationSettings;
+  revision: number; // Revision of the database when it last matched this state
+}
+
+let savedState: SavedState = { npcs: [], variables: [], revision: 0 };
+
+const readRevision = async (): Promise<number> => {
+  const record = await db.settings.get(REVISION_SETTING_KEY);
+  return typeof record?.value === 'number' ? record.value : 0;
+};
+
+// Inside a 'rw' transaction on db.settings
+const bumpRevision = async (): Promise<number> => {
+  const revision = await readRevision() + 1;
+  await db.settings.put({ key: REVISION_SETTING_KEY, value: revision });
+  return revision;
+};
+
+// Saves run one after another so each diff starts from what the previous save committed
+let saveQueue: Promise<void> = Promise.resolve();
+
+const enqueueSave = (save: () => Promise<void>): Promise<void> => {
+  const result = saveQueue.then(save);
+  saveQueue = result.catch(() => {});
+  return result;
+};
+
+/**
+ * Items that are new or changed (different object or different position), and IDs that are gone.
+ */
+const diffById = <T extends { id: string }>(previous: T[], next: T[]) => {
+  const before = new Map(previous.map((item, index) => [item.id, { item, index }]));
+  const changed = next
+    .map((item, index) => ({ item, index }))
+    .filter(({ item, index }) => before.get(item.id)?.item !== item || before.get(item.id)?.index !== index);
+  const nextIds = new Set(next.map(item => item.id));
+  const removedIds = previous.filter(item => !nextIds.has(item.id)).map(item => item.id);
+  return { changed, removedIds };
+};
+
+/**
+ * Records to write and delete to get the database from `previous` to `next`.
+ */
+const collectNpcChanges = (previous: NPC[], next: NPC[]) => {
+  const npcPuts: NpcRecord[] = [];
+  const conversationPuts: ConversationRecord[] = [];
+  const nodePuts: NodeRecord[] = [];
+  const edgePuts: EdgeRecord[] = [];
+  const nodeDeletes: ChildRecordKey[] = [];
+  const edgeDeletes: ChildRecordKey[] = [];
+
+  const previousConversations = new Map<string, { conversation: Conversation; npcId: string; index: number }>();
+  previous.forEach(npc => npc.conversations.forEach((conversation, index) => {
+    previousConversations.set(conversation.id, { conversation, npcId: npc.id, index });
+  }));
+
+  const npcDiff = diffById(previous, next);
+  npcDiff.changed.forEach(({ item: npc, index }) => {
+    npcPuts.push(toNpcRecord(npc, index));
+    npc.conversations.forEach((conversation, convIndex) => {
+      const before = previousConversations.get(conversation.id);
+      if (before?.conversation === conversation && before.npcId === npc.id && before.index === convIndex) return;
+      conversationPuts.push(toConversationRecord(conversation, npc.id, convIndex));
+      const nodeDiff = diffById(before?.conversation.nodes ?? [], conversation.nodes);
+      nodeDiff.changed.forEach(({ item, index: nodeIndex }) => nodePuts.push(toNodeRecord(item, conversation.id, nodeIndex)));
+      nodeDiff.removedIds.forEach(id => nodeDeletes.push([conversation.id, id]));
+      const edgeDiff = diffById(before?.conversation.edges ?? [], conversation.edges);
+      edgeDiff.changed.forEach(({ item, index: edgeIndex }) => edgePuts.push(toEdgeRecord(item, conversation.id, edgeIndex)));
+      edgeDiff.removedIds.forEach(id => edgeDeletes.push([conversation.id, id]));
+    });
+  });
+
+  const nextConversationIds = new Set(next.flatMap(npc => npc.conversations.map(conversation => conversation.id)));
+  const conversationDeletes = Array.from(previousConversations.keys()).filter(id => !nextConversationIds.has(id));
+
+  return { npcPuts, npcDeletes: npcDiff.removedIds, conversationPuts, conversationDeletes, nodePuts, nodeDeletes, edgePuts, edgeDeletes };
+};
 
 /**
- * Save all NPCs data to IndexedDB
+ * Save the project to IndexedDB, writing only the NPCs, conversations, nodes, edges and
+ * variables that changed since the last save. Everything is written in one transaction.
+ * @throws ExternalChangeError when another tab saved in the meantime; nothing is written then
  * @param npcs Array of NPCs to save
+ * @param variables Project variables to save alongside the NPCs
+ * @param localization Project locales
  * @returns Promise that resolves when saving is complete
  */
-export const saveAllNpcs = async (npcs: NPC[]): Promise<void> => {
-  try {
-    // Clear existing data and add new data in a transaction
-    await db.transaction('rw', db.npcs, async () => {
-      await db.npcs.clear();
-      await db.npcs.bulkAdd(npcs);
-    });
-    console.log('Successfully saved all NPCs data to IndexedDB');
-  } catch (error) {
-    console.error('Error saving NPCs data:', error);
-    throw error; // Re-throw to allow handling by caller
+export const saveProjectChanges = (npcs: NPC[], variables: DialogueVariable[], localization: LocalizationSettings): Promise<void> =>
+  enqueueSave(async () => {
+    try {
+      const changes = collectNpcChanges(savedState.npcs, npcs);
+      const variableDiff = diffById(savedState.variables, variables);
+      const revision = await db.transaction('rw', [db.npcs, db.conversations, db.nodes, db.edges, db.variables, db.settings], async () => {
+        if (await readRevision() !== savedState.revision) throw new ExternalChangeError();
+
+        // Deletes first: a conversation that moved to another NPC is deleted and written again
+        await db.nodes.where('conversationId').anyOf(changes.conversationDeletes).delete();
+        await db.edges.where('conversationId').anyOf(changes.conversationDeletes).delete();
+        await db.conversations.bulkDelete(changes.conversationDeletes);
+        await db.npcs.bulkDelete(changes.npcDeletes);
+        await db.nodes.bulkDelete(changes.nodeDeletes);
+        await db.edges.bulkDelete(changes.edgeDeletes);
+        await db.variables.bulkDelete(variableDiff.removedIds);
+
+        await db.npcs.bulkPut(changes.npcPuts);
+        await db.conversations.bulkPut(changes.conversationPuts);
+        await db.nodes.bulkPut(changes.nodePuts);
+        await db.edges.bulkPut(changes.edgePuts);
+        await db.variables.bulkPut(variableDiff.changed.map(({ item }) => item));
+        if (localization !== savedState.localization) {
+          await db.settings.put({ key: LOCALIZATION_SETTING_KEY, value: localization });
+        }
+        return bumpRevision();
+      });
+      savedState = { npcs, variables, localization, revision };
+      announceSave(revision);
+      const written = changes.npcPuts.length + changes.conversationPuts.length + changes.nodePuts.length + changes.edgePuts.length;
+      console.log(`Saved ${written} changed records to IndexedDB`);
+    } catch (error) {
+      if (!(error instanceof ExternalChangeError)) console.error('Error saving NPCs data:', error);
+      throw error; // Re-throw to allow handling by caller
+    }
+  });
+
+/**
+ * Replace all project data in IndexedDB (used by the JSON import, and to overwrite another tab's changes)
+ * @param npcs Array of NPCs to save
+ * @param variables Project variables to save alongside the NPCs (left untouched when omitted)
+ * @param localization Project locales (left untouched when omitted)
+ * @returns Promise that resolves when saving is complete
+ */
+export const saveAllNpcs = (npcs: NPC[], variables?: DialogueVariable[], localization?: LocalizationSettings): Promise<void> =>
+  enqueueSave(async () => {
+    try {
+      const { npcRecords, conversationRecords, nodeRecords, edgeRecords } = toRecords(npcs);
+      // Clear existing data and add new data in a transaction
+      const revision = await db.transaction('rw', [db.npcs, db.conversations, db.nodes, db.edges, db.variables, db.settings], async () => {
+        await Promise.all([db.npcs.clear(), db.conversations.clear(), db.nodes.clear(), db.edges.clear()]);
+        await db.npcs.bulkAdd(npcRecords);
+        await db.conversations.bulkAdd(conversationRecords);
+        await db.nodes.bulkPut(nodeRecords);
+        await db.edges.bulkPut(edgeRecords);
+        if (variables) {
+          await db.variables.clear();
+          await db.variables.bulkAdd(variables);
+        }
+        if (localization) {
+          await db.settings.put({ key: LOCALIZATION_SETTING_KEY, value: localization });
+        }
+        return bumpRevision();
+      });
+      // The store reloads after an import, which replaces this baseline with the loaded objects
+      savedState = { npcs, variables: variables ?? savedState.variables, localization: localization ?? savedState.localization, revision };
+      announceSave(revision);
+      console.log('Successfully saved all NPCs data to IndexedDB');
+    } catch (error) {
+      console.error('Error saving NPCs data:', error);
+      throw error; // Re-throw to allow handling by caller
+    }
+  });
+
+// One read transaction, so the NPCs and the revision belong together even if another tab is saving
+const readAllNpcs = async (): Promise<{ npcs: NPC[]; revision: number }> =>
+  db.transaction('r', [db.npcs, db.conversations, db.nodes, db.edges, db.settings], async () => {
+    const [npcRecords, conversationRecords, nodeRecords, edgeRecords, revision] = await Promise.all([
+      db.npcs.toArray(),
+      db.conversations.toArray(),
+      db.nodes.toArray(),
+      db.edges.toArray(),
+      readRevision(),
+    ]);
+    return { npcs: fromRecords(npcRecords, conversationRecords, nodeRecords, edgeRecords), revision };
+  });
+
+/**
+ * Moves portraits that older versions stored as data URLs in the NPC records to the portraits table.
+ * Shows the same portraits, so the revision isn't bumped (other tabs would see a conflict otherwise).
+ */
+const migrateEmbeddedPortraits = async (npcs: NPC[]): Promise<NPC[]> => {
+  const migrated = await extractEmbeddedPortraits(npcs);
+  const changedRecords = migrated.flatMap((npc, index) => (npc !== npcs[index] ? [toNpcRecord(npc, index)] : []));
+  if (changedRecords.length > 0) {
+    await db.npcs.bulkPut(changedRecords);
+    console.log(`Moved ${changedRecords.length} NPC portraits to the portraits table`);
   }
+  return migrated;
 };
 
 /**
  * Load all NPCs data from IndexedDB
+ * The loaded NPCs become the baseline for the next incremental save.
  * @returns Promise that resolves with array of NPCs
  */
 export const loadAllNpcs = async (): Promise<NPC[]> => {
   try {
-    // Get all NPCs from the database
-    const loadedNpcs = await db.npcs.toArray();
-    
-    // If no data found, return initial NPCs
+    await saveQueue; // Don't read while a save is still being written
+    const { npcs: loadedNpcs, revision } = await readAllNpcs();
+
+    // If no data found, return initial NPCs (nothing is stored yet, so the first save writes them all)
     if (loadedNpcs.length === 0) {
       console.log('No saved NPCs found in IndexedDB, using initial data');
+      savedState = { ...savedState, npcs: [], revision };
       return initialNpcs;
     }
-    
+
     console.log(`Loaded ${loadedNpcs.length} NPCs from IndexedDB`);
-    return loadedNpcs;
+    const npcs = await migrateEmbeddedPortraits(loadedNpcs);
+    savedState = { ...savedState, npcs, revision };
+    return npcs;
   } catch (error) {
     console.error('Error loading NPCs data:', error);
+    savedState = { ...savedState, npcs: [] };
     return initialNpcs; // Fall back to initial data if there's an error
   }
 };
 
 /**
- * Export all dialogue data as JSON
+ * Load all project variables from IndexedDB
+ * @returns Promise that resolves with array of variables
+ */
+export const loadAllVariables = async (): Promise<DialogueVariable[]> => {
+  try {
+    const variables = await db.variables.toArray();
+    savedState = { ...savedState, variables };
+    return variables;
+  } catch (error) {
+    console.error('Error loading variables:', error);
+    savedState = { ...savedState, variables: [] };
+    return [];
+  }
+};
+
+/**
+ * Load the project locales from IndexedDB
+ * @returns Promise that resolves with the saved settings, or the defaults (English source, no targets)
+ */
+export const loadLocalizationSettings = async (): Promise<LocalizationSettings> => {
+  try {
+    const record = await db.settings.get(LOCALIZATION_SETTING_KEY);
+    const saved = record?.value as Partial<LocalizationSettings> | undefined;
+    const localization = {
+      sourceLocale: saved?.sourceLocale || DEFAULT_LOCALIZATION.sourceLocale,
+      targetLocales: Array.isArray(saved?.targetLocales) ? saved.targetLocales : [],
+    };
+    savedState = { ...savedState, localization };
+    return localization;
+  } catch (error) {
+    console.error('Error loading localization settings:', error);
+    return { ...DEFAULT_LOCALIZATION };
+  }
+};
+
+const readExportData = async (): Promise<DialogueExportData> => {
+  await saveQueue;
+  const { npcs: storedNpcs } = await readAllNpcs();
+  const npcs = storedNpcs.length > 0 ? storedNpcs : initialNpcs;
+  const variables = await db.variables.toArray();
+  const localization = await loadLocalizationSettings();
+  return { variables, npcs, localization };
+};
+
+const serializeExportData = (data: DialogueExportData): string => {
+  const file: DialogueExportFile = { format: DIALOGUE_EXPORT_FORMAT, version: DIALOGUE_EXPORT_VERSION, ...data };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Export all dialogue data as JSON, tagged with the export format and version (see DialogueExportFile)
+ * Node side-effects (data.actions) and edge conditions (data.condition) are part of
+ * each conversation, so the game engine receives them together with the graph.
+ * Translations live on the nodes too (data.translations), keyed by the locales listed in `localization`.
+ * Portraits are referenced by ID (NPC.portraitId) unless they are embedded.
+ * @param withPortraits Embed the cropped portraits as data URLs (NPC.image) instead of their IDs
  * @returns Promise that resolves with JSON string
  */
-export const exportDialogueData = async (): Promise<string> => {
-  const npcs = await loadAllNpcs();
-  return JSON.stringify(npcs, null, 2);
+export const exportDialogueData = async (withPortraits = false): Promise<string> => {
+  const data = await readExportData();
+  if (withPortraits) data.npcs = await embedPortraits(data.npcs);
+  return serializeExportData(data);
+};
+
+/**
+ * Export all dialogue data as a zip bundle: the JSON export plus the portraits as image files
+ * @returns Promise that resolves with the zip file's bytes
+ */
+export const exportDialogueBundle = async (): Promise<Uint8Array> => {
+  const data = await readExportData();
+  return createProjectBundle(serializeExportData(data), await collectPortraitFiles(data.npcs));
+};
+
+/**
+ * Read a zip bundle made by exportDialogueBundle. Its portraits are stored right away, so the
+ * returned JSON can go through the usual import (or merge or comparison).
+ * @returns The JSON export in the bundle
+ * @throws Error when the file isn't a zip or holds no JSON
+ */
+export const readDialogueBundle = async (data: Uint8Array): Promise<string> => {
+  const { json, files } = readProjectBundle(data);
+  const added = await importPortraitFiles(files);
+  if (added > 0) console.log(`Imported ${added} portraits from the bundle`);
+  return json;
+};
+
+/**
+ * Parse and check exported dialogue data
+ * @param jsonData JSON string containing NPC data
+ * @param repair Apply the automatic repairs of the import check (see importValidation)
+ * @returns The NPCs, variables and (if present) localization settings
+ * @throws SyntaxError when the JSON can't be parsed, ImportValidationError when it has errors left
+ */
+export const parseDialogueData = (jsonData: string, repair = false): DialogueExportData => {
+  const { data, problems } = checkImportData(JSON.parse(jsonData), repair);
+  const remainingErrors = problems.filter(problem => problem.severity === 'error' && !(repair && problem.repair));
+  if (!data || remainingErrors.length > 0) {
+    throw new ImportValidationError(remainingErrors);
+  }
+  return { npcs: data.npcs, variables: data.variables, localization: data.localization };
 };
 
 /**
- * Import dialogue data from JSON
+ * Import dialogue data from JSON, replacing the whole project
  * @param jsonData JSON string containing NPC data
+ * @param repair Apply the automatic repairs of the import check
  * @returns Promise that resolves with success boolean
  */
-export const importDialogueData = async (jsonData: string): Promise<boolean> => {
+export const importDialogueData = async (jsonData: string, repair = false): Promise<boolean> => {
   try {
-    // Parse the JSON and validate it's an array
-    const npcs = JSON.parse(jsonData) as NPC[];
-    
-    if (!Array.isArray(npcs)) {
-      throw new Error('Imported data is not an array');
-    }
-    
-    // Validate that the data structure has the expected properties
-    const isValid = npcs.every(npc => 
-      typeof npc.id === 'string' && 
-      typeof npc.name === 'string' && 
-      Array.isArray(npc.conversations)
-    );
-    
-    if (!isValid) {
-      throw new Error('Imported data has invalid structure');
-    }
-    
+    const { npcs: parsedNpcs, variables, localization } = parseDialogueData(jsonData, repair);
+    const npcs = await extractEmbeddedPortraits(parsedNpcs);
+    // Keep the project being replaced restorable
+    await saveQueue;
+    await createSnapshot((await readAllNpcs()).npcs, 'import', 'Before replacing the project');
     // Save the imported data
-    await saveAllNpcs(npcs);
+    await saveAllNpcs(npcs, variables, localization ?? { ...DEFAULT_LOCALIZATION });
     return true;
   } catch (error) {
     console.error('Error importing dialogue data:', error);
@@ -0,0 +1,35 @@
+// src/services/keybindingService.ts
+import { projectRegistry } from './dbService';
+import { DEFAULT_KEYBINDINGS } from '../constants/keybindings';
+import { Keybindings } from '../types';
+
+/*
+ * Key bindings belong to the user rather than to a project, so they live in the project registry.
+ * Only the commands whose keys differ from the defaults are stored; the others follow the defaults
+ * as they change between versions.
+ */
+
+const SETTINGS_KEY = 'keybindings';
+
+const isSameCombos = (a: string[], b: string[]): boolean => a.length === b.length && a.every((combo, index) => combo === b[index]);
+
+/**
+ * The stored changes applied over the defaults.
+ */
+export const loadKeybindings = async (): Promise<Keybindings> => {
+  try {
+    const record = await projectRegistry.settings.get(SETTINGS_KEY);
+    const overrides = (record?.value ?? {}) as Keybindings;
+    const valid = Object.entries(overrides).filter(([, combos]) => Array.isArray(combos) && combos.every(combo => typeof combo === 'string'));
+    return { ...DEFAULT_KEYBINDINGS, ...Object.fromEntries(valid) };
+  } catch (error) {
+    console.error('[Keybindings] Loading key bindings failed:', error);
+    return { ...DEFAULT_KEYBINDINGS };
+  }
+};
+
+export const saveKeybindings = async (keybindings: Keybindings): Promise<void> => {
+  const overrides = Object.fromEntries(Object.entries(keybindings)
+    .filter(([commandId, combos]) => !isSameCombos(combos, DEFAULT_KEYBINDINGS[commandId] ?? [])));
+  await projectRegistry.settings.put({ key: SETTINGS_KEY, value: overrides });
+};
@@ -0,0 +1,228 @@
+// src/services/portraitService.ts
+import db from './dbService';
+import { FocalPoint, NPC, PortraitCrop, PortraitRef } from '../types';
+import IdManager from '../utils/IdManager';
+import { PORTRAIT_FOLDER } from '../utils/projectBundle';
+import {
+  blobToDataUrl,
+  clampCrop,
+  clampFocalPoint,
+  dataUrlToBlob,
+  DEFAULT_CROP,
+  DEFAULT_FOCAL_POINT,
+  getCropRect,
+  getFitScale,
+  getImageExtension,
+  getNpcPortraitIds,
+  getThumbnailSquare,
+  isDataUrl,
+} from '../utils/portraitUtils';
+
+/*
+ * NPC portraits are blobs in their own table, referenced by NPC.portraitId, so saves, snapshots and
+ * exports don't carry image data. Uploads are scaled down, and the cropped image and the avatar
+ * thumbnail are rendered once when a portrait is created.
+ */
+
+const SOURCE_MAX_SIZE = 1024;
+const IMAGE_MAX_SIZE = 512;
+const THUMBNAIL_SIZE = 96;
+const OUTPUT_TYPE = 'image/webp'; // Browsers that can't encode WebP produce PNG instead
+const OUTPUT_QUALITY = 0.9;
+// Unused portraits are kept this long: another tab may have just created one that isn't saved yet
+const UNUSED_PORTRAIT_GRACE_PERIOD = 24 * 60 * 60 * 1000;
+
+export type PortraitVariant = 'image' | 'thumbnail';
+
+// Object URLs of loaded portraits. Records never change, so they stay valid until the record is deleted
+const portraitUrls = new Map<string, Record<PortraitVariant, string>>();
+const pendingLoads = new Map<string, Promise<Record<PortraitVariant, string> | null>>();
+
+const renderToBlob = (
+  bitmap: ImageBitmap,
+  source: { x: number; y: number; width: number; height: number },
+  width: number,
+  height: number
+): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const context = canvas.getContext('2d');
+  if (!context) return Promise.reject(new Error('Canvas 2D context unavailable.'));
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, source.x, source.y, source.width, source.height, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Encoding the image failed.'))), OUTPUT_TYPE, OUTPUT_QUALITY);
+  });
+};
+
+/**
+ * Scales an uploaded image down to the size kept as the portrait source.
+ */
+export const preparePortraitSource = async (file: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = getFitScale(bitmap.width, bitmap.height, SOURCE_MAX_SIZE);
+    if (scale === 1) return file;
+    const full = { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+    return await renderToBlob(bitmap, full, bitmap.width * scale, bitmap.height * scale);
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Stores a new portrait.
+ * @param source Image as returned by preparePortraitSource
+ * @param id Portrait ID; only given when importing portraits that NPCs already refer to
+ * @returns The portrait ID
+ */
+export const createPortrait = async (
+  source: Blob,
+  crop: PortraitCrop = DEFAULT_CROP,
+  focalPoint: FocalPoint = DEFAULT_FOCAL_POINT,
+  id: string = IdManager.generatePortraitId()
+): Promise<string> => {
+  const safeCrop = clampCrop(crop);
+  const safeFocalPoint = clampFocalPoint(focalPoint);
+  const bitmap = await createImageBitmap(source);
+  try {
+    const rect = getCropRect(bitmap.width, bitmap.height, safeCrop);
+    const scale = getFitScale(rect.width, rect.height, IMAGE_MAX_SIZE);
+    const square = getThumbnailSquare(bitmap.width, bitmap.height, safeCrop, safeFocalPoint);
+    const thumbnailSize = Math.min(THUMBNAIL_SIZE, square.size);
+    const [image, thumbnail] = await Promise.all([
+      renderToBlob(bitmap, rect, rect.width * scale, rect.height * scale),
+      renderToBlob(bitmap, { x: square.x, y: square.y, width: square.size, height: square.size }, thumbnailSize, thumbnailSize),
+    ]);
+    await db.portraits.put({ id, source, crop: safeCrop, focalPoint: safeFocalPoint, image, thumbnail, createdAt: Date.now() });
+    return id;
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const getPortrait = (id: string) => db.portraits.get(id);
+
+/**
+ * Object URL of a portrait that was loaded before, for rendering without a flash of the placeholder.
+ */
+export const peekPortraitUrl = (id: string, variant: PortraitVariant): string | undefined => portraitUrls.get(id)?.[variant];
+
+/**
+ * Object URL of a portrait; undefined when this browser doesn't have it (e.g. an ID from a
+ * JSON export without portraits, or a portrait added by a collaborator).
+ */
+export const loadPortraitUrl = async (id: string, variant: PortraitVariant): Promise<string | undefined> => {
+  const cached = portraitUrls.get(id);
+  if (cached) return cached[variant];
+  let pending = pendingLoads.get(id);
+  if (!pending) {
+    pending = db.portraits.get(id)
+      .then(record => {
+        if (!record) return null;
+        const urls = { image: URL.createObjectURL(record.image), thumbnail: URL.createObjectURL(record.thumbnail) };
+        portraitUrls.set(id, urls);
+        return urls;
+      })
+      .finally(() => pendingLoads.delete(id));
+    pendingLoads.set(id, pending);
+  }
+  return (await pending)?.[variant];
+};
+
+// Applies a conversion to the portraits of an NPC and its expressions; unchanged NPCs keep their identity
+const mapNpcPortraits = async (npc: NPC, convert: <T extends PortraitRef>(ref: T) => Promise<T>): Promise<NPC> => {
+  const converted = await convert(npc);
+  const current = converted.expressions;
+  if (!current?.length) return converted;
+  const expressions = await Promise.all(current.map(expression => convert(expression)));
+  return expressions.every((expression, index) => expression === current[index]) ? converted : { ...converted, expressions };
+};
+
+/**
+ * Moves portraits given as data URLs (NPC.image, including those of expressions) into the portraits table.
+ * @returns The NPCs with a portraitId instead; NPCs without such a portrait are returned as they are
+ */
+export const extractEmbeddedPortraits = (npcs: NPC[]): Promise<NPC[]> =>
+  Promise.all(npcs.map(npc => mapNpcPortraits(npc, async <T extends PortraitRef>(ref: T): Promise<T> => {
+    if (!isDataUrl(ref.image)) return ref;
+    const { image, ...rest } = ref;
+    try {
+      const portraitId = await createPortrait(await preparePortraitSource(await dataUrlToBlob(image)));
+      return { ...rest, portraitId } as T;
+    } catch (error) {
+      console.error(`[Portraits] Could not convert a portrait of NPC ${npc.id}:`, error);
+      return ref;
+    }
+  })));
+
+/**
+ * For a self-contained JSON export: replaces the portrait IDs with the cropped images as data URLs.
+ */
+export const embedPortraits = (npcs: NPC[]): Promise<NPC[]> =>
+  Promise.all(npcs.map(npc => mapNpcPortraits(npc, async <T extends PortraitRef>(ref: T): Promise<T> => {
+    const record = ref.portraitId ? await db.portraits.get(ref.portraitId) : undefined;
+    if (!record) return ref;
+    const { portraitId: _portraitId, ...rest } = ref;
+    return { ...rest, image: await blobToDataUrl(record.image) } as T;
+  })));
+
+/**
+ * The cropped images of the NPCs' portraits as files for a zip bundle, keyed by path.
+ */
+export const collectPortraitFiles = async (npcs: NPC[]): Promise<Record<string, Uint8Array>> => {
+  const files: Record<string, Uint8Array> = {};
+  const ids = Array.from(new Set(npcs.flatMap(getNpcPortraitIds)));
+  const records = await db.portraits.bulkGet(ids);
+  await Promise.all(records.map(async record => {
+    if (!record) return;
+    files[`${PORTRAIT_FOLDER}/${record.id}.${getImageExtension(record.image.type)}`] = new Uint8Array(await record.image.arrayBuffer());
+  }));
+  return files;
+};
+
+/**
+ * Stores the portrait files of a zip bundle under the IDs in their names. Portraits this browser
+ * already has are kept as they are, crop included.
+ * @returns Number of portraits added
+ */
+export const importPortraitFiles = async (files: Record<string, Uint8Array>): Promise<number> => {
+  const pattern = new RegExp(`^${PORTRAIT_FOLDER}/(.+)\\.(\\w+)$`);
+  let added = 0;
+  for (const [path, data] of Object.entries(files)) {
+    const match = path.match(pattern);
+    if (!match) continue;
+    const [, id, extension] = match;
+    if (await db.portraits.get(id)) continue;
+    try {
+      const type = `image/${extension === 'jpg' ? 'jpeg' : extension}`;
+      await createPortrait(await preparePortraitSource(new Blob([data], { type })), DEFAULT_CROP, DEFAULT_FOCAL_POINT, id);
+      added++;
+    } catch (error) {
+      console.error(`[Portraits] Could not import ${path}:`, error);
+    }
+  }
+  return added;
+};
+
+/**
+ * Deletes the portraits that neither the project nor a snapshot refers to. Runs at startup, before
+ * this tab's undo history or edit dialogs can refer to a portrait the project no longer uses.
+ */
+export const deleteUnusedPortraits = async (): Promise<void> => {
+  const used = new Set<string>();
+  const addUsed = (npc: Pick<NPC, 'portraitId' | 'expressions'>) => getNpcPortraitIds(npc).forEach(id => used.add(id));
+  await db.npcs.each(addUsed);
+  await db.snapshots.each(snapshot => snapshot.npcs.forEach(addUsed));
+  const cutoff = Date.now() - UNUSED_PORTRAIT_GRACE_PERIOD;
+  const unused = (await db.portraits.filter(portrait => portrait.createdAt < cutoff).primaryKeys()).filter(id => !used.has(id));
+  if (unused.length === 0) return;
+  await db.portraits.bulkDelete(unused);
+  unused.forEach(id => {
+    const urls = portraitUrls.get(id);
+    if (urls) Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+    portraitUrls.delete(id);
+  });
+  console.log(`[Portraits] Deleted ${unused.length} unused portraits.`);
+};
@@ -0,0 +1,206 @@
+// src/services/projectService.ts
+import Dexie from 'dexie';
+import db, {
+  activeProjectId,
+  DATABASE_VERSION,
+  DEFAULT_PROJECT_ID,
+  DialogueDatabase,
+  getProjectDatabaseName,
+  PortraitRecord,
+  projectRegistry,
+  storeActiveProjectId,
+} from './dbService';
+import { ProjectInfo } from '../types';
+import IdManager from '../utils/IdManager';
+import { createWorkspaceFile, PORTRAIT_FOLDER, readWorkspaceFile } from '../utils/projectBundle';
+import { getImageExtension } from '../utils/portraitUtils';
+
+/*
+ * Project workspaces. Each project is a database of its own (see dbService), so NPCs, variables,
+ * settings, snapshots and portraits are kept apart; IDs are ULIDs and need no per-project counters.
+ * Collaboration documents are neither copied nor exported, so a copy never merges into the
+ * original's room.
+ */
+
+export const DEFAULT_PROJECT_NAME = 'My Project';
+const PROJECT_FILE_FORMAT = 'dialogue-builder-project';
+
+// Tables a duplicate doesn't copy
+const UNCOPIED_TABLES = ['collabDocs'];
+// Tables a project file doesn't hold as JSON: portraits are image files next to the manifest
+const UNEXPORTED_TABLES = ['collabDocs', 'portraits'];
+
+type PortraitBlobField = 'source' | 'image' | 'thumbnail';
+const PORTRAIT_BLOB_FIELDS: PortraitBlobField[] = ['source', 'image', 'thumbnail'];
+
+interface ProjectFileManifest {
+  format: typeof PROJECT_FILE_FORMAT;
+  databaseVersion: number;
+  name: string;
+  tables: Record<string, unknown[]>;
+  portraits: (Omit<PortraitRecord, PortraitBlobField> & { files: Record<PortraitBlobField, { path: string; type: string }> })[];
+}
+
+export const getActiveProjectId = (): string => activeProjectId;
+
+// Runs an action on a project's database: this tab's own, or a connection opened for the action
+const withProjectDatabase = async <T>(projectId: string, action: (database: DialogueDatabase) => Promise<T>): Promise<T> => {
+  if (projectId === activeProjectId) return action(db);
+  const database = new DialogueDatabase(getProjectDatabaseName(projectId));
+  try {
+    return await action(database);
+  } finally {
+    database.close();
+  }
+};
+
+const getUniqueName = (name: string, projects: ProjectInfo[]): string => {
+  const taken = new Set(projects.map(project => project.name));
+  if (!taken.has(name)) return name;
+  let suffix = 2;
+  while (taken.has(`${name} (${suffix})`)) suffix++;
+  return `${name} (${suffix})`;
+};
+
+const addProject = async (name: string): Promise<ProjectInfo> => {
+  const project = { id: IdManager.generateProjectId(), name: getUniqueName(name, await listProjects()), createdAt: Date.now() };
+  await projectRegistry.projects.add(project);
+  return project;
+};
+
+// Removes a project that couldn't be filled completely
+const discardProject = async (projectId: string) => {
+  await Dexie.delete(getProjectDatabaseName(projectId)).catch(() => {});
+  await projectRegistry.projects.delete(projectId);
+};
+
+/**
+ * All projects, oldest first. The project from before workspaces is registered on first use.
+ */
+export const listProjects = async (): Promise<ProjectInfo[]> => {
+  if (await projectRegistry.projects.count() === 0) {
+    await projectRegistry.projects.put({ id: DEFAULT_PROJECT_ID, name: DEFAULT_PROJECT_NAME, createdAt: Date.now() });
+  }
+  const projects = await projectRegistry.projects.toArray();
+  return projects.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Opens a project in this tab. The page reloads, so pending changes must be saved first.
+ */
+export const switchProject = (projectId: string): void => {
+  storeActiveProjectId(projectId);
+  window.location.reload();
+};
+
+/**
+ * Creates an empty project; it starts with the sample NPCs like a first visit does.
+ */
+export const createProject = (name: string): Promise<ProjectInfo> => addProject(name.trim() || 'Untitled Project');
+
+export const renameProject = async (projectId: string, name: string): Promise<void> => {
+  if (!name.trim()) return;
+  await projectRegistry.projects.update(projectId, { name: name.trim() });
+};
+
+/**
+ * Copies a project with everything in it except its collaboration documents.
+ * Pending changes of the open project must be saved first.
+ */
+export const duplicateProject = async (projectId: string): Promise<ProjectInfo> => {
+  const source = await projectRegistry.projects.get(projectId);
+  if (!source) throw new Error(`Project ${projectId} doesn't exist.`);
+  const copy = await addProject(`${source.name} (copy)`);
+  const target = new DialogueDatabase(getProjectDatabaseName(copy.id));
+  try {
+    await withProjectDatabase(projectId, async database => {
+      for (const table of database.tables) {
+        if (UNCOPIED_TABLES.includes(table.name)) continue;
+        await target.table(table.name).bulkPut(await table.toArray());
+      }
+    });
+  } catch (error) {
+    target.close(); // The database can only be deleted once closed
+    await discardProject(copy.id);
+    throw error;
+  }
+  target.close();
+  return copy;
+};
+
+/**
+ * Deletes a project and its database. The project open in this tab can't be deleted.
+ */
+export const deleteProject = async (projectId: string): Promise<void> => {
+  if (projectId === activeProjectId) throw new Error("The open project can't be deleted.");
+  await Dexie.delete(getProjectDatabaseName(projectId));
+  await projectRegistry.projects.delete(projectId);
+  console.log(`[Projects] Deleted project ${projectId}.`);
+};
+
+/**
+ * The whole project as one zip file: every table as JSON plus the portrait images, crops included.
+ * Pending changes of the open project must be saved first.
+ */
+export const exportProjectFile = async (projectId: string): Promise<Uint8Array> => {
+  const project = await projectRegistry.projects.get(projectId);
+  if (!project) throw new Error(`Project ${projectId} doesn't exist.`);
+  return withProjectDatabase(projectId, async database => {
+    const tables: Record<string, unknown[]> = {};
+    for (const table of database.tables) {
+      if (!UNEXPORTED_TABLES.includes(table.name)) tables[table.name] = await table.toArray();
+    }
+    const files: Record<string, Uint8Array> = {};
+    const portraits = await Promise.all((await database.portraits.toArray()).map(async ({ source, image, thumbnail, ...record }) => {
+      const blobs = { source, image, thumbnail };
+      const entries = await Promise.all(PORTRAIT_BLOB_FIELDS.map(async field => {
+        const path = `${PORTRAIT_FOLDER}/${record.id}/${field}.${getImageExtension(blobs[field].type)}`;
+        files[path] = new Uint8Array(await blobs[field].arrayBuffer());
+        return [field, { path, type: blobs[field].type }] as const;
+      }));
+      return { ...record, files: Object.fromEntries(entries) as ProjectFileManifest['portraits'][number]['files'] };
+    }));
+    const manifest: ProjectFileManifest = { format: PROJECT_FILE_FORMAT, databaseVersion: DATABASE_VERSION, name: project.name, tables, portraits };
+    return createWorkspaceFile(JSON.stringify(manifest), files);
+  });
+};
+
+/**
+ * Adds the project of a file made by exportProjectFile as a new project.
+ * @throws Error when the file isn't a project file or comes from a newer version of the editor
+ */
+export const importProjectFile = async (data: Uint8Array): Promise<ProjectInfo> => {
+  const { manifest: json, files } = readWorkspaceFile(data);
+  const manifest = JSON.parse(json) as ProjectFileManifest;
+  if (manifest.format !== PROJECT_FILE_FORMAT || typeof manifest.tables !== 'object') {
+    throw new Error('The file is not a project file.');
+  }
+  if (manifest.databaseVersion > DATABASE_VERSION) {
+    throw new Error('The project file was made by a newer version of the editor.');
+  }
+
+  const project = await addProject(manifest.name || 'Imported Project');
+  const database = new DialogueDatabase(getProjectDatabaseName(project.id));
+  try {
+    for (const table of database.tables) {
+      const records = manifest.tables[table.name];
+      if (Array.isArray(records) && !UNEXPORTED_TABLES.includes(table.name)) await table.bulkPut(records);
+    }
+    const portraits = (manifest.portraits ?? []).flatMap(({ files: portraitFiles, ...record }): PortraitRecord[] => {
+      const blobs = PORTRAIT_BLOB_FIELDS.map(field => {
+        const file = portraitFiles[field];
+        return file && files[file.path] ? new Blob([files[file.path]], { type: file.type }) : null;
+      });
+      const [source, image, thumbnail] = blobs;
+      return source && image && thumbnail ? [{ ...record, source, image, thumbnail }] : [];
+    });
+    await database.portraits.bulkPut(portraits);
+    console.log(`[Projects] Imported "${project.name}" with ${portraits.length} portraits.`);
+  } catch (error) {
+    database.close(); // The database can only be deleted once closed
+    await discardProject(project.id);
+    throw error;
+  }
+  database.close();
+  return project;
+};
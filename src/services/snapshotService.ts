@@ -0,0 +1,69 @@
+// src/services/snapshotService.ts
+import db from './dbService';
+import { NPC, ProjectSnapshot, SnapshotTrigger } from '../types';
+
+// An automatic snapshot is taken every this many successful saves
+export const AUTO_SNAPSHOT_INTERVAL = 25;
+// Automatic snapshots beyond this number are removed, oldest first; named ones are kept
+const MAX_AUTOMATIC_SNAPSHOTS = 20;
+
+type SnapshotListener = () => void;
+const listeners = new Set<SnapshotListener>();
+let savesSinceSnapshot = 0;
+
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+/**
+ * Calls the listener whenever a snapshot is taken or deleted.
+ * @returns Function that removes the listener
+ */
+export const subscribeToSnapshots = (listener: SnapshotListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const pruneAutomaticSnapshots = async () => {
+  const automaticIds = await db.snapshots
+    .orderBy('createdAt')
+    .filter(snapshot => snapshot.trigger !== 'manual')
+    .primaryKeys();
+  const excess = automaticIds.length - MAX_AUTOMATIC_SNAPSHOTS;
+  if (excess > 0) await db.snapshots.bulkDelete(automaticIds.slice(0, excess));
+};
+
+/**
+ * Stores a copy of the NPCs. Empty projects are not snapshotted.
+ * @returns The ID of the new snapshot, or null when nothing was stored
+ */
+export const createSnapshot = async (npcs: NPC[], trigger: SnapshotTrigger, note = ''): Promise<number | null> => {
+  if (npcs.length === 0) return null;
+  const id = await db.snapshots.add({ createdAt: Date.now(), note: note.trim(), trigger, npcs });
+  if (trigger !== 'manual') await pruneAutomaticSnapshots();
+  if (trigger === 'autosave') savesSinceSnapshot = 0;
+  console.log(`[Snapshots] Took ${trigger} snapshot ${id}.`);
+  notifyListeners();
+  return id;
+};
+
+/**
+ * Counts successful saves and takes an automatic snapshot every AUTO_SNAPSHOT_INTERVAL saves.
+ */
+export const recordSave = async (npcs: NPC[]): Promise<void> => {
+  savesSinceSnapshot++;
+  if (savesSinceSnapshot >= AUTO_SNAPSHOT_INTERVAL) {
+    await createSnapshot(npcs, 'autosave');
+  }
+};
+
+/**
+ * All snapshots, newest first.
+ */
+export const listSnapshots = async (): Promise<ProjectSnapshot[]> => {
+  const records = await db.snapshots.orderBy('createdAt').reverse().toArray();
+  return records as ProjectSnapshot[];
+};
+
+export const deleteSnapshot = async (id: number): Promise<void> => {
+  await db.snapshots.delete(id);
+  notifyListeners();
+};
@@ -0,0 +1,162 @@
+// src/services/syncProviders.ts
+import * as Y from 'yjs';
+import { CollabStatus, PeerPresence } from '../types';
+
+/*
+ * A sync provider carries document updates and presence between the writers of a room.
+ * The collaboration session only talks to the SyncProvider interface, so transports other
+ * than the LAN relay (e.g. a hosted service) can be plugged in with their own factory.
+ */
+
+export interface SyncProviderEvents {
+  onStatusChange: (status: CollabStatus) => void;
+  onSynced: () => void; // The document caught up with the room; called again after every reconnect
+  onSeedGranted: () => void; // The room is empty and this writer is the one to fill it; may come before onSynced
+  onPresence: (presence: PeerPresence) => void;
+  onPeerLeft: (clientId: number) => void;
+}
+
+export interface SyncProvider {
+  connect: () => void;
+  setPresence: (presence: PeerPresence) => void;
+  destroy: () => void; // Disconnects for good and stops listening to the document
+}
+
+export type SyncProviderFactory = (doc: Y.Doc, room: string, events: SyncProviderEvents) => SyncProvider;
+
+// Message types of the relay protocol: one type byte followed by the payload.
+// Keep in sync with scripts/collab-relay.js
+export const MESSAGE_SYNC_STEP_1 = 0; // State vector; answered with the updates the sender is missing
+export const MESSAGE_SYNC_STEP_2 = 1; // Updates answering a sync step 1
+export const MESSAGE_UPDATE = 2; // Document update made after the initial sync
+export const MESSAGE_PRESENCE = 3; // PeerPresence as UTF-8 JSON
+export const MESSAGE_PEER_LEFT = 4; // { clientId } as UTF-8 JSON
+export const MESSAGE_SEED = 5; // No payload; sent to the one writer who may fill an empty room
+
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 15000;
+
+const encodeMessage = (type: number, payload: Uint8Array): Uint8Array => {
+  const message = new Uint8Array(payload.length + 1);
+  message[0] = type;
+  message.set(payload, 1);
+  return message;
+};
+
+const encodeJson = (value: unknown) => new TextEncoder().encode(JSON.stringify(value));
+const decodeJson = <T>(payload: Uint8Array): T => JSON.parse(new TextDecoder().decode(payload)) as T;
+
+/**
+ * Talks to the WebSocket relay (scripts/collab-relay.js). Reconnects with a growing delay while
+ * the relay is unreachable; edits made in the meantime stay in the document and are exchanged
+ * through the sync steps on reconnect.
+ */
+class WebSocketSyncProvider implements SyncProvider {
+  private socket: WebSocket | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelay = MIN_RECONNECT_DELAY;
+  private presence: PeerPresence | null = null;
+  private isDestroyed = false;
+
+  constructor(
+    private readonly doc: Y.Doc,
+    private readonly url: string,
+    private readonly events: SyncProviderEvents
+  ) {
+    doc.on('update', this.handleDocUpdate);
+  }
+
+  connect() {
+    if (this.isDestroyed || this.socket) return;
+    this.events.onStatusChange('connecting');
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      console.error('[Collab] Invalid relay URL:', error);
+      this.events.onStatusChange('disconnected');
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectDelay = MIN_RECONNECT_DELAY;
+      this.send(MESSAGE_SYNC_STEP_1, Y.encodeStateVector(this.doc));
+      if (this.presence) this.send(MESSAGE_PRESENCE, encodeJson(this.presence));
+    };
+    socket.onmessage = (event: MessageEvent<ArrayBuffer>) => this.handleMessage(new Uint8Array(event.data));
+    socket.onclose = () => {
+      this.socket = null;
+      if (this.isDestroyed) return;
+      this.events.onStatusChange('connecting');
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect();
+      }, this.reconnectDelay);
+      this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY);
+    };
+  }
+
+  setPresence(presence: PeerPresence) {
+    this.presence = presence;
+    this.send(MESSAGE_PRESENCE, encodeJson(presence));
+  }
+
+  destroy() {
+    this.isDestroyed = true;
+    this.doc.off('update', this.handleDocUpdate);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.socket = null;
+    this.events.onStatusChange('disconnected');
+  }
+
+  private send(type: number, payload: Uint8Array) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(encodeMessage(type, payload));
+  }
+
+  // Local changes only; updates received from the relay carry this provider as their origin
+  private handleDocUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin !== this) this.send(MESSAGE_UPDATE, update);
+  };
+
+  private handleMessage(message: Uint8Array) {
+    const payload = message.subarray(1);
+    // A malformed message is dropped; it must not throw inside the socket handler
+    try {
+      switch (message[0]) {
+        case MESSAGE_SYNC_STEP_1:
+          this.send(MESSAGE_SYNC_STEP_2, Y.encodeStateAsUpdate(this.doc, payload));
+          break;
+        case MESSAGE_SYNC_STEP_2:
+          Y.applyUpdate(this.doc, payload, this);
+          this.events.onStatusChange('connected');
+          this.events.onSynced();
+          break;
+        case MESSAGE_UPDATE:
+          Y.applyUpdate(this.doc, payload, this);
+          break;
+        case MESSAGE_PRESENCE:
+          this.events.onPresence(decodeJson<PeerPresence>(payload));
+          break;
+        case MESSAGE_PEER_LEFT:
+          this.events.onPeerLeft(decodeJson<{ clientId: number }>(payload).clientId);
+          break;
+        case MESSAGE_SEED:
+          this.events.onSeedGranted();
+          break;
+        default:
+          console.warn(`[Collab] Ignoring unknown message type ${message[0]}.`);
+      }
+    } catch (error) {
+      console.error('[Collab] Could not handle a message from the relay:', error);
+    }
+  }
+}
+
+/**
+ * Provider factory for the LAN relay; the room becomes the URL path, e.g. ws://host:1234/my-project.
+ */
+export const createWebSocketProvider = (serverUrl: string): SyncProviderFactory =>
+  (doc, room, events) => new WebSocketSyncProvider(doc, `${serverUrl.replace(/\/+$/, '')}/${encodeURIComponent(room)}`, events);
@@ -0,0 +1,151 @@
+// src/services/tabSync.ts
+import { activeProjectId } from './dbService';
+
+/*
+ * Single-writer protection across browser tabs: every tab of a project works on the same IndexedDB,
+ * so only the tab holding the project's Web Lock saves. The others are read-only and reload the project
+ * whenever the writer announces a save on a BroadcastChannel.
+ *
+ * A reader can ask to become the writer: the writer saves, steps down and replies, and the reader
+ * then steals the lock (also after HANDOVER_TIMEOUT, in case the writer tab is frozen; the revision
+ * check in saveProjectChanges keeps a late save of the old writer from overwriting anything).
+ */
+
+// Per project: tabs with different projects open don't share a database
+const LOCK_NAME = `dialogue-builder-writer:${activeProjectId}`;
+const CHANNEL_NAME = `dialogue-builder-tabs:${activeProjectId}`;
+const HANDOVER_TIMEOUT = 3000;
+
+type TabMessage =
+  | { type: 'saved'; revision: number }
+  | { type: 'handover-request' }
+  | { type: 'handover-ready' };
+
+export interface TabSyncCallbacks {
+  onRoleChange: (isWriter: boolean) => void;
+  onExternalSave: () => void; // Another tab wrote the project to the database
+  beforeHandover: () => Promise<void>; // Save pending changes before another tab takes over
+}
+
+interface TabSyncSession {
+  channel: BroadcastChannel;
+  callbacks: TabSyncCallbacks;
+  isWriter: boolean | null; // null until the first lock request answered
+  queuedRequest: AbortController | null; // Waiting for the lock while a reader
+  releaseLock: (() => void) | null;
+  handoverTimer: ReturnType<typeof setTimeout> | null;
+}
+
+let session: TabSyncSession | null = null;
+
+const setRole = (current: TabSyncSession, isWriter: boolean) => {
+  if (current.isWriter === isWriter) return;
+  current.isWriter = isWriter;
+  console.log(`[TabSync] This tab is ${isWriter ? 'the writer' : 'read-only'}.`);
+  current.callbacks.onRoleChange(isWriter);
+};
+
+const requestLock = (current: TabSyncSession, options: { ifAvailable?: boolean; steal?: boolean } = {}) => {
+  const controller = options.ifAvailable || options.steal ? null : new AbortController();
+  current.queuedRequest = controller;
+  navigator.locks.request(LOCK_NAME, controller ? { signal: controller.signal } : options, async lock => {
+    if (session !== current) return;
+    if (!lock) {
+      // Another tab is the writer; take over once it closes
+      setRole(current, false);
+      requestLock(current);
+      return;
+    }
+    current.queuedRequest = null;
+    setRole(current, true);
+    await new Promise<void>(resolve => { current.releaseLock = resolve; });
+  }).catch((error: Error) => {
+    if (controller?.signal.aborted || session !== current) return; // Gave up waiting, or stopped
+    if (error.name !== 'AbortError') console.error('[TabSync] Lock request failed:', error);
+    // The lock was stolen by a tab that asked to edit
+    current.releaseLock?.();
+    current.releaseLock = null;
+    setRole(current, false);
+    requestLock(current);
+  });
+};
+
+const takeOverLock = (current: TabSyncSession) => {
+  if (current.handoverTimer) clearTimeout(current.handoverTimer);
+  current.handoverTimer = null;
+  current.queuedRequest?.abort();
+  requestLock(current, { steal: true });
+};
+
+const handleMessage = async (current: TabSyncSession, message: TabMessage) => {
+  switch (message.type) {
+    case 'saved':
+      current.callbacks.onExternalSave();
+      break;
+    case 'handover-request':
+      if (!current.isWriter) return;
+      try {
+        await current.callbacks.beforeHandover();
+      } catch (error) {
+        console.error('[TabSync] Saving before the handover failed:', error);
+      }
+      setRole(current, false);
+      current.channel.postMessage({ type: 'handover-ready' } satisfies TabMessage);
+      break;
+    case 'handover-ready':
+      if (current.handoverTimer) takeOverLock(current);
+      break;
+  }
+};
+
+/**
+ * Starts taking part in the writer election. Without Web Locks or BroadcastChannel support every
+ * tab stays writable (the revision check still catches saves that would overwrite another tab's).
+ */
+export const startTabSync = (callbacks: TabSyncCallbacks): void => {
+  stopTabSync();
+  if (typeof navigator === 'undefined' || !navigator.locks || typeof BroadcastChannel === 'undefined') {
+    console.warn('[TabSync] Web Locks or BroadcastChannel unavailable; tabs are not coordinated.');
+    return;
+  }
+  const current: TabSyncSession = {
+    channel: new BroadcastChannel(CHANNEL_NAME),
+    callbacks,
+    isWriter: null,
+    queuedRequest: null,
+    releaseLock: null,
+    handoverTimer: null,
+  };
+  current.channel.onmessage = (event: MessageEvent<TabMessage>) => {
+    handleMessage(current, event.data);
+  };
+  session = current;
+  requestLock(current, { ifAvailable: true });
+};
+
+export const stopTabSync = (): void => {
+  if (!session) return;
+  const current = session;
+  session = null;
+  if (current.handoverTimer) clearTimeout(current.handoverTimer);
+  current.queuedRequest?.abort();
+  current.releaseLock?.();
+  current.channel.close();
+};
+
+/**
+ * Asks the writer tab to hand over; this tab becomes the writer once it did (or didn't answer in time).
+ */
+export const requestWriteAccess = (): void => {
+  const current = session;
+  if (!current || current.isWriter || current.handoverTimer) return;
+  current.handoverTimer = setTimeout(() => takeOverLock(current), HANDOVER_TIMEOUT);
+  current.channel.postMessage({ type: 'handover-request' } satisfies TabMessage);
+};
+
+/**
+ * Tells the other tabs that the project in the database changed.
+ */
+export const announceSave = (revision: number): void => {
+  session?.channel.postMessage({ type: 'saved', revision } satisfies TabMessage);
+};
@@ -0,0 +1,77 @@
+// File: src/store/collabStore.ts
+import { useMemo } from 'react';
+import { create } from 'zustand';
+import { CollabSettings, CollabStatus, PeerPresence } from '../types';
+import {
+  DEFAULT_COLLAB_SETTINGS,
+  loadCollabSettings,
+  saveCollabSettings,
+  startCollaboration,
+  stopCollaboration,
+} from '../services/collabService';
+
+/**
+ * Connection state of the collaboration session and the other writers' presence.
+ * The shared project itself lives in useDialogueStore; see collabService for the binding.
+ */
+interface CollabState {
+  status: CollabStatus;
+  isActive: boolean; // A session is running, even while it reconnects
+  settings: CollabSettings;
+  peers: PeerPresence[];
+  error: string | null;
+
+  loadSettings: () => Promise<void>;
+  connect: (settings: CollabSettings) => Promise<void>;
+  disconnect: () => void;
+}
+
+export const useCollabStore = create<CollabState>((set) => ({
+  status: 'disconnected',
+  isActive: false,
+  settings: DEFAULT_COLLAB_SETTINGS,
+  peers: [],
+  error: null,
+
+  loadSettings: async () => {
+    set({ settings: await loadCollabSettings() });
+  },
+
+  connect: async (settings) => {
+    const room = settings.room.trim();
+    if (!settings.serverUrl.trim() || !room) {
+      set({ error: 'Enter the relay address and a room name.' });
+      return;
+    }
+    const normalized = { ...settings, serverUrl: settings.serverUrl.trim(), room };
+    set({ settings: normalized, isActive: true, error: null });
+    try {
+      await saveCollabSettings(normalized);
+      await startCollaboration(normalized, {
+        onStatusChange: status => set({ status }),
+        onPeersChange: peers => set({ peers }),
+      });
+    } catch (error) {
+      console.error('[Collab] Starting the session failed:', error);
+      stopCollaboration();
+      set({ isActive: false, error: 'Failed to start collaborating. See console for details.' });
+    }
+  },
+
+  disconnect: () => {
+    stopCollaboration();
+    set({ isActive: false, status: 'disconnected', peers: [] });
+  },
+}));
+
+/**
+ * Writers other than this one who have the given conversation open.
+ */
+export const usePeersOnConversation = (conversationId: string | null): PeerPresence[] => {
+  const peers = useCollabStore(state => state.peers);
+  return useMemo(
+    () => (conversationId ? peers.filter(peer => peer.conversationId === conversationId) : []),
+    [peers, conversationId]
+  );
+};
+
@@ -0,0 +1,78 @@
+// File: src/store/commandStore.ts
+import { useEffect } from 'react';
+import { create } from 'zustand';
+import { EditorCommand, Keybindings } from '../types';
+import { DEFAULT_KEYBINDINGS } from '../constants/keybindings';
+import { loadKeybindings, saveKeybindings } from '../services/keybindingService';
+
+/**
+ * Registry of the editor commands offered by the command palette and bound to keys. Components
+ * register the actions they own while they are mounted; only the key bindings are saved.
+ */
+interface CommandState {
+  commands: EditorCommand[];
+  keybindings: Keybindings;
+  isPaletteOpen: boolean;
+
+  registerCommands: (commands: EditorCommand[]) => () => void; // Returns the matching unregister
+  setPaletteOpen: (isOpen: boolean) => void;
+  loadKeybindings: () => Promise<void>;
+  setKeybinding: (commandId: string, combos: string[]) => void;
+  resetKeybindings: (commandId?: string) => void; // Resets every command when no ID is given
+}
+
+export const useCommandStore = create<CommandState>((set, get) => {
+  const updateKeybindings = (keybindings: Keybindings) => {
+    set({ keybindings });
+    saveKeybindings(keybindings).catch(error => console.error('[Keybindings] Saving key bindings failed:', error));
+  };
+
+  return {
+    commands: [],
+    keybindings: DEFAULT_KEYBINDINGS,
+    isPaletteOpen: false,
+
+    registerCommands: (commands) => {
+      // A command registered again (e.g. with fresh callbacks) replaces the earlier one
+      const ids = new Set(commands.map(command => command.id));
+      set(state => ({ commands: [...state.commands.filter(command => !ids.has(command.id)), ...commands] }));
+      return () => set(state => ({ commands: state.commands.filter(command => !commands.includes(command)) }));
+    },
+
+    setPaletteOpen: (isOpen) => {
+      set({ isPaletteOpen: isOpen });
+    },
+
+    loadKeybindings: async () => {
+      set({ keybindings: await loadKeybindings() });
+    },
+
+    setKeybinding: (commandId, combos) => {
+      updateKeybindings({ ...get().keybindings, [commandId]: Array.from(new Set(combos)) });
+    },
+
+    resetKeybindings: (commandId) => {
+      if (commandId === undefined) {
+        updateKeybindings({ ...DEFAULT_KEYBINDINGS });
+        return;
+      }
+      const { [commandId]: _removed, ...keybindings } = get().keybindings;
+      updateKeybindings(DEFAULT_KEYBINDINGS[commandId] ? { ...keybindings, [commandId]: DEFAULT_KEYBINDINGS[commandId] } : keybindings);
+    },
+  };
+});
+
+/**
+ * Hook that registers commands while the calling component is mounted.
+ * Pass a memoized list; it is registered again whenever it changes.
+ */
+export const useRegisterCommands = (commands: EditorCommand[]): void => {
+  const registerCommands = useCommandStore(state => state.registerCommands);
+  useEffect(() => registerCommands(commands), [commands, registerCommands]);
+};
+
+/**
+ * First key combo bound to the command, for tooltips and labels.
+ */
+export const useKeybindingLabel = (commandId: string): string | undefined =>
+  useCommandStore(state => state.keybindings[commandId]?.[0]);
@@ -1,6 +1,7 @@
 // File: src/store/dialogueStore.ts
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
+import { applyPatches, Draft, Patch, produceWithPatches } from 'immer';
 import {
   applyNodeChanges,
   applyEdgeChanges,
@@ -12,7 +13,7 @@ import {
   XYPosition,
   Node,
 } from 'reactflow';
-import { debounce } from 'lodash';
+import { debounce, isEqual } from 'lodash';
 import { arrayMove } from '@dnd-kit/sortable';
 import { SelectOption } from '../components/ui/Select'; // Import SelectOption type
 import {
@@ -28,20 +29,57 @@ import {
   DialogueNode,
   DialogueEdge,
   NPC,
+  NpcExpression,
   Conversation,
+  DialogueVariable,
+  DialogueNodeAction,
+  DiffView,
+  ImportChange,
+  LocalizationSettings,
+  ProjectSnapshot,
+  SnapshotPreview,
+  SnapshotTrigger,
+  TranslatableField,
+  TextReplacement,
+  TranslationUpdate,
 } from '../types';
-import { loadAllNpcs, saveAllNpcs } from '../services/dialogueService';
+import {
+  ExternalChangeError,
+  loadAllNpcs,
+  loadAllVariables,
+  loadLocalizationSettings,
+  saveAllNpcs,
+  saveProjectChanges,
+} from '../services/dialogueService';
+import { createSnapshot, recordSave } from '../services/snapshotService';
+import { deleteUnusedPortraits } from '../services/portraitService';
 import IdManager from '../utils/IdManager';
+import { getInitialValueForType, renameConditionVariable, VARIABLE_NAME_PATTERN } from '../utils/conditionUtils';
+import { collectEventNames } from '../utils/actionUtils';
+import { findConversation, findVariableUsages } from '../utils/conversationUtils';
+import { hasSameStructure } from '../utils/collabDoc';
+import { DEFAULT_LOCALIZATION, isTranslatableNode, markTranslationsOutdated, normalizeLocaleCode } from '../utils/localization';
+import { UndoHistory, HistorySelection } from './undoHistory';
 // Note: Icon import removed as it's not directly used in the store logic itself
 
-interface DialogueState {
+export interface DialogueState {
   npcs: NPC[];
+  variables: DialogueVariable[];
+  localization: LocalizationSettings;
+  activeLocale: string; // Locale shown and edited on the canvas; the source locale edits the original text
   selectedNpcId: string | null;
   selectedConversationId: string | null;
   isLoading: boolean;
   isSaving: boolean;
   lastSaved: Date | null;
   dbError: string | null;
+  focusRequest: { nodeId: string } | null; // Node the canvas should pan to once it is rendered
+  snapshotPreview: SnapshotPreview | null; // Snapshot conversation shown read-only on the canvas instead of the selected one
+  diffView: DiffView | null; // Comparison with a file; its conversation diff is shown read-only on the canvas
+  isWriterTab: boolean; // Only one tab saves; the others show the project read-only (see tabSync)
+  hasExternalChange: boolean; // Another tab saved over what this one loaded; saving waits until resolved
+  canUndo: boolean;
+  canRedo: boolean;
 
   // Derived state selectors
   selectedNpc: () => NPC | undefined;
@@ -50,20 +88,29 @@ interface DialogueState {
   activeEdges: () => DialogueEdge[];
   selectedNodes: () => DialogueNode[];
   getSelectedNodeInfo: () => DialogueNode | null;
+  getSelectedEdgeInfo: () => DialogueEdge | null;
   getNodeTypes: () => string[];
   getNpcListForDropdown: () => SelectOption[];
   getAllConversationsForDropdown: () => SelectOption[]; // Selector for jump node target
+  getEventNames: () => string[];
 
   // Actions
   loadInitialData: () => Promise<void>;
   triggerSave: (immediate?: boolean) => Promise<void>;
 
+  // History Actions
+  undo: () => void;
+  redo: () => void;
+  beginHistoryGroup: () => void; // Everything until endHistoryGroup() becomes one undo step
+  endHistoryGroup: () => void;
+
   // NPC Actions
   addNpc: (name: string) => void;
   selectNpc: (npcId: string) => void;
   deleteNpc: (npcId: string) => void;
   updateNpcName: (npcId: string, newName: string) => void;
-  updateNpcImage: (npcId: string, imageDataUrl: string | undefined) => void;
+  updateNpcPortrait: (npcId: string, portraitId: string | undefined) => void;
+  updateNpcExpressions: (npcId: string, expressions: NpcExpression[]) => void; // Renames and removals carry over to the NPC's nodes
   updateNpcAccentColor: (npcId: string, color: string) => void;
   updateNpcLayoutDirection: (npcId: string, isHorizontal: boolean) => void;
   reorderNpcs: (oldIndex: number, newIndex: number) => void;
@@ -74,6 +121,24 @@ interface DialogueState {
   deleteConversation: (conversationId: string) => void;
   updateConversationName: (conversationId: string, newName: string) => void;
   reorderConversations: (npcId: string, oldIndex: number, newIndex: number) => void;
+  importConversations: (importedNpcs: NPC[], importedVariables: DialogueVariable[], importedLocales?: string[]) => void; // Adds converted dialogues (e.g. from Yarn) to the project
+  applyImportChanges: (changes: ImportChange[], importedVariables: DialogueVariable[], importedLocales?: string[]) => void; // Applies the items chosen in a merge import
+
+  // Variable Actions
+  addVariable: (name: string, type: DialogueVariable['type']) => void;
+  updateVariable: (variableId: string, changes: Partial<Omit<DialogueVariable, 'id'>>) => void;
+  deleteVariable: (variableId: string) => void;
+
+  // Localization Actions
+  setActiveLocale: (locale: string) => void;
+  addLocale: (code: string) => void;
+  removeLocale: (locale: string) => void;
+  setSourceLocale: (code: string) => void;
+  applyTranslations: (updates: TranslationUpdate[]) => void; // Writes imported string tables into the nodes
+  markTranslationReviewed: (nodeId: string, locale: string, field: TranslatableField) => void;
+
+  // Search Actions
+  replaceText: (replacements: TextReplacement[]) => void; // Applies a find/replace as one undo step
 
   // React Flow Actions
   onNodesChange: (changes: NodeChange[]) => void;
@@ -81,44 +146,176 @@ interface DialogueState {
   onConnect: (connection: Connection) => void;
   setNodes: (nodesOrUpdater: DialogueNode[] | ((nodes: DialogueNode[]) => DialogueNode[])) => void;
   setEdges: (edgesOrUpdater: DialogueEdge[] | ((edges: DialogueEdge[]) => DialogueEdge[])) => void;
+  pasteNodes: (nodes: DialogueNode[], edges: DialogueEdge[]) => void; // Adds them as the new selection
+  deleteNodes: (nodeIds: string[]) => void; // Removes them with their edges; start nodes are kept
+  deleteSelection: () => void; // Selected nodes and edges, as one undo step; start nodes are kept
   updateNodePositions: (positions: { [nodeId: string]: XYPosition }) => void;
   updateNodeLayout: (isHorizontal: boolean) => void;
   updateNodeData: (nodeId: string, newLabel: string) => void;
   updateNodeText: (nodeId: string, newText: string) => void;
   updateNodeType: (nodeId: string, newType: string) => void;
   updateNodeNpcId: (nodeId: string, npcId: string | undefined) => void;
+  updateNodeExpression: (nodeId: string, expression: string | undefined) => void;
   updateNodeTargetConversation: (nodeId: string, targetNpcId: string | undefined, targetConversationId: string | undefined) => void; // Action for jump node target
+  updateNodeActions: (nodeId: string, actions: DialogueNodeAction[]) => void;
   jumpToConversation: (targetNpcId: string, targetConversationId: string) => void; // Action to perform the jump
+  focusNode: (npcId: string, conversationId: string, nodeId?: string) => void;
+  clearFocusRequest: () => void;
+  updateEdgeCondition: (edgeId: string, condition: string | undefined) => void;
+
+  // Snapshot Actions
+  takeSnapshot: (note: string) => Promise<void>;
+  previewSnapshot: (snapshot: ProjectSnapshot, npcId: string, conversationId: string) => void;
+  closeSnapshotPreview: () => void;
+  restoreSnapshot: (snapshot: ProjectSnapshot) => void; // Replaces all NPCs; undoable
+  restoreConversationFromSnapshot: (snapshot: ProjectSnapshot, conversationId: string) => void;
+
+  // Diff Actions
+  openDiffView: (fileName: string, npcs: NPC[]) => void;
+  showDiffConversation: (npcId: string, conversationId: string) => void;
+  closeDiffView: () => void;
+
+  // Collaboration Actions
+  applyRemoteProject: (npcs: NPC[], variables: DialogueVariable[], localization: LocalizationSettings) => void; // Changes made by other writers; not undoable
+
+  // Tab Actions
+  setWriterTab: (isWriter: boolean) => Promise<void>;
+  handleExternalSave: () => void; // Another tab wrote the project to the database
+  refreshFromDatabase: () => Promise<void>; // Reloads the project, keeping the selection where possible
+  resolveExternalChange: (keep: 'theirs' | 'mine') => Promise<void>;
 }
 
+// Only project data is undoable; selection, loading and saving state are not
+const HISTORY_TRACKED_KEYS: ReadonlyArray<string | number> = ['npcs', 'variables', 'localization'];
+
+const history = new UndoHistory();
+
 let debouncedSave: ReturnType<typeof debounce<() => Promise<void>>> | null = null;
 
-const performSave = async (stateToSave: Pick<DialogueState, 'npcs' | 'isLoading'>, set: (partial: Partial<DialogueState>) => void) => {
-    if (stateToSave.isLoading) return;
+type SaveableState = Pick<DialogueState, 'npcs' | 'variables' | 'localization' | 'isLoading' | 'isWriterTab' | 'hasExternalChange'>;
+
+const performSave = async (stateToSave: SaveableState, set: (partial: Partial<DialogueState>) => void) => {
+    if (stateToSave.isLoading || !stateToSave.isWriterTab || stateToSave.hasExternalChange) return;
     console.log('[Store] Performing save...');
     set({ isSaving: true });
     try {
-        await saveAllNpcs(stateToSave.npcs);
+        await saveProjectChanges(stateToSave.npcs, stateToSave.variables, stateToSave.localization);
         set({ lastSaved: new Date(), isSaving: false, dbError: null });
         console.log('[Store] Save successful.');
+        recordSave(stateToSave.npcs).catch(error => console.error('[Store] Automatic snapshot failed:', error));
     } catch (error: any) {
+        if (error instanceof ExternalChangeError) {
+            console.warn('[Store] Save skipped: the project was changed in another tab.');
+            set({ isSaving: false, hasExternalChange: true });
+            return;
+        }
         console.error('[Store] Auto-save failed:', error);
         set({ isSaving: false, dbError: `Save failed: ${error?.message || error}` });
     }
 };
 
+// Data normalization and default value application for NPCs read from the database
+const normalizeLoadedNpcs = (npcs: NPC[]) => {
+  npcs.forEach(npc => {
+    if (!npc.accentColor) npc.accentColor = DEFAULT_NPC_ACCENT_COLOR;
+    if (npc.isHorizontal === undefined) npc.isHorizontal = DEFAULT_NPC_LAYOUT_HORIZONTAL;
+    if (!Array.isArray(npc.conversations)) npc.conversations = [];
+    npc.conversations.forEach(conv => {
+        if (!conv.nodes) conv.nodes = [];
+        if (!conv.edges) conv.edges = [];
+        // Backfill missing npcId for older NPC nodes
+        conv.nodes.forEach(node => {
+            if (node.type === 'npc' && !node.data.npcId) {
+                node.data.npcId = npc.id;
+                console.warn(`[Store Load] Backfilled missing npcId for node ${node.id} in NPC ${npc.id}`);
+            }
+        });
+    });
+  });
+};
+
+const getSaveableState = (state: DialogueState): SaveableState => ({
+    npcs: state.npcs,
+    variables: state.variables,
+    localization: state.localization,
+    isLoading: state.isLoading,
+    isWriterTab: state.isWriterTab,
+    hasExternalChange: state.hasExternalChange,
+});
+
 const initializeDebouncedSave = (get: () => DialogueState, set: (partial: Partial<DialogueState>) => void) => {
     if (!debouncedSave) {
         debouncedSave = debounce(async () => {
             const state = get();
-            await performSave({ npcs: state.npcs, isLoading: state.isLoading }, set);
+            await performSave(getSaveableState(state), set);
         }, 1500);
     }
     return debouncedSave;
 };
 
 export const useDialogueStore = create(
-  immer<DialogueState>((set, get) => {
+  immer<DialogueState>((setState, get) => {
+
+    let skipHistory = false;
+    let historyMergeKey: string | undefined;
+    let isDraggingNodes = false;
+
+    const syncHistoryFlags = () => {
+      const { canUndo, canRedo } = history;
+      if (get().canUndo !== canUndo || get().canRedo !== canRedo) {
+        setState({ canUndo, canRedo });
+      }
+    };
+
+    // Same as the immer `set`, but records patches to project data in the undo history
+    const set = (
+      nextStateOrUpdater: DialogueState | Partial<DialogueState> | ((state: Draft<DialogueState>) => void),
+      shouldReplace?: boolean
+    ) => {
+      const before = get();
+      if (typeof nextStateOrUpdater !== 'function' || skipHistory || before.isLoading) {
+        setState(nextStateOrUpdater, shouldReplace);
+        return;
+      }
+      const [next, patches, inversePatches] = produceWithPatches(before, nextStateOrUpdater);
+      const isTracked = (patch: Patch) => HISTORY_TRACKED_KEYS.includes(patch.path[0]);
+      const trackedPatches = patches.filter(isTracked);
+      if (trackedPatches.length > 0 && !before.isWriterTab) {
+        console.warn('[Store] Edit ignored: the project is read-only in this tab.');
+        return;
+      }
+      setState(next, shouldReplace);
+
+      if (trackedPatches.length === 0) return;
+      history.record({
+        patches: trackedPatches,
+        inversePatches: inversePatches.filter(isTracked),
+        selectionBefore: { npcId: before.selectedNpcId, conversationId: before.selectedConversationId },
+        selectionAfter: { npcId: next.selectedNpcId, conversationId: next.selectedConversationId },
+        mergeKey: historyMergeKey,
+      });
+      syncHistoryFlags();
+    };
+
+    // For changes to project data that aren't edits, like node selection or measured sizes
+    const setWithoutHistory: typeof set = (nextStateOrUpdater, shouldReplace) => {
+      skipHistory = true;
+      try {
+        set(nextStateOrUpdater, shouldReplace);
+      } finally {
+        skipHistory = false;
+      }
+    };
+
+    // For repeated edits of one field (typing) that should undo as a single step
+    const setMerged = (mergeKey: string, recipe: (state: Draft<DialogueState>) => void) => {
+      historyMergeKey = mergeKey;
+      try {
+        set(recipe);
+      } finally {
+        historyMergeKey = undefined;
+      }
+    };
 
     const debouncedSaveFn = initializeDebouncedSave(get, (partial) => set(state => ({...state, ...partial})) );
 
@@ -127,7 +324,7 @@ export const useDialogueStore = create(
             console.log('[Store] Immediate save triggered.');
             debouncedSaveFn.cancel();
             const state = get();
-            await performSave({ npcs: state.npcs, isLoading: state.isLoading }, (partial) => set(state => ({...state, ...partial})) );
+            await performSave(getSaveableState(state), (partial) => set(state => ({...state, ...partial})) );
         } else {
             debouncedSaveFn();
         }
@@ -146,15 +343,86 @@ export const useDialogueStore = create(
       return draft.npcs[npcIndex]?.conversations[convIndex];
     };
 
+    // Edits in a target locale go to the node's translation; source edits flag existing translations as outdated
+    const writeNodeField = (draft: DialogueState, node: DialogueNode, field: TranslatableField, value: string) => {
+      const locale = draft.activeLocale;
+      if (locale !== draft.localization.sourceLocale && isTranslatableNode(node)) {
+        const translations = node.data.translations ?? (node.data.translations = {});
+        const translation = translations[locale] ?? (translations[locale] = {});
+        translation[field] = { value };
+        return;
+      }
+      if (node.data[field] !== value) markTranslationsOutdated(node.data.translations, field);
+      node.data = { ...node.data, [field]: value };
+    };
+
+    // Variables are matched by name; imported translations stay visible by adding their locales
+    const addImportedVariablesAndLocales = (draft: DialogueState, variables: DialogueVariable[], locales: string[]) => {
+      variables.forEach(variable => {
+        if (!draft.variables.some(v => v.name === variable.name)) draft.variables.push(variable);
+      });
+      locales.forEach(locale => {
+        if (locale !== draft.localization.sourceLocale && !draft.localization.targetLocales.includes(locale)) {
+          draft.localization.targetLocales.push(locale);
+        }
+      });
+    };
+
+    // Keeps the project as it was before a destructive change restorable from the history panel
+    const snapshotBeforeChange = (trigger: SnapshotTrigger, note: string) => {
+      createSnapshot(get().npcs, trigger, note).catch(error => console.error('[Store] Snapshot failed:', error));
+    };
+
+    // After the NPCs were replaced: stays on the selected dialogue if it still exists
+    const keepValidSelection = (draft: Draft<DialogueState>) => {
+      const npc = draft.npcs.find(n => n.id === draft.selectedNpcId) ?? draft.npcs[0];
+      draft.selectedNpcId = npc?.id ?? null;
+      if (!npc?.conversations.some(c => c.id === draft.selectedConversationId)) {
+        draft.selectedConversationId = npc?.conversations[0]?.id ?? null;
+      }
+    };
+
+    // Applies undo/redo patches and shows the dialogue the step happened in, if it still exists
+    const applyHistoryPatches = (patches: Patch[], selection: HistorySelection) => {
+      setState(draft => {
+        applyPatches(draft, patches);
+        if (draft.activeLocale !== draft.localization.sourceLocale && !draft.localization.targetLocales.includes(draft.activeLocale)) {
+          draft.activeLocale = draft.localization.sourceLocale;
+        }
+        if (findConversation(draft.npcs, selection.npcId ?? undefined, selection.conversationId ?? undefined)) {
+          draft.selectedNpcId = selection.npcId;
+          draft.selectedConversationId = selection.conversationId;
+          return;
+        }
+        const npc = draft.npcs.find(n => n.id === draft.selectedNpcId) ?? draft.npcs[0];
+        draft.selectedNpcId = npc?.id ?? null;
+        if (!npc?.conversations.some(c => c.id === draft.selectedConversationId)) {
+          draft.selectedConversationId = npc?.conversations[0]?.id ?? null;
+        }
+      });
+      syncHistoryFlags();
+      triggerSave();
+    };
+
     return {
       // State
       npcs: [],
+      variables: [],
+      localization: { ...DEFAULT_LOCALIZATION },
+      activeLocale: DEFAULT_LOCALIZATION.sourceLocale,
       selectedNpcId: null,
       selectedConversationId: null,
       isLoading: true,
       isSaving: false,
       lastSaved: null,
       dbError: null,
+      focusRequest: null,
+      snapshotPreview: null,
+      diffView: null,
+      isWriterTab: true,
+      hasExternalChange: false,
+      canUndo: false,
+      canRedo: false,
 
       // Derived State Selectors
       selectedNpc: () => get().npcs.find((npc) => npc.id === get().selectedNpcId),
@@ -166,6 +434,10 @@ export const useDialogueStore = create(
         const selected = get().selectedNodes();
         return selected.length === 1 ? selected[0] : null;
       },
+      getSelectedEdgeInfo: () => {
+        const selected = get().activeEdges().filter(edge => edge.selected);
+        return selected.length === 1 ? selected[0] : null;
+      },
       getNodeTypes: () => {
         return ['npc', 'user', 'custom', 'jump']; // Added 'jump' type
       },
@@ -188,6 +460,7 @@ export const useDialogueStore = create(
         });
         return options;
       },
+      getEventNames: () => collectEventNames(get().npcs),
 
       // Actions
       loadInitialData: async () => {
@@ -195,36 +468,10 @@ export const useDialogueStore = create(
         try {
           console.log("[Store] Loading initial data...");
           const loadedNpcs = await loadAllNpcs();
-          console.log(`[Store] Loaded ${loadedNpcs.length} NPCs.`);
-
-          // Data normalization and default value application
-          loadedNpcs.forEach(npc => {
-            if (!npc.accentColor) npc.accentColor = DEFAULT_NPC_ACCENT_COLOR;
-            if (npc.isHorizontal === undefined) npc.isHorizontal = DEFAULT_NPC_LAYOUT_HORIZONTAL;
-            if (!Array.isArray(npc.conversations)) npc.conversations = [];
-            npc.conversations.forEach(conv => {
-                if (!conv.nodes) conv.nodes = [];
-                if (!conv.edges) conv.edges = [];
-                // Backfill missing npcId for older NPC nodes
-                conv.nodes.forEach(node => {
-                    if (node.type === 'npc' && !node.data.npcId) {
-                        node.data.npcId = npc.id;
-                        console.warn(`[Store Load] Backfilled missing npcId for node ${node.id} in NPC ${npc.id}`);
-                    }
-                });
-            });
-          });
-
-          try {
-              console.log("[Store] Syncing IdManager with loaded data...");
-              IdManager.syncWithData(loadedNpcs);
-              console.log("[Store] IdManager synced.");
-          } catch (syncError: any) {
-              console.error("[Store] Error syncing IdManager:", syncError);
-              set(draft => {
-                  draft.dbError = `Failed to sync ID Manager: ${syncError?.message || syncError}`;
-              });
-          }
+          const loadedVariables = await loadAllVariables();
+          const loadedLocalization = await loadLocalizationSettings();
+          console.log(`[Store] Loaded ${loadedNpcs.length} NPCs and ${loadedVariables.length} variables.`);
+          normalizeLoadedNpcs(loadedNpcs);
 
           let initialNpcId: string | null = null;
           let initialConvId: string | null = null;
@@ -237,29 +484,63 @@ export const useDialogueStore = create(
 
           set(draft => {
             draft.npcs = loadedNpcs;
+            draft.variables = loadedVariables;
+            draft.localization = loadedLocalization;
+            draft.activeLocale = loadedLocalization.sourceLocale;
             draft.selectedNpcId = initialNpcId;
             draft.selectedConversationId = initialConvId;
             draft.isLoading = false;
             draft.lastSaved = new Date();
-            draft.dbError = draft.dbError || null; // Preserve potential sync error
+            draft.dbError = null;
           });
+          history.clear();
+          syncHistoryFlags();
           console.log("[Store] Initial data loaded and state set.");
+          deleteUnusedPortraits().catch(error => console.error('[Store] Cleaning up portraits failed:', error));
 
         } catch (error: any) {
           console.error('[Store] Error loading data:', error);
-          try { IdManager.syncWithData(initialNpcs); } catch (syncError: any) { console.error("[Store] Error syncing IdManager with fallback:", syncError); }
           set(draft => {
             draft.npcs = initialNpcs;
+            draft.variables = [];
+            draft.localization = { ...DEFAULT_LOCALIZATION };
+            draft.activeLocale = DEFAULT_LOCALIZATION.sourceLocale;
             draft.selectedNpcId = null;
             draft.selectedConversationId = null;
             draft.isLoading = false;
             draft.dbError = `Failed to load data: ${error?.message || error}`;
           });
+          history.clear();
+          syncHistoryFlags();
         }
       },
 
       triggerSave: triggerSave,
 
+      // History Actions
+      undo: () => {
+        const entry = history.undo();
+        if (!entry) return;
+        isDraggingNodes = false;
+        console.log('[Store] Undo');
+        applyHistoryPatches(entry.inversePatches, entry.selectionBefore);
+      },
+
+      redo: () => {
+        const entry = history.redo();
+        if (!entry) return;
+        isDraggingNodes = false;
+        console.log('[Store] Redo');
+        applyHistoryPatches(entry.patches, entry.selectionAfter);
+      },
+
+      beginHistoryGroup: () => history.beginGroup(),
+
+      endHistoryGroup: () => {
+        history.endGroup();
+        syncHistoryFlags();
+      },
+
       // NPC Actions
       addNpc: (name) => {
         const newNpcId = IdManager.generateNpcId();
@@ -267,7 +548,7 @@ export const useDialogueStore = create(
         const conversationName = 'Default Conversation';
         const newNpc: NPC = {
           id: newNpcId,
-          name: name?.trim() || `New NPC ${newNpcId.split('-')[1]}`,
+          name: name?.trim() || `New NPC ${get().npcs.length + 1}`,
           image: undefined,
           accentColor: DEFAULT_NPC_ACCENT_COLOR,
           isHorizontal: DEFAULT_NPC_LAYOUT_HORIZONTAL,
@@ -294,6 +575,8 @@ export const useDialogueStore = create(
             set(draft => {
               draft.selectedNpcId = npcId;
               draft.selectedConversationId = npc.conversations[0]?.id || null;
+              draft.snapshotPreview = null;
+              draft.diffView = null;
             });
           }
         }
@@ -301,6 +584,8 @@ export const useDialogueStore = create(
 
       deleteNpc: (npcId) => {
         if (!npcId) return;
+        const npcToDelete = get().npcs.find(npc => npc.id === npcId);
+        if (npcToDelete) snapshotBeforeChange('delete', `Before deleting NPC "${npcToDelete.name}"`);
         const currentSelectedNpcId = get().selectedNpcId;
         const currentSelectedConvId = get().selectedConversationId;
         let nextSelectedNpcId: string | null = null;
@@ -343,11 +628,42 @@ export const useDialogueStore = create(
         triggerSave();
       },
 
-      updateNpcImage: (npcId, imageDataUrl) => {
+      updateNpcPortrait: (npcId, portraitId) => {
+        if (!npcId) return;
+        set(draft => {
+            const npc = draft.npcs.find((n: NPC) => n.id === npcId);
+            if (npc) {
+                npc.portraitId = portraitId;
+                delete npc.image; // Data URL of an older project, replaced or removed along with the portrait
+            }
+        });
+        triggerSave();
+      },
+
+      updateNpcExpressions: (npcId, expressions) => {
         if (!npcId) return;
         set(draft => {
             const npc = draft.npcs.find((n: NPC) => n.id === npcId);
-            if (npc) { npc.image = imageDataUrl; }
+            if (!npc) {
+                console.warn(`[Store] NPC ${npcId} not found, cannot update expressions.`);
+                return;
+            }
+            // Old name -> new name, or undefined for removed expressions
+            const renames = new Map<string, string | undefined>();
+            (npc.expressions ?? []).forEach(previous => {
+                const next = expressions.find(e => e.id === previous.id);
+                if (next?.name !== previous.name) renames.set(previous.name, next?.name);
+            });
+            if (expressions.length > 0) npc.expressions = expressions;
+            else delete npc.expressions;
+
+            if (renames.size === 0) return;
+            draft.npcs.forEach(owner => owner.conversations.forEach(conv => conv.nodes.forEach(node => {
+                if (node.type !== 'npc' || node.data.npcId !== npcId || !node.data.expression || !renames.has(node.data.expression)) return;
+                const newName = renames.get(node.data.expression);
+                if (newName) node.data.expression = newName;
+                else delete node.data.expression;
+            })));
         });
         triggerSave();
       },
@@ -407,7 +723,8 @@ export const useDialogueStore = create(
       addConversation: (npcId, name) => {
         if (!npcId) return;
         const newConversationId = IdManager.generateConversationId();
-        const newName = name?.trim() || `New Conversation ${newConversationId.split('-')[1]}`;
+        const npcConversationCount = get().npcs.find(n => n.id === npcId)?.conversations.length ?? 0;
+        const newName = name?.trim() || `New Conversation ${npcConversationCount + 1}`;
 
         set(draft => {
           const npc = draft.npcs.find((n) => n.id === npcId);
@@ -434,7 +751,11 @@ export const useDialogueStore = create(
          if (conversationId !== get().selectedConversationId) {
              const npc = get().selectedNpc();
              if (npc && npc.conversations.some(c => c.id === conversationId)) {
-                 set(draft => { draft.selectedConversationId = conversationId });
+                 set(draft => {
+                   draft.selectedConversationId = conversationId;
+                   draft.snapshotPreview = null;
+                   draft.diffView = null;
+                 });
              } else {
                  console.warn(`Attempted to select conversation ${conversationId} which does not exist or isn't loaded on NPC ${get().selectedNpcId}`);
              }
@@ -444,6 +765,11 @@ export const useDialogueStore = create(
       deleteConversation: (conversationId) => {
         const npcId = get().selectedNpcId;
         if (!conversationId || !npcId) return;
+        const owner = get().npcs.find(n => n.id === npcId);
+        const conversationToDelete = owner?.conversations.find(c => c.id === conversationId);
+        if (owner && conversationToDelete && owner.conversations.length > 1) {
+          snapshotBeforeChange('delete', `Before deleting "${conversationToDelete.name}"`);
+        }
 
         set(draft => {
             const npcIndex = draft.npcs.findIndex(n => n.id === npcId);
@@ -506,9 +832,287 @@ export const useDialogueStore = create(
         triggerSave();
       },
 
+      importConversations: (importedNpcs, importedVariables, importedLocales = []) => {
+        const firstNpc = importedNpcs.find(npc => npc.conversations.length > 0);
+        if (!firstNpc) return;
+        snapshotBeforeChange('import', 'Before import');
+
+        set(draft => {
+          importedNpcs.forEach(imported => {
+            const existing = draft.npcs.find(n => n.id === imported.id);
+            if (existing) {
+              existing.conversations.push(...imported.conversations);
+            } else {
+              draft.npcs.push(imported);
+            }
+          });
+          addImportedVariablesAndLocales(draft, importedVariables, importedLocales);
+          draft.selectedNpcId = firstNpc.id;
+          draft.selectedConversationId = firstNpc.conversations[0].id;
+        });
+        const count = importedNpcs.reduce((sum, npc) => sum + npc.conversations.length, 0);
+        console.log(`[Store] Imported ${count} conversation(s) and ${importedVariables.length} variable(s).`);
+        triggerSave();
+      },
+
+      applyImportChanges: (changes, importedVariables, importedLocales = []) => {
+        if (changes.length === 0 && importedVariables.length === 0) return;
+        snapshotBeforeChange('import', 'Before merge import');
+        set(draft => {
+          changes.forEach(change => {
+            switch (change.type) {
+              case 'addNpc':
+                draft.npcs.push(change.npc);
+                break;
+              case 'updateNpc': {
+                const npc = draft.npcs.find(n => n.id === change.npcId);
+                if (npc) Object.assign(npc, change.changes);
+                else console.warn(`[Store] NPC ${change.npcId} not found for merge import.`);
+                break;
+              }
+              case 'addConversation': {
+                const npc = draft.npcs.find(n => n.id === change.npcId);
+                if (npc) npc.conversations.push(change.conversation);
+                else console.warn(`[Store] NPC ${change.npcId} not found for merge import.`);
+                break;
+              }
+              case 'replaceConversation': {
+                const npc = draft.npcs.find(n => n.id === change.npcId);
+                const index = npc?.conversations.findIndex(c => c.id === change.conversation.id) ?? -1;
+                if (npc && index !== -1) npc.conversations[index] = change.conversation;
+                else console.warn(`[Store] Conversation ${change.conversation.id} of NPC ${change.npcId} not found for merge import.`);
+                break;
+              }
+            }
+          });
+          addImportedVariablesAndLocales(draft, importedVariables, importedLocales);
+          // Replaced conversations keep their IDs, so the selection normally survives
+          if (!findConversation(draft.npcs, draft.selectedNpcId ?? undefined, draft.selectedConversationId ?? undefined)) {
+            const npc = draft.npcs.find(n => n.id === draft.selectedNpcId) ?? draft.npcs[0];
+            draft.selectedNpcId = npc?.id ?? null;
+            draft.selectedConversationId = npc?.conversations[0]?.id ?? null;
+          }
+        });
+        console.log(`[Store] Merge import applied ${changes.length} change(s) and ${importedVariables.length} variable(s).`);
+        triggerSave();
+      },
+
+      // Variable Actions
+      addVariable: (name, type) => {
+        const finalName = name.trim();
+        if (!VARIABLE_NAME_PATTERN.test(finalName)) {
+          console.warn(`[Store] Invalid variable name "${finalName}".`);
+          return;
+        }
+        if (get().variables.some(v => v.name === finalName)) {
+          console.warn(`[Store] Variable "${finalName}" already exists.`);
+          return;
+        }
+        const newVariable: DialogueVariable = {
+          id: IdManager.generateVariableId(),
+          name: finalName,
+          type,
+          defaultValue: getInitialValueForType(type),
+          ...(type === 'enum' ? { enumValues: [] } : {}),
+        };
+        set(draft => {
+          draft.variables.push(newVariable);
+        });
+        triggerSave();
+      },
+
+      updateVariable: (variableId, changes) => {
+        if (!variableId) return;
+        const existing = get().variables.find(v => v.id === variableId);
+        if (!existing) {
+          console.warn(`[Store] Variable ${variableId} not found, cannot update.`);
+          return;
+        }
+        const newName = changes.name?.trim();
+        if (newName !== undefined && newName !== existing.name) {
+          if (!VARIABLE_NAME_PATTERN.test(newName) || get().variables.some(v => v.name === newName)) {
+            console.warn(`[Store] Cannot rename variable ${variableId} to "${newName}".`);
+            return;
+          }
+        }
+
+        set(draft => {
+          const variable = draft.variables.find(v => v.id === variableId);
+          if (!variable) return;
+          Object.assign(variable, changes);
+          if (newName !== undefined) variable.name = newName;
+
+          if (newName !== undefined && newName !== existing.name) {
+            // Keep edge conditions and node actions pointing at the renamed variable
+            draft.npcs.forEach(npc => npc.conversations.forEach(conv => {
+              conv.edges.forEach(edge => {
+                if (edge.data?.condition) {
+                  edge.data.condition = renameConditionVariable(edge.data.condition, existing.name, newName);
+                }
+              });
+              conv.nodes.forEach(node => {
+                node.data.actions?.forEach(action => {
+                  if (action.type === 'setVariable' && action.variable === existing.name) {
+                    action.variable = newName;
+                  }
+                });
+              });
+            }));
+            console.log(`[Store] Renamed variable "${existing.name}" to "${newName}"`);
+          }
+
+          // Reset the default value when the type changes
+          if (changes.type && changes.type !== existing.type && changes.defaultValue === undefined) {
+            if (variable.type === 'enum' && !variable.enumValues) variable.enumValues = [];
+            if (variable.type !== 'enum') delete variable.enumValues;
+            variable.defaultValue = getInitialValueForType(variable.type, variable.enumValues);
+          }
+        });
+        triggerSave();
+      },
+
+      deleteVariable: (variableId) => {
+        if (!variableId) return;
+        const variable = get().variables.find(v => v.id === variableId);
+        // Conditions and actions would be left pointing at an unknown name
+        if (variable && findVariableUsages(get().npcs, variable.name).length > 0) {
+          console.warn(`[Store] Variable "${variable.name}" is still in use, cannot delete.`);
+          return;
+        }
+        set(draft => {
+          draft.variables = draft.variables.filter(v => v.id !== variableId);
+        });
+        triggerSave();
+      },
+
+      // Localization Actions
+      setActiveLocale: (locale) => {
+        const { sourceLocale, targetLocales } = get().localization;
+        if (locale !== sourceLocale && !targetLocales.includes(locale)) {
+          console.warn(`[Store] Locale "${locale}" is not part of the project.`);
+          return;
+        }
+        set(draft => { draft.activeLocale = locale; });
+      },
+
+      addLocale: (code) => {
+        const locale = normalizeLocaleCode(code);
+        const { sourceLocale, targetLocales } = get().localization;
+        if (!locale || locale === sourceLocale || targetLocales.includes(locale)) {
+          console.warn(`[Store] Cannot add locale "${code}".`);
+          return;
+        }
+        set(draft => {
+          draft.localization.targetLocales.push(locale);
+        });
+        triggerSave();
+      },
+
+      removeLocale: (locale) => {
+        if (!get().localization.targetLocales.includes(locale)) return;
+        set(draft => {
+          draft.localization.targetLocales = draft.localization.targetLocales.filter(l => l !== locale);
+          draft.npcs.forEach(npc => npc.conversations.forEach(conv => conv.nodes.forEach(node => {
+            if (node.data.translations?.[locale]) delete node.data.translations[locale];
+          })));
+          if (draft.activeLocale === locale) draft.activeLocale = draft.localization.sourceLocale;
+        });
+        console.log(`[Store] Removed locale ${locale} and its translations.`);
+        triggerSave();
+      },
+
+      setSourceLocale: (code) => {
+        const locale = normalizeLocaleCode(code);
+        const { sourceLocale, targetLocales } = get().localization;
+        if (!locale || locale === sourceLocale || targetLocales.includes(locale)) {
+          console.warn(`[Store] Cannot use "${code}" as the source locale.`);
+          return;
+        }
+        set(draft => {
+          if (draft.activeLocale === draft.localization.sourceLocale) draft.activeLocale = locale;
+          draft.localization.sourceLocale = locale;
+        });
+        triggerSave();
+      },
+
+      applyTranslations: (updates) => {
+        if (updates.length === 0) return;
+        set(draft => {
+          const nodes = new Map<string, DialogueNode>();
+          draft.npcs.forEach(npc => npc.conversations.forEach(conv => conv.nodes.forEach(node => nodes.set(node.id, node))));
+          updates.forEach(({ nodeId, locale, field, value, outdated }) => {
+            const node = nodes.get(nodeId);
+            if (!node) return;
+            if (locale !== draft.localization.sourceLocale && !draft.localization.targetLocales.includes(locale)) {
+              draft.localization.targetLocales.push(locale);
+            }
+            const translations = node.data.translations ?? (node.data.translations = {});
+            const translation = translations[locale] ?? (translations[locale] = {});
+            translation[field] = outdated ? { value, outdated } : { value };
+          });
+        });
+        console.log(`[Store] Applied ${updates.length} translation(s).`);
+        triggerSave();
+      },
+
+      markTranslationReviewed: (nodeId, locale, field) => {
+        set(draft => {
+          for (const npc of draft.npcs) {
+            for (const conv of npc.conversations) {
+              const translation = conv.nodes.find(node => node.id === nodeId)?.data.translations?.[locale]?.[field];
+              if (translation) {
+                delete translation.outdated;
+                return;
+              }
+            }
+          }
+        });
+        triggerSave();
+      },
+
+      replaceText: (replacements) => {
+        if (replacements.length === 0) return;
+        let replacedCount = 0;
+        set(draft => {
+          replacements.forEach(({ npcId, conversationId, nodeId, field, from, to }) => {
+            const npc = draft.npcs.find(n => n.id === npcId);
+            const conv = npc?.conversations.find(c => c.id === conversationId);
+            if (field === 'npcName') {
+              if (npc?.name !== from) return;
+              npc.name = to;
+            } else if (field === 'conversationName') {
+              if (conv?.name !== from) return;
+              conv.name = to;
+              const startNode = conv.nodes.find(node => node.type === 'input');
+              if (startNode) startNode.data.label = `Start: ${to}`;
+            } else {
+              const node = conv?.nodes.find(n => n.id === nodeId);
+              if (!node || (node.data[field] ?? '') !== from) return;
+              markTranslationsOutdated(node.data.translations, field);
+              node.data = { ...node.data, [field]: to };
+            }
+            replacedCount++;
+          });
+        });
+        console.log(`[Store] Replaced text in ${replacedCount} of ${replacements.length} field(s).`);
+        triggerSave();
+      },
+
       // React Flow Actions
       onNodesChange: (changes) => {
-        set(draft => {
+        // A drag emits many position changes; group them into one undo step
+        const dragStarted = changes.some(change => change.type === 'position' && change.dragging);
+        const dragEnded = changes.some(change => change.type === 'position' && change.dragging === false);
+        if (dragStarted && !isDraggingNodes) {
+          isDraggingNodes = true;
+          history.beginGroup();
+        }
+
+        // Selection, measurements and drag flags are not edits
+        const isEdit = changes.some(change =>
+          change.type === 'position' ? !!change.position : change.type !== 'select' && change.type !== 'dimensions'
+        );
+        (isEdit ? set : setWithoutHistory)(draft => {
           const conv = getCurrentConversation(draft);
           if (conv) {
             if (!conv.nodes) conv.nodes = [];
@@ -525,11 +1129,17 @@ export const useDialogueStore = create(
             conv.nodes = applyNodeChanges(safeChanges, conv.nodes);
           }
         });
+        if (dragEnded && isDraggingNodes) {
+          isDraggingNodes = false;
+          history.endGroup();
+          syncHistoryFlags();
+        }
         triggerSave();
       },
 
       onEdgesChange: (changes) => {
-        set(draft => {
+        const isEdit = changes.some(change => change.type !== 'select');
+        (isEdit ? set : setWithoutHistory)(draft => {
             const conv = getCurrentConversation(draft);
             if (conv) {
                 if (!conv.edges) conv.edges = [];
@@ -549,7 +1159,7 @@ export const useDialogueStore = create(
             if (connection.source && connection.target) {
                 const uniqueConnection = {
                     ...connection,
-                    id: `e-${connection.source}-${connection.target}-${Date.now()}` // Basic unique ID
+                    id: IdManager.generateEdgeId()
                 };
                 conv.edges = addEdge(uniqueConnection, conv.edges);
             } else {
@@ -585,6 +1195,44 @@ export const useDialogueStore = create(
          triggerSave();
       },
 
+      pasteNodes: (nodes, edges) => {
+         if (nodes.length === 0) return;
+         set(draft => {
+             const conv = getCurrentConversation(draft);
+             if (!conv) return;
+             conv.nodes.forEach(node => { node.selected = false; });
+             conv.edges.forEach(edge => { edge.selected = false; });
+             conv.nodes.push(...nodes);
+             conv.edges.push(...edges);
+         });
+         console.log(`[Store] Pasted ${nodes.length} node(s) and ${edges.length} edge(s).`);
+         triggerSave();
+      },
+
+      deleteNodes: (nodeIds) => {
+         set(draft => {
+             const conv = getCurrentConversation(draft);
+             if (!conv) return;
+             const removed = new Set(conv.nodes.filter(node => nodeIds.includes(node.id) && node.type !== 'input').map(node => node.id));
+             if (removed.size === 0) return;
+             conv.nodes = conv.nodes.filter(node => !removed.has(node.id));
+             conv.edges = conv.edges.filter(edge => !removed.has(edge.source) && !removed.has(edge.target));
+         });
+         triggerSave();
+      },
+
+      deleteSelection: () => {
+         set(draft => {
+             const conv = getCurrentConversation(draft);
+             if (!conv) return;
+             const removed = new Set(conv.nodes.filter(node => node.selected && node.type !== 'input').map(node => node.id));
+             if (removed.size === 0 && !conv.edges.some(edge => edge.selected)) return;
+             conv.nodes = conv.nodes.filter(node => !removed.has(node.id));
+             conv.edges = conv.edges.filter(edge => !edge.selected && !removed.has(edge.source) && !removed.has(edge.target));
+         });
+         triggerSave();
+      },
+
       updateNodePositions: (positions) => {
          set(draft => {
              const conv = getCurrentConversation(draft);
@@ -627,8 +1275,8 @@ export const useDialogueStore = create(
               (n: DialogueNode) => n.id === nodeId && n.type !== 'input'
             );
             if (node) {
-              node.data = { ...node.data, label: newLabel.trim() };
-              console.log(`[Store] Updated label for node ${nodeId} to "${node.data.label}"`);
+              writeNodeField(draft, node, 'label', newLabel.trim());
+              console.log(`[Store] Updated label for node ${nodeId} (${draft.activeLocale}) to "${newLabel.trim()}"`);
             } else {
                  console.warn(`[Store] Node ${nodeId} not found or is start node, cannot update label.`);
             }
@@ -638,14 +1286,14 @@ export const useDialogueStore = create(
 
       updateNodeText: (nodeId, newText) => {
         if (!nodeId) return;
-        set(draft => {
+        setMerged(`text:${nodeId}`, draft => {
             const conv = getCurrentConversation(draft);
             const node = conv?.nodes?.find(
               (n: DialogueNode) => n.id === nodeId && n.type !== 'input'
             );
             if (node) {
-              node.data = { ...node.data, text: newText };
-              console.log(`[Store] Updated text for node ${nodeId}`);
+              writeNodeField(draft, node, 'text', newText);
+              console.log(`[Store] Updated text for node ${nodeId} (${draft.activeLocale})`);
             } else {
                  console.warn(`[Store] Node ${nodeId} not found or is start node, cannot update text.`);
             }
@@ -700,6 +1348,11 @@ export const useDialogueStore = create(
                 delete node.data.npcId;
                 console.log(`[Store] Cleared npcId for node ${nodeId}`);
               }
+              // Keep the expression only if the new NPC has one of that name
+              const npc = draft.npcs.find((n: NPC) => n.id === npcId);
+              if (node.data.expression && !npc?.expressions?.some(e => e.name === node.data.expression)) {
+                delete node.data.expression;
+              }
             } else {
                  console.warn(`[Store] Node ${nodeId} not found or is not an NPC node, cannot update npcId.`);
             }
@@ -707,6 +1360,23 @@ export const useDialogueStore = create(
         triggerSave();
       },
 
+      updateNodeExpression: (nodeId, expression) => {
+        if (!nodeId) return;
+        set(draft => {
+            const conv = getCurrentConversation(draft);
+            const node = conv?.nodes?.find(
+              (n: DialogueNode) => n.id === nodeId && n.type === 'npc'
+            );
+            if (node) {
+              if (expression) node.data.expression = expression;
+              else delete node.data.expression;
+            } else {
+                 console.warn(`[Store] Node ${nodeId} not found or is not an NPC node, cannot update expression.`);
+            }
+        });
+        triggerSave();
+      },
+
       updateNodeTargetConversation: (nodeId, targetNpcId, targetConversationId) => {
         if (!nodeId) return;
         set(draft => {
@@ -732,16 +1402,36 @@ export const useDialogueStore = create(
         triggerSave();
       },
 
+      updateNodeActions: (nodeId, actions) => {
+        if (!nodeId) return;
+        set(draft => {
+          const conv = getCurrentConversation(draft);
+          const node = conv?.nodes?.find(
+            (n: DialogueNode) => n.id === nodeId && n.type !== 'input'
+          );
+          if (node) {
+            if (actions.length > 0) {
+              node.data = { ...node.data, actions };
+            } else {
+              delete node.data.actions;
+            }
+            console.log(`[Store] Updated actions for node ${nodeId} (${actions.length})`);
+          } else {
+            console.warn(`[Store] Node ${nodeId} not found or is start node, cannot update actions.`);
+          }
+        });
+        triggerSave();
+      },
+
       jumpToConversation: (targetNpcId, targetConversationId) => {
         if (!targetNpcId || !targetConversationId) {
            console.warn('[Store] jumpToConversation called with missing IDs.');
            return;
         }
         console.log(`[Store] Jumping to NPC: ${targetNpcId}, Conversation: ${targetConversationId}`);
-        const targetNpcExists = get().npcs.some(npc => npc.id === targetNpcId);
-        const targetConvExists = get().npcs.find(npc => npc.id === targetNpcId)?.conversations.some(conv => conv.id === targetConversationId);
+        const target = findConversation(get().npcs, targetNpcId, targetConversationId);
 
-        if (targetNpcExists && targetConvExists) {
+        if (target) {
           set(draft => {
             draft.selectedNpcId = targetNpcId;
             draft.selectedConversationId = targetConversationId;
@@ -756,6 +1446,241 @@ export const useDialogueStore = create(
           setTimeout(() => set(draft => { draft.dbError = null; }), 5000);
         }
       },
+
+      focusNode: (npcId, conversationId, nodeId) => {
+        const target = findConversation(get().npcs, npcId, conversationId);
+        if (!target) {
+          console.warn(`[Store] Cannot focus node, dialogue not found. NPC: ${npcId}, Conv: ${conversationId}`);
+          return;
+        }
+        const nodeExists = !!nodeId && target.conversation.nodes.some(n => n.id === nodeId);
+        setWithoutHistory(draft => {
+          draft.selectedNpcId = npcId;
+          draft.selectedConversationId = conversationId;
+          if (!nodeId || !nodeExists) return;
+          const conv = getCurrentConversation(draft);
+          conv?.nodes.forEach(node => { node.selected = node.id === nodeId; });
+          conv?.edges.forEach(edge => { edge.selected = false; });
+          draft.focusRequest = { nodeId };
+        });
+        // Navigation and selection only, no save
+      },
+
+      clearFocusRequest: () => {
+        set(draft => { draft.focusRequest = null; });
+      },
+
+      updateEdgeCondition: (edgeId, condition) => {
+        if (!edgeId) return;
+        set(draft => {
+          const conv = getCurrentConversation(draft);
+          const edge = conv?.edges?.find((e: DialogueEdge) => e.id === edgeId);
+          if (edge) {
+            const trimmed = condition?.trim();
+            if (trimmed) {
+              edge.data = { ...edge.data, condition: trimmed };
+              console.log(`[Store] Updated condition for edge ${edgeId} to "${trimmed}"`);
+            } else if (edge.data) {
+              delete edge.data.condition;
+              console.log(`[Store] Cleared condition for edge ${edgeId}`);
+            }
+          } else {
+            console.warn(`[Store] Edge ${edgeId} not found, cannot update condition.`);
+          }
+        });
+        triggerSave();
+      },
+
+      // Snapshot Actions
+      takeSnapshot: async (note) => {
+        await createSnapshot(get().npcs, 'manual', note);
+      },
+
+      previewSnapshot: (snapshot, npcId, conversationId) => {
+        if (!findConversation(snapshot.npcs, npcId, conversationId)) {
+          console.warn(`[Store] Conversation ${conversationId} not found in snapshot ${snapshot.id}.`);
+          return;
+        }
+        setWithoutHistory(draft => {
+          draft.snapshotPreview = { snapshot, npcId, conversationId };
+          draft.diffView = null;
+        });
+      },
+
+      closeSnapshotPreview: () => {
+        setWithoutHistory(draft => { draft.snapshotPreview = null; });
+      },
+
+      restoreSnapshot: (snapshot) => {
+        snapshotBeforeChange('restore', 'Before restoring a snapshot');
+        set(draft => {
+          draft.npcs = snapshot.npcs;
+          draft.snapshotPreview = null;
+          const npc = draft.npcs.find(n => n.id === draft.selectedNpcId) ?? draft.npcs[0];
+          draft.selectedNpcId = npc?.id ?? null;
+          if (!npc?.conversations.some(c => c.id === draft.selectedConversationId)) {
+            draft.selectedConversationId = npc?.conversations[0]?.id ?? null;
+          }
+        });
+        console.log(`[Store] Restored snapshot ${snapshot.id}.`);
+        triggerSave();
+      },
+
+      restoreConversationFromSnapshot: (snapshot, conversationId) => {
+        const source = snapshot.npcs.find(npc => npc.conversations.some(c => c.id === conversationId));
+        const conversation = source?.conversations.find(c => c.id === conversationId);
+        if (!source || !conversation) {
+          console.warn(`[Store] Conversation ${conversationId} not found in snapshot ${snapshot.id}.`);
+          return;
+        }
+        snapshotBeforeChange('restore', `Before restoring "${conversation.name}"`);
+        set(draft => {
+          // Replace the conversation where it is now; if it was deleted, bring it back to its NPC
+          const owner = draft.npcs.find(npc => npc.conversations.some(c => c.id === conversationId));
+          if (owner) {
+            owner.conversations[owner.conversations.findIndex(c => c.id === conversationId)] = conversation;
+          } else {
+            const npc = draft.npcs.find(n => n.id === source.id);
+            if (npc) npc.conversations.push(conversation);
+            else draft.npcs.push({ ...source, conversations: [conversation] });
+          }
+          draft.selectedNpcId = owner?.id ?? source.id;
+          draft.selectedConversationId = conversationId;
+          draft.snapshotPreview = null;
+        });
+        console.log(`[Store] Restored conversation ${conversationId} from snapshot ${snapshot.id}.`);
+        triggerSave();
+      },
+
+      // Diff Actions
+      openDiffView: (fileName, npcs) => {
+        // Start on the selected conversation, else on the first one of the file
+        const { selectedNpcId, selectedConversationId } = get();
+        const candidates = [
+          ...npcs.flatMap(npc => npc.conversations.map(conv => ({ npcId: npc.id, conversationId: conv.id }))),
+          ...get().npcs.flatMap(npc => npc.conversations.map(conv => ({ npcId: npc.id, conversationId: conv.id }))),
+        ];
+        const start = candidates.find(c => c.conversationId === selectedConversationId && c.npcId === selectedNpcId)
+          ?? candidates[0];
+        if (!start) {
+          console.warn('[Store] Nothing to compare: both versions have no conversations.');
+          return;
+        }
+        setWithoutHistory(draft => {
+          draft.diffView = { fileName, npcs, ...start };
+          draft.snapshotPreview = null;
+        });
+        console.log(`[Store] Comparing the project with ${fileName}.`);
+      },
+
+      showDiffConversation: (npcId, conversationId) => {
+        if (!get().diffView) return;
+        setWithoutHistory(draft => {
+          if (!draft.diffView) return;
+          draft.diffView.npcId = npcId;
+          draft.diffView.conversationId = conversationId;
+        });
+      },
+
+      closeDiffView: () => {
+        setWithoutHistory(draft => { draft.diffView = null; });
+      },
+
+      // Collaboration Actions
+      applyRemoteProject: (npcs, variables, localization) => {
+        const state = get();
+        if (state.npcs === npcs && state.variables === variables && state.localization === localization) return;
+        // Undo patches address items by array position; they can't be replayed once other writers added,
+        // removed or reordered items, so the local history starts over in that case
+        const variablesMoved = state.variables.length !== variables.length ||
+          state.variables.some((variable, index) => variable.id !== variables[index].id);
+        const localesMoved = !isEqual(state.localization.targetLocales, localization.targetLocales);
+        if (variablesMoved || localesMoved || !hasSameStructure(state.npcs, npcs)) {
+          history.clear();
+          syncHistoryFlags();
+        }
+        setWithoutHistory(draft => {
+          draft.npcs = npcs;
+          draft.variables = variables;
+          draft.localization = localization;
+          if (draft.activeLocale !== localization.sourceLocale && !localization.targetLocales.includes(draft.activeLocale)) {
+            draft.activeLocale = localization.sourceLocale;
+          }
+          keepValidSelection(draft);
+        });
+        triggerSave();
+      },
+
+      // Tab Actions
+      setWriterTab: async (isWriter) => {
+        if (get().isWriterTab === isWriter) return;
+        if (!isWriter) {
+          debouncedSaveFn.cancel();
+          history.clear();
+          syncHistoryFlags();
+          setWithoutHistory(draft => { draft.isWriterTab = false; });
+          return;
+        }
+        // Another tab may have saved after this one last loaded
+        await get().refreshFromDatabase();
+        setWithoutHistory(draft => { draft.isWriterTab = true; });
+      },
+
+      handleExternalSave: () => {
+        const { isLoading, isWriterTab } = get();
+        if (isLoading) return;
+        if (isWriterTab) {
+          // Only happens when a tab without the writer lock saved (e.g. an import there); don't save over it
+          debouncedSaveFn.cancel();
+          setWithoutHistory(draft => { draft.hasExternalChange = true; });
+          return;
+        }
+        get().refreshFromDatabase();
+      },
+
+      refreshFromDatabase: async () => {
+        try {
+          const loadedNpcs = await loadAllNpcs();
+          const loadedVariables = await loadAllVariables();
+          const loadedLocalization = await loadLocalizationSettings();
+          normalizeLoadedNpcs(loadedNpcs);
+          setWithoutHistory(draft => {
+            draft.npcs = loadedNpcs;
+            draft.variables = loadedVariables;
+            draft.localization = loadedLocalization;
+            if (loadedLocalization.sourceLocale !== draft.activeLocale && !loadedLocalization.targetLocales.includes(draft.activeLocale)) {
+              draft.activeLocale = loadedLocalization.sourceLocale;
+            }
+            keepValidSelection(draft);
+            draft.hasExternalChange = false;
+            draft.lastSaved = new Date();
+          });
+          history.clear();
+          syncHistoryFlags();
+          console.log('[Store] Reloaded the project saved by another tab.');
+        } catch (error: any) {
+          console.error('[Store] Reloading the project failed:', error);
+          set({ dbError: `Failed to load data: ${error?.message || error}` });
+        }
+      },
+
+      resolveExternalChange: async (keep) => {
+        if (keep === 'theirs') {
+          snapshotBeforeChange('conflict', 'Before loading the changes of another tab');
+          await get().refreshFromDatabase();
+          return;
+        }
+        const { npcs, variables, localization } = get();
+        set({ isSaving: true });
+        try {
+          await saveAllNpcs(npcs, variables, localization);
+          set({ isSaving: false, hasExternalChange: false, lastSaved: new Date(), dbError: null });
+          console.log('[Store] Overwrote the changes of another tab.');
+        } catch (error: any) {
+          console.error('[Store] Overwriting the project failed:', error);
+          set({ isSaving: false, dbError: `Save failed: ${error?.message || error}` });
+        }
+      },
     };
   })
 );
@@ -769,10 +1694,77 @@ export const useNodeInfoPanelData = () => useDialogueStore((state) => ({
     updateNodeText: state.updateNodeText,
     updateNodeType: state.updateNodeType,
     updateNodeNpcId: state.updateNodeNpcId,
+    updateNodeExpression: state.updateNodeExpression,
     updateNodeTargetConversation: state.updateNodeTargetConversation, // Expose new action
     availableNodeTypes: state.getNodeTypes(),
     npcOptions: state.getNpcListForDropdown(),
+    npcs: state.npcs, // For the expressions of the node's NPC
     allConversationsForDropdown: state.getAllConversationsForDropdown(), // Expose new selector
+    updateNodeActions: state.updateNodeActions,
+    variables: state.variables,
+    eventNames: state.getEventNames(),
+    localization: state.localization,
+    activeLocale: state.activeLocale,
+    markTranslationReviewed: state.markTranslationReviewed,
+}));
+
+export const useEdgeInfoPanelData = () => useDialogueStore((state) => ({
+    selectedEdge: state.getSelectedEdgeInfo(),
+    nodes: state.activeNodes(),
+    variables: state.variables,
+    onEdgesChange: state.onEdgesChange,
+    updateEdgeCondition: state.updateEdgeCondition,
+}));
+
+export const useVariablesData = () => useDialogueStore((state) => ({
+    variables: state.variables,
+    addVariable: state.addVariable,
+    updateVariable: state.updateVariable,
+    deleteVariable: state.deleteVariable,
+}));
+
+export const useValidationPanelData = () => useDialogueStore((state) => ({
+    npcs: state.npcs,
+    focusNode: state.focusNode,
+}));
+
+export const useSearchPanelData = () => useDialogueStore((state) => ({
+    npcs: state.npcs,
+    focusNode: state.focusNode,
+    selectNpc: state.selectNpc,
+    replaceText: state.replaceText,
+    isReadOnly: state.snapshotPreview !== null || state.diffView !== null || !state.isWriterTab,
+}));
+
+export const useLocalizationData = () => useDialogueStore((state) => ({
+    npcs: state.npcs,
+    localization: state.localization,
+    activeLocale: state.activeLocale,
+    selectedNpcId: state.selectedNpcId,
+    selectedConversationId: state.selectedConversationId,
+    setActiveLocale: state.setActiveLocale,
+    addLocale: state.addLocale,
+    removeLocale: state.removeLocale,
+    setSourceLocale: state.setSourceLocale,
+    applyTranslations: state.applyTranslations,
+    markTranslationReviewed: state.markTranslationReviewed,
+    focusNode: state.focusNode,
+}));
+
+export const useSnapshotData = () => useDialogueStore((state) => ({
+    snapshotPreview: state.snapshotPreview,
+    takeSnapshot: state.takeSnapshot,
+    previewSnapshot: state.previewSnapshot,
+    closeSnapshotPreview: state.closeSnapshotPreview,
+    restoreSnapshot: state.restoreSnapshot,
+    restoreConversationFromSnapshot: state.restoreConversationFromSnapshot,
+}));
+
+export const useDiffData = () => useDialogueStore((state) => ({
+    diffView: state.diffView,
+    npcs: state.npcs,
+    showDiffConversation: state.showDiffConversation,
+    closeDiffView: state.closeDiffView,
 }));
 
 export const useSidebarData = () => useDialogueStore((state) => ({
@@ -787,7 +1779,8 @@ export const useSidebarData = () => useDialogueStore((state) => ({
     deleteConversation: state.deleteConversation,
     updateNpcName: state.updateNpcName,
     updateConversationName: state.updateConversationName,
-    updateNpcImage: state.updateNpcImage,
+    updateNpcPortrait: state.updateNpcPortrait,
+    updateNpcExpressions: state.updateNpcExpressions,
     updateNpcAccentColor: state.updateNpcAccentColor,
     updateNpcLayoutDirection: state.updateNpcLayoutDirection,
     selectedNpc: state.selectedNpc(),
@@ -795,14 +1788,31 @@ export const useSidebarData = () => useDialogueStore((state) => ({
     reorderConversations: state.reorderConversations,
 }));
 
+// While a snapshot is previewed, the canvas shows its conversation instead of the selected one
+const getPreviewConversation = (state: DialogueState) => {
+    const preview = state.snapshotPreview;
+    return preview ? findConversation(preview.snapshot.npcs, preview.npcId, preview.conversationId)?.conversation : undefined;
+};
+
 export const useFlowData = () => useDialogueStore((state) => ({
-    nodes: state.activeNodes(),
-    edges: state.activeEdges(),
+    nodes: getPreviewConversation(state)?.nodes ?? state.activeNodes(),
+    edges: getPreviewConversation(state)?.edges ?? state.activeEdges(),
+    isReadOnly: state.snapshotPreview !== null || state.diffView !== null || !state.isWriterTab,
     onNodesChange: state.onNodesChange,
     onEdgesChange: state.onEdgesChange,
     onConnect: state.onConnect,
     setNodes: state.setNodes,
     setEdges: state.setEdges,
+    pasteNodes: state.pasteNodes,
+    deleteNodes: state.deleteNodes,
+    deleteSelection: state.deleteSelection,
+}));
+
+export const useHistoryControls = () => useDialogueStore((state) => ({
+    canUndo: state.canUndo,
+    canRedo: state.canRedo,
+    undo: state.undo,
+    redo: state.redo,
 }));
 
 export const useSavingStatus = () => useDialogueStore((state) => ({
@@ -814,13 +1824,22 @@ export const useSavingStatus = () => useDialogueStore((state) => ({
 }));
 
 
+// Next free number for labels like "User Response 3" among the conversation's nodes
+const getNextLabelNumber = (nodes: DialogueNode[], labelPrefix: string): number => {
+    const numbers = nodes
+        .map(node => node.data.label.startsWith(`${labelPrefix} `) ? Number(node.data.label.slice(labelPrefix.length + 1)) : NaN)
+        .filter(Number.isInteger);
+    return Math.max(0, ...numbers) + 1;
+};
+
 // Helper function to create new nodes (called from DialogueFlow onConnectEnd)
 export const createDialogueNode = (
     type: 'user' | 'npc' | 'custom' | 'input' | 'jump', // Added 'jump' type
     labelPrefix: string,
     position: XYPosition,
     isHorizontal: boolean,
-    selectedNpcId: string | null
+    selectedNpcId: string | null,
+    conversationNodes: DialogueNode[] // Nodes already in the conversation, for the label number
 ): DialogueNode => {
     const newNodeId = getNextNodeId();
     const newNode: DialogueNode = {
@@ -828,7 +1847,7 @@ export const createDialogueNode = (
         type: type,
         position: position,
         data: {
-            label: `${labelPrefix} ${newNodeId}`,
+            label: `${labelPrefix} ${getNextLabelNumber(conversationNodes, labelPrefix)}`,
             text: '',
             // Set npcId only if creating an NPC node and an NPC is selected
             ...(type === 'npc' && selectedNpcId ? { npcId: selectedNpcId } : {}),
@@ -0,0 +1,83 @@
+// File: src/store/navigationStore.ts
+import { create } from 'zustand';
+import { Viewport } from 'reactflow';
+import { NavigationEntry } from '../types';
+import { useDialogueStore } from './dialogueStore';
+import { findConversation } from '../utils/conversationUtils';
+
+const MAX_ENTRIES = 50;
+
+/**
+ * Back/forward history of the dialogues shown on the canvas, like a browser's. The canvas records
+ * the dialogue it leaves (see useNavigationHistory); nothing here is saved.
+ */
+interface NavigationState {
+  back: NavigationEntry[]; // Most recent last
+  forward: NavigationEntry[]; // Next one last
+  restoreRequest: NavigationEntry | null; // Viewport and selection the canvas should restore
+  getViewport: (() => Viewport) | null; // Provided by the canvas while it is mounted
+
+  setViewportSource: (getViewport: (() => Viewport) | null) => void;
+  record: (entry: NavigationEntry) => void; // Clears the forward history
+  goBack: () => void;
+  goForward: () => void;
+  clearRestoreRequest: () => void;
+}
+
+export const useNavigationStore = create<NavigationState>((set, get) => {
+  // Where the editor is now, to come back to after moving through the history
+  const captureLocation = (): NavigationEntry | null => {
+    const { selectedNpcId, selectedConversationId, activeNodes } = useDialogueStore.getState();
+    if (!selectedNpcId || !selectedConversationId) return null;
+    return {
+      npcId: selectedNpcId,
+      conversationId: selectedConversationId,
+      viewport: get().getViewport?.(),
+      selectedNodeIds: activeNodes().filter(node => node.selected).map(node => node.id),
+    };
+  };
+
+  const travel = (direction: 'back' | 'forward') => {
+    const { back, forward } = get();
+    const [from, to] = direction === 'back' ? [back, forward] : [forward, back];
+    // Entries of dialogues deleted in the meantime are dropped on the way
+    const { npcs } = useDialogueStore.getState();
+    let index = from.length - 1;
+    while (index >= 0 && !findConversation(npcs, from[index].npcId, from[index].conversationId)) index--;
+
+    const target = from[index];
+    const current = target ? captureLocation() : null;
+    const remaining = from.slice(0, Math.max(index, 0));
+    const passed = current ? [...to, current].slice(-MAX_ENTRIES) : to;
+    set({
+      back: direction === 'back' ? remaining : passed,
+      forward: direction === 'back' ? passed : remaining,
+      restoreRequest: target ?? null,
+    });
+    // Switched once the request is stored, so the canvas doesn't record the move as a new step
+    if (target) useDialogueStore.getState().focusNode(target.npcId, target.conversationId);
+  };
+
+  return {
+    back: [],
+    forward: [],
+    restoreRequest: null,
+    getViewport: null,
+
+    setViewportSource: (getViewport) => {
+      set({ getViewport });
+    },
+
+    record: (entry) => {
+      set(state => ({ back: [...state.back, entry].slice(-MAX_ENTRIES), forward: [] }));
+    },
+
+    goBack: () => travel('back'),
+
+    goForward: () => travel('forward'),
+
+    clearRestoreRequest: () => {
+      set({ restoreRequest: null });
+    },
+  };
+});
@@ -0,0 +1,80 @@
+// File: src/store/playtestStore.ts
+import { create } from 'zustand';
+import { PlaytestOption, PlaytestSession } from '../types';
+import { startPlaytest, choosePlaytestOption } from '../utils/playtestEngine';
+import { useDialogueStore } from './dialogueStore';
+
+/**
+ * State of the in-editor playtest simulator.
+ * Kept out of useDialogueStore because none of it is project data: nothing here is saved.
+ */
+interface PlaytestState {
+  isOpen: boolean;
+  session: PlaytestSession | null;
+  error: string | null;
+
+  open: () => void;
+  close: () => void;
+  restart: () => void;
+  choose: (option: PlaytestOption) => void;
+}
+
+/**
+ * Keeps the canvas on the conversation the playtest is currently in,
+ * reusing the same navigation as jump nodes.
+ */
+const followSessionOnCanvas = (session: PlaytestSession | null) => {
+  if (!session) return;
+  const { selectedNpcId, selectedConversationId, jumpToConversation } = useDialogueStore.getState();
+  if (session.npcId !== selectedNpcId || session.conversationId !== selectedConversationId) {
+    jumpToConversation(session.npcId, session.conversationId);
+  }
+};
+
+export const usePlaytestStore = create<PlaytestState>((set, get) => ({
+  isOpen: false,
+  session: null,
+  error: null,
+
+  open: () => {
+    set({ isOpen: true });
+    get().restart();
+  },
+
+  close: () => {
+    set({ isOpen: false, session: null, error: null });
+  },
+
+  restart: () => {
+    const { npcs, variables, selectedNpcId, selectedConversationId } = useDialogueStore.getState();
+    if (!selectedNpcId || !selectedConversationId) {
+      set({ session: null, error: 'Select a dialogue to playtest.' });
+      return;
+    }
+    const session = startPlaytest(npcs, variables, selectedNpcId, selectedConversationId);
+    if (!session) {
+      set({ session: null, error: 'This dialogue has no start node.' });
+      return;
+    }
+    console.log(`[Playtest] Started at NPC: ${selectedNpcId}, Conversation: ${selectedConversationId}`);
+    set({ session, error: null });
+    followSessionOnCanvas(session);
+  },
+
+  choose: (option) => {
+    const { session } = get();
+    if (!session) return;
+    const next = choosePlaytestOption(session, useDialogueStore.getState().npcs, option);
+    set({ session: next });
+    followSessionOnCanvas(next);
+  },
+}));
+
+/**
+ * ID of the node the playtest is currently on, if it belongs to the conversation shown on the canvas.
+ */
+export const usePlaytestHighlightNodeId = () => {
+  const session = usePlaytestStore(state => state.session);
+  const selectedConversationId = useDialogueStore(state => state.selectedConversationId);
+  return session && session.conversationId === selectedConversationId ? session.currentNodeId : null;
+};
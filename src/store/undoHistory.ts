@@ -0,0 +1,174 @@
+// src/store/undoHistory.ts
+import { enablePatches, Patch } from 'immer';
+
+enablePatches();
+
+// Rough upper bound for the memory held by undo/redo entries (UTF-16 estimate of the patches)
+export const MAX_HISTORY_BYTES = 20 * 1024 * 1024;
+
+export interface HistorySelection {
+  npcId: string | null;
+  conversationId: string | null;
+}
+
+export interface HistoryEntry {
+  patches: Patch[];
+  inversePatches: Patch[];
+  selectionBefore: HistorySelection;
+  selectionAfter: HistorySelection;
+  size: number; // Estimated bytes, computed once the entry is sealed
+  mergeKey?: string; // Consecutive entries with the same key collapse into one step
+}
+
+const samePath = (a: Patch, b: Patch) =>
+  a.path.length === b.path.length && a.path.every((segment, index) => segment === b.path[index]);
+
+/**
+ * True when both patch lists only replace the exact same paths, e.g. two steps of a drag.
+ * In that case the newer forward patches and the older inverse patches fully describe the pair.
+ */
+const isRepeatedReplace = (previous: Patch[], next: Patch[]) =>
+  previous.length === next.length &&
+  next.every(patch => patch.op === 'replace' && previous.some(p => p.op === 'replace' && samePath(p, patch)));
+
+const estimateSize = (entry: HistoryEntry) => {
+  try {
+    return (JSON.stringify(entry.patches).length + JSON.stringify(entry.inversePatches).length) * 2;
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Transactional undo/redo stack of immer patches.
+ *
+ * Changes recorded in the same synchronous task (e.g. React Flow removing nodes and then
+ * their edges for one Delete key press) are merged automatically. Longer interactions
+ * such as a drag are wrapped in beginGroup()/endGroup() and become a single step.
+ * Repeated edits of the same field (typing) share a mergeKey and collapse as well.
+ */
+export class UndoHistory {
+  private past: HistoryEntry[] = [];
+  private future: HistoryEntry[] = [];
+  private totalSize = 0;
+  private openEntry: HistoryEntry | null = null;
+  private groupDepth = 0;
+  private sealScheduled = false;
+
+  constructor(private readonly maxBytes: number = MAX_HISTORY_BYTES) {}
+
+  get canUndo(): boolean {
+    return this.past.length > 0 || this.openEntry !== null;
+  }
+
+  get canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  /**
+   * Opens a group: everything recorded until the matching endGroup() is one undo step.
+   * Groups may be nested; only the outermost one seals the entry.
+   */
+  beginGroup(): void {
+    if (this.groupDepth === 0) this.seal();
+    this.groupDepth++;
+  }
+
+  endGroup(): void {
+    if (this.groupDepth === 0) return;
+    this.groupDepth--;
+    if (this.groupDepth === 0) this.seal();
+  }
+
+  get isGrouping(): boolean {
+    return this.groupDepth > 0;
+  }
+
+  record(entry: Omit<HistoryEntry, 'size'>): void {
+    if (entry.patches.length === 0) return;
+    this.future = [];
+
+    // Reopen the previous step when it is the same kind of edit, e.g. more typing in the same node
+    const last = this.past[this.past.length - 1];
+    if (!this.openEntry && this.groupDepth === 0 && entry.mergeKey && last?.mergeKey === entry.mergeKey) {
+      this.past.pop();
+      this.totalSize -= last.size;
+      this.openEntry = last;
+    }
+
+    const open = this.openEntry;
+    if (open) {
+      if (isRepeatedReplace(open.patches, entry.patches)) {
+        open.patches = entry.patches;
+      } else {
+        open.patches = [...open.patches, ...entry.patches];
+        open.inversePatches = [...entry.inversePatches, ...open.inversePatches];
+      }
+      open.selectionAfter = entry.selectionAfter;
+      if (open.mergeKey !== entry.mergeKey) open.mergeKey = undefined;
+    } else {
+      this.openEntry = { ...entry, size: 0 };
+    }
+
+    // Outside an explicit group, the entry stays open only until the current task finishes
+    if (this.groupDepth === 0 && !this.sealScheduled) {
+      this.sealScheduled = true;
+      queueMicrotask(() => {
+        this.sealScheduled = false;
+        if (this.groupDepth === 0) this.seal();
+      });
+    }
+  }
+
+  /**
+   * Removes and returns the latest step, moving it to the redo stack.
+   */
+  undo(): HistoryEntry | null {
+    this.groupDepth = 0;
+    this.seal();
+    const entry = this.past.pop();
+    if (!entry) return null;
+    this.totalSize -= entry.size;
+    this.future.push(entry);
+    return entry;
+  }
+
+  /**
+   * Removes and returns the most recently undone step, moving it back to the undo stack.
+   */
+  redo(): HistoryEntry | null {
+    this.groupDepth = 0;
+    this.seal();
+    const entry = this.future.pop();
+    if (!entry) return null;
+    this.push(entry);
+    return entry;
+  }
+
+  clear(): void {
+    this.past = [];
+    this.future = [];
+    this.totalSize = 0;
+    this.openEntry = null;
+    this.groupDepth = 0;
+  }
+
+  private seal(): void {
+    if (!this.openEntry) return;
+    const entry = this.openEntry;
+    this.openEntry = null;
+    entry.size = estimateSize(entry);
+    this.push(entry);
+  }
+
+  private push(entry: HistoryEntry): void {
+    this.past.push(entry);
+    this.totalSize += entry.size;
+    // Drop the oldest steps once over budget, but always keep the latest one
+    while (this.totalSize > this.maxBytes && this.past.length > 1) {
+      const dropped = this.past.shift()!;
+      this.totalSize -= dropped.size;
+      console.log(`[History] Dropped oldest step (${dropped.size} bytes) to stay within memory limit.`);
+    }
+  }
+}
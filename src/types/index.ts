@@ -1,5 +1,5 @@
 // File: src/types/index.ts
-import { Node, Edge, Position, XYPosition } from 'reactflow';
+import { Node, Edge, Position, Viewport, XYPosition } from 'reactflow';
 
 export type PositioningMode = 'dagre' | 'manual';
 
@@ -22,12 +22,48 @@ export interface DialogueNodeData {
   className?: string;
   text?: string; // Body content
   npcId?: string; // ID of the associated NPC for 'npc' type nodes
+  expression?: string; // Name of one of that NPC's expressions for 'npc' nodes; the NPC's portrait is shown when unset
   targetNpcId?: string; // ID of the NPC owning the target conversation for 'jump' nodes
   targetConversationId?: string; // ID of the target conversation for 'jump' nodes
+  actions?: DialogueNodeAction[]; // Side-effects run in order when the node is reached
+  translations?: Record<string, NodeTranslation>; // Keyed by locale code; label/text above are the source locale
+}
+
+export type DialogueActionOperator = '=' | '+=' | '-=' | 'toggle';
+
+export interface SetVariableAction {
+  type: 'setVariable';
+  variable: string; // Variable name, same identifier used by conditions
+  operator: DialogueActionOperator;
+  value?: DialogueVariableValue; // Unused for 'toggle'
+}
+
+export interface EventAction {
+  type: 'event';
+  event: string; // Engine event name, e.g. "give_item" or "start_quest"
+  argument?: string; // Optional payload, e.g. "key_01"
+}
+
+export type DialogueNodeAction = SetVariableAction | EventAction;
+
+export interface DialogueEdgeData {
+  condition?: string; // Boolean expression over project variables, e.g. "trust >= 3 && has_key"
 }
 
 export type DialogueNode = Node<DialogueNodeData>;
-export type DialogueEdge = Edge;
+export type DialogueEdge = Edge<DialogueEdgeData>;
+
+export type DialogueVariableType = 'boolean' | 'number' | 'string' | 'enum';
+export type DialogueVariableValue = boolean | number | string;
+
+export interface DialogueVariable {
+  id: string;
+  name: string; // Identifier used inside conditions
+  type: DialogueVariableType;
+  defaultValue: DialogueVariableValue;
+  enumValues?: string[]; // Allowed values for 'enum' variables
+  description?: string;
+}
 
 export interface Conversation {
   id: string;
@@ -39,12 +75,34 @@ export interface Conversation {
 export interface NPC {
   id: string;
   name: string;
-  image?: string;
+  portraitId?: string; // Record in the portraits table (see portraitService)
+  image?: string; // Portrait as a data URL, from older projects or exports with embedded portraits; moved to the portraits table on load and import
   accentColor?: string;
   isHorizontal?: boolean; // NPC-specific layout direction
+  expressions?: NpcExpression[]; // Alternative portraits, picked per NPC node
   conversations: Conversation[];
 }
 
+export interface NpcExpression {
+  id: string;
+  name: string; // Unique per NPC; NPC nodes refer to the expression by this name, as the game engine will
+  portraitId?: string; // Falls back to the NPC's portrait when unset
+  image?: string; // Embedded data URL, as NPC.image
+}
+
+// Project data of a dialogue export
+export interface DialogueExportData {
+  variables: DialogueVariable[];
+  npcs: NPC[];
+  localization?: LocalizationSettings;
+}
+
+// Shape of the JSON produced by exportDialogueData. Older exports lack format and version, or are a bare NPC array
+export interface DialogueExportFile extends DialogueExportData {
+  format: 'dialogue-builder-export';
+  version: number;
+}
+
 export interface NodePositions {
   [nodeId: string]: XYPosition;
 }
@@ -83,4 +141,264 @@ export interface UseLayoutToggleReturn {
   direction: 'horizontal' | 'vertical';
 }
 
-export type UseAutoLayoutReturn = () => void;
\ No newline at end of file
+export type UseAutoLayoutReturn = () => void;
+// Playtest Types
+export type PlaytestEntryKind = 'npc' | 'user' | 'narration' | 'system';
+
+export interface PlaytestEntry {
+  id: number;
+  kind: PlaytestEntryKind;
+  text: string;
+  label?: string;
+  nodeId?: string;
+  npcId?: string; // Speaker for 'npc' entries
+  expression?: string; // Speaker's expression, see DialogueNodeData.expression
+}
+
+export interface PlaytestOption {
+  nodeId: string;
+  label: string;
+  kind: 'choice' | 'continue';
+}
+
+export interface PlaytestSession {
+  npcId: string;
+  conversationId: string;
+  currentNodeId: string | null;
+  values: Record<string, DialogueVariableValue>;
+  transcript: PlaytestEntry[];
+  options: PlaytestOption[];
+  finished: boolean;
+}
+
+// Graph Validation Types
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationIssueKind =
+  | 'missingStart'
+  | 'unreachable'
+  | 'deadEnd'
+  | 'brokenJump'
+  | 'missingJumpTarget'
+  | 'missingSpeaker'
+  | 'missingExpression'
+  | 'emptyText'
+  | 'duplicateLabel';
+
+export interface ValidationIssue {
+  id: string;
+  kind: ValidationIssueKind;
+  severity: ValidationSeverity;
+  message: string;
+  npcId: string;
+  conversationId: string;
+  nodeId?: string; // Absent for conversation-level issues
+}
+
+// Localization Types
+export type TranslatableField = 'label' | 'text';
+
+export interface TranslatedString {
+  value: string;
+  outdated?: boolean; // The source text changed after this translation was written
+}
+
+export type NodeTranslation = Partial<Record<TranslatableField, TranslatedString>>;
+
+export interface LocalizationSettings {
+  sourceLocale: string; // Locale of the node label/text, e.g. "en"
+  targetLocales: string[];
+}
+
+export type TranslationStatus = 'translated' | 'missing' | 'outdated';
+
+export interface TranslationUpdate {
+  nodeId: string;
+  locale: string;
+  field: TranslatableField;
+  value: string;
+  outdated?: boolean;
+}
+
+export type StringTableFormat = 'xliff12' | 'xliff20' | 'csv';
+
+// Merge Import Types
+export type MergeItemStatus = 'new' | 'unchanged' | 'changed' | 'conflicting';
+export type MergeResolution = 'ours' | 'theirs' | 'both';
+
+// Edits a merge import applies to the project, in order
+export type ImportChange =
+  | { type: 'addNpc'; npc: NPC }
+  | { type: 'updateNpc'; npcId: string; changes: Partial<Omit<NPC, 'id' | 'conversations'>> }
+  | { type: 'addConversation'; npcId: string; conversation: Conversation }
+  | { type: 'replaceConversation'; npcId: string; conversation: Conversation }; // Replaces the NPC's conversation with the same ID
+
+// Import Validation Types
+export interface ImportProblem {
+  path: string; // Location in the imported JSON, e.g. "npcs[0].conversations[1].edges[2].target"
+  message: string;
+  severity: ValidationSeverity; // Errors block the import unless repaired
+  repair?: string; // What the automatic repair does; absent when it can't be repaired
+}
+
+// Snapshot Types
+export type SnapshotTrigger = 'manual' | 'autosave' | 'import' | 'delete' | 'restore' | 'conflict';
+
+export interface ProjectSnapshot {
+  id: number;
+  createdAt: number; // Timestamp in ms
+  note: string;
+  trigger: SnapshotTrigger; // What took the snapshot; everything but 'manual' is automatic
+  npcs: NPC[];
+}
+
+export interface SnapshotPreview {
+  snapshot: ProjectSnapshot;
+  npcId: string;
+  conversationId: string;
+}
+
+// Diff Types
+export type DiffStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface WordDiffPart {
+  value: string;
+  type: 'added' | 'removed' | 'same';
+}
+
+export interface NodeDiff {
+  id: string;
+  status: DiffStatus;
+  before?: DialogueNode; // Current project
+  after?: DialogueNode; // Compared file
+  changedFields: string[]; // 'type' or data keys, for modified nodes
+}
+
+export interface EdgeDiff {
+  id: string;
+  status: DiffStatus;
+  before?: DialogueEdge;
+  after?: DialogueEdge;
+}
+
+export interface ConversationDiff {
+  npcId: string;
+  conversationId: string;
+  name: string;
+  status: DiffStatus;
+  nodes: NodeDiff[];
+  edges: EdgeDiff[];
+}
+
+export interface NpcDiff {
+  npcId: string;
+  name: string;
+  status: DiffStatus;
+  conversations: ConversationDiff[];
+}
+
+export interface DiffView {
+  fileName: string;
+  npcs: NPC[]; // The compared version ("after"); the current project is the base
+  npcId: string; // Conversation shown on the canvas
+  conversationId: string;
+}
+
+// Collaboration Types
+export type CollabStatus = 'disconnected' | 'connecting' | 'connected';
+
+export interface CollabSettings {
+  serverUrl: string; // WebSocket relay, e.g. ws://192.168.1.20:1234
+  room: string; // Everyone in the same room edits the same project
+  userName: string;
+}
+
+export interface PeerPresence {
+  clientId: number; // Y.Doc client ID of the peer
+  name: string;
+  color: string;
+  npcId: string | null; // Dialogue the peer has open
+  conversationId: string | null;
+  cursor: XYPosition | null; // Flow coordinates on that dialogue's canvas; null when off the canvas
+  selectedNodeIds: string[];
+}
+
+// Portrait Types
+export interface PortraitCrop {
+  // Fractions (0-1) of the uploaded image
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FocalPoint {
+  // Fractions (0-1) of the cropped image; square avatars are centered on it
+  x: number;
+  y: number;
+}
+
+// Anything with a portrait: an NPC or one of its expressions
+export type PortraitRef = Pick<NPC, 'portraitId' | 'image'>;
+
+// How the JSON export handles portraits: leave them out (only IDs), embed them as data URLs, or bundle them in a zip
+export type PortraitExportMode = 'none' | 'embed' | 'zip';
+
+// Project Types
+export interface ProjectInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+// Search Types
+export type SearchField = 'npcName' | 'conversationName' | 'label' | 'text';
+
+export interface SearchOptions {
+  query: string;
+  isRegex: boolean;
+  matchCase: boolean;
+}
+
+export interface SearchMatch {
+  id: string;
+  npcId: string;
+  conversationId?: string; // Unset for NPC names
+  nodeId?: string; // Set for node labels and text
+  field: SearchField;
+  value: string;
+  ranges: { start: number; end: number }[]; // Matched characters, for highlighting
+}
+
+// One field rewritten by find/replace; skipped when the field no longer reads `from`
+export interface TextReplacement {
+  npcId: string;
+  conversationId?: string;
+  nodeId?: string;
+  field: SearchField;
+  from: string;
+  to: string;
+}
+
+// Command Types
+export interface EditorCommand {
+  id: string; // Stable, e.g. 'layout.apply'
+  title: string;
+  category: string; // Shown next to the title, e.g. 'Layout'
+  keywords?: string[]; // Further words the command palette matches
+  isAvailable?: () => boolean; // Hidden from the palette and ignored by key bindings while false
+  isGlobal?: boolean; // Its key bindings also work in text fields and open dialogs
+  run: () => void;
+}
+
+// Key combos per command ID, e.g. { 'edit.undo': ['Ctrl+Z'] }
+export type Keybindings = Record<string, string[]>;
+
+// Navigation Types
+// A place in the project the back/forward history can return to
+export interface NavigationEntry {
+  npcId: string;
+  conversationId: string;
+  viewport?: Viewport; // Unset when the canvas wasn't showing
+  selectedNodeIds: string[];
+}
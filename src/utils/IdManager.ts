@@ -1,152 +1,89 @@
-import { NPC } from '../types';
+// src/utils/IdManager.ts
+
+/*
+ * New entities get ULIDs: 26 characters, unique across browsers and writers, and sortable by
+ * creation time. NPC, conversation, variable, edge and portrait IDs keep a readable prefix (`npc-01J...`).
+ * IDs are treated as opaque strings everywhere, so sequential IDs from older projects
+ * (`npc-3`, `conv-2`, `42`) stay valid and are never rewritten unless an import collides with them.
+ */
+
+const ULID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'; // Crockford base32
+const ULID_TIME_LENGTH = 10;
+const ULID_RANDOM_LENGTH = 16;
+
+// Counters used by earlier versions; no longer read, removed on startup
+const LEGACY_COUNTER_KEYS = [
+  'dialogueBuilder_nodeIdCounter',
+  'dialogueBuilder_npcIdCounter',
+  'dialogueBuilder_convIdCounter',
+  'dialogueBuilder_varIdCounter',
+];
+
+const getRandomValues = (length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  if (typeof crypto !== 'undefined' && 'getRandomValues' in crypto) {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return bytes;
+};
+
+/**
+ * Generates a ULID (https://github.com/ulid/spec): 48-bit millisecond timestamp + 80 random bits.
+ */
+export const generateUlid = (time: number = Date.now()): string => {
+  let timePart = '';
+  for (let i = 0, remaining = time; i < ULID_TIME_LENGTH; i++) {
+    timePart = ULID_ALPHABET[remaining % 32] + timePart;
+    remaining = Math.floor(remaining / 32);
+  }
+  // 5 bits per character; taking each byte modulo 32 keeps the distribution uniform
+  const randomPart = Array.from(getRandomValues(ULID_RANDOM_LENGTH), byte => ULID_ALPHABET[byte % 32]).join('');
+  return timePart + randomPart;
+};
 
 class IdManagerClass {
-  private nodeIdCounter: number = 10;
-  private npcIdCounter: number = 1;
-  private convIdCounter: number = 1;
-
   constructor() {
-    this.loadCounters();
-    console.log("[IdManager] Instantiated. Counters loaded:", this.getCounters());
-  }
-
-  private loadCounters(): void {
     try {
-      const nodeCounter = localStorage.getItem('dialogueBuilder_nodeIdCounter');
-      const npcCounter = localStorage.getItem('dialogueBuilder_npcIdCounter');
-      const convCounter = localStorage.getItem('dialogueBuilder_convIdCounter');
-
-      this.nodeIdCounter = nodeCounter ? parseInt(nodeCounter, 10) : 10;
-      this.npcIdCounter = npcCounter ? parseInt(npcCounter, 10) : 1;
-      this.convIdCounter = convCounter ? parseInt(convCounter, 10) : 1;
-
-      // Ensure counters are valid numbers and meet minimums
-      if (isNaN(this.nodeIdCounter) || this.nodeIdCounter < 10) this.nodeIdCounter = 10;
-      if (isNaN(this.npcIdCounter) || this.npcIdCounter < 1) this.npcIdCounter = 1;
-      if (isNaN(this.convIdCounter) || this.convIdCounter < 1) this.convIdCounter = 1;
-    } catch (e) {
-      console.error("[IdManager] Error loading counters:", e);
-      // Fallback to defaults on error
-      this.nodeIdCounter = 10;
-      this.npcIdCounter = 1;
-      this.convIdCounter = 1;
+      LEGACY_COUNTER_KEYS.forEach(key => localStorage.removeItem(key));
+    } catch {
+      // localStorage can be unavailable (private mode, tests); nothing to clean up then
     }
   }
 
-  private saveCounters(): void {
-    try {
-      localStorage.setItem('dialogueBuilder_nodeIdCounter', this.nodeIdCounter.toString());
-      localStorage.setItem('dialogueBuilder_npcIdCounter', this.npcIdCounter.toString());
-      localStorage.setItem('dialogueBuilder_convIdCounter', this.convIdCounter.toString());
-    } catch (e) {
-      console.error("[IdManager] Error saving counters:", e);
-    }
+  generateNodeId(): string {
+    return generateUlid();
   }
 
-  syncWithData(npcs: NPC[]): void {
-    if (!npcs || !Array.isArray(npcs)) {
-      console.warn("[IdManager] syncWithData received invalid data.");
-      return;
-    }
-
-    let highestNodeId = 0;
-    let highestNpcNum = 0;
-    let highestConvNum = 0;
-    let idsFound = false; // Track if any relevant IDs were processed
-
-    try {
-      npcs.forEach((npc: NPC) => {
-        if (npc.id?.startsWith('npc-')) {
-          idsFound = true;
-          const num = parseInt(npc.id.substring(4), 10);
-          if (!isNaN(num) && num > highestNpcNum) highestNpcNum = num;
-        }
-        npc.conversations?.forEach((conv) => {
-          if (conv.id?.startsWith('conv-')) {
-            idsFound = true;
-            const num = parseInt(conv.id.substring(5), 10);
-            if (!isNaN(num) && num > highestConvNum) highestConvNum = num;
-          }
-          conv.nodes?.forEach(node => {
-            // Node IDs are expected to be numeric strings
-             if (node.id && /^\d+$/.test(node.id)) {
-                idsFound = true;
-                const num = parseInt(node.id, 10);
-                if (!isNaN(num) && num > highestNodeId) highestNodeId = num;
-             }
-          });
-        });
-      });
-
-      let countersUpdated = false;
-      // Only update if a higher ID was found AND IDs were actually processed
-      if (idsFound && highestNodeId >= this.nodeIdCounter) {
-        this.nodeIdCounter = highestNodeId + 1;
-        countersUpdated = true;
-      }
-      if (idsFound && highestNpcNum >= this.npcIdCounter) {
-        this.npcIdCounter = highestNpcNum + 1;
-        countersUpdated = true;
-      }
-      if (idsFound && highestConvNum >= this.convIdCounter) {
-        this.convIdCounter = highestConvNum + 1;
-        countersUpdated = true;
-      }
-
-      if (idsFound) {
-        console.log(`[IdManager] Sync complete. Highest IDs found: Node=${highestNodeId}, NPC-Num=${highestNpcNum}, Conv-Num=${highestConvNum}.`);
-        if (countersUpdated) {
-          console.log("[IdManager] Counters updated to:", this.getCounters());
-          this.saveCounters();
-        } else {
-          console.log("[IdManager] Counters remain at:", this.getCounters());
-        }
-      } else {
-        console.log("[IdManager] No relevant IDs found during sync. Counters remain at:", this.getCounters());
-      }
+  generateNpcId(): string {
+    return `npc-${generateUlid()}`;
+  }
 
-    } catch (e) {
-      console.error("[IdManager] Error during syncWithData:", e);
-    }
+  generateConversationId(): string {
+    return `conv-${generateUlid()}`;
   }
 
-  generateNodeId(): string {
-    const nextId = this.nodeIdCounter.toString();
-    this.nodeIdCounter++;
-    this.saveCounters();
-    return nextId;
+  generateVariableId(): string {
+    return `var-${generateUlid()}`;
   }
 
-  generateNpcId(): string {
-    const nextId = `npc-${this.npcIdCounter}`;
-    this.npcIdCounter++;
-    this.saveCounters();
-    return nextId;
+  generateEdgeId(): string {
+    return `e-${generateUlid()}`;
   }
 
-  generateConversationId(): string {
-    const nextId = `conv-${this.convIdCounter}`;
-    this.convIdCounter++;
-    this.saveCounters();
-    return nextId;
+  generatePortraitId(): string {
+    return `portrait-${generateUlid()}`;
   }
 
-  getCounters(): Record<string, number> {
-    return {
-      node: this.nodeIdCounter,
-      npc: this.npcIdCounter,
-      conv: this.convIdCounter
-    };
+  generateExpressionId(): string {
+    return `expr-${generateUlid()}`;
   }
 
-  resetCounters(): void {
-    this.nodeIdCounter = 10;
-    this.npcIdCounter = 1;
-    this.convIdCounter = 1;
-    this.saveCounters();
-    console.log("[IdManager] Counters reset to:", this.getCounters());
+  generateProjectId(): string {
+    return `project-${generateUlid()}`;
   }
 }
 
 const IdManager = new IdManagerClass();
-export default IdManager;
\ No newline at end of file
+export default IdManager;
@@ -0,0 +1,103 @@
+// src/utils/actionUtils.ts
+import {
+  DialogueActionOperator,
+  DialogueNodeAction,
+  DialogueVariable,
+  DialogueVariableType,
+  DialogueVariableValue,
+  NPC,
+} from '../types';
+
+/**
+ * Returns the operators that make sense for a variable type.
+ */
+export const getOperatorsForType = (type: DialogueVariableType | undefined): DialogueActionOperator[] => {
+  switch (type) {
+    case 'number': return ['=', '+=', '-='];
+    case 'boolean': return ['=', 'toggle'];
+    default: return ['='];
+  }
+};
+
+/**
+ * Formats an action as a short, human readable line, e.g. "trust += 1" or "give_item(key_01)".
+ */
+export const formatAction = (action: DialogueNodeAction): string => {
+  if (action.type === 'event') {
+    return action.argument ? `${action.event || '?'}(${action.argument})` : `${action.event || '?'}()`;
+  }
+  if (action.operator === 'toggle') {
+    return `toggle ${action.variable || '?'}`;
+  }
+  const value = typeof action.value === 'string' ? `"${action.value}"` : String(action.value ?? '');
+  return `${action.variable || '?'} ${action.operator} ${value}`;
+};
+
+/**
+ * Checks an action against the variable registry.
+ * @returns A human readable problem, or null when the action is valid
+ */
+export const validateAction = (action: DialogueNodeAction, variables: DialogueVariable[]): string | null => {
+  if (action.type === 'event') {
+    return action.event.trim() ? null : 'Event name is missing';
+  }
+  const variable = variables.find(v => v.name === action.variable);
+  if (!variable) return action.variable ? `Unknown variable: ${action.variable}` : 'No variable selected';
+  if (!getOperatorsForType(variable.type).includes(action.operator)) {
+    return `Operator ${action.operator} is not valid for ${variable.type} variables`;
+  }
+  if (variable.type === 'enum' && action.operator === '=' && !(variable.enumValues || []).includes(String(action.value))) {
+    return `"${String(action.value)}" is not a value of ${variable.name}`;
+  }
+  return null;
+};
+
+/**
+ * Applies the variable changes of a list of actions to a copy of the given values.
+ * Event actions are returned separately so callers can report or dispatch them.
+ */
+export const applyActions = (
+  actions: DialogueNodeAction[] | undefined,
+  values: Record<string, DialogueVariableValue>
+): { values: Record<string, DialogueVariableValue>; events: { event: string; argument?: string }[] } => {
+  const nextValues = { ...values };
+  const events: { event: string; argument?: string }[] = [];
+
+  (actions || []).forEach(action => {
+    if (action.type === 'event') {
+      events.push({ event: action.event, argument: action.argument });
+      return;
+    }
+    if (!(action.variable in nextValues)) return;
+    const current = nextValues[action.variable];
+    switch (action.operator) {
+      case '=':
+        nextValues[action.variable] = action.value ?? current;
+        break;
+      case '+=':
+        nextValues[action.variable] = Number(current) + Number(action.value ?? 0);
+        break;
+      case '-=':
+        nextValues[action.variable] = Number(current) - Number(action.value ?? 0);
+        break;
+      case 'toggle':
+        nextValues[action.variable] = !current;
+        break;
+    }
+  });
+
+  return { values: nextValues, events };
+};
+
+/**
+ * Collects every event name used by any node in the project (for autocompletion).
+ */
+export const collectEventNames = (npcs: NPC[]): string[] => {
+  const names = new Set<string>();
+  npcs.forEach(npc => npc.conversations.forEach(conv => conv.nodes.forEach(node => {
+    node.data.actions?.forEach(action => {
+      if (action.type === 'event' && action.event.trim()) names.add(action.event.trim());
+    });
+  })));
+  return Array.from(names).sort();
+};
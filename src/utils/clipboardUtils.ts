@@ -0,0 +1,137 @@
+// src/utils/clipboardUtils.ts
+import { Position, XYPosition } from 'reactflow';
+import { DialogueEdge, DialogueNode, NPC } from '../types';
+import IdManager from './IdManager';
+
+/*
+ * Copied nodes travel through the system clipboard as JSON text, so a selection can be pasted
+ * into another conversation, another project or another browser window.
+ */
+
+const CLIPBOARD_FORMAT = 'dialogue-builder-nodes';
+const CLIPBOARD_VERSION = 1;
+
+export interface NodeClipboard {
+  format: typeof CLIPBOARD_FORMAT;
+  version: number;
+  sourceNpcId: string | null; // NPC owning the conversation the nodes were copied from
+  nodes: DialogueNode[];
+  edges: DialogueEdge[];
+}
+
+export interface PasteOptions {
+  position: XYPosition; // Top-left corner of the pasted selection
+  isHorizontal: boolean;
+  speaker?: Pick<NPC, 'id' | 'expressions'>; // Takes over the lines the source NPC spoke
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isClipboardNode = (value: unknown): value is DialogueNode =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.type === 'string'
+  && isRecord(value.position) && typeof value.position.x === 'number' && typeof value.position.y === 'number'
+  && isRecord(value.data) && typeof value.data.label === 'string';
+
+const isClipboardEdge = (value: unknown): value is DialogueEdge =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.source === 'string' && typeof value.target === 'string';
+
+/**
+ * The selected nodes and the edges between them. Start nodes stay behind, since a conversation
+ * has exactly one. Returns null when nothing copyable is selected.
+ */
+export const copyNodeSelection = (nodes: DialogueNode[], edges: DialogueEdge[], sourceNpcId: string | null): NodeClipboard | null => {
+  const copied = nodes
+    .filter(node => node.selected && node.type !== 'input')
+    .map(({ id, type, position, data }) => ({ id, type, position, data }));
+  if (copied.length === 0) return null;
+  const nodeIds = new Set(copied.map(node => node.id));
+  return {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    sourceNpcId,
+    nodes: copied,
+    edges: edges
+      .filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+      .map(({ id, source, target, sourceHandle, targetHandle, data }) => ({ id, source, target, sourceHandle, targetHandle, data })),
+  };
+};
+
+export const serializeNodeClipboard = (clipboard: NodeClipboard): string => JSON.stringify(clipboard);
+
+/**
+ * Reads clipboard text written by serializeNodeClipboard; anything else gives null.
+ */
+export const parseNodeClipboard = (text: string): NodeClipboard | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isRecord(value) || value.format !== CLIPBOARD_FORMAT || typeof value.version !== 'number' || value.version > CLIPBOARD_VERSION) return null;
+  if (!Array.isArray(value.nodes) || !value.nodes.every(isClipboardNode)) return null;
+  if (!Array.isArray(value.edges) || !value.edges.every(isClipboardEdge)) return null;
+  const nodes = value.nodes.filter(node => node.type !== 'input');
+  if (nodes.length === 0) return null;
+  return {
+    format: CLIPBOARD_FORMAT,
+    version: value.version,
+    sourceNpcId: typeof value.sourceNpcId === 'string' ? value.sourceNpcId : null,
+    nodes,
+    edges: value.edges,
+  };
+};
+
+/**
+ * True when pasting into a conversation of `npcId` would leave lines spoken by the NPC the nodes
+ * were copied from, i.e. when reassigning the speaker is worth offering.
+ */
+export const hasForeignSpeaker = (clipboard: NodeClipboard, npcId: string | null): boolean =>
+  clipboard.sourceNpcId !== null && clipboard.sourceNpcId !== npcId
+  && clipboard.nodes.some(node => node.data.npcId === clipboard.sourceNpcId);
+
+/**
+ * Top-left corner of the nodes, used to place a duplicate next to its original.
+ */
+export const getSelectionOrigin = (clipboard: NodeClipboard): XYPosition => ({
+  x: Math.min(...clipboard.nodes.map(node => node.position.x)),
+  y: Math.min(...clipboard.nodes.map(node => node.position.y)),
+});
+
+/**
+ * Nodes and edges ready to insert: fresh IDs, edges following their nodes, the selection moved
+ * to `position` with its layout kept, and everything selected.
+ */
+export const createPastedNodes = (clipboard: NodeClipboard, { position, isHorizontal, speaker }: PasteOptions): { nodes: DialogueNode[]; edges: DialogueEdge[] } => {
+  const nodeIdMap = new Map(clipboard.nodes.map(node => [node.id, IdManager.generateNodeId()]));
+  const origin = getSelectionOrigin(clipboard);
+  const expressionNames = new Set(speaker?.expressions?.map(expression => expression.name));
+
+  const nodes = clipboard.nodes.map((node): DialogueNode => {
+    const data = { ...node.data };
+    if (speaker && clipboard.sourceNpcId !== null && data.npcId === clipboard.sourceNpcId) {
+      data.npcId = speaker.id;
+      if (data.expression && !expressionNames.has(data.expression)) delete data.expression;
+    }
+    return {
+      id: nodeIdMap.get(node.id)!,
+      type: node.type,
+      position: { x: position.x + node.position.x - origin.x, y: position.y + node.position.y - origin.y },
+      data,
+      selected: true,
+      sourcePosition: isHorizontal ? Position.Right : Position.Bottom,
+      targetPosition: isHorizontal ? Position.Left : Position.Top,
+    };
+  });
+
+  const edges = clipboard.edges
+    .filter(edge => nodeIdMap.has(edge.source) && nodeIdMap.has(edge.target))
+    .map((edge): DialogueEdge => ({
+      ...edge,
+      id: IdManager.generateEdgeId(),
+      source: nodeIdMap.get(edge.source)!,
+      target: nodeIdMap.get(edge.target)!,
+    }));
+
+  return { nodes, edges };
+};
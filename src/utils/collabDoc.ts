@@ -0,0 +1,314 @@
+// src/utils/collabDoc.ts
+import * as Y from 'yjs';
+import { Conversation, DialogueEdge, DialogueNode, DialogueNodeData, DialogueVariable, LocalizationSettings, NPC } from '../types';
+import { DEFAULT_LOCALIZATION } from './localization';
+
+/*
+ * Layout of the shared collaboration document (Yjs):
+ *
+ *   npcs / npcsOrder                Y.Map of NPC maps by ID / Y.Array of their IDs
+ *     NPC map                       plain fields, conversations / conversationsOrder
+ *       conversation map            plain fields, nodes / nodesOrder, edges / edgesOrder
+ *         node map                  plain fields, data (Y.Map; label and text are Y.Text)
+ *         edge map                  plain fields
+ *   variables / variablesOrder      Y.Map of plain variables by ID / Y.Array of their IDs
+ *   localization                    Y.Map of the plain localization settings
+ *
+ * Every field is a separate entry, so concurrent edits of different fields (one writer moves a
+ * node while another edits its text) both survive, and concurrent edits of the same text merge
+ * character by character. React Flow view state such as selection and measured sizes stays local.
+ *
+ * Writes are diffs between two store states, never "make the document look like the store": a
+ * remote node that isn't in the store yet must not be deleted by an unrelated local edit.
+ */
+
+type YMap = Y.Map<unknown>;
+
+const NODE_VIEW_KEYS = ['selected', 'dragging', 'width', 'height', 'positionAbsolute', 'resizing'];
+const EDGE_VIEW_KEYS = ['selected'];
+const TEXT_KEYS = ['label', 'text'] as const;
+
+interface Identified {
+  id: string;
+}
+
+export interface CollabProject {
+  npcs: NPC[];
+  variables: DialogueVariable[];
+  localization: LocalizationSettings;
+}
+
+// JSON with sorted keys, so objects that only differ in key order compare equal
+const stableStringify = (value: unknown): string => JSON.stringify(value, (_key, item) =>
+  item && typeof item === 'object' && !Array.isArray(item)
+    ? Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]))
+    : item);
+
+const isEqual = (a: unknown, b: unknown) => a === b || stableStringify(a) === stableStringify(b);
+
+const omitKeys = (value: object, keys: string[]) =>
+  Object.fromEntries(Object.entries(value).filter(([key]) => !keys.includes(key)));
+
+const getChildMap = (parent: YMap, key: string): YMap => {
+  const child = parent.get(key);
+  if (child instanceof Y.Map) return child as YMap;
+  const created = new Y.Map<unknown>();
+  parent.set(key, created);
+  return created;
+};
+
+const getChildArray = (parent: YMap, key: string): Y.Array<string> => {
+  const child = parent.get(key);
+  if (child instanceof Y.Array) return child as Y.Array<string>;
+  const created = new Y.Array<string>();
+  parent.set(key, created);
+  return created;
+};
+
+// --- Writing ---
+
+// Replaces only the changed middle part, so concurrent edits elsewhere in the text are kept
+const writeText = (text: Y.Text, value: string) => {
+  const current = text.toString();
+  if (current === value) return;
+  let start = 0;
+  while (start < current.length && start < value.length && current[start] === value[start]) start++;
+  let end = 0;
+  while (
+    end < current.length - start && end < value.length - start &&
+    current[current.length - 1 - end] === value[value.length - 1 - end]
+  ) end++;
+  if (current.length - start - end > 0) text.delete(start, current.length - start - end);
+  if (value.length - start - end > 0) text.insert(start, value.slice(start, value.length - end));
+};
+
+const writePlainFields = <T extends object>(target: YMap, next: T, previous: T | undefined, skip: readonly string[]) => {
+  const nextFields = new Map<string, unknown>(Object.entries(next));
+  const previousFields = new Map<string, unknown>(Object.entries(previous ?? {}));
+  nextFields.forEach((value, key) => {
+    if (skip.includes(key) || value === undefined) return;
+    if (previous && previousFields.get(key) === value) return;
+    if (!isEqual(target.get(key), value)) target.set(key, value);
+  });
+  previousFields.forEach((_value, key) => {
+    if (!skip.includes(key) && nextFields.get(key) === undefined && target.has(key)) target.delete(key);
+  });
+};
+
+const writeOrder = (order: Y.Array<string>, ids: string[]) => {
+  const current = order.toArray();
+  const isPrefix = current.length <= ids.length && current.every((id, index) => id === ids[index]);
+  if (isPrefix) {
+    // Appending keeps items another writer added at the same time
+    if (ids.length > current.length) order.push(ids.slice(current.length));
+    return;
+  }
+  order.delete(0, order.length);
+  order.insert(0, ids);
+};
+
+/**
+ * Applies the changes between two versions of a list to a collection of Y.Maps: items removed
+ * since `previous` are deleted, new and changed items are written. Without `previous` nothing
+ * is deleted and every item is written (merging into what the document already has).
+ */
+const writeCollection = <T extends Identified>(
+  parent: YMap,
+  key: string,
+  items: T[],
+  previous: T[] | undefined,
+  writeItem: (target: YMap, item: T, previousItem: T | undefined) => void
+) => {
+  const collection = getChildMap(parent, key);
+  const previousById = new Map((previous ?? []).map(item => [item.id, item]));
+  const ids = new Set(items.map(item => item.id));
+  previousById.forEach((_item, id) => {
+    if (!ids.has(id)) collection.delete(id);
+  });
+  items.forEach(item => {
+    const previousItem = previousById.get(item.id);
+    if (previous && previousItem === item) return;
+    const existing = collection.get(item.id);
+    if (existing instanceof Y.Map) {
+      writeItem(existing as YMap, item, previousItem);
+      return;
+    }
+    const created = new Y.Map<unknown>();
+    collection.set(item.id, created); // Integrated first, so nested types can be written into it
+    writeItem(created, item, undefined);
+  });
+  if (!previous || items.length !== previous.length || items.some((item, index) => item.id !== previous[index].id)) {
+    writeOrder(getChildArray(parent, `${key}Order`), items.map(item => item.id));
+  }
+};
+
+const writeNode = (target: YMap, node: DialogueNode, previous: DialogueNode | undefined) => {
+  writePlainFields(target, node, previous, [...NODE_VIEW_KEYS, 'data']);
+  if (previous && previous.data === node.data) return;
+  const data = getChildMap(target, 'data');
+  writePlainFields(data, node.data, previous?.data, TEXT_KEYS);
+  TEXT_KEYS.forEach(key => {
+    const value = node.data[key];
+    if (typeof value !== 'string') {
+      if (previous?.data[key] !== undefined && data.has(key)) data.delete(key);
+      return;
+    }
+    const existing = data.get(key);
+    if (existing instanceof Y.Text) {
+      writeText(existing, value);
+    } else {
+      data.set(key, new Y.Text(value));
+    }
+  });
+};
+
+const writeEdge = (target: YMap, edge: DialogueEdge, previous: DialogueEdge | undefined) => {
+  writePlainFields(target, edge, previous, EDGE_VIEW_KEYS);
+};
+
+const writeConversation = (target: YMap, conversation: Conversation, previous: Conversation | undefined) => {
+  writePlainFields(target, conversation, previous, ['nodes', 'edges']);
+  writeCollection(target, 'nodes', conversation.nodes, previous?.nodes, writeNode);
+  writeCollection(target, 'edges', conversation.edges, previous?.edges, writeEdge);
+};
+
+const writeNpc = (target: YMap, npc: NPC, previous: NPC | undefined) => {
+  writePlainFields(target, npc, previous, ['conversations']);
+  writeCollection(target, 'conversations', npc.conversations, previous?.conversations, writeConversation);
+};
+
+const writeVariable = (target: YMap, variable: DialogueVariable, previous: DialogueVariable | undefined) => {
+  writePlainFields(target, variable, previous, []);
+};
+
+/**
+ * Writes the changes from `previous` to `next` into the document, in one transaction.
+ * Pass no previous state to merge the whole project in without deleting anything.
+ */
+export const writeProjectToDoc = (doc: Y.Doc, next: CollabProject, previous: CollabProject | undefined, origin: unknown) => {
+  doc.transact(() => {
+    const root = doc.getMap<unknown>('root');
+    if (!previous || previous.npcs !== next.npcs) writeCollection(root, 'npcs', next.npcs, previous?.npcs, writeNpc);
+    if (!previous || previous.variables !== next.variables) writeCollection(root, 'variables', next.variables, previous?.variables, writeVariable);
+    if (!previous || previous.localization !== next.localization) {
+      writePlainFields(getChildMap(root, 'localization'), next.localization, previous?.localization, []);
+    }
+  }, origin);
+};
+
+// --- Reading ---
+
+const readOrder = (parent: YMap, key: string): YMap[] => {
+  const collection = parent.get(key);
+  if (!(collection instanceof Y.Map)) return [];
+  const order = parent.get(`${key}Order`);
+  const ids = new Set<string>();
+  // Concurrent reorders can leave duplicates in the order; unordered items go last
+  (order instanceof Y.Array ? (order.toArray() as string[]) : []).forEach(id => {
+    if (collection.has(id)) ids.add(id);
+  });
+  Array.from(collection.keys()).sort().forEach(id => ids.add(id));
+  return Array.from(ids).map(id => collection.get(id)).filter((item): item is YMap => item instanceof Y.Map);
+};
+
+// The document holds what writePlainFields wrote for a T, so its fields are read back as one
+const readPlainFields = <T extends object>(source: YMap, skip: string[]): T => {
+  const fields: Record<string, unknown> = {};
+  source.forEach((value, key) => {
+    if (skip.includes(key) || key.endsWith('Order')) return;
+    fields[key] = value instanceof Y.Text ? value.toString() : value;
+  });
+  return fields as T;
+};
+
+// Keeps the previous object when its shared content didn't change, so React and the store skip it
+const reuse = <T extends object>(built: T, previous: T | undefined, viewKeys: string[]): T => {
+  if (!previous) return built;
+  if (isEqual(omitKeys(previous, viewKeys), built)) return previous;
+  const viewState = Object.fromEntries(Object.entries(previous).filter(([key]) => viewKeys.includes(key)));
+  return { ...built, ...viewState };
+};
+
+const reuseList = <T extends Identified>(items: T[], previous: T[] | undefined): T[] =>
+  previous && items.length === previous.length && items.every((item, index) => item === previous[index]) ? previous : items;
+
+const readNode = (source: YMap, previous: DialogueNode | undefined): DialogueNode => {
+  const data = source.get('data');
+  const node: DialogueNode = {
+    ...readPlainFields<Omit<DialogueNode, 'data'>>(source, ['data']),
+    data: data instanceof Y.Map ? readPlainFields<DialogueNodeData>(data, []) : { label: '' },
+  };
+  return reuse(node, previous, NODE_VIEW_KEYS);
+};
+
+const readEdge = (source: YMap, previous: DialogueEdge | undefined): DialogueEdge =>
+  reuse(readPlainFields<DialogueEdge>(source, []), previous, EDGE_VIEW_KEYS);
+
+const readConversation = (source: YMap, previous: Conversation | undefined): Conversation => {
+  const previousNodes = new Map((previous?.nodes ?? []).map(node => [node.id, node]));
+  const previousEdges = new Map((previous?.edges ?? []).map(edge => [edge.id, edge]));
+  const nodes = reuseList(readOrder(source, 'nodes').map(item => readNode(item, previousNodes.get(item.get('id') as string))), previous?.nodes);
+  const edges = reuseList(readOrder(source, 'edges').map(item => readEdge(item, previousEdges.get(item.get('id') as string))), previous?.edges);
+  const fields = readPlainFields<Omit<Conversation, 'nodes' | 'edges'>>(source, ['nodes', 'edges']);
+  if (previous && nodes === previous.nodes && edges === previous.edges && isEqual(omitKeys(previous, ['nodes', 'edges']), fields)) {
+    return previous;
+  }
+  return { ...fields, nodes, edges };
+};
+
+const readNpc = (source: YMap, previous: NPC | undefined): NPC => {
+  const previousConversations = new Map((previous?.conversations ?? []).map(conv => [conv.id, conv]));
+  const conversations = reuseList(
+    readOrder(source, 'conversations').map(item => readConversation(item, previousConversations.get(item.get('id') as string))),
+    previous?.conversations
+  );
+  const fields = readPlainFields<Omit<NPC, 'conversations'>>(source, ['conversations']);
+  if (previous && conversations === previous.conversations && isEqual(omitKeys(previous, ['conversations']), fields)) {
+    return previous;
+  }
+  return { ...fields, conversations };
+};
+
+// Rooms started before localization was shared have none; they keep the previous settings
+const readLocalization = (root: YMap, previous: LocalizationSettings | undefined): LocalizationSettings => {
+  const localization = root.get('localization');
+  if (!(localization instanceof Y.Map) || !localization.has('sourceLocale')) return previous ?? { ...DEFAULT_LOCALIZATION };
+  return reuse(readPlainFields<LocalizationSettings>(localization, []), previous, []);
+};
+
+/**
+ * Reads the project from the document, reusing every object of `previous` whose content is unchanged.
+ */
+export const readProjectFromDoc = (doc: Y.Doc, previous?: CollabProject): CollabProject => {
+  const root = doc.getMap<unknown>('root');
+  const previousNpcs = new Map((previous?.npcs ?? []).map(npc => [npc.id, npc]));
+  const previousVariables = new Map((previous?.variables ?? []).map(variable => [variable.id, variable]));
+  return {
+    npcs: reuseList(readOrder(root, 'npcs').map(item => readNpc(item, previousNpcs.get(item.get('id') as string))), previous?.npcs),
+    variables: reuseList(
+      readOrder(root, 'variables').map(item => reuse(readPlainFields<DialogueVariable>(item, []), previousVariables.get(item.get('id') as string), [])),
+      previous?.variables
+    ),
+    localization: readLocalization(root, previous?.localization),
+  };
+};
+
+export const isDocEmpty = (doc: Y.Doc): boolean => {
+  const root = doc.getMap<unknown>('root');
+  const npcs = root.get('npcs');
+  const variables = root.get('variables');
+  return !(npcs instanceof Y.Map && npcs.size > 0) && !(variables instanceof Y.Map && variables.size > 0);
+};
+
+/**
+ * True when both projects have the same NPCs, conversations, nodes and edges in the same order,
+ * i.e. array positions in one still point at the same items in the other.
+ */
+export const hasSameStructure = (a: NPC[], b: NPC[]): boolean => {
+  const sameIds = (x: Identified[], y: Identified[]) => x.length === y.length && x.every((item, index) => item.id === y[index].id);
+  return sameIds(a, b) && a.every((npc, npcIndex) => {
+    const other = b[npcIndex];
+    return sameIds(npc.conversations, other.conversations) && npc.conversations.every((conv, convIndex) =>
+      sameIds(conv.nodes, other.conversations[convIndex].nodes) && sameIds(conv.edges, other.conversations[convIndex].edges));
+  });
+};
@@ -0,0 +1,389 @@
+// src/utils/conditionUtils.ts
+import { DialogueVariable, DialogueVariableValue } from '../types';
+
+/*
+ * Small expression language used for edge conditions.
+ *
+ *   expr       := or
+ *   or         := and ( '||' and )*
+ *   and        := unary ( '&&' unary )*
+ *   unary      := '!' unary | comparison
+ *   comparison := primary ( ( '==' | '!=' | '<' | '<=' | '>' | '>=' ) primary )?
+ *   primary    := number | string | 'true' | 'false' | identifier | '(' expr ')'
+ *
+ * Identifiers refer to project variables by name. Strings use single or double quotes; a backslash
+ * escapes the next character, with the JSON escapes (\n, \t, \uXXXX...) that formatCondition writes.
+ */
+
+type TokenType = 'number' | 'string' | 'boolean' | 'identifier' | 'operator' | 'paren';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type ConditionAst =
+  | { kind: 'literal'; value: DialogueVariableValue }
+  | { kind: 'variable'; name: string }
+  | { kind: 'not'; operand: ConditionAst }
+  | { kind: 'logical'; op: '&&' | '||'; left: ConditionAst; right: ConditionAst }
+  | { kind: 'compare'; op: ComparisonOperator; left: ConditionAst; right: ConditionAst };
+
+export class ConditionError extends Error {
+  constructor(message: string, public position?: number) {
+    super(message);
+    this.name = 'ConditionError';
+  }
+}
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!'];
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['==', '!=', '<', '<=', '>', '>='];
+const IDENTIFIER_START = /[A-Za-z_]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_.]/;
+
+/** Matches a valid variable name (also used by the variable editor). */
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+const ESCAPED_CHARACTERS: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// Reads the string literal opening at `start`; returns its unescaped value and the index after the closing quote
+const readString = (expression: string, start: number): { value: string; end: number } => {
+  const quote = expression[start];
+  let value = '';
+  let i = start + 1;
+  while (i < expression.length && expression[i] !== quote) {
+    if (expression[i] !== '\\') {
+      value += expression[i++];
+      continue;
+    }
+    const escaped = expression[i + 1];
+    if (escaped === undefined) break;
+    if (escaped === 'u') {
+      const hex = expression.slice(i + 2, i + 6);
+      if (!/^[0-9A-Fa-f]{4}$/.test(hex)) throw new ConditionError('Invalid \\u escape', i);
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+    } else {
+      value += ESCAPED_CHARACTERS[escaped] ?? escaped;
+      i += 2;
+    }
+  }
+  if (i >= expression.length) throw new ConditionError('Unterminated string', start);
+  return { value, end: i + 1 };
+};
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => expression.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, start: i, end: i + operator.length });
+      i += operator.length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const { value, end } = readString(expression, i);
+      tokens.push({ type: 'string', value, start: i, end });
+      i = end;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(expression[i + 1] ?? ''))) {
+      const match = /^-?\d+(\.\d+)?/.exec(expression.slice(i));
+      const raw = match ? match[0] : char;
+      tokens.push({ type: 'number', value: raw, start: i, end: i + raw.length });
+      i += raw.length;
+      continue;
+    }
+
+    if (IDENTIFIER_START.test(char)) {
+      let end = i + 1;
+      while (end < expression.length && IDENTIFIER_PART.test(expression[end])) end++;
+      const word = expression.slice(i, end);
+      const type: TokenType = word === 'true' || word === 'false' ? 'boolean' : 'identifier';
+      tokens.push({ type, value: word, start: i, end });
+      i = end;
+      continue;
+    }
+
+    throw new ConditionError(`Unexpected character "${char}"`, i);
+  }
+
+  return tokens;
+};
+
+/**
+ * Parses a condition expression into an AST.
+ * @throws ConditionError when the expression is malformed
+ */
+export const parseCondition = (expression: string): ConditionAst => {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+  const consume = (): Token => {
+    const token = tokens[index++];
+    if (!token) throw new ConditionError('Unexpected end of expression', expression.length);
+    return token;
+  };
+
+  const parsePrimary = (): ConditionAst => {
+    const token = consume();
+    switch (token.type) {
+      case 'number': return { kind: 'literal', value: parseFloat(token.value) };
+      case 'string': return { kind: 'literal', value: token.value };
+      case 'boolean': return { kind: 'literal', value: token.value === 'true' };
+      case 'identifier': return { kind: 'variable', name: token.value };
+      case 'paren': {
+        if (token.value !== '(') throw new ConditionError('Unexpected ")"', token.start);
+        const inner = parseOr();
+        const closing = consume();
+        if (closing.value !== ')') throw new ConditionError('Expected ")"', closing.start);
+        return inner;
+      }
+      default:
+        throw new ConditionError(`Unexpected "${token.value}"`, token.start);
+    }
+  };
+
+  const parseComparison = (): ConditionAst => {
+    const left = parsePrimary();
+    const next = peek();
+    if (next?.type === 'operator' && COMPARISON_OPERATORS.includes(next.value as ComparisonOperator)) {
+      consume();
+      const right = parsePrimary();
+      return { kind: 'compare', op: next.value as ComparisonOperator, left, right };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ConditionAst => {
+    const next = peek();
+    if (next?.type === 'operator' && next.value === '!') {
+      consume();
+      return { kind: 'not', operand: parseUnary() };
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): ConditionAst => {
+    let left = parseUnary();
+    while (peek()?.value === '&&') {
+      consume();
+      left = { kind: 'logical', op: '&&', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  function parseOr(): ConditionAst {
+    let left = parseAnd();
+    while (peek()?.value === '||') {
+      consume();
+      left = { kind: 'logical', op: '||', left, right: parseAnd() };
+    }
+    return left;
+  }
+
+  if (tokens.length === 0) throw new ConditionError('Empty expression', 0);
+  const ast = parseOr();
+  const trailing = peek();
+  if (trailing) throw new ConditionError(`Unexpected "${trailing.value}"`, trailing.start);
+  return ast;
+};
+
+/**
+ * Returns the names of all variables referenced by a condition.
+ * Malformed expressions yield an empty list.
+ */
+export const getConditionVariableNames = (expression: string): string[] => {
+  try {
+    return Array.from(new Set(
+      tokenize(expression).filter(t => t.type === 'identifier').map(t => t.value)
+    ));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Checks a condition for syntax errors and references to unknown variables.
+ * @returns A human readable error, or null when the condition is valid (or empty)
+ */
+export const validateCondition = (expression: string | undefined, variables: DialogueVariable[]): string | null => {
+  if (!expression || !expression.trim()) return null;
+  try {
+    parseCondition(expression);
+  } catch (error) {
+    return error instanceof ConditionError ? error.message : String(error);
+  }
+  const knownNames = new Set(variables.map(v => v.name));
+  const unknown = getConditionVariableNames(expression).filter(name => !knownNames.has(name));
+  if (unknown.length > 0) {
+    return `Unknown variable${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`;
+  }
+  return null;
+};
+
+/**
+ * Rewrites every reference to a variable inside a condition, keeping the rest of the
+ * expression (spacing, literals) untouched. Used when a variable is renamed.
+ */
+export const renameConditionVariable = (expression: string, oldName: string, newName: string): string => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(expression);
+  } catch {
+    return expression; // Leave malformed expressions alone
+  }
+  let result = '';
+  let cursor = 0;
+  tokens.forEach(token => {
+    if (token.type === 'identifier' && token.value === oldName) {
+      result += expression.slice(cursor, token.start) + newName;
+      cursor = token.end;
+    }
+  });
+  return result + expression.slice(cursor);
+};
+
+export interface ConditionFormatOptions {
+  variable?: (name: string) => string; // e.g. name => `$${name}` for Yarn
+  and?: string;
+  or?: string;
+  not?: string; // Emitted before the operand, include a trailing space for word operators
+  compare?: Partial<Record<ComparisonOperator, string>>;
+}
+
+// Binding strength used to decide where parentheses are needed when printing
+const PRECEDENCE: Record<ConditionAst['kind'], number> = { logical: 1, not: 3, compare: 4, variable: 5, literal: 5 };
+const getPrecedence = (ast: ConditionAst) => (ast.kind === 'logical' && ast.op === '&&' ? 2 : PRECEDENCE[ast.kind]);
+
+/**
+ * Prints a parsed condition back to text, optionally in another language's syntax
+ * (variable prefixes, word operators). Used by the script exporters.
+ */
+export const formatCondition = (ast: ConditionAst, options: ConditionFormatOptions = {}): string => {
+  const wrap = (child: ConditionAst, minPrecedence: number) => {
+    const text = formatCondition(child, options);
+    return getPrecedence(child) < minPrecedence ? `(${text})` : text;
+  };
+
+  switch (ast.kind) {
+    case 'literal':
+      return typeof ast.value === 'string' ? JSON.stringify(ast.value) : String(ast.value);
+    case 'variable':
+      return options.variable ? options.variable(ast.name) : ast.name;
+    case 'not':
+      // Comparisons are always parenthesised: most target languages bind `!` tighter than `==`
+      return `${options.not ?? '!'}${ast.operand.kind === 'not' ? formatCondition(ast.operand, options) : wrap(ast.operand, PRECEDENCE.variable)}`;
+    case 'logical': {
+      const precedence = getPrecedence(ast);
+      const op = ast.op === '&&' ? options.and ?? '&&' : options.or ?? '||';
+      return `${wrap(ast.left, precedence)} ${op} ${wrap(ast.right, precedence)}`;
+    }
+    case 'compare':
+      return `${wrap(ast.left, PRECEDENCE.variable)} ${options.compare?.[ast.op] ?? ast.op} ${wrap(ast.right, PRECEDENCE.variable)}`;
+  }
+};
+
+// Reprints a condition with minimal parentheses; malformed ones are returned unchanged
+const tidyCondition = (condition: string): string => {
+  try {
+    return formatCondition(parseCondition(condition));
+  } catch {
+    return condition;
+  }
+};
+
+/**
+ * Joins conditions with &&, skipping empty ones. Used by the importers to flatten nested branches.
+ */
+export const combineConditions = (...conditions: (string | undefined)[]): string | undefined => {
+  const parts = conditions.filter((condition): condition is string => !!condition?.trim());
+  if (parts.length <= 1) return parts[0];
+  return tidyCondition(parts.map(part => `(${part})`).join(' && '));
+};
+
+export const negateCondition = (condition: string): string => tidyCondition(`!(${condition})`);
+
+const evaluateAst = (ast: ConditionAst, values: Record<string, DialogueVariableValue>): DialogueVariableValue => {
+  switch (ast.kind) {
+    case 'literal':
+      return ast.value;
+    case 'variable':
+      if (!(ast.name in values)) throw new ConditionError(`Unknown variable: ${ast.name}`);
+      return values[ast.name];
+    case 'not':
+      return !evaluateAst(ast.operand, values);
+    case 'logical': {
+      const left = Boolean(evaluateAst(ast.left, values));
+      if (ast.op === '&&') return left && Boolean(evaluateAst(ast.right, values));
+      return left || Boolean(evaluateAst(ast.right, values));
+    }
+    case 'compare': {
+      const left = evaluateAst(ast.left, values);
+      const right = evaluateAst(ast.right, values);
+      switch (ast.op) {
+        case '==': return left === right;
+        case '!=': return left !== right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+      }
+    }
+  }
+  return false;
+};
+
+/**
+ * Evaluates a condition against a set of variable values.
+ * Empty conditions always pass.
+ * @throws ConditionError when the expression is malformed or references unknown variables
+ */
+export const evaluateCondition = (expression: string | undefined, values: Record<string, DialogueVariableValue>): boolean => {
+  if (!expression || !expression.trim()) return true;
+  return Boolean(evaluateAst(parseCondition(expression), values));
+};
+
+/**
+ * Builds the initial variable state (name -> default value) for evaluation.
+ */
+export const getDefaultVariableValues = (variables: DialogueVariable[]): Record<string, DialogueVariableValue> => {
+  return variables.reduce<Record<string, DialogueVariableValue>>((acc, variable) => {
+    acc[variable.name] = variable.defaultValue;
+    return acc;
+  }, {});
+};
+
+/**
+ * Returns the default value for a freshly created variable of the given type.
+ */
+export const getInitialValueForType = (type: DialogueVariable['type'], enumValues?: string[]): DialogueVariableValue => {
+  switch (type) {
+    case 'boolean': return false;
+    case 'number': return 0;
+    case 'enum': return enumValues?.[0] ?? '';
+    default: return '';
+  }
+};
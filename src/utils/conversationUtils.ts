@@ -0,0 +1,86 @@
+// src/utils/conversationUtils.ts
+import { Conversation, DialogueEdge, DialogueNode, NPC } from '../types';
+import { getConditionVariableNames } from './conditionUtils';
+
+/**
+ * Resolves an NPC / conversation pair, as referenced by jump nodes.
+ * @returns The NPC and conversation, or null when either no longer exists
+ */
+export const findConversation = (
+  npcs: NPC[],
+  npcId: string | undefined,
+  conversationId: string | undefined
+): { npc: NPC; conversation: Conversation } | null => {
+  if (!npcId || !conversationId) return null;
+  const npc = npcs.find(n => n.id === npcId);
+  const conversation = npc?.conversations.find(c => c.id === conversationId);
+  return npc && conversation ? { npc, conversation } : null;
+};
+
+// A jump node and where it lives
+export interface IncomingJump {
+  npc: NPC;
+  conversation: Conversation;
+  node: DialogueNode;
+}
+
+/**
+ * Every jump node in the project that targets the given conversation, in project order.
+ */
+export const findIncomingJumps = (npcs: NPC[], npcId: string, conversationId: string): IncomingJump[] =>
+  npcs.flatMap(npc => npc.conversations.flatMap(conversation => conversation.nodes
+    .filter(node => node.type === 'jump' && node.data.targetNpcId === npcId && node.data.targetConversationId === conversationId)
+    .map(node => ({ npc, conversation, node }))));
+
+/**
+ * Every conversation whose edge conditions or setVariable actions use the variable, in project order.
+ */
+export const findVariableUsages = (npcs: NPC[], variableName: string): { npc: NPC; conversation: Conversation }[] =>
+  npcs.flatMap(npc => npc.conversations
+    .filter(conversation =>
+      conversation.edges.some(edge => edge.data?.condition && getConditionVariableNames(edge.data.condition).includes(variableName))
+      || conversation.nodes.some(node => node.data.actions?.some(action => action.type === 'setVariable' && action.variable === variableName)))
+    .map(conversation => ({ npc, conversation })));
+
+/**
+ * Returns the start ('input') node of a conversation.
+ */
+export const getStartNode = (conversation: Conversation): DialogueNode | undefined => {
+  return conversation.nodes.find(node => node.type === 'input');
+};
+
+// Moves between connected nodes: along the edges, or across the children of the same parent
+export type NodeStep = 'next' | 'previous' | 'nextSibling' | 'previousSibling';
+
+/**
+ * The node one step away from `nodeId`. Children, parents and siblings are ordered across the
+ * flow, left to right (top to bottom in horizontal layouts), so the first child is the leftmost.
+ * @returns The node ID, or null when there is nothing in that direction
+ */
+export const findAdjacentNode = (
+  nodes: DialogueNode[],
+  edges: DialogueEdge[],
+  nodeId: string,
+  step: NodeStep,
+  isHorizontal: boolean
+): string | null => {
+  const nodeById = new Map(nodes.map(node => [node.id, node]));
+  const byPosition = (ids: string[]) => Array.from(new Set(ids))
+    .filter(id => nodeById.has(id))
+    .sort((a, b) => {
+      const first = nodeById.get(a)!.position;
+      const second = nodeById.get(b)!.position;
+      return isHorizontal ? first.y - second.y : first.x - second.x;
+    });
+  const children = (id: string) => byPosition(edges.filter(edge => edge.source === id).map(edge => edge.target));
+  const parents = (id: string) => byPosition(edges.filter(edge => edge.target === id).map(edge => edge.source));
+
+  if (step === 'next') return children(nodeId)[0] ?? null;
+  if (step === 'previous') return parents(nodeId)[0] ?? null;
+
+  const parentId = parents(nodeId)[0];
+  if (!parentId) return null;
+  const siblings = children(parentId);
+  const index = siblings.indexOf(nodeId);
+  return siblings[index + (step === 'nextSibling' ? 1 : -1)] ?? null;
+};
@@ -0,0 +1,193 @@
+// src/utils/diffUtils.ts
+import {
+  Conversation,
+  ConversationDiff,
+  DialogueEdge,
+  DialogueNode,
+  DiffStatus,
+  EdgeDiff,
+  NodeDiff,
+  NPC,
+  NpcDiff,
+  WordDiffPart,
+} from '../types';
+
+/*
+ * Compares the current project ("before") with another version of it, e.g. a file a writer
+ * sent back ("after"). Entities are matched by ID; node positions are ignored, so moving a
+ * node around doesn't count as a change.
+ */
+
+// Above this many token pairs the word diff gives up and shows the texts as replaced
+const MAX_WORD_DIFF_CELLS = 250_000;
+
+/**
+ * Word-level diff (longest common subsequence over words and whitespace).
+ */
+export const diffWords = (before: string, after: string): WordDiffPart[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  if (a.length * b.length > MAX_WORD_DIFF_CELLS) {
+    return [
+      ...(before ? [{ value: before, type: 'removed' as const }] : []),
+      ...(after ? [{ value: after, type: 'added' as const }] : []),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: WordDiffPart[] = [];
+  const push = (value: string, type: WordDiffPart['type']) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.value += value;
+    else parts.push({ value, type });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'same');
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+  return parts;
+};
+
+const getChangedFields = (before: DialogueNode, after: DialogueNode): string[] => {
+  const fields: string[] = before.type !== after.type ? ['type'] : [];
+  const keys = new Set([...Object.keys(before.data), ...Object.keys(after.data)]);
+  keys.forEach(key => {
+    const field = key as keyof DialogueNode['data'];
+    if (JSON.stringify(before.data[field]) !== JSON.stringify(after.data[field])) fields.push(key);
+  });
+  return fields;
+};
+
+const getEdgeSignature = (edge: DialogueEdge) =>
+  JSON.stringify([edge.source, edge.target, edge.sourceHandle ?? null, edge.data?.condition ?? null]);
+
+const diffNodes = (before: DialogueNode[], after: DialogueNode[]): NodeDiff[] => {
+  const beforeById = new Map(before.map(node => [node.id, node]));
+  const afterIds = new Set(after.map(node => node.id));
+  const diffs: NodeDiff[] = after.map(node => {
+    const previous = beforeById.get(node.id);
+    if (!previous) return { id: node.id, status: 'added', after: node, changedFields: [] };
+    const changedFields = getChangedFields(previous, node);
+    return { id: node.id, status: changedFields.length > 0 ? 'modified' : 'unchanged', before: previous, after: node, changedFields };
+  });
+  before.forEach(node => {
+    if (!afterIds.has(node.id)) diffs.push({ id: node.id, status: 'removed', before: node, changedFields: [] });
+  });
+  return diffs;
+};
+
+// Matched by ID first; a recreated connection between the same handles counts as the same edge
+const diffEdges = (before: DialogueEdge[], after: DialogueEdge[]): EdgeDiff[] => {
+  const unmatched = new Map(before.map(edge => [edge.id, edge]));
+  const diffs: EdgeDiff[] = [];
+  const pending: DialogueEdge[] = [];
+  after.forEach(edge => {
+    const previous = unmatched.get(edge.id);
+    if (!previous) {
+      pending.push(edge);
+      return;
+    }
+    unmatched.delete(edge.id);
+    const status: DiffStatus = getEdgeSignature(previous) === getEdgeSignature(edge) ? 'unchanged' : 'modified';
+    diffs.push({ id: edge.id, status, before: previous, after: edge });
+  });
+  pending.forEach(edge => {
+    const signature = getEdgeSignature(edge);
+    const previous = Array.from(unmatched.values()).find(candidate => getEdgeSignature(candidate) === signature);
+    if (previous) {
+      unmatched.delete(previous.id);
+      diffs.push({ id: edge.id, status: 'unchanged', before: previous, after: edge });
+    } else {
+      diffs.push({ id: edge.id, status: 'added', after: edge });
+    }
+  });
+  unmatched.forEach(edge => diffs.push({ id: edge.id, status: 'removed', before: edge }));
+  return diffs;
+};
+
+export const diffConversation = (npcId: string, before?: Conversation, after?: Conversation): ConversationDiff => {
+  const nodes = diffNodes(before?.nodes ?? [], after?.nodes ?? []);
+  const edges = diffEdges(before?.edges ?? [], after?.edges ?? []);
+  let status: DiffStatus = 'unchanged';
+  if (!before) status = 'added';
+  else if (!after) status = 'removed';
+  else if (before.name !== after.name || [...nodes, ...edges].some(item => item.status !== 'unchanged')) status = 'modified';
+  return {
+    npcId,
+    conversationId: (after ?? before)!.id,
+    name: (after ?? before)!.name,
+    status,
+    nodes,
+    edges,
+  };
+};
+
+/**
+ * Per NPC and conversation, in the order of the compared file; NPCs and conversations that
+ * only exist in the project come after the ones they followed.
+ */
+export const diffProject = (before: NPC[], after: NPC[]): NpcDiff[] => {
+  const diffNpc = (npcBefore?: NPC, npcAfter?: NPC): NpcDiff => {
+    const npc = (npcAfter ?? npcBefore)!;
+    const beforeConversations = npcBefore?.conversations ?? [];
+    const afterConversations = npcAfter?.conversations ?? [];
+    const conversations = afterConversations.map(conv =>
+      diffConversation(npc.id, beforeConversations.find(c => c.id === conv.id), conv));
+    beforeConversations.forEach(conv => {
+      if (!afterConversations.some(c => c.id === conv.id)) conversations.push(diffConversation(npc.id, conv, undefined));
+    });
+    let status: DiffStatus = 'unchanged';
+    if (!npcBefore) status = 'added';
+    else if (!npcAfter) status = 'removed';
+    else if (npcBefore.name !== npcAfter.name || conversations.some(conv => conv.status !== 'unchanged')) status = 'modified';
+    return { npcId: npc.id, name: npc.name, status, conversations };
+  };
+
+  const diffs = after.map(npc => diffNpc(before.find(n => n.id === npc.id), npc));
+  before.forEach(npc => {
+    if (!after.some(n => n.id === npc.id)) diffs.push(diffNpc(npc, undefined));
+  });
+  return diffs;
+};
+
+export const countDiffStatuses = (items: { status: DiffStatus }[]): Record<DiffStatus, number> => {
+  const counts: Record<DiffStatus, number> = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+  items.forEach(item => { counts[item.status]++; });
+  return counts;
+};
+
+const withDiffClass = (className: string | undefined, status: DiffStatus) =>
+  status === 'unchanged' ? className : [className, `diff-${status}`].filter(Boolean).join(' ');
+
+/**
+ * Nodes and edges for the canvas: the compared version plus what it removed, marked with
+ * diff-added / diff-removed / diff-modified classes.
+ */
+export const buildDiffGraph = (diff: ConversationDiff): { nodes: DialogueNode[]; edges: DialogueEdge[] } => ({
+  nodes: diff.nodes.map(item => {
+    const node = (item.after ?? item.before)!;
+    return { ...node, selected: false, className: withDiffClass(node.className, item.status) };
+  }),
+  edges: diff.edges.map(item => {
+    const edge = (item.after ?? item.before)!;
+    return { ...edge, selected: false, className: withDiffClass(edge.className, item.status) };
+  }),
+});
@@ -0,0 +1,18 @@
+// src/utils/fileUtils.ts
+
+/**
+ * Starts a browser download of generated content (text, or bytes such as a zip file).
+ */
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const getDateStamp = () => new Date().toISOString().slice(0, 10);
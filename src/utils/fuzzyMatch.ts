@@ -0,0 +1,30 @@
+// src/utils/fuzzyMatch.ts
+
+const WORD_SEPARATORS = /[\s\-_/:.#()]/;
+
+/**
+ * Scores how well `query` matches `text`, ignoring case and spaces in the query: every query
+ * character has to appear in order. Runs of consecutive characters, matches at word starts and
+ * plain substrings score higher; shorter texts win ties.
+ * @returns The score, or null when the text doesn't match
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return 0;
+  const haystack = text.toLowerCase();
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 3;
+    if (index === 0 || WORD_SEPARATORS.test(haystack[index - 1])) score += 2;
+    previous = index;
+    from = index + 1;
+  }
+  if (haystack.includes(query.toLowerCase().trim())) score += needle.length * 2;
+  return score - haystack.length * 0.01;
+};
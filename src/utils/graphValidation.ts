@@ -0,0 +1,122 @@
+// src/utils/graphValidation.ts
+import {
+  Conversation,
+  DialogueNode,
+  NPC,
+  ValidationIssue,
+  ValidationIssueKind,
+  ValidationSeverity,
+} from '../types';
+import { findConversation, getStartNode } from './conversationUtils';
+
+// Node types whose body text is shown to the player
+const TEXT_NODE_TYPES = ['npc', 'user', 'custom'];
+
+const describeNode = (node: DialogueNode) => node.data.label ? `"${node.data.label}"` : `Node ${node.id}`;
+
+/**
+ * Collects the IDs of every node reachable from the start node by following edges.
+ */
+const getReachableNodeIds = (conversation: Conversation, startNodeId: string): Set<string> => {
+  const reachable = new Set<string>([startNodeId]);
+  const queue = [startNodeId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    conversation.edges.forEach(edge => {
+      if (edge.source === current && !reachable.has(edge.target)) {
+        reachable.add(edge.target);
+        queue.push(edge.target);
+      }
+    });
+  }
+  return reachable;
+};
+
+/**
+ * Runs every check over a single conversation.
+ */
+const validateConversation = (npcs: NPC[], npc: NPC, conversation: Conversation): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const addIssue = (kind: ValidationIssueKind, severity: ValidationSeverity, message: string, nodeId?: string) => {
+    issues.push({
+      id: `${kind}:${npc.id}:${conversation.id}:${nodeId ?? ''}`,
+      kind,
+      severity,
+      message,
+      npcId: npc.id,
+      conversationId: conversation.id,
+      nodeId,
+    });
+  };
+
+  const startNode = getStartNode(conversation);
+  if (!startNode) {
+    addIssue('missingStart', 'error', 'Dialogue has no start node.');
+  }
+  const reachable = startNode ? getReachableNodeIds(conversation, startNode.id) : null;
+  const sources = new Set(conversation.edges.map(edge => edge.source));
+  const npcIds = new Set(npcs.map(n => n.id));
+
+  // Count labels once so every duplicate can be flagged
+  const labelCounts = new Map<string, number>();
+  conversation.nodes.forEach(node => {
+    const label = node.data.label?.trim();
+    if (label) labelCounts.set(label, (labelCounts.get(label) ?? 0) + 1);
+  });
+
+  conversation.nodes.forEach(node => {
+    const name = describeNode(node);
+
+    if (reachable && !reachable.has(node.id)) {
+      addIssue('unreachable', 'warning', `${name} can't be reached from the start node.`, node.id);
+    }
+
+    if (node.type !== 'jump' && !sources.has(node.id)) {
+      addIssue('deadEnd', 'warning', `${name} has no outgoing connections.`, node.id);
+    }
+
+    if (node.type === 'jump') {
+      const { targetNpcId, targetConversationId } = node.data;
+      if (!targetNpcId || !targetConversationId) {
+        addIssue('missingJumpTarget', 'warning', `Jump ${name} has no target dialogue.`, node.id);
+      } else if (!findConversation(npcs, targetNpcId, targetConversationId)) {
+        addIssue('brokenJump', 'error', `Jump ${name} points to a dialogue that no longer exists.`, node.id);
+      }
+    }
+
+    if (node.type === 'npc' && node.data.npcId && !npcIds.has(node.data.npcId)) {
+      addIssue('missingSpeaker', 'error', `${name} is spoken by an NPC that was deleted.`, node.id);
+    }
+
+    if (node.type === 'npc' && node.data.expression) {
+      const speaker = npcs.find(n => n.id === node.data.npcId);
+      if (speaker && !speaker.expressions?.some(expression => expression.name === node.data.expression)) {
+        addIssue('missingExpression', 'warning', `${name} uses the expression "${node.data.expression}", which ${speaker.name} doesn't have.`, node.id);
+      }
+    }
+
+    if (node.type && TEXT_NODE_TYPES.includes(node.type) && !node.data.text?.trim()) {
+      addIssue('emptyText', 'warning', `${name} has no text.`, node.id);
+    }
+
+    const label = node.data.label?.trim();
+    const labelCount = label ? labelCounts.get(label) ?? 0 : 0;
+    if (labelCount > 1) {
+      addIssue('duplicateLabel', 'warning', `Label "${label}" is used by ${labelCount} nodes in this dialogue.`, node.id);
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Analyses every conversation of every NPC and returns the problems found,
+ * errors first, in NPC / conversation order otherwise.
+ */
+export const validateProject = (npcs: NPC[]): ValidationIssue[] => {
+  const issues = npcs.flatMap(npc =>
+    npc.conversations.flatMap(conversation => validateConversation(npcs, npc, conversation))
+  );
+  // Array.prototype.sort is stable, so the NPC / conversation order is kept within each severity
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
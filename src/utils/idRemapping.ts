@@ -0,0 +1,121 @@
+// src/utils/idRemapping.ts
+import { Conversation, DialogueNodeData, DialogueVariable, NPC } from '../types';
+import IdManager from './IdManager';
+
+export interface IdCollisions {
+  npcIds: string[];
+  conversationIds: string[];
+  nodeIds: string[];
+  variableIds: string[];
+}
+
+export interface RemapResult {
+  npcs: NPC[];
+  variables: DialogueVariable[];
+  idMap: Map<string, string>; // Old ID -> new ID, for every entity of the incoming data
+}
+
+const collectIds = (npcs: NPC[], variables: DialogueVariable[]) => ({
+  npcIds: new Set(npcs.map(npc => npc.id)),
+  conversationIds: new Set(npcs.flatMap(npc => npc.conversations.map(conv => conv.id))),
+  nodeIds: new Set(npcs.flatMap(npc => npc.conversations.flatMap(conv => conv.nodes.map(node => node.id)))),
+  variableIds: new Set(variables.map(variable => variable.id)),
+});
+
+/**
+ * IDs of the incoming data that are already used in the project. Node IDs are compared across
+ * all conversations, since string tables, search and focus requests address nodes by ID alone.
+ */
+export const findIdCollisions = (
+  existingNpcs: NPC[],
+  existingVariables: DialogueVariable[],
+  incomingNpcs: NPC[],
+  incomingVariables: DialogueVariable[]
+): IdCollisions => {
+  const existing = collectIds(existingNpcs, existingVariables);
+  const incoming = collectIds(incomingNpcs, incomingVariables);
+  return {
+    npcIds: Array.from(incoming.npcIds).filter(id => existing.npcIds.has(id)),
+    conversationIds: Array.from(incoming.conversationIds).filter(id => existing.conversationIds.has(id)),
+    nodeIds: Array.from(incoming.nodeIds).filter(id => existing.nodeIds.has(id)),
+    variableIds: Array.from(incoming.variableIds).filter(id => existing.variableIds.has(id)),
+  };
+};
+
+export const countIdCollisions = (collisions: IdCollisions): number =>
+  collisions.npcIds.length + collisions.conversationIds.length + collisions.nodeIds.length + collisions.variableIds.length;
+
+/**
+ * Copy of a conversation with fresh node and edge IDs; edge source/target follow their nodes.
+ * @param conversationId - ID of the copy (pass the original ID to keep it)
+ * @param mapNodeData - Rewrites references inside node data, e.g. speaker or jump target IDs
+ */
+export const renewConversationIds = (
+  conversation: Conversation,
+  conversationId: string,
+  mapNodeData: (data: DialogueNodeData) => DialogueNodeData = data => data,
+  idMap: Map<string, string> = new Map()
+): Conversation => {
+  const nodeIdMap = new Map(conversation.nodes.map(node => [node.id, IdManager.generateNodeId()]));
+  nodeIdMap.forEach((newId, oldId) => idMap.set(oldId, newId));
+  return {
+    ...conversation,
+    id: conversationId,
+    nodes: conversation.nodes.map(node => ({
+      ...node,
+      id: nodeIdMap.get(node.id)!,
+      ...(node.parentNode ? { parentNode: nodeIdMap.get(node.parentNode) ?? node.parentNode } : {}),
+      data: mapNodeData(node.data),
+    })),
+    edges: conversation.edges.map(edge => {
+      const newEdgeId = IdManager.generateEdgeId();
+      idMap.set(edge.id, newEdgeId);
+      return {
+        ...edge,
+        id: newEdgeId,
+        source: nodeIdMap.get(edge.source) ?? edge.source,
+        target: nodeIdMap.get(edge.target) ?? edge.target,
+      };
+    }),
+  };
+};
+
+/**
+ * Gives every NPC, conversation, node, edge and variable of the incoming data a fresh ID and
+ * rewrites the references between them: edge source/target, speaker NPCs of nodes and jump
+ * targets. References to entities outside the incoming data (e.g. a jump into one of our own
+ * dialogues) are kept as they are. The input is not modified.
+ */
+export const remapIds = (npcs: NPC[], variables: DialogueVariable[]): RemapResult => {
+  const idMap = new Map<string, string>();
+  const npcIdMap = new Map<string, string>();
+  const conversationIdMap = new Map<string, string>();
+  npcs.forEach(npc => {
+    npcIdMap.set(npc.id, IdManager.generateNpcId());
+    npc.conversations.forEach(conv => conversationIdMap.set(conv.id, IdManager.generateConversationId()));
+  });
+  const mapNpcId = (id: string | undefined) => (id !== undefined ? npcIdMap.get(id) ?? id : id);
+  const mapConversationId = (id: string | undefined) => (id !== undefined ? conversationIdMap.get(id) ?? id : id);
+
+  const remappedNpcs = npcs.map(npc => ({
+    ...npc,
+    id: npcIdMap.get(npc.id)!,
+    // Node IDs are remapped per conversation, so duplicates between conversations are split up too
+    conversations: npc.conversations.map(conv => renewConversationIds(conv, conversationIdMap.get(conv.id)!, data => ({
+      ...data,
+      ...(data.npcId !== undefined ? { npcId: mapNpcId(data.npcId) } : {}),
+      ...(data.targetNpcId !== undefined ? { targetNpcId: mapNpcId(data.targetNpcId) } : {}),
+      ...(data.targetConversationId !== undefined ? { targetConversationId: mapConversationId(data.targetConversationId) } : {}),
+    }), idMap)),
+  }));
+
+  const remappedVariables = variables.map(variable => {
+    const newId = IdManager.generateVariableId();
+    idMap.set(variable.id, newId);
+    return { ...variable, id: newId };
+  });
+
+  npcIdMap.forEach((newId, oldId) => idMap.set(oldId, newId));
+  conversationIdMap.forEach((newId, oldId) => idMap.set(oldId, newId));
+  return { npcs: remappedNpcs, variables: remappedVariables, idMap };
+};
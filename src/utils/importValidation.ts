@@ -0,0 +1,380 @@
+// src/utils/importValidation.ts
+import { DialogueExportData, DialogueVariableType, ImportProblem, ValidationSeverity } from '../types';
+import { createInitialConversationData } from '../constants/initialData';
+import { getInitialValueForType } from './conditionUtils';
+import IdManager from './IdManager';
+
+/*
+ * Structural and reference checks for imported JSON (the format described by
+ * public/dialogue-export.schema.json). Every problem is reported with its path in the file.
+ * Errors block the import; most of them can be repaired automatically, usually by filling in
+ * a default or dropping the broken entry. Warnings (e.g. a jump to a missing dialogue) don't
+ * block the import and are only fixed when a repair is requested.
+ */
+
+type JsonObject = Record<string, unknown>;
+
+// Written by exportDialogueData; raise the version when older editors can't read newer exports
+export const DIALOGUE_EXPORT_FORMAT = 'dialogue-builder-export';
+export const DIALOGUE_EXPORT_VERSION = 1;
+
+export interface ImportCheckResult {
+  data: DialogueExportData | null; // Null when the file has no NPC list at all
+  problems: ImportProblem[];
+}
+
+export class ImportValidationError extends Error {
+  constructor(public problems: ImportProblem[]) {
+    super(`Imported data has ${problems.length} problem${problems.length === 1 ? '' : 's'}`);
+    this.name = 'ImportValidationError';
+  }
+}
+
+const NODE_TYPES = ['input', 'npc', 'user', 'custom', 'jump'];
+const VARIABLE_TYPES: DialogueVariableType[] = ['boolean', 'number', 'string', 'enum'];
+const ACTION_TYPES = ['setVariable', 'event'];
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value !== '';
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const matchesVariableType = (type: DialogueVariableType, value: unknown) =>
+  type === 'boolean' ? typeof value === 'boolean'
+    : type === 'number' ? typeof value === 'number'
+    : typeof value === 'string';
+
+/**
+ * Checks parsed import data. The working copy is fixed up while walking, so one broken entry
+ * doesn't cause follow-up problems: errors are always fixed (the data is only used when they
+ * were repaired), warnings only when `repair` is set.
+ * Note: modifies `parsed`; pass a freshly parsed object.
+ */
+export const checkImportData = (parsed: unknown, repair = false): ImportCheckResult => {
+  const problems: ImportProblem[] = [];
+  // Records a problem and tells whether the fix should be applied to the working copy
+  const report = (path: string, message: string, severity: ValidationSeverity, fix?: string): boolean => {
+    problems.push({ path, message, severity, ...(fix ? { repair: fix } : {}) });
+    return fix !== undefined && (severity === 'error' || repair);
+  };
+
+  // Older exports are a bare NPC array or a wrapper without format and version
+  const npcsPath = Array.isArray(parsed) ? '$' : 'npcs';
+  const root: JsonObject | null = Array.isArray(parsed) ? { npcs: parsed } : isObject(parsed) ? parsed : null;
+  if (root && root.format !== undefined && root.format !== DIALOGUE_EXPORT_FORMAT) {
+    report('format', `Not a dialogue export (format ${JSON.stringify(root.format)}).`, 'error');
+    return { data: null, problems };
+  }
+  if (root && root.format !== undefined && typeof root.version !== 'number') {
+    report('version', 'Expected the export format version.', 'error');
+    return { data: null, problems };
+  }
+  if (root && typeof root.version === 'number' && root.version > DIALOGUE_EXPORT_VERSION) {
+    report('version', 'The file was made by a newer version of the editor.', 'error');
+    return { data: null, problems };
+  }
+  if (!root || !Array.isArray(root.npcs)) {
+    report(root ? 'npcs' : '$', 'Expected an array of NPCs.', 'error');
+    return { data: null, problems };
+  }
+
+  // Variables
+  let variables: unknown[] = [];
+  if (Array.isArray(root.variables)) variables = root.variables;
+  else if (root.variables !== undefined) report('variables', 'Expected an array of variables.', 'error', 'Drop the variables');
+  const variableIds = new Set<string>();
+  const variableNames = new Set<string>();
+  variables = variables.filter((variable, i) => {
+    const path = `variables[${i}]`;
+    if (!isObject(variable)) return !report(path, 'Expected a variable object.', 'error', 'Remove the entry');
+    if (!isNonEmptyString(variable.name)) return !report(`${path}.name`, 'Variable has no name.', 'error', 'Remove the variable');
+    if (variableNames.has(variable.name)) {
+      return !report(`${path}.name`, `Variable "${variable.name}" is defined twice.`, 'error', 'Remove the duplicate');
+    }
+    if (!VARIABLE_TYPES.includes(variable.type as DialogueVariableType)) {
+      if (report(`${path}.type`, `Unknown variable type ${JSON.stringify(variable.type)}.`, 'error', 'Make it a string variable')) {
+        variable.type = 'string';
+      }
+    }
+    const type = variable.type as DialogueVariableType;
+    if (variable.enumValues !== undefined && !isStringArray(variable.enumValues)) {
+      if (report(`${path}.enumValues`, 'Expected an array of strings.', 'error', 'Clear the enum values')) variable.enumValues = [];
+    }
+    if (!matchesVariableType(type, variable.defaultValue)) {
+      if (report(`${path}.defaultValue`, `Default value doesn't match the type ${type}.`, 'error', 'Reset the default value')) {
+        variable.defaultValue = getInitialValueForType(type, variable.enumValues as string[] | undefined);
+      }
+    }
+    if (!isNonEmptyString(variable.id) || variableIds.has(variable.id)) {
+      const message = isNonEmptyString(variable.id) ? `Duplicate variable ID "${variable.id}".` : 'Variable has no ID.';
+      if (report(`${path}.id`, message, 'error', 'Assign a new ID')) variable.id = IdManager.generateVariableId();
+    }
+    variableIds.add(variable.id as string);
+    variableNames.add(variable.name);
+    return true;
+  });
+
+  // Localization
+  let localization = root.localization;
+  if (localization !== undefined) {
+    if (!isObject(localization) || !isNonEmptyString(localization.sourceLocale)) {
+      if (report('localization', 'Expected a source locale and a list of target locales.', 'error', 'Drop the locale settings')) {
+        localization = undefined;
+      }
+    } else if (!isStringArray(localization.targetLocales)) {
+      if (report('localization.targetLocales', 'Expected an array of locale codes.', 'error', 'Keep only the valid locale codes')) {
+        localization.targetLocales = Array.isArray(localization.targetLocales)
+          ? localization.targetLocales.filter(isNonEmptyString)
+          : [];
+      }
+    }
+  }
+
+  // NPCs, conversations, nodes and edges
+  const npcIds = new Set<string>();
+  const conversationIds = new Set<string>();
+  const nodeIds = new Set<string>(); // Across the whole file
+  const conversationOwners = new Map<string, string>(); // Conversation ID -> NPC ID
+  const npcExpressions = new Map<string, Set<string>>(); // NPC ID -> expression names
+  const referencingNodes: { node: JsonObject; path: string }[] = []; // Checked once every NPC is known
+
+  const npcs = root.npcs.filter((npc, npcIndex) => {
+    const npcPath = `${npcsPath}[${npcIndex}]`;
+    if (!isObject(npc)) return !report(npcPath, 'Expected an NPC object.', 'error', 'Remove the entry');
+    if (!isNonEmptyString(npc.id) || npcIds.has(npc.id)) {
+      const message = isNonEmptyString(npc.id) ? `Duplicate NPC ID "${npc.id}".` : 'NPC has no ID.';
+      if (report(`${npcPath}.id`, message, 'error', 'Assign a new ID')) npc.id = IdManager.generateNpcId();
+    }
+    npcIds.add(npc.id as string);
+    if (typeof npc.name !== 'string') {
+      if (report(`${npcPath}.name`, 'NPC has no name.', 'error', 'Name it "Unnamed NPC"')) npc.name = 'Unnamed NPC';
+    }
+    (['portraitId', 'image', 'accentColor'] as const).forEach(field => {
+      if (npc[field] !== undefined && typeof npc[field] !== 'string') {
+        if (report(`${npcPath}.${field}`, 'Expected a string.', 'error', `Remove the ${field}`)) delete npc[field];
+      }
+    });
+    if (npc.isHorizontal !== undefined && typeof npc.isHorizontal !== 'boolean') {
+      if (report(`${npcPath}.isHorizontal`, 'Expected true or false.', 'error', 'Use the default layout')) delete npc.isHorizontal;
+    }
+    if (npc.expressions !== undefined) {
+      if (!Array.isArray(npc.expressions)) {
+        if (report(`${npcPath}.expressions`, 'Expected an array of expressions.', 'error', 'Remove the expressions')) delete npc.expressions;
+      } else {
+        const expressionIds = new Set<string>();
+        const expressionNames = new Set<string>();
+        npcExpressions.set(npc.id as string, expressionNames);
+        npc.expressions = npc.expressions.filter((expression: unknown, expressionIndex: number) => {
+          const path = `${npcPath}.expressions[${expressionIndex}]`;
+          if (!isObject(expression)) return !report(path, 'Expected an expression object.', 'error', 'Remove the entry');
+          if (!isNonEmptyString(expression.name)) return !report(`${path}.name`, 'Expression has no name.', 'error', 'Remove the expression');
+          if (expressionNames.has(expression.name)) {
+            return !report(`${path}.name`, `Expression "${expression.name}" is defined twice.`, 'error', 'Remove the duplicate');
+          }
+          if (!isNonEmptyString(expression.id) || expressionIds.has(expression.id)) {
+            const message = isNonEmptyString(expression.id) ? `Duplicate expression ID "${expression.id}".` : 'Expression has no ID.';
+            if (report(`${path}.id`, message, 'error', 'Assign a new ID')) expression.id = IdManager.generateExpressionId();
+          }
+          (['portraitId', 'image'] as const).forEach(field => {
+            if (expression[field] !== undefined && typeof expression[field] !== 'string') {
+              if (report(`${path}.${field}`, 'Expected a string.', 'error', `Remove the ${field}`)) delete expression[field];
+            }
+          });
+          expressionIds.add(expression.id as string);
+          expressionNames.add(expression.name);
+          return true;
+        });
+      }
+    }
+    if (!Array.isArray(npc.conversations)) {
+      if (report(`${npcPath}.conversations`, 'Expected an array of conversations.', 'error', 'Start with no conversations')) {
+        npc.conversations = [];
+      }
+      return true;
+    }
+
+    npc.conversations = npc.conversations.filter((conv: unknown, convIndex: number) => {
+      const convPath = `${npcPath}.conversations[${convIndex}]`;
+      if (!isObject(conv)) return !report(convPath, 'Expected a conversation object.', 'error', 'Remove the entry');
+      if (!isNonEmptyString(conv.id) || conversationIds.has(conv.id)) {
+        const message = isNonEmptyString(conv.id) ? `Duplicate conversation ID "${conv.id}".` : 'Conversation has no ID.';
+        if (report(`${convPath}.id`, message, 'error', 'Assign a new ID')) conv.id = IdManager.generateConversationId();
+      }
+      conversationIds.add(conv.id as string);
+      conversationOwners.set(conv.id as string, npc.id as string);
+      if (typeof conv.name !== 'string') {
+        if (report(`${convPath}.name`, 'Conversation has no name.', 'error', 'Name it "Unnamed Conversation"')) {
+          conv.name = 'Unnamed Conversation';
+        }
+      }
+      if (!Array.isArray(conv.nodes)) {
+        if (report(`${convPath}.nodes`, 'Expected an array of nodes.', 'error', 'Start with no nodes')) conv.nodes = [];
+      }
+      if (!Array.isArray(conv.edges)) {
+        if (report(`${convPath}.edges`, 'Expected an array of edges.', 'error', 'Start with no edges')) conv.edges = [];
+      }
+      if (!Array.isArray(conv.nodes) || !Array.isArray(conv.edges)) return true;
+
+      // Nodes
+      const conversationNodeIds = new Set<string>();
+      const renamedNodeIds = new Map<string, string>(); // Nodes renamed because another conversation uses their ID
+      const nodes: JsonObject[] = conv.nodes.filter((node: unknown, nodeIndex: number) => {
+        const nodePath = `${convPath}.nodes[${nodeIndex}]`;
+        if (!isObject(node)) return !report(nodePath, 'Expected a node object.', 'error', 'Remove the entry');
+        if (!isNonEmptyString(node.id)) {
+          if (report(`${nodePath}.id`, 'Node has no ID.', 'error', 'Assign a new ID')) node.id = IdManager.generateNodeId();
+        } else if (conversationNodeIds.has(node.id)) {
+          if (report(`${nodePath}.id`, `Duplicate node ID "${node.id}" in this conversation.`, 'error', 'Assign a new ID')) {
+            node.id = IdManager.generateNodeId();
+          }
+        } else if (nodeIds.has(node.id)) {
+          // Node IDs must be unique across the project, since string tables address nodes by ID alone
+          const oldId = node.id;
+          if (report(`${nodePath}.id`, `Node ID "${oldId}" is also used in another conversation.`, 'warning', 'Assign a new ID')) {
+            node.id = IdManager.generateNodeId();
+            renamedNodeIds.set(oldId, node.id as string);
+          }
+        }
+        conversationNodeIds.add(node.id as string);
+        nodeIds.add(node.id as string);
+
+        if (typeof node.type !== 'string' || !NODE_TYPES.includes(node.type)) {
+          if (report(`${nodePath}.type`, `Unknown node type ${JSON.stringify(node.type)}.`, 'error', 'Make it a generic node')) {
+            node.type = 'custom';
+          }
+        }
+        const position = node.position;
+        if (!isObject(position) || typeof position.x !== 'number' || typeof position.y !== 'number') {
+          if (report(`${nodePath}.position`, 'Expected numeric x and y coordinates.', 'error', 'Place it at the origin')) {
+            node.position = { x: 0, y: 0 };
+          }
+        }
+        if (!isObject(node.data)) {
+          if (report(`${nodePath}.data`, 'Node has no data.', 'error', 'Create empty node data')) node.data = { label: '' };
+          return true;
+        }
+        const data = node.data;
+        if (typeof data.label !== 'string') {
+          if (report(`${nodePath}.data.label`, 'Node has no label.', 'error', 'Use an empty label')) data.label = '';
+        }
+        (['text', 'className', 'npcId', 'expression', 'targetNpcId', 'targetConversationId'] as const).forEach(field => {
+          if (data[field] !== undefined && typeof data[field] !== 'string') {
+            if (report(`${nodePath}.data.${field}`, 'Expected a string.', 'error', `Remove the ${field}`)) delete data[field];
+          }
+        });
+        if (data.translations !== undefined && !isObject(data.translations)) {
+          if (report(`${nodePath}.data.translations`, 'Expected translations keyed by locale.', 'error', 'Remove the translations')) {
+            delete data.translations;
+          }
+        }
+        if (data.actions !== undefined) {
+          if (!Array.isArray(data.actions)) {
+            if (report(`${nodePath}.data.actions`, 'Expected an array of actions.', 'error', 'Remove the actions')) delete data.actions;
+          } else {
+            data.actions = data.actions.filter((action: unknown, actionIndex: number) =>
+              (isObject(action) && ACTION_TYPES.includes(action.type as string))
+              || !report(`${nodePath}.data.actions[${actionIndex}]`, 'Unknown action.', 'error', 'Remove the action'));
+          }
+        }
+        if (node.type === 'jump' || data.npcId !== undefined) referencingNodes.push({ node, path: nodePath });
+        return true;
+      });
+
+      if (!nodes.some(node => node.type === 'input')) {
+        if (report(`${convPath}.nodes`, 'Conversation has no start (input) node.', 'error', 'Add a start node')) {
+          const { nodes: [startNode] } = createInitialConversationData(conv.name as string, npc.isHorizontal !== false);
+          nodes.unshift(startNode as unknown as JsonObject);
+          nodeIds.add(startNode.id);
+        }
+      }
+      conv.nodes = nodes;
+
+      // Edges
+      const edgeIds = new Set<string>();
+      conv.edges = conv.edges.filter((edge: unknown, edgeIndex: number) => {
+        const edgePath = `${convPath}.edges[${edgeIndex}]`;
+        if (!isObject(edge)) return !report(edgePath, 'Expected an edge object.', 'error', 'Remove the entry');
+        for (const end of ['source', 'target'] as const) {
+          const nodeId = renamedNodeIds.get(edge[end] as string) ?? edge[end];
+          if (!isNonEmptyString(nodeId) || !conversationNodeIds.has(nodeId)) {
+            const message = isNonEmptyString(nodeId)
+              ? `Edge ${end} "${nodeId}" is not a node of this conversation.`
+              : `Edge has no ${end}.`;
+            return !report(`${edgePath}.${end}`, message, 'error', 'Remove the edge');
+          }
+          edge[end] = nodeId;
+        }
+        if (!isNonEmptyString(edge.id) || edgeIds.has(edge.id)) {
+          const message = isNonEmptyString(edge.id) ? `Duplicate edge ID "${edge.id}".` : 'Edge has no ID.';
+          if (report(`${edgePath}.id`, message, 'error', 'Assign a new ID')) edge.id = IdManager.generateEdgeId();
+        }
+        edgeIds.add(edge.id as string);
+        if (edge.data !== undefined) {
+          if (!isObject(edge.data)) {
+            if (report(`${edgePath}.data`, 'Expected an object.', 'error', 'Remove the edge data')) delete edge.data;
+          } else if (edge.data.condition !== undefined && typeof edge.data.condition !== 'string') {
+            if (report(`${edgePath}.data.condition`, 'Expected a condition expression.', 'error', 'Remove the condition')) {
+              delete edge.data.condition;
+            }
+          }
+        }
+        return true;
+      });
+      return true;
+    });
+    return true;
+  });
+
+  // References between NPCs and conversations
+  referencingNodes.forEach(({ node, path }) => {
+    const data = node.data as JsonObject;
+    if (data.npcId !== undefined && !npcIds.has(data.npcId as string)) {
+      if (report(`${path}.data.npcId`, `Speaker NPC "${data.npcId}" doesn't exist.`, 'warning', 'Remove the speaker')) delete data.npcId;
+    }
+    if (data.expression !== undefined && !npcExpressions.get(data.npcId as string)?.has(data.expression as string)) {
+      const message = `Expression "${data.expression}" isn't defined for the speaker NPC.`;
+      if (report(`${path}.data.expression`, message, 'warning', 'Use the default portrait')) delete data.expression;
+    }
+    if (node.type !== 'jump' || data.targetConversationId === undefined) return;
+    const owner = conversationOwners.get(data.targetConversationId as string);
+    if (owner === undefined) {
+      const message = `Jump target conversation "${data.targetConversationId}" doesn't exist.`;
+      if (report(`${path}.data.targetConversationId`, message, 'warning', 'Clear the jump target')) {
+        delete data.targetNpcId;
+        delete data.targetConversationId;
+      }
+    } else if (data.targetNpcId !== owner) {
+      const message = `Jump target conversation belongs to NPC "${owner}", not "${data.targetNpcId}".`;
+      if (report(`${path}.data.targetNpcId`, message, 'warning', 'Point it at the owning NPC')) data.targetNpcId = owner;
+    }
+  });
+
+  return {
+    data: {
+      npcs: npcs as unknown as DialogueExportData['npcs'],
+      variables: variables as unknown as DialogueExportData['variables'],
+      localization: localization as DialogueExportData['localization'],
+    },
+    problems,
+  };
+};
+
+/**
+ * Checks an import file without changing anything; invalid JSON is reported as a problem too.
+ */
+export const validateImportData = (jsonData: string): ImportProblem[] => {
+  try {
+    return checkImportData(JSON.parse(jsonData)).problems;
+  } catch (error) {
+    return [{ path: '$', message: `Not valid JSON: ${error instanceof Error ? error.message : String(error)}`, severity: 'error' }];
+  }
+};
+
+/**
+ * Whether every error of the report can be fixed by the automatic repair.
+ */
+export const isRepairable = (problems: ImportProblem[]): boolean =>
+  problems.every(problem => problem.severity !== 'error' || problem.repair !== undefined);
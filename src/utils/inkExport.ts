@@ -0,0 +1,275 @@
+// src/utils/inkExport.ts
+import { Conversation, DialogueNode, DialogueNodeAction, DialogueVariable, DialogueVariableValue, NPC } from '../types';
+import { formatCondition, parseCondition } from './conditionUtils';
+import { getStartNode } from './conversationUtils';
+
+/*
+ * Ink export. Every conversation becomes a knot named <Npc>_<Dialogue>:
+ *
+ *   === Merchant_Greeting ===
+ *   Merchant: Welcome!
+ *   ~ met = true
+ *   # playSound: bell
+ *   * {gold > 0} Show me your wares
+ *       -> Merchant_Greeting.node_14
+ *   * Bye
+ *       -> END
+ *   = node_14
+ *   ...
+ *
+ * NPC and narration nodes are content lines, user nodes are choices (`+` when the choice can be
+ * offered again through a loop), jump nodes divert to the target knot. Branches are nested as a
+ * weave; nodes reached from several places, or through a conditional edge, are written once as
+ * a stitch and diverted to.
+ */
+
+export interface InkExportResult {
+  source: string;
+  warnings: string[]; // Things Ink can't express the same way, or that were left out
+}
+
+/**
+ * Turns arbitrary text into a valid Ink identifier (letters, digits, underscores).
+ */
+export const toInkIdentifier = (text: string): string => {
+  const cleaned = text.trim().replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!cleaned) return '_';
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `_${cleaned}`;
+};
+
+/**
+ * Escapes characters Ink reads as logic, markup, tags or comments, and weave markers at the line start.
+ */
+export const escapeInkText = (text: string): string =>
+  text.replace(/[\\{}[\]|#<>~/]/g, char => `\\${char}`).replace(/^([*+\-=])/, '\\$1');
+
+const formatInkValue = (value: DialogueVariableValue | undefined): string =>
+  typeof value === 'string' ? JSON.stringify(value) : String(value ?? 0);
+
+const getTextLines = (text: string | undefined): string[] =>
+  (text || '').split('\n').map(line => line.trim()).filter(Boolean);
+
+const actionToInk = (action: DialogueNodeAction): string => {
+  if (action.type === 'event') {
+    const argument = action.argument?.trim();
+    return `# ${action.event}${argument ? `: ${argument}` : ''}`;
+  }
+  const variable = toInkIdentifier(action.variable);
+  switch (action.operator) {
+    case '+=': return `~ ${variable} += ${formatInkValue(action.value)}`;
+    case '-=': return `~ ${variable} -= ${formatInkValue(action.value)}`;
+    case 'toggle': return `~ ${variable} = not ${variable}`;
+    default: return `~ ${variable} = ${formatInkValue(action.value)}`;
+  }
+};
+
+/**
+ * Exports the conversations of one NPC, or of the whole project, as a single .ink story.
+ * @param scopeNpcId - NPC to export; every NPC when omitted. Jumps are still resolved against all NPCs.
+ */
+export const exportToInk = (npcs: NPC[], variables: DialogueVariable[], scopeNpcId?: string): InkExportResult => {
+  const warnings: string[] = [];
+  const scopedNpcs = scopeNpcId ? npcs.filter(npc => npc.id === scopeNpcId) : npcs;
+
+  // Knot names are assigned for every conversation so jumps out of the scope can be reported by name
+  const knotNames = new Map<string, string>(); // conversation id -> knot
+  const used = new Set<string>(['END', 'DONE']);
+  npcs.forEach(npc => npc.conversations.forEach(conv => {
+    const base = `${toInkIdentifier(npc.name)}_${toInkIdentifier(conv.name)}`;
+    let name = base;
+    for (let i = 2; used.has(name); i++) name = `${base}_${i}`;
+    used.add(name);
+    knotNames.set(conv.id, name);
+  }));
+  const exportedConversationIds = new Set(scopedNpcs.flatMap(npc => npc.conversations.map(conv => conv.id)));
+
+  const conditionToInk = (condition: string, where: string): string => {
+    try {
+      return formatCondition(parseCondition(condition), { variable: toInkIdentifier });
+    } catch {
+      warnings.push(`${where}: condition "${condition}" is not valid and was exported as written.`);
+      return condition;
+    }
+  };
+
+  // Returns the knot's lines, or null when the conversation can't be exported
+  const exportConversation = (npc: NPC, conv: Conversation): string[] | null => {
+    const knot = knotNames.get(conv.id)!;
+    const where = `${npc.name} / ${conv.name}`;
+    const startNode = getStartNode(conv);
+    if (!startNode) {
+      warnings.push(`${where}: no start node, the dialogue was skipped.`);
+      return null;
+    }
+
+    const nodeById = new Map(conv.nodes.map(node => [node.id, node]));
+    const outgoing = (node: DialogueNode) => conv.edges
+      .filter(edge => edge.source === node.id && nodeById.has(edge.target))
+      .map(edge => ({ edge, target: nodeById.get(edge.target)! }));
+    const describe = (node: DialogueNode) => `${where}: "${node.data.label}"`;
+
+    // Reachability from the start node; everything else can't be represented in the weave
+    const reachable = new Set<string>([startNode.id]);
+    const queue = [startNode];
+    while (queue.length > 0) {
+      outgoing(queue.shift()!).forEach(({ target }) => {
+        if (!reachable.has(target.id)) {
+          reachable.add(target.id);
+          queue.push(target);
+        }
+      });
+    }
+    conv.nodes.filter(node => !reachable.has(node.id)).forEach(node => {
+      warnings.push(`${describe(node)} can't be reached from the start node and was left out.`);
+    });
+
+    // Nodes on a loop can be visited again, so their choices must be sticky
+    const inCycle = new Set<string>();
+    conv.nodes.filter(node => reachable.has(node.id)).forEach(node => {
+      const seen = new Set<string>();
+      const stack = outgoing(node).map(({ target }) => target);
+      while (stack.length > 0) {
+        const current = stack.pop()!;
+        if (current.id === node.id) {
+          inCycle.add(node.id);
+          break;
+        }
+        if (seen.has(current.id)) continue;
+        seen.add(current.id);
+        stack.push(...outgoing(current).map(({ target }) => target));
+      }
+    });
+
+    // Stitches: the knot entry, merge points, and targets that are only reached through a divert
+    const stitches = new Set<string>([startNode.id]);
+    const incomingCount = new Map<string, number>();
+    conv.edges.forEach(edge => {
+      if (reachable.has(edge.source)) incomingCount.set(edge.target, (incomingCount.get(edge.target) ?? 0) + 1);
+    });
+    conv.nodes.filter(node => reachable.has(node.id) && node !== startNode).forEach(node => {
+      const count = incomingCount.get(node.id) ?? 0;
+      if (count > 1) {
+        stitches.add(node.id);
+        warnings.push(`${describe(node)} is reached from ${count} places; it was written as a stitch with diverts instead of a gather.`);
+      }
+    });
+    conv.nodes.filter(node => reachable.has(node.id)).forEach(node => {
+      const targets = outgoing(node);
+      const hasChoices = targets.some(({ target }) => target.type === 'user');
+      targets
+        .filter(({ edge, target }) => target.type !== 'user' && (hasChoices || edge.data?.condition))
+        .forEach(({ target }) => stitches.add(target.id));
+    });
+
+    const stitchOf = (node: DialogueNode) => `node_${node.id.replace(/[^A-Za-z0-9_]/g, '_')}`;
+    const stitchName = (node: DialogueNode) => (node === startNode ? knot : `${knot}.${stitchOf(node)}`);
+    const lines: string[] = [];
+    const indent = (depth: number) => '    '.repeat(depth);
+
+    const writeActions = (node: DialogueNode, depth: number) => {
+      node.data.actions?.forEach(action => lines.push(indent(depth) + actionToInk(action)));
+    };
+
+    const writeDivertOrFlow = (node: DialogueNode, depth: number, visiting: Set<string>) => {
+      if (stitches.has(node.id)) lines.push(`${indent(depth)}-> ${stitchName(node)}`);
+      else writeFlow(node, depth, visiting);
+    };
+
+    // Writes a node's content followed by where the story goes next
+    const writeFlow = (node: DialogueNode, depth: number, visiting: Set<string>) => {
+      if (visiting.has(node.id)) {
+        lines.push(`${indent(depth)}-> ${stitchName(node)}`);
+        return;
+      }
+      visiting = new Set(visiting).add(node.id);
+
+      if (node.type === 'npc') {
+        const speaker = (npcs.find(n => n.id === node.data.npcId) ?? npc).name;
+        getTextLines(node.data.text).forEach(line => lines.push(`${indent(depth)}${escapeInkText(speaker)}: ${escapeInkText(line)}`));
+      } else if (node.type === 'custom') {
+        getTextLines(node.data.text).forEach(line => lines.push(indent(depth) + escapeInkText(line)));
+      }
+      // User node text is written on the choice line instead
+      if (node.type !== 'user') writeActions(node, depth);
+
+      if (node.type === 'jump') {
+        const targetId = node.data.targetConversationId;
+        if (targetId && exportedConversationIds.has(targetId)) {
+          lines.push(`${indent(depth)}-> ${knotNames.get(targetId)}`);
+        } else {
+          warnings.push(targetId && knotNames.has(targetId)
+            ? `${describe(node)} jumps to ${knotNames.get(targetId)}, which is not part of this export; it ends the story instead.`
+            : `${describe(node)} has no jump target; it ends the story instead.`);
+          lines.push(`${indent(depth)}-> END`);
+        }
+        return;
+      }
+
+      const targets = outgoing(node);
+      const choices = targets.filter(({ target }) => target.type === 'user');
+      const others = targets.filter(({ target }) => target.type !== 'user');
+
+      if (choices.length > 0) {
+        const marker = (inCycle.has(node.id) ? '+' : '*').repeat(depth + 1);
+        choices.forEach(({ edge, target }) => {
+          const condition = edge.data?.condition ? ` {${conditionToInk(edge.data.condition, where)}}` : '';
+          const text = escapeInkText(getTextLines(target.data.text).join(' ') || target.data.label);
+          lines.push(`${indent(depth)}${marker}${condition} ${text}`);
+          if (stitches.has(target.id)) {
+            lines.push(`${indent(depth + 1)}-> ${stitchName(target)}`);
+          } else {
+            writeActions(target, depth + 1);
+            writeFlow(target, depth + 1, visiting);
+          }
+        });
+        // Other targets are followed when no choice is available, which is what fallback choices do
+        others.forEach(({ edge, target }) => {
+          const condition = edge.data?.condition ? ` {${conditionToInk(edge.data.condition, where)}}` : '';
+          lines.push(`${indent(depth)}${marker}${condition} -> ${stitchName(target)}`);
+        });
+        return;
+      }
+
+      for (const [index, { edge, target }] of others.entries()) {
+        if (edge.data?.condition) {
+          lines.push(`${indent(depth)}{${conditionToInk(edge.data.condition, where)}: -> ${stitchName(target)}}`);
+          continue;
+        }
+        if (index < others.length - 1) {
+          warnings.push(`${describe(node)} has connections after an unconditional one; they can never be followed and were left out.`);
+        }
+        writeDivertOrFlow(target, depth, visiting);
+        return;
+      }
+      lines.push(`${indent(depth)}-> END`);
+    };
+
+    lines.push(`=== ${knot} ===`);
+    writeFlow(startNode, 0, new Set());
+    conv.nodes
+      .filter(node => stitches.has(node.id) && node !== startNode)
+      .forEach(node => {
+        lines.push('', `= ${stitchOf(node)}`);
+        if (node.type === 'user') writeActions(node, 0);
+        writeFlow(node, 0, new Set());
+      });
+    return lines;
+  };
+
+  const variableLines = variables.map(variable => {
+    const name = toInkIdentifier(variable.name);
+    if (name !== variable.name) warnings.push(`Variable "${variable.name}" was renamed to "${name}".`);
+    return `VAR ${name} = ${formatInkValue(variable.defaultValue)}`;
+  });
+
+  const knots = scopedNpcs.flatMap(npc => npc.conversations.map(conv => ({ name: knotNames.get(conv.id)!, lines: exportConversation(npc, conv) })))
+    .filter((knot): knot is { name: string; lines: string[] } => knot.lines !== null);
+
+  // Ink starts reading at the top, so divert into the first knot
+  const blocks = [
+    ...(variableLines.length > 0 ? [variableLines.join('\n')] : []),
+    knots.length > 0 ? `-> ${knots[0].name}` : '-> END',
+    ...knots.map(knot => knot.lines.join('\n')),
+  ];
+  return { source: `${blocks.join('\n\n')}\n`, warnings };
+};
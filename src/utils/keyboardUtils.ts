@@ -0,0 +1,37 @@
+// src/utils/keyboardUtils.ts
+
+/**
+ * True when the event comes from a text field, where shortcuts like Ctrl+Z or Ctrl+C should keep
+ * their native meaning.
+ */
+export const isTextInputTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta', 'AltGraph', 'CapsLock'];
+
+// Names shown for keys whose event.key isn't readable as is
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  Esc: 'Escape',
+};
+
+/**
+ * The combo a key press stands for, written like 'Ctrl+Shift+Z': modifiers in a fixed order, then
+ * the key. Cmd on macOS counts as Ctrl. Letters follow the keyboard layout, so Ctrl+Z is the key
+ * labelled Z on AZERTY too. Digits come from the physical key, so Shift+1 stays 'Shift+1' on every
+ * layout, as do letter keys that don't type a Latin letter (non-Latin layouts, Alt on macOS).
+ * @returns null for a press of a modifier alone
+ */
+export const getKeyCombo = (event: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+  let key = KEY_NAMES[event.key] ?? event.key;
+  if (/^[a-z]$/i.test(key)) key = key.toUpperCase();
+  else if (/^Digit[0-9]$/.test(event.code)) key = event.code.slice(5);
+  else if (/^Key[A-Z]$/.test(event.code) && !/^[\x20-\x7e]$/.test(key)) key = event.code.slice(3);
+  else if (key.length === 1) key = key.toUpperCase();
+  return [event.ctrlKey || event.metaKey ? 'Ctrl' : '', event.altKey ? 'Alt' : '', event.shiftKey ? 'Shift' : '', key]
+    .filter(Boolean)
+    .join('+');
+};
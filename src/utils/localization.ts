@@ -0,0 +1,125 @@
+// src/utils/localization.ts
+import {
+  Conversation,
+  DialogueNode,
+  LocalizationSettings,
+  NodeTranslation,
+  NPC,
+  TranslatableField,
+  TranslationStatus,
+} from '../types';
+
+export const DEFAULT_LOCALIZATION: LocalizationSettings = { sourceLocale: 'en', targetLocales: [] };
+
+// Locale codes such as "de", "pt-BR" or "zh-Hant"
+export const LOCALE_CODE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+// Start and jump nodes hold editor-only text, so only these are sent to translators
+const TRANSLATABLE_NODE_TYPES = ['npc', 'user', 'custom'];
+
+export interface StringEntry {
+  key: string; // Stable string ID: `${nodeId}.${field}`
+  nodeId: string;
+  field: TranslatableField;
+  source: string;
+  npc: NPC;
+  conversation: Conversation;
+  node: DialogueNode;
+}
+
+export interface TranslationSummary {
+  total: number;
+  translated: number;
+  missing: number;
+  outdated: number;
+}
+
+export const getStringKey = (nodeId: string, field: TranslatableField): string => `${nodeId}.${field}`;
+
+/**
+ * Splits a string ID back into node ID and field; node IDs may contain dots themselves.
+ */
+export const parseStringKey = (key: string): { nodeId: string; field: TranslatableField } | null => {
+  const match = /^(.+)\.(label|text)$/.exec(key.trim());
+  return match ? { nodeId: match[1], field: match[2] as TranslatableField } : null;
+};
+
+export const isTranslatableNode = (node: DialogueNode): boolean => TRANSLATABLE_NODE_TYPES.includes(node.type || '');
+
+/**
+ * Source strings of a node that need translating (empty ones are skipped).
+ */
+export const getTranslatableFields = (node: DialogueNode): { field: TranslatableField; source: string }[] => {
+  if (!isTranslatableNode(node)) return [];
+  const fields: { field: TranslatableField; source: string }[] = [];
+  if (node.data.label?.trim()) fields.push({ field: 'label', source: node.data.label });
+  if (node.data.text?.trim()) fields.push({ field: 'text', source: node.data.text });
+  return fields;
+};
+
+export const getTranslationStatus = (node: DialogueNode, field: TranslatableField, locale: string): TranslationStatus => {
+  const translation = node.data.translations?.[locale]?.[field];
+  if (!translation?.value.trim()) return 'missing';
+  return translation.outdated ? 'outdated' : 'translated';
+};
+
+/**
+ * Text shown for a node field in the given locale, falling back to the source text.
+ */
+export const getLocalizedValue = (
+  node: DialogueNode,
+  field: TranslatableField,
+  locale: string,
+  localization: LocalizationSettings
+): string => {
+  const source = (field === 'label' ? node.data.label : node.data.text) || '';
+  if (locale === localization.sourceLocale) return source;
+  return node.data.translations?.[locale]?.[field]?.value || source;
+};
+
+/**
+ * Flags every translation of a field as outdated after its source text changed.
+ */
+export const markTranslationsOutdated = (translations: Record<string, NodeTranslation> | undefined, field: TranslatableField): void => {
+  Object.values(translations ?? {}).forEach(translation => {
+    const entry = translation[field];
+    if (entry?.value) entry.outdated = true;
+  });
+};
+
+/**
+ * Every translatable string of the project (or of the given NPCs), in project order.
+ */
+export const collectStringEntries = (npcs: NPC[]): StringEntry[] =>
+  npcs.flatMap(npc => npc.conversations.flatMap(conversation => conversation.nodes.flatMap(node =>
+    getTranslatableFields(node).map(({ field, source }) => ({
+      key: getStringKey(node.id, field),
+      nodeId: node.id,
+      field,
+      source,
+      npc,
+      conversation,
+      node,
+    }))
+  )));
+
+export const summarizeTranslations = (conversation: Conversation, locale: string): TranslationSummary => {
+  const summary: TranslationSummary = { total: 0, translated: 0, missing: 0, outdated: 0 };
+  conversation.nodes.forEach(node => getTranslatableFields(node).forEach(({ field }) => {
+    summary.total++;
+    summary[getTranslationStatus(node, field, locale)]++;
+  }));
+  return summary;
+};
+
+/**
+ * Normalises user input like "pt_br" to "pt-BR"; returns null for anything that isn't a locale code.
+ */
+export const normalizeLocaleCode = (input: string): string | null => {
+  const [language, ...rest] = input.trim().replace(/_/g, '-').split('-');
+  const code = [
+    language.toLowerCase(),
+    ...rest.map(part => (part.length === 2 ? part.toUpperCase() : part.length === 4 ? part[0].toUpperCase() + part.slice(1).toLowerCase() : part)),
+  ].join('-');
+  return LOCALE_CODE_PATTERN.test(code) ? code : null;
+};
@@ -0,0 +1,197 @@
+// src/utils/mergeImport.ts
+import { isEqual } from 'lodash';
+import {
+  Conversation,
+  DialogueEdge,
+  DialogueExportData,
+  DialogueNode,
+  DialogueVariable,
+  ImportChange,
+  MergeItemStatus,
+  MergeResolution,
+  NPC,
+} from '../types';
+import IdManager from './IdManager';
+import { findIdCollisions, countIdCollisions, remapIds, renewConversationIds } from './idRemapping';
+
+/*
+ * Merge import: incoming NPCs and conversations are matched with ours by ID and classified as
+ *  - new:         the ID isn't used in our project
+ *  - unchanged:   same ID and identical content
+ *  - changed:     same ID and name, different content (an edited copy of the same dialogue)
+ *  - conflicting: same ID but a different name or owner, i.e. two unrelated entities that
+ *                 ended up with the same ID (typical for the old sequential IDs)
+ * For each item the user keeps ours, takes theirs or keeps both; the decisions are turned into
+ * ImportChanges the store applies. A conflict can't be taken over, as that would overwrite the
+ * unrelated entity of ours: theirs is only kept as a copy with fresh IDs.
+ */
+
+export interface MergeConversationItem {
+  key: string;
+  npcId: string; // Owner in the incoming data
+  conversation: Conversation; // Theirs
+  ours?: { npcId: string; conversation: Conversation };
+  status: MergeItemStatus;
+}
+
+export interface MergeNpcItem {
+  key: string;
+  npc: NPC; // Theirs
+  ours?: NPC;
+  status: MergeItemStatus; // Status of the NPC itself (name, portrait, color, layout)
+  conversations: MergeConversationItem[];
+}
+
+export interface MergePreview {
+  items: MergeNpcItem[];
+  newVariables: DialogueVariable[]; // Incoming variables whose names we don't have yet
+  locales: string[]; // Target locales of the incoming data
+}
+
+export type MergeDecisions = Record<string, MergeResolution>;
+
+const getNpcKey = (npcId: string) => `npc:${npcId}`;
+const getConversationKey = (npcId: string, conversationId: string) => `conv:${npcId}:${conversationId}`;
+
+// React Flow view state (selection, measured size) isn't part of the content
+const stripNodeViewState = ({ selected: _s, dragging: _d, width: _w, height: _h, positionAbsolute: _p, ...node }: DialogueNode) => node;
+const stripEdgeViewState = ({ selected: _s, ...edge }: DialogueEdge) => edge;
+
+const getConversationSignature = (conversation: Conversation): string =>
+  JSON.stringify([conversation.name, conversation.nodes.map(stripNodeViewState), conversation.edges.map(stripEdgeViewState)]);
+
+const NPC_FIELDS = ['name', 'portraitId', 'image', 'accentColor', 'isHorizontal', 'expressions'] as const;
+
+const getNpcFields = (npc: NPC): Partial<Omit<NPC, 'id' | 'conversations'>> =>
+  Object.fromEntries(NPC_FIELDS.map(field => [field, npc[field]]));
+
+/**
+ * Compares the incoming data with the project.
+ */
+export const buildMergePreview = (ourNpcs: NPC[], ourVariables: DialogueVariable[], incoming: DialogueExportData): MergePreview => {
+  const ourConversations = new Map<string, { npcId: string; conversation: Conversation }>();
+  ourNpcs.forEach(npc => npc.conversations.forEach(conversation => ourConversations.set(conversation.id, { npcId: npc.id, conversation })));
+
+  const items = incoming.npcs.map((npc): MergeNpcItem => {
+    const ours = ourNpcs.find(n => n.id === npc.id);
+    const conversations = npc.conversations.map((conversation): MergeConversationItem => {
+      const match = ourConversations.get(conversation.id);
+      let status: MergeItemStatus = 'new';
+      if (match) {
+        if (match.npcId !== npc.id || match.conversation.name !== conversation.name) status = 'conflicting';
+        else status = getConversationSignature(match.conversation) === getConversationSignature(conversation) ? 'unchanged' : 'changed';
+      }
+      return { key: getConversationKey(npc.id, conversation.id), npcId: npc.id, conversation, ours: match, status };
+    });
+
+    let status: MergeItemStatus = 'new';
+    if (ours) {
+      if (ours.name !== npc.name) status = 'conflicting';
+      else {
+        const fieldsDiffer = NPC_FIELDS.some(field => !isEqual(ours[field], npc[field]));
+        status = fieldsDiffer ? 'changed' : 'unchanged';
+      }
+    }
+    return { key: getNpcKey(npc.id), npc, ours, status, conversations };
+  });
+
+  const ourVariableNames = new Set(ourVariables.map(variable => variable.name));
+  return {
+    items,
+    newVariables: incoming.variables.filter(variable => !ourVariableNames.has(variable.name)),
+    locales: incoming.localization?.targetLocales ?? [],
+  };
+};
+
+/**
+ * Suggested choice: import what's new or changed, keep both sides of a conflict.
+ */
+export const getDefaultResolution = (status: MergeItemStatus): MergeResolution => {
+  switch (status) {
+    case 'new':
+    case 'changed':
+      return 'theirs';
+    case 'conflicting':
+      return 'both';
+    default:
+      return 'ours';
+  }
+};
+
+export const getDefaultDecisions = (preview: MergePreview): MergeDecisions => {
+  const decisions: MergeDecisions = {};
+  preview.items.forEach(item => {
+    decisions[item.key] = getDefaultResolution(item.status);
+    item.conversations.forEach(conv => { decisions[conv.key] = getDefaultResolution(conv.status); });
+  });
+  return decisions;
+};
+
+/**
+ * Whether the conversations of an NPC item are decided one by one. New NPCs and NPCs kept
+ * as a copy bring all their conversations along.
+ */
+export const hasConversationChoices = (item: MergeNpcItem, decisions: MergeDecisions): boolean =>
+  item.status !== 'new' && decisions[item.key] !== 'both';
+
+/**
+ * Turns the decisions into the edits to apply. Anything that would reuse an ID we already
+ * have (other than the conversation it replaces) gets fresh IDs.
+ */
+export const buildImportChanges = (
+  ourNpcs: NPC[],
+  ourVariables: DialogueVariable[],
+  preview: MergePreview,
+  decisions: MergeDecisions
+): { changes: ImportChange[]; variables: DialogueVariable[] } => {
+  const changes: ImportChange[] = [];
+  const usedNodeIds = new Set(ourNpcs.flatMap(npc => npc.conversations.flatMap(conv => conv.nodes.map(node => node.id))));
+
+  // Node IDs must stay unique across the project
+  const withFreeNodeIds = (conversation: Conversation, conversationId: string, replaced?: Conversation): Conversation => {
+    const replacedIds = new Set(replaced?.nodes.map(node => node.id) ?? []);
+    const collides = conversation.nodes.some(node => usedNodeIds.has(node.id) && !replacedIds.has(node.id));
+    const result = collides || conversationId !== conversation.id ? renewConversationIds(conversation, conversationId) : conversation;
+    result.nodes.forEach(node => usedNodeIds.add(node.id));
+    return result;
+  };
+
+  preview.items.forEach(item => {
+    const npcDecision = decisions[item.key];
+
+    if (item.status === 'new' || npcDecision === 'both') {
+      if (npcDecision === 'ours') return; // Skipped new NPC
+      const { npcs: [copy] } = item.status === 'new' && countIdCollisions(findIdCollisions(ourNpcs, [], [item.npc], [])) === 0
+        ? { npcs: [item.npc] }
+        : remapIds([item.npc], []);
+      copy.conversations.forEach(conv => conv.nodes.forEach(node => usedNodeIds.add(node.id)));
+      changes.push({ type: 'addNpc', npc: item.status === 'new' ? copy : { ...copy, name: `${copy.name} (imported)` } });
+      return;
+    }
+
+    if (npcDecision === 'theirs' && item.status === 'changed') {
+      changes.push({ type: 'updateNpc', npcId: item.npc.id, changes: getNpcFields(item.npc) });
+    }
+
+    item.conversations.forEach(conv => {
+      const decision = decisions[conv.key];
+      if (conv.status === 'unchanged' || decision === 'ours') return;
+      if (conv.status === 'new') {
+        changes.push({ type: 'addConversation', npcId: item.npc.id, conversation: withFreeNodeIds(conv.conversation, conv.conversation.id) });
+      } else if (decision === 'theirs' && conv.status === 'changed') {
+        const conversation = withFreeNodeIds(conv.conversation, conv.conversation.id, conv.ours?.conversation);
+        changes.push({ type: 'replaceConversation', npcId: item.npc.id, conversation });
+      } else {
+        const copy = withFreeNodeIds(conv.conversation, IdManager.generateConversationId());
+        changes.push({ type: 'addConversation', npcId: item.npc.id, conversation: { ...copy, name: `${copy.name} (imported)` } });
+      }
+    });
+  });
+
+  // Variables are matched by name, since conditions and actions refer to them by name
+  const ourVariableIds = new Set(ourVariables.map(variable => variable.id));
+  const variables = preview.newVariables.map(variable =>
+    ourVariableIds.has(variable.id) ? { ...variable, id: IdManager.generateVariableId() } : variable);
+
+  return { changes, variables };
+};
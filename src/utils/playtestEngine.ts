@@ -0,0 +1,187 @@
+// src/utils/playtestEngine.ts
+import {
+  DialogueNode,
+  DialogueVariable,
+  NPC,
+  PlaytestEntry,
+  PlaytestOption,
+  PlaytestSession,
+} from '../types';
+import { evaluateCondition, getDefaultVariableValues } from './conditionUtils';
+import { applyActions, formatAction } from './actionUtils';
+import { findConversation, getStartNode } from './conversationUtils';
+
+// Guards against cycles made only of auto-advancing nodes (start -> jump -> start ...)
+const MAX_AUTO_STEPS = 100;
+
+let entryCounter = 0;
+const nextEntryId = () => ++entryCounter;
+
+// Choices are plain buttons: drops block markers, keeps the text of emphasis, code, links and images
+const markdownToPlain = (text: string | undefined) => (text || '')
+  .replace(/^[ \t]*(#{1,6}[ \t]+|>[ \t]?|[-*+][ \t]+|\d+\.[ \t]+)/gm, '')
+  .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/`([^`]*)`/g, '$1')
+  .replace(/(\*\*|~~)(.+?)\1/g, '$2')
+  .replace(/\*(.+?)\*/g, '$1')
+  .replace(/(^|\W)(__?)(.+?)\2(?=\W|$)/g, '$1$3') // Not inside words, so snake_case stays
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/**
+ * Nodes that are passed through without waiting for the player.
+ * NPC and custom lines stay on screen until "Continue" or a choice is picked.
+ */
+const isAutoAdvanceNode = (node: DialogueNode) =>
+  node.type === 'input' || node.type === 'user' || node.type === 'jump';
+
+/**
+ * Lists the nodes reachable from the current node, honouring edge conditions.
+ * User nodes become choices; otherwise the first passing target is offered as "Continue".
+ */
+const computeOptions = (session: PlaytestSession, npcs: NPC[], transcript: PlaytestEntry[]): PlaytestOption[] => {
+  const target = findConversation(npcs, session.npcId, session.conversationId);
+  if (!target || !session.currentNodeId) return [];
+  const { conversation } = target;
+
+  const passingTargets: DialogueNode[] = [];
+  conversation.edges
+    .filter(edge => edge.source === session.currentNodeId)
+    .forEach(edge => {
+      let passes = false;
+      try {
+        passes = evaluateCondition(edge.data?.condition, session.values);
+      } catch (error) {
+        transcript.push({
+          id: nextEntryId(),
+          kind: 'system',
+          text: `Condition "${edge.data?.condition}" could not be evaluated: ${error instanceof Error ? error.message : error}`,
+        });
+      }
+      const node = conversation.nodes.find(n => n.id === edge.target);
+      if (passes && node && !passingTargets.includes(node)) passingTargets.push(node);
+    });
+
+  const choices = passingTargets.filter(node => node.type === 'user');
+  if (choices.length > 0) {
+    return choices.map(node => ({
+      nodeId: node.id,
+      label: markdownToPlain(node.data.text) || node.data.label,
+      kind: 'choice',
+    }));
+  }
+  if (passingTargets.length > 0) {
+    return [{ nodeId: passingTargets[0].id, label: 'Continue', kind: 'continue' }];
+  }
+  return [];
+};
+
+/**
+ * Enters a node: records it in the transcript, runs its actions and, for jump nodes,
+ * moves into the target conversation. Auto-advancing nodes are followed until the
+ * simulation needs player input.
+ */
+const enterNode = (session: PlaytestSession, nodeId: string, npcs: NPC[], steps = 0): PlaytestSession => {
+  const target = findConversation(npcs, session.npcId, session.conversationId);
+  const node = target?.conversation.nodes.find(n => n.id === nodeId);
+  const transcript = [...session.transcript];
+
+  if (!target || !node) {
+    transcript.push({ id: nextEntryId(), kind: 'system', text: `Node ${nodeId} no longer exists.` });
+    return { ...session, transcript, options: [], finished: true };
+  }
+
+  if (steps > MAX_AUTO_STEPS) {
+    transcript.push({ id: nextEntryId(), kind: 'system', text: 'Stopped: too many automatic steps (possible loop).' });
+    return { ...session, transcript, options: [], finished: true };
+  }
+
+  switch (node.type) {
+    case 'npc':
+      transcript.push({
+        id: nextEntryId(),
+        kind: 'npc',
+        text: node.data.text || '',
+        label: node.data.label,
+        nodeId: node.id,
+        npcId: node.data.npcId || target.npc.id,
+        expression: node.data.expression,
+      });
+      break;
+    case 'user':
+      transcript.push({ id: nextEntryId(), kind: 'user', text: node.data.text || node.data.label, label: node.data.label, nodeId: node.id });
+      break;
+    case 'custom':
+      transcript.push({ id: nextEntryId(), kind: 'narration', text: node.data.text || node.data.label, label: node.data.label, nodeId: node.id });
+      break;
+    default:
+      break;
+  }
+
+  const { values } = applyActions(node.data.actions, session.values);
+  node.data.actions?.forEach(action => {
+    const prefix = action.type === 'event' ? 'Event' : 'Set';
+    transcript.push({ id: nextEntryId(), kind: 'system', text: `${prefix}: ${formatAction(action)}` });
+  });
+
+  let next: PlaytestSession = { ...session, currentNodeId: node.id, values, transcript, options: [], finished: false };
+
+  if (node.type === 'jump') {
+    const jumpTarget = findConversation(npcs, node.data.targetNpcId, node.data.targetConversationId);
+    const startNode = jumpTarget ? getStartNode(jumpTarget.conversation) : undefined;
+    if (!jumpTarget || !startNode) {
+      transcript.push({ id: nextEntryId(), kind: 'system', text: `Jump "${node.data.label}" has no valid target.` });
+      return { ...next, finished: true };
+    }
+    transcript.push({ id: nextEntryId(), kind: 'system', text: `Jumped to ${jumpTarget.npc.name} / ${jumpTarget.conversation.name}` });
+    next = { ...next, npcId: jumpTarget.npc.id, conversationId: jumpTarget.conversation.id };
+    return enterNode(next, startNode.id, npcs, steps + 1);
+  }
+
+  const options = computeOptions(next, npcs, transcript);
+  next = { ...next, transcript, options, finished: options.length === 0 };
+
+  // Pass through start, user and jump nodes straight into the next line
+  if (isAutoAdvanceNode(node) && options.length === 1 && options[0].kind === 'continue') {
+    return enterNode(next, options[0].nodeId, npcs, steps + 1);
+  }
+
+  if (next.finished) {
+    transcript.push({ id: nextEntryId(), kind: 'system', text: 'End of conversation.' });
+  }
+  return next;
+};
+
+/**
+ * Starts a playtest at the start node of the given conversation, with all variables at their defaults.
+ * @returns The new session, or null when the conversation has no start node
+ */
+export const startPlaytest = (
+  npcs: NPC[],
+  variables: DialogueVariable[],
+  npcId: string,
+  conversationId: string
+): PlaytestSession | null => {
+  const target = findConversation(npcs, npcId, conversationId);
+  const startNode = target ? getStartNode(target.conversation) : undefined;
+  if (!target || !startNode) return null;
+
+  const session: PlaytestSession = {
+    npcId,
+    conversationId,
+    currentNodeId: null,
+    values: getDefaultVariableValues(variables),
+    transcript: [],
+    options: [],
+    finished: false,
+  };
+  return enterNode(session, startNode.id, npcs);
+};
+
+/**
+ * Follows one of the options offered by the session (a choice or "Continue").
+ */
+export const choosePlaytestOption = (session: PlaytestSession, npcs: NPC[], option: PlaytestOption): PlaytestSession => {
+  if (!session.options.some(o => o.nodeId === option.nodeId)) return session;
+  return enterNode(session, option.nodeId, npcs);
+};
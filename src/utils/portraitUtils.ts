@@ -0,0 +1,84 @@
+// src/utils/portraitUtils.ts
+import { FocalPoint, NPC, PortraitCrop, PortraitRef } from '../types';
+
+export const DEFAULT_CROP: PortraitCrop = { x: 0, y: 0, width: 1, height: 1 };
+export const DEFAULT_FOCAL_POINT: FocalPoint = { x: 0.5, y: 0.5 };
+
+// Smallest crop the editor allows, as a fraction of the image
+export const MIN_CROP_SIZE = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Keeps a crop inside the image and at least MIN_CROP_SIZE wide and high.
+ */
+export const clampCrop = (crop: PortraitCrop): PortraitCrop => {
+  const width = clamp(crop.width, MIN_CROP_SIZE, 1);
+  const height = clamp(crop.height, MIN_CROP_SIZE, 1);
+  return { x: clamp(crop.x, 0, 1 - width), y: clamp(crop.y, 0, 1 - height), width, height };
+};
+
+export const clampFocalPoint = (point: FocalPoint): FocalPoint => ({ x: clamp(point.x, 0, 1), y: clamp(point.y, 0, 1) });
+
+/**
+ * Scale factor that fits width x height into maxSize x maxSize without enlarging it.
+ */
+export const getFitScale = (width: number, height: number, maxSize: number): number =>
+  Math.min(1, maxSize / Math.max(width, height));
+
+/**
+ * The crop in pixels of an image of the given size.
+ */
+export const getCropRect = (imageWidth: number, imageHeight: number, crop: PortraitCrop) => ({
+  x: crop.x * imageWidth,
+  y: crop.y * imageHeight,
+  width: crop.width * imageWidth,
+  height: crop.height * imageHeight,
+});
+
+/**
+ * Largest square inside the crop, centered on the focal point as far as the crop allows.
+ * Used for the avatar thumbnails and their preview in the crop editor.
+ */
+export const getThumbnailSquare = (imageWidth: number, imageHeight: number, crop: PortraitCrop, focalPoint: FocalPoint) => {
+  const rect = getCropRect(imageWidth, imageHeight, crop);
+  const size = Math.min(rect.width, rect.height);
+  const centerX = rect.x + focalPoint.x * rect.width;
+  const centerY = rect.y + focalPoint.y * rect.height;
+  return {
+    x: clamp(centerX - size / 2, rect.x, rect.x + rect.width - size),
+    y: clamp(centerY - size / 2, rect.y, rect.y + rect.height - size),
+    size,
+  };
+};
+
+/**
+ * Portrait of an NPC node: the chosen expression's, or the NPC's own when the node has no
+ * expression or the expression has no portrait.
+ */
+export const getExpressionPortrait = (npc: NPC | undefined, expression: string | undefined): PortraitRef | undefined => {
+  const match = expression ? npc?.expressions?.find(e => e.name === expression) : undefined;
+  return match && (match.portraitId || match.image) ? match : npc;
+};
+
+// IDs of the stored portraits an NPC uses, its expressions included
+export const getNpcPortraitIds = (npc: Pick<NPC, 'portraitId' | 'expressions'>): string[] =>
+  [npc.portraitId, ...(npc.expressions ?? []).map(expression => expression.portraitId)].filter((id): id is string => !!id);
+
+export const isDataUrl = (value: string | undefined): value is string => !!value && value.startsWith('data:');
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// File extension for a portrait in a zip bundle
+export const getImageExtension = (mimeType: string): string => {
+  const subtype = mimeType.split('/')[1]?.split(/[+;]/)[0];
+  return subtype === 'jpeg' ? 'jpg' : subtype || 'png';
+};
@@ -0,0 +1,49 @@
+// src/utils/projectBundle.ts
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from 'fflate';
+
+/*
+ * Zip bundle of an exported project: the JSON export (with portrait IDs) plus the cropped
+ * portraits as image files named after their IDs, e.g. portraits/portrait-01J....webp
+ *
+ * Project files (the whole workspace, see projectService) use the same layout with a
+ * workspace.json manifest instead.
+ */
+
+export const BUNDLE_PROJECT_FILE = 'project.json';
+export const WORKSPACE_FILE = 'workspace.json';
+export const PORTRAIT_FOLDER = 'portraits';
+
+const zipWithJson = (jsonPath: string, json: string, files: Record<string, Uint8Array>): Uint8Array => {
+  const entries: Zippable = { [jsonPath]: strToU8(json) };
+  // Images are compressed already
+  Object.entries(files).forEach(([path, data]) => { entries[path] = [data, { level: 0 }]; });
+  return zipSync(entries);
+};
+
+export const createProjectBundle = (json: string, files: Record<string, Uint8Array>): Uint8Array =>
+  zipWithJson(BUNDLE_PROJECT_FILE, json, files);
+
+export const createWorkspaceFile = (manifest: string, files: Record<string, Uint8Array>): Uint8Array =>
+  zipWithJson(WORKSPACE_FILE, manifest, files);
+
+/**
+ * @throws Error when the zip holds no JSON file
+ */
+export const readProjectBundle = (data: Uint8Array): { json: string; files: Record<string, Uint8Array> } => {
+  const entries = unzipSync(data);
+  const jsonPath = BUNDLE_PROJECT_FILE in entries ? BUNDLE_PROJECT_FILE : Object.keys(entries).find(path => path.endsWith('.json'));
+  if (!jsonPath) throw new Error('The zip file contains no project JSON.');
+  const { [jsonPath]: json, ...files } = entries;
+  return { json: strFromU8(json), files };
+};
+
+/**
+ * @throws Error when the zip holds no workspace manifest (e.g. it is a dialogue export instead)
+ */
+export const readWorkspaceFile = (data: Uint8Array): { manifest: string; files: Record<string, Uint8Array> } => {
+  const { [WORKSPACE_FILE]: manifest, ...files } = unzipSync(data);
+  if (!manifest) throw new Error('The file is not a project file.');
+  return { manifest: strFromU8(manifest), files };
+};
+
+export const isZipFile = (file: File): boolean => file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip';
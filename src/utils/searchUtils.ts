@@ -0,0 +1,73 @@
+// src/utils/searchUtils.ts
+import { NPC, SearchField, SearchMatch, SearchOptions, TextReplacement } from '../types';
+import { isTranslatableNode } from './localization';
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  npcName: 'NPC name',
+  conversationName: 'Dialogue name',
+  label: 'Label',
+  text: 'Text',
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The query as a global regular expression.
+ * @throws SyntaxError when `isRegex` is set and the query isn't a valid regular expression
+ */
+export const createSearchPattern = ({ query, isRegex, matchCase }: SearchOptions): RegExp =>
+  new RegExp(isRegex ? query : escapeRegExp(query), matchCase ? 'g' : 'gi');
+
+// Empty matches (e.g. of /^/) still count, but there is nothing to highlight
+const findRanges = (value: string, pattern: RegExp): SearchMatch['ranges'] =>
+  Array.from(value.matchAll(pattern))
+    .filter(match => match[0].length > 0)
+    .map(match => ({ start: match.index!, end: match.index! + match[0].length }));
+
+/**
+ * Every NPC name, dialogue name and node label/text (source locale) matching the query, in
+ * project order. Start and jump nodes are skipped; their labels follow from other fields.
+ * @throws SyntaxError for an invalid regular expression
+ */
+export const searchProject = (npcs: NPC[], options: SearchOptions): SearchMatch[] => {
+  if (!options.query) return [];
+  const pattern = createSearchPattern(options);
+  const matches: SearchMatch[] = [];
+
+  const check = (match: Omit<SearchMatch, 'id' | 'ranges'>) => {
+    pattern.lastIndex = 0;
+    if (!pattern.test(match.value)) return;
+    const id = [match.field, match.npcId, match.conversationId, match.nodeId].filter(Boolean).join(':');
+    matches.push({ ...match, id, ranges: findRanges(match.value, pattern) });
+  };
+
+  npcs.forEach(npc => {
+    check({ npcId: npc.id, field: 'npcName', value: npc.name });
+    npc.conversations.forEach(conv => {
+      check({ npcId: npc.id, conversationId: conv.id, field: 'conversationName', value: conv.name });
+      conv.nodes.filter(isTranslatableNode).forEach(node => {
+        const location = { npcId: npc.id, conversationId: conv.id, nodeId: node.id };
+        check({ ...location, field: 'label', value: node.data.label });
+        if (node.data.text) check({ ...location, field: 'text', value: node.data.text });
+      });
+    });
+  });
+  return matches;
+};
+
+/**
+ * The edits replacing every match would make, keyed by match ID. In regex mode the replacement
+ * may use $1, $& etc.; otherwise it is inserted as typed. Fields that wouldn't change are left out,
+ * and so are names and labels that would end up empty, since the editor doesn't allow them.
+ */
+export const createReplacements = (matches: SearchMatch[], options: SearchOptions, replacement: string): Map<string, TextReplacement> => {
+  const pattern = createSearchPattern(options);
+  const replaceWith = options.isRegex ? replacement : replacement.replace(/\$/g, '$$$$');
+  const replacements = new Map<string, TextReplacement>();
+  matches.forEach(({ id, npcId, conversationId, nodeId, field, value }) => {
+    const to = value.replace(pattern, replaceWith);
+    if (to === value || (field !== 'text' && !to.trim())) return;
+    replacements.set(id, { npcId, conversationId, nodeId, field, from: value, to: field === 'text' ? to : to.trim() });
+  });
+  return replacements;
+};
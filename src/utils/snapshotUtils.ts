@@ -0,0 +1,23 @@
+// src/utils/snapshotUtils.ts
+import { ProjectSnapshot, SnapshotTrigger } from '../types';
+
+export const SNAPSHOT_TRIGGER_LABELS: Record<SnapshotTrigger, string> = {
+  manual: 'Named snapshot',
+  autosave: 'Automatic snapshot',
+  import: 'Before import',
+  delete: 'Before delete',
+  restore: 'Before restore',
+  conflict: "Before loading another tab's changes",
+};
+
+export const formatSnapshotDate = (snapshot: ProjectSnapshot): string =>
+  new Date(snapshot.createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * "Note · date", falling back to what took the snapshot when it has no note.
+ */
+export const formatSnapshotTitle = (snapshot: ProjectSnapshot): string =>
+  `${snapshot.note || SNAPSHOT_TRIGGER_LABELS[snapshot.trigger]} · ${formatSnapshotDate(snapshot)}`;
+
+export const countSnapshotConversations = (snapshot: ProjectSnapshot): number =>
+  snapshot.npcs.reduce((sum, npc) => sum + npc.conversations.length, 0);
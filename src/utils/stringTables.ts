@@ -0,0 +1,308 @@
+// src/utils/stringTables.ts
+import { LocalizationSettings, NPC, StringTableFormat, TranslationStatus, TranslationUpdate } from '../types';
+import { collectStringEntries, getTranslationStatus, normalizeLocaleCode, parseStringKey, StringEntry } from './localization';
+
+/*
+ * String tables for translators. Every translatable node field is one unit keyed by its
+ * stable string ID (`<nodeId>.label` / `<nodeId>.text`), grouped per conversation:
+ *
+ *   XLIFF 1.2 / 2.0  one target locale per file, outdated strings use the review state
+ *   CSV              key, npc, dialogue, field, source column, then "<locale>" and
+ *                    "<locale> status" columns for every target locale
+ *
+ * On import a translation is outdated when the file's source differs from the current source
+ * text, or when it was outdated on export and the translator left it unchanged.
+ */
+
+export interface StringTableImportResult {
+  updates: TranslationUpdate[];
+  locales: string[]; // Target locales found in the file
+  warnings: string[];
+}
+
+export const STRING_TABLE_FORMATS: { value: StringTableFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'xliff12', label: 'XLIFF 1.2', extension: 'xlf', mimeType: 'application/x-xliff+xml' },
+  { value: 'xliff20', label: 'XLIFF 2.0', extension: 'xlf', mimeType: 'application/x-xliff+xml' },
+  { value: 'csv', label: 'CSV (all locales)', extension: 'csv', mimeType: 'text/csv' },
+];
+
+const CSV_FIXED_COLUMNS = ['key', 'npc', 'dialogue', 'field'];
+const STATUS_SUFFIX = ' status';
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// XML IDs (XLIFF 2.0 file ids) must not start with a digit or contain spaces
+const toXmlId = (id: string): string => (/^[A-Za-z_]/.test(id) ? id : `_${id}`).replace(/[^\w.-]/g, '_');
+
+const groupByConversation = (entries: StringEntry[]) => {
+  const groups = new Map<string, StringEntry[]>();
+  entries.forEach(entry => {
+    const group = groups.get(entry.conversation.id) ?? [];
+    group.push(entry);
+    groups.set(entry.conversation.id, group);
+  });
+  return Array.from(groups.values());
+};
+
+const describeEntry = (entry: StringEntry) => `${entry.npc.name} / ${entry.conversation.name} / ${entry.node.data.label} (${entry.field})`;
+
+const getTranslation = (entry: StringEntry, locale: string) => entry.node.data.translations?.[locale]?.[entry.field]?.value ?? '';
+
+const XLIFF12_STATE: Record<TranslationStatus, string> = { translated: 'translated', outdated: 'needs-review-translation', missing: 'new' };
+
+const exportXliff12 = (entries: StringEntry[], localization: LocalizationSettings, locale: string): string => {
+  const files = groupByConversation(entries).map(group => {
+    const { npc, conversation } = group[0];
+    const units = group.map(entry => {
+      const status = getTranslationStatus(entry.node, entry.field, locale);
+      const target = status === 'missing' ? '' : `\n        <target state="${XLIFF12_STATE[status]}">${escapeXml(getTranslation(entry, locale))}</target>`;
+      return [
+        `      <trans-unit id="${escapeXml(entry.key)}" resname="${escapeXml(entry.key)}" xml:space="preserve">`,
+        `        <source>${escapeXml(entry.source)}</source>${target}`,
+        `        <note>${escapeXml(describeEntry(entry))}</note>`,
+        '      </trans-unit>',
+      ].join('\n');
+    });
+    return [
+      `  <file original="${escapeXml(`${npc.name} / ${conversation.name}`)}" source-language="${localization.sourceLocale}" target-language="${locale}" datatype="plaintext">`,
+      '    <body>',
+      ...units,
+      '    </body>',
+      '  </file>',
+    ].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+    ...files,
+    '</xliff>',
+    '',
+  ].join('\n');
+};
+
+const exportXliff20 = (entries: StringEntry[], localization: LocalizationSettings, locale: string): string => {
+  const files = groupByConversation(entries).map(group => {
+    const { npc, conversation } = group[0];
+    const units = group.map(entry => {
+      const status = getTranslationStatus(entry.node, entry.field, locale);
+      const state = status === 'translated' ? ' state="translated"' : status === 'outdated' ? ' state="initial" subState="dialogue:outdated"' : ' state="initial"';
+      const target = status === 'missing' ? '' : `\n        <target xml:space="preserve">${escapeXml(getTranslation(entry, locale))}</target>`;
+      return [
+        `    <unit id="${escapeXml(entry.key)}">`,
+        `      <notes><note>${escapeXml(describeEntry(entry))}</note></notes>`,
+        `      <segment${state}>`,
+        `        <source xml:space="preserve">${escapeXml(entry.source)}</source>${target}`,
+        '      </segment>',
+        '    </unit>',
+      ].join('\n');
+    });
+    return [
+      `  <file id="${escapeXml(toXmlId(conversation.id))}">`,
+      `    <notes><note>${escapeXml(`${npc.name} / ${conversation.name}`)}</note></notes>`,
+      ...units,
+      '  </file>',
+    ].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${localization.sourceLocale}" trgLang="${locale}">`,
+    ...files,
+    '</xliff>',
+    '',
+  ].join('\n');
+};
+
+const escapeCsv = (value: string): string => (/[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value);
+
+const exportCsv = (entries: StringEntry[], localization: LocalizationSettings): string => {
+  const header = [...CSV_FIXED_COLUMNS, localization.sourceLocale, ...localization.targetLocales.flatMap(locale => [locale, `${locale}${STATUS_SUFFIX}`])];
+  const rows = entries.map(entry => [
+    entry.key,
+    entry.npc.name,
+    entry.conversation.name,
+    entry.field,
+    entry.source,
+    ...localization.targetLocales.flatMap(locale => [getTranslation(entry, locale), getTranslationStatus(entry.node, entry.field, locale)]),
+  ]);
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Writes the string table of the given NPCs.
+ * @param locale - Target locale for XLIFF; CSV always contains every target locale
+ */
+export const exportStringTable = (
+  npcs: NPC[],
+  localization: LocalizationSettings,
+  format: StringTableFormat,
+  locale: string
+): string => {
+  const entries = collectStringEntries(npcs);
+  switch (format) {
+    case 'xliff12': return exportXliff12(entries, localization, locale);
+    case 'xliff20': return exportXliff20(entries, localization, locale);
+    case 'csv': return exportCsv(entries, localization);
+  }
+};
+
+/**
+ * RFC 4180 CSV parser (quoted fields, doubled quotes, CRLF or LF line ends).
+ */
+export const parseCsv = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+interface ImportedString {
+  key: string;
+  locale: string;
+  source?: string;
+  value: string;
+  wasOutdated: boolean;
+}
+
+const readXliff = (content: string, warnings: string[]): ImportedString[] => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('The file is not valid XML.');
+  const root = doc.documentElement;
+  const byName = (parent: Element | Document, name: string) => Array.from(parent.getElementsByTagNameNS('*', name));
+  const textOf = (element: Element | undefined) => element?.textContent ?? '';
+  const strings: ImportedString[] = [];
+
+  if (root.getAttribute('version')?.startsWith('2')) {
+    const locale = root.getAttribute('trgLang') ?? '';
+    byName(doc, 'unit').forEach(unit => {
+      const segments = byName(unit, 'segment');
+      const value = segments.map(segment => textOf(byName(segment, 'target')[0])).join('');
+      strings.push({
+        key: unit.getAttribute('id') ?? '',
+        locale,
+        source: segments.map(segment => textOf(byName(segment, 'source')[0])).join(''),
+        value,
+        wasOutdated: segments.some(segment => segment.getAttribute('subState')?.endsWith(':outdated')),
+      });
+    });
+  } else {
+    byName(doc, 'file').forEach(file => {
+      const locale = file.getAttribute('target-language') ?? '';
+      byName(file, 'trans-unit').forEach(unit => {
+        const target = byName(unit, 'target')[0];
+        strings.push({
+          key: unit.getAttribute('resname') || unit.getAttribute('id') || '',
+          locale,
+          source: textOf(byName(unit, 'source')[0]),
+          value: textOf(target),
+          wasOutdated: !!target?.getAttribute('state')?.startsWith('needs-review'),
+        });
+      });
+    });
+  }
+  if (strings.some(s => !s.locale)) warnings.push('The XLIFF file does not name its target language.');
+  return strings.filter(s => s.locale);
+};
+
+const readCsv = (content: string, localization: LocalizationSettings, warnings: string[]): ImportedString[] => {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+  const columns = header.map(cell => cell.trim());
+  const keyIndex = columns.findIndex(column => column.toLowerCase() === 'key');
+  if (keyIndex === -1) throw new Error('The CSV file has no "key" column.');
+  const sourceIndex = columns.findIndex(column => column === localization.sourceLocale || column.toLowerCase() === 'source');
+
+  const localeColumns = columns
+    .map((column, index) => ({ locale: normalizeLocaleCode(column), index }))
+    .filter((column): column is { locale: string; index: number } =>
+      !!column.locale && column.index !== sourceIndex && column.index !== keyIndex && !CSV_FIXED_COLUMNS.includes(columns[column.index].toLowerCase()));
+  if (localeColumns.length === 0) warnings.push('No locale columns found in the CSV file.');
+
+  return rows.flatMap(row => localeColumns.map(({ locale, index }) => {
+    const statusIndex = columns.findIndex(column => column.toLowerCase() === `${columns[index]}${STATUS_SUFFIX}`.toLowerCase());
+    return {
+      key: row[keyIndex] ?? '',
+      locale,
+      source: sourceIndex === -1 ? undefined : row[sourceIndex] ?? '',
+      value: row[index] ?? '',
+      wasOutdated: statusIndex !== -1 && row[statusIndex]?.trim().toLowerCase() === 'outdated',
+    };
+  }));
+};
+
+/**
+ * Reads an XLIFF 1.2, XLIFF 2.0 or CSV string table and matches it against the project's strings.
+ * @throws Error when the file can't be read at all
+ */
+export const importStringTable = (content: string, npcs: NPC[], localization: LocalizationSettings): StringTableImportResult => {
+  const warnings: string[] = [];
+  const imported = content.trimStart().startsWith('<') ? readXliff(content, warnings) : readCsv(content, localization, warnings);
+  const entries = new Map(collectStringEntries(npcs).map(entry => [entry.key, entry]));
+  const updates: TranslationUpdate[] = [];
+  const locales = new Set<string>();
+  let unknownKeys = 0;
+
+  imported.forEach(item => {
+    const value = item.value;
+    if (!value.trim()) return;
+    const locale = normalizeLocaleCode(item.locale);
+    if (!locale || locale === localization.sourceLocale) {
+      if (!warnings.some(w => w.includes(`"${item.locale}"`))) warnings.push(`Skipped strings for locale "${item.locale}".`);
+      return;
+    }
+    const parsedKey = parseStringKey(item.key);
+    const entry = parsedKey ? entries.get(item.key.trim()) : undefined;
+    if (!parsedKey || !entry) {
+      unknownKeys++;
+      return;
+    }
+    const current = getTranslation(entry, locale);
+    const sourceChanged = item.source !== undefined && item.source !== entry.source;
+    locales.add(locale);
+    updates.push({
+      nodeId: parsedKey.nodeId,
+      locale,
+      field: parsedKey.field,
+      value,
+      outdated: sourceChanged || (item.wasOutdated && value === current),
+    });
+  });
+
+  if (unknownKeys > 0) warnings.push(`${unknownKeys} string${unknownKeys === 1 ? '' : 's'} did not match any node and ${unknownKeys === 1 ? 'was' : 'were'} skipped.`);
+  const outdated = updates.filter(update => update.outdated).length;
+  if (outdated > 0) warnings.push(`${outdated} translation${outdated === 1 ? ' was' : 's were'} made for older source text and ${outdated === 1 ? 'is' : 'are'} marked as outdated.`);
+  return { updates, locales: Array.from(locales), warnings };
+};
@@ -0,0 +1,175 @@
+// src/utils/tweeExport.ts
+import { Conversation, DialogueNode, DialogueNodeAction, DialogueVariable, DialogueVariableValue, NPC } from '../types';
+import { formatCondition, parseCondition } from './conditionUtils';
+import { getStartNode } from './conversationUtils';
+
+/*
+ * Twee 3 export of a single conversation, written for the SugarCube story format:
+ *
+ *   :: Hello [npc] {"position":"330,0","size":"100,100"}
+ *   Welcome!
+ *   <<set $met to true>>
+ *   <<if $gold > 0>>[[Show me your wares|Wares]]<</if>>
+ *   [[Bye|Goodbye]]
+ *
+ * Passage names are node labels, passage tags are node types (`start`, `npc`, `user`, `custom`,
+ * `jump`) and links are edges. Links into a user passage show the user's line as their text.
+ * Jump nodes use <<goto "Npc / Dialogue">>, which the importer resolves against the project.
+ */
+
+export const TWEE_STORY_FORMAT = 'SugarCube';
+export const TWEE_STORY_FORMAT_VERSION = '2.37.3';
+export const TWEE_SPEAKER_TAG_PREFIX = 'speaker:';
+
+export interface TweeExportResult {
+  source: string;
+  warnings: string[];
+}
+
+export const TAG_BY_NODE_TYPE: Record<string, string> = { input: 'start', npc: 'npc', user: 'user', custom: 'custom', jump: 'jump' };
+
+/**
+ * Name used by jump passages to refer to a conversation, e.g. "Merchant / Greeting".
+ */
+export const getTweeConversationRef = (npc: NPC, conversation: Conversation): string => `${npc.name} / ${conversation.name}`;
+
+/**
+ * Passage names can't contain the characters that delimit links, tags and metadata.
+ */
+const toPassageName = (label: string): string =>
+  label.replace(/\[/g, '(').replace(/\]/g, ')').replace(/[{}]/g, '').replace(/\|/g, '/').replace(/->|<-/g, '-').trim() || 'Untitled';
+
+// Link text follows the same rules as passage names, since SugarCube has no escaping inside [[ ]]
+const toLinkText = toPassageName;
+
+const toTag = (name: string) => name.trim().replace(/\s+/g, '_');
+
+// SugarCube reads these as markup; such lines are wrapped in """verbatim""" markup
+const SUGARCUBE_MARKUP_PATTERN = /\[\[|\]\]|<<|>>|\$[A-Za-z_]|_[A-Za-z]|\/\/|''|__|==|@@|\^\^|~~|\/\*|<!--|"""|\{\{\{/;
+
+const escapeTweeLine = (line: string): string => {
+  const escaped = line.startsWith('::') ? `\\${line}` : line;
+  return SUGARCUBE_MARKUP_PATTERN.test(escaped) && !escaped.includes('"""') ? `"""${escaped}"""` : escaped;
+};
+
+const formatTweeValue = (value: DialogueVariableValue | undefined): string =>
+  typeof value === 'string' ? JSON.stringify(value) : String(value ?? 0);
+
+const toTweeVariable = (name: string) => `$${name.replace(/[^A-Za-z0-9_$]/g, '_')}`;
+
+const actionToTwee = (action: DialogueNodeAction): string => {
+  if (action.type === 'event') {
+    const argument = action.argument?.trim();
+    return `<<${action.event.replace(/[^A-Za-z0-9_-]/g, '_')}${argument ? ` ${argument}` : ''}>>`;
+  }
+  const variable = toTweeVariable(action.variable);
+  switch (action.operator) {
+    case '+=': return `<<set ${variable} += ${formatTweeValue(action.value)}>>`;
+    case '-=': return `<<set ${variable} -= ${formatTweeValue(action.value)}>>`;
+    case 'toggle': return `<<set ${variable} to !${variable}>>`;
+    default: return `<<set ${variable} to ${formatTweeValue(action.value)}>>`;
+  }
+};
+
+const generateIfid = (): string =>
+  (typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+        const random = Math.floor(Math.random() * 16);
+        return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+      })
+  ).toUpperCase();
+
+/**
+ * Exports one conversation as a Twee 3 story.
+ * @param npcs - All NPCs, used to name speakers and jump targets
+ */
+export const exportToTwee = (npcs: NPC[], variables: DialogueVariable[], npcId: string, conversationId: string): TweeExportResult => {
+  const warnings: string[] = [];
+  const npc = npcs.find(n => n.id === npcId);
+  const conversation = npc?.conversations.find(c => c.id === conversationId);
+  if (!npc || !conversation) return { source: '', warnings: ['Dialogue not found.'] };
+
+  // Unique passage names, keeping each label as long as it is free
+  const passageNames = new Map<string, string>();
+  const used = new Set<string>(['StoryTitle', 'StoryData', 'StoryInit']);
+  conversation.nodes.forEach(node => {
+    const base = toPassageName(node.data.label);
+    let name = base;
+    for (let i = 2; used.has(name); i++) name = `${base} (${i})`;
+    if (name !== node.data.label) warnings.push(`"${node.data.label}" was exported as passage "${name}".`);
+    used.add(name);
+    passageNames.set(node.id, name);
+  });
+
+  const conditionToTwee = (condition: string) => {
+    try {
+      return formatCondition(parseCondition(condition), { variable: toTweeVariable });
+    } catch {
+      warnings.push(`Condition "${condition}" is not valid and was exported as written.`);
+      return condition;
+    }
+  };
+
+  const minX = Math.min(...conversation.nodes.map(node => node.position.x));
+  const minY = Math.min(...conversation.nodes.map(node => node.position.y));
+
+  const exportPassage = (node: DialogueNode): string => {
+    const tags = [TAG_BY_NODE_TYPE[node.type || 'custom'] ?? 'custom'];
+    if (node.type === 'npc' && node.data.npcId && node.data.npcId !== npc.id) {
+      const speaker = npcs.find(n => n.id === node.data.npcId);
+      if (speaker) tags.push(`${TWEE_SPEAKER_TAG_PREFIX}${toTag(speaker.name)}`);
+    }
+    const metadata = JSON.stringify({
+      position: `${Math.round(node.position.x - minX)},${Math.round(node.position.y - minY)}`,
+      size: '100,100',
+    });
+    const body: string[] = [];
+
+    (node.data.text || '').split('\n').map(line => line.trim()).filter(Boolean)
+      .forEach(line => body.push(escapeTweeLine(line)));
+    node.data.actions?.forEach(action => body.push(actionToTwee(action)));
+
+    if (node.type === 'jump') {
+      const target = npcs.flatMap(n => n.conversations.map(c => ({ npc: n, conversation: c })))
+        .find(({ conversation: c }) => c.id === node.data.targetConversationId);
+      if (target) body.push(`<<goto ${JSON.stringify(getTweeConversationRef(target.npc, target.conversation))}>>`);
+      else warnings.push(`Jump "${node.data.label}" has no target.`);
+    }
+
+    conversation.edges.filter(edge => edge.source === node.id).forEach(edge => {
+      const target = conversation.nodes.find(n => n.id === edge.target);
+      if (!target) return;
+      const targetName = passageNames.get(target.id)!;
+      // Choices show the user's line; other links just name the passage they lead to
+      const userText = target.type === 'user' ? toLinkText(target.data.text?.split('\n')[0] || '') : '';
+      const link = userText && userText !== targetName ? `[[${userText}|${targetName}]]` : `[[${targetName}]]`;
+      body.push(edge.data?.condition ? `<<if ${conditionToTwee(edge.data.condition)}>>${link}<</if>>` : link);
+    });
+
+    const escapedName = passageNames.get(node.id)!.replace(/\\/g, '\\\\');
+    return [`:: ${escapedName} [${tags.join(' ')}] ${metadata}`, ...body].join('\n');
+  };
+
+  const startNode = getStartNode(conversation);
+  if (!startNode) warnings.push('The dialogue has no start node; Twine will start at the first passage.');
+  const ordered = startNode ? [startNode, ...conversation.nodes.filter(n => n !== startNode)] : conversation.nodes;
+
+  const storyData = {
+    ifid: generateIfid(),
+    format: TWEE_STORY_FORMAT,
+    'format-version': TWEE_STORY_FORMAT_VERSION,
+    start: passageNames.get((startNode ?? conversation.nodes[0])?.id ?? ''),
+    zoom: 1,
+  };
+
+  const passages = [
+    `:: StoryTitle\n${conversation.name}`,
+    `:: StoryData\n${JSON.stringify(storyData, null, 2)}`,
+    ...(variables.length > 0
+      ? [`:: StoryInit\n${variables.map(v => `<<set ${toTweeVariable(v.name)} to ${formatTweeValue(v.defaultValue)}>>`).join('\n')}`]
+      : []),
+    ...ordered.map(exportPassage),
+  ];
+  return { source: `${passages.join('\n\n')}\n`, warnings };
+};
@@ -0,0 +1,379 @@
+// src/utils/tweeImport.ts
+import { Position } from 'reactflow';
+import {
+  Conversation,
+  DialogueEdge,
+  DialogueNode,
+  DialogueNodeAction,
+  DialogueVariable,
+  DialogueVariableType,
+  DialogueVariableValue,
+  NPC,
+} from '../types';
+import { getNextNodeId, DEFAULT_NPC_LAYOUT_HORIZONTAL } from '../constants/initialData';
+import IdManager from './IdManager';
+import { combineConditions, getInitialValueForType, negateCondition, parseCondition } from './conditionUtils';
+import { calculateDagreLayout } from './dagreLayout';
+import { getTweeConversationRef, TAG_BY_NODE_TYPE, TWEE_SPEAKER_TAG_PREFIX } from './tweeExport';
+
+export interface TweeImportResult {
+  conversation: Conversation;
+  variables: DialogueVariable[]; // Variables from StoryInit or <<set>> that the project doesn't have yet
+  warnings: string[];
+}
+
+interface TweePassage {
+  name: string;
+  tags: string[];
+  body: string;
+}
+
+interface TweeLink {
+  text?: string;
+  target: string;
+  condition?: string;
+}
+
+// SugarCube special passages that hold no story content
+const SPECIAL_PASSAGES = new Set([
+  'StoryTitle', 'StoryData', 'StoryInit', 'StoryCaption', 'StoryMenu', 'StoryBanner', 'StorySubtitle',
+  'StoryAuthor', 'StoryInterface', 'StoryShare', 'PassageReady', 'PassageDone', 'PassageHeader', 'PassageFooter',
+]);
+const CODE_TAGS = new Set(['script', 'stylesheet', 'widget', 'Twine.private']);
+
+const NODE_TYPE_BY_TAG: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(TAG_BY_NODE_TYPE).map(([type, tag]) => [tag, type])),
+  input: 'input',
+};
+
+const WORD_OPERATORS: Record<string, string> = {
+  and: '&&', or: '||', not: '!', is: '==', isnot: '!=', eq: '==', neq: '!=', gt: '>', gte: '>=', lt: '<', lte: '<=',
+};
+
+/**
+ * Converts a SugarCube expression to the editor's condition syntax:
+ * `$gold gte 2 and not $met` -> `gold >= 2 && !met`.
+ */
+export const sugarCubeToCondition = (expression: string): string =>
+  expression
+    .replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\$([A-Za-z_][A-Za-z0-9_]*)|\b(and|or|not|isnot|is|eq|neq|gte|gt|lte|lt)\b|(===|!==)/g,
+      (match, variable: string | undefined, word: string | undefined, strict: string | undefined) => {
+        if (variable) return variable;
+        if (word) return WORD_OPERATORS[word];
+        if (strict) return strict.slice(0, 2);
+        // Single-quoted strings become double-quoted, keeping their escapes
+        return match.startsWith("'") ? `"${match.slice(1, -1).replace(/\\.|"/g, char => (char === '"' ? '\\"' : char === "\\'" ? "'" : char))}"` : match;
+      })
+    .replace(/!\s+/g, '!')
+    .trim();
+
+const parseLiteral = (text: string): DialogueVariableValue | undefined => {
+  const trimmed = text.trim();
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  const quoted = /^"((?:[^"\\]|\\.)*)"$|^'((?:[^'\\]|\\.)*)'$/.exec(trimmed);
+  return quoted ? (quoted[1] ?? quoted[2]).replace(/\\(.)/g, '$1') : undefined;
+};
+
+const getValueType = (value: DialogueVariableValue): DialogueVariableType =>
+  typeof value === 'boolean' ? 'boolean' : typeof value === 'number' ? 'number' : 'string';
+
+const unescapeName = (name: string) => name.replace(/\\(.)/g, '$1').trim();
+
+/**
+ * Splits Twee 3 source into passages (`:: Name [tags] {metadata}` followed by the body).
+ */
+const parsePassages = (source: string): TweePassage[] => {
+  const passages: TweePassage[] = [];
+  let current: { name: string; tags: string[]; lines: string[] } | null = null;
+  const finish = () => {
+    if (current) passages.push({ name: current.name, tags: current.tags, body: current.lines.join('\n').trim() });
+  };
+
+  source.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const header = /^::\s*((?:\\.|[^\\[{])*?)\s*(?:\[((?:\\.|[^\]])*)\])?\s*(?:\{.*\})?\s*$/.exec(line);
+    if (header) {
+      finish();
+      current = { name: unescapeName(header[1]), tags: (header[2] ?? '').split(/\s+/).filter(Boolean), lines: [] };
+    } else if (current) {
+      current.lines.push(line.startsWith('\\::') ? line.slice(1) : line);
+    }
+  });
+  finish();
+  return passages;
+};
+
+/**
+ * Reads a link body: `Target`, `Text|Target`, `Text->Target` or `Target<-Text`.
+ * Setter components (`[[Text|Target][$x to 1]]`) are split off and reported by the caller.
+ */
+const parseLink = (inner: string): { text?: string; target: string } => {
+  const pipe = inner.indexOf('|');
+  if (pipe !== -1) return { text: inner.slice(0, pipe).trim(), target: inner.slice(pipe + 1).trim() };
+  const right = inner.lastIndexOf('->');
+  if (right !== -1) return { text: inner.slice(0, right).trim(), target: inner.slice(right + 2).trim() };
+  const left = inner.indexOf('<-');
+  if (left !== -1) return { text: inner.slice(left + 2).trim(), target: inner.slice(0, left).trim() };
+  return { target: inner.trim() };
+};
+
+/**
+ * Imports a Twee 3 story (e.g. from Twine with SugarCube) as one new conversation of `owner`.
+ * Passage tags pick the node type; untagged passages become NPC lines, and links with their
+ * own text into untagged passages get a user response in between, as in a Twine choice.
+ * Nodes are laid out with calculateDagreLayout.
+ */
+export const parseTwee = (
+  source: string,
+  owner: NPC,
+  existingNpcs: NPC[],
+  existingVariables: DialogueVariable[]
+): TweeImportResult => {
+  const warnings: string[] = [];
+  const passages = parsePassages(source);
+  const isHorizontal = owner.isHorizontal ?? DEFAULT_NPC_LAYOUT_HORIZONTAL;
+  const newVariables: DialogueVariable[] = [];
+  const knownVariableNames = new Set(existingVariables.map(v => v.name));
+
+  const addVariable = (name: string, type: DialogueVariableType, defaultValue = getInitialValueForType(type)) => {
+    if (knownVariableNames.has(name)) return;
+    knownVariableNames.add(name);
+    newVariables.push({ id: IdManager.generateVariableId(), name, type, defaultValue });
+  };
+
+  const title = passages.find(p => p.name === 'StoryTitle')?.body.split('\n')[0].trim() || 'Twine Import';
+  let startName: string | undefined;
+  try {
+    const storyData = passages.find(p => p.name === 'StoryData');
+    startName = storyData ? JSON.parse(storyData.body).start : undefined;
+  } catch {
+    warnings.push('StoryData is not valid JSON and was ignored.');
+  }
+
+  // StoryInit declares the variables and their starting values
+  passages.find(p => p.name === 'StoryInit')?.body.match(/<<set\s+[^>]*>>/g)?.forEach(macro => {
+    macro.slice(2, -2).replace(/^set\s+/, '').split(/,(?=\s*\$)/).forEach(assignment => {
+      const match = /^\s*\$([A-Za-z_]\w*)\s*(?:to|=)\s*(.+?)\s*$/.exec(assignment);
+      const value = match ? parseLiteral(match[2]) : undefined;
+      if (match && value !== undefined) addVariable(match[1], getValueType(value), value);
+    });
+  });
+
+  const storyPassages = passages.filter(p => !SPECIAL_PASSAGES.has(p.name) && !p.tags.some(tag => CODE_TAGS.has(tag)));
+  const conversation: Conversation = { id: IdManager.generateConversationId(), name: title, nodes: [], edges: [] };
+  let edgeCounter = 0;
+
+  const createNode = (type: string, label: string, data: Partial<DialogueNode['data']> = {}): DialogueNode => {
+    const node: DialogueNode = {
+      id: getNextNodeId(),
+      type,
+      position: { x: 0, y: 0 },
+      data: { label, text: '', ...(type === 'input' ? { className: 'node-start' } : {}), ...data },
+      sourcePosition: isHorizontal ? Position.Right : Position.Bottom,
+      targetPosition: isHorizontal ? Position.Left : Position.Top,
+    };
+    conversation.nodes.push(node);
+    return node;
+  };
+
+  const connect = (source: string, target: string, condition?: string) => {
+    const edge: DialogueEdge = { id: `e-${source}-${target}-${++edgeCounter}`, source, target };
+    if (condition) edge.data = { condition };
+    conversation.edges.push(edge);
+  };
+
+  const toCondition = (expression: string, where: string) => {
+    const condition = sugarCubeToCondition(expression);
+    try {
+      parseCondition(condition);
+    } catch {
+      warnings.push(`${where}: condition "${expression}" could not be converted and was kept as written.`);
+    }
+    return condition;
+  };
+
+  const toSetActions = (macroArgs: string, where: string): DialogueNodeAction[] =>
+    macroArgs.split(/,(?=\s*\$)/).flatMap((assignment): DialogueNodeAction[] => {
+      const match = /^\s*\$([A-Za-z_]\w*)\s*(to|=|\+=|-=)\s*(.+?)\s*$/.exec(assignment);
+      if (!match) {
+        warnings.push(`${where}: could not read "<<set ${assignment.trim()}>>".`);
+        return [];
+      }
+      const [, variable, operator, expression] = match;
+      const value = parseLiteral(expression);
+      if ((operator === '+=' || operator === '-=') && typeof value === 'number') {
+        addVariable(variable, 'number');
+        return [{ type: 'setVariable', variable, operator, value }];
+      }
+      const arithmetic = new RegExp(`^\\$${variable}\\s*([+-])\\s*(.+)$`).exec(expression);
+      const step = arithmetic ? parseLiteral(arithmetic[2]) : undefined;
+      if (arithmetic && typeof step === 'number') {
+        addVariable(variable, 'number');
+        return [{ type: 'setVariable', variable, operator: arithmetic[1] === '+' ? '+=' : '-=', value: step }];
+      }
+      if (new RegExp(`^(!|not\\s+)\\s*\\$${variable}$`).test(expression)) {
+        addVariable(variable, 'boolean');
+        return [{ type: 'setVariable', variable, operator: 'toggle' }];
+      }
+      if (operator !== '+=' && operator !== '-=' && value !== undefined) {
+        addVariable(variable, getValueType(value));
+        return [{ type: 'setVariable', variable, operator: '=', value }];
+      }
+      warnings.push(`${where}: "<<set ${assignment.trim()}>>" is not supported and was skipped.`);
+      return [];
+    });
+
+  const findSpeaker = (tags: string[], where: string): string => {
+    const tag = tags.find(t => t.startsWith(TWEE_SPEAKER_TAG_PREFIX));
+    if (!tag) return owner.id;
+    const name = tag.slice(TWEE_SPEAKER_TAG_PREFIX.length).toLowerCase();
+    const speaker = existingNpcs.find(npc => npc.name.trim().replace(/\s+/g, '_').toLowerCase() === name);
+    if (!speaker) warnings.push(`${where}: speaker "${tag.slice(TWEE_SPEAKER_TAG_PREFIX.length)}" is not in the project; ${owner.name} speaks instead.`);
+    return speaker?.id ?? owner.id;
+  };
+
+  const resolveConversationRef = (ref: string) => {
+    for (const npc of existingNpcs) {
+      const target = npc.conversations.find(conv => getTweeConversationRef(npc, conv) === ref);
+      if (target) return { npcId: npc.id, conversationId: target.id };
+    }
+    return null;
+  };
+
+  // --- Pass 1: one node per passage, with its text and actions ---
+  const parsed = storyPassages.map(passage => {
+    const where = `"${passage.name}"`;
+    const typeTag = passage.tags.find(tag => NODE_TYPE_BY_TAG[tag]);
+    const type = typeTag ? NODE_TYPE_BY_TAG[typeTag] : 'npc';
+    const links: TweeLink[] = [];
+    const gotos: string[] = [];
+    const actions: DialogueNodeAction[] = [];
+    // Open <<if>> blocks: conditions of the branches already passed, and of the current one
+    const ifBlocks: { previous: string[]; current?: string }[] = [];
+    const textLines: string[] = [];
+
+    passage.body.split('\n').forEach(rawLine => {
+      // Verbatim markup is plain text
+      const verbatim = /^\s*"""(.*)"""\s*$/.exec(rawLine);
+      if (verbatim) {
+        textLines.push(verbatim[1]);
+        return;
+      }
+      let text = '';
+      const tokenPattern = /\[\[(.*?)\]\]|<<(\/?)\s*([A-Za-z][\w-]*)\s*(.*?)>>/g;
+      let last = 0;
+      let match: RegExpExecArray | null;
+      while ((match = tokenPattern.exec(rawLine))) {
+        text += rawLine.slice(last, match.index);
+        last = match.index + match[0].length;
+        // Links are all offered at once, so later branches also exclude the earlier ones
+        const combined = combineConditions(...ifBlocks.flatMap(block => [...block.previous.map(negateCondition), block.current]));
+
+        if (match[1] !== undefined) {
+          const [link, setter] = match[1].split('][');
+          if (setter !== undefined) warnings.push(`${where}: link setters are not supported and were ignored.`);
+          links.push({ ...parseLink(link), condition: combined });
+          continue;
+        }
+        const [, , closing, name, args] = match;
+        if (closing) {
+          if (name === 'if') ifBlocks.pop();
+          continue;
+        }
+        switch (name) {
+          case 'if':
+            ifBlocks.push({ previous: [], current: toCondition(args, where) });
+            break;
+          case 'elseif':
+          case 'else': {
+            const block = ifBlocks[ifBlocks.length - 1];
+            if (!block) break;
+            if (block.current) block.previous.push(block.current);
+            block.current = name === 'elseif' ? toCondition(args, where) : undefined;
+            break;
+          }
+          case 'set':
+            if (ifBlocks.length > 0) warnings.push(`${where}: <<set>> inside <<if>> was imported as unconditional.`);
+            actions.push(...toSetActions(args, where));
+            break;
+          case 'goto': {
+            const target = /^\[\[(.*)\]\]$/.exec(args.trim())?.[1] ?? parseLiteral(args);
+            if (typeof target === 'string') gotos.push(target);
+            else warnings.push(`${where}: could not read "<<goto ${args}>>".`);
+            break;
+          }
+          default:
+            actions.push({ type: 'event', event: name, ...(args.trim() ? { argument: args.trim() } : {}) });
+        }
+      }
+      text += rawLine.slice(last);
+      if (text.trim()) textLines.push(text.trim());
+    });
+
+    const data: Partial<DialogueNode['data']> = { text: textLines.join('\n') };
+    if (actions.length > 0) data.actions = actions;
+    if (type === 'npc') data.npcId = findSpeaker(passage.tags, where);
+    const node = createNode(type, passage.name, data);
+    return { passage, node, links, gotos, where };
+  });
+
+  const nodeByName = new Map(parsed.map(({ passage, node }) => [passage.name, node]));
+
+  // --- Pass 2: links become edges, gotos become edges or jump targets ---
+  parsed.forEach(({ node, links, gotos, where }) => {
+    links.forEach(link => {
+      const target = nodeByName.get(link.target);
+      if (!target) {
+        warnings.push(`${where}: link to missing passage "${link.target}" was skipped.`);
+        return;
+      }
+      // A choice in Twine: the link text is what the player says
+      if (link.text && link.text !== link.target && target.type !== 'user' && node.type !== 'user') {
+        const userNode = createNode('user', '', { text: link.text });
+        userNode.data.label = `User Response ${userNode.id}`;
+        connect(node.id, userNode.id, link.condition);
+        connect(userNode.id, target.id);
+        return;
+      }
+      if (target.type === 'user' && !target.data.text && link.text) target.data.text = link.text;
+      connect(node.id, target.id, link.condition);
+    });
+
+    gotos.forEach(ref => {
+      const passageTarget = nodeByName.get(ref);
+      if (passageTarget) {
+        connect(node.id, passageTarget.id);
+        return;
+      }
+      const conversationTarget = resolveConversationRef(ref);
+      if (!conversationTarget) {
+        warnings.push(`${where}: <<goto>> target "${ref}" was not found.`);
+        return;
+      }
+      if (node.type === 'jump' && !node.data.targetConversationId) {
+        node.data.targetNpcId = conversationTarget.npcId;
+        node.data.targetConversationId = conversationTarget.conversationId;
+      } else {
+        const jumpNode = createNode('jump', `Jump ${ref}`, {
+          targetNpcId: conversationTarget.npcId,
+          targetConversationId: conversationTarget.conversationId,
+        });
+        connect(node.id, jumpNode.id);
+      }
+    });
+  });
+
+  // Twine starts at the StoryData start passage; without a start-tagged passage one is added in front
+  if (!conversation.nodes.some(node => node.type === 'input')) {
+    const first = (startName && nodeByName.get(startName)) || parsed[0]?.node;
+    const startNode = createNode('input', `Start: ${title}`, { text: `This is the starting point of the '${title}' dialogue.` });
+    if (first) connect(startNode.id, first.id);
+  }
+
+  const positions = calculateDagreLayout(conversation.nodes, conversation.edges, isHorizontal ? 'LR' : 'TB');
+  conversation.nodes.forEach(node => {
+    if (positions[node.id]) node.position = positions[node.id];
+  });
+
+  return { conversation, variables: newVariables, warnings };
+};
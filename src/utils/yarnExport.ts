@@ -0,0 +1,178 @@
+// src/utils/yarnExport.ts
+import { Conversation, DialogueNode, DialogueNodeAction, DialogueVariable, DialogueVariableValue, NPC } from '../types';
+import { formatCondition, parseCondition } from './conditionUtils';
+import { getStartNode } from './conversationUtils';
+
+/*
+ * Yarn Spinner export. Every dialogue node becomes one Yarn node:
+ *
+ *   title: Merchant_Greeting_node_12
+ *   npc: Merchant            <- custom headers let the importer rebuild the same conversations
+ *   dialogue: Greeting
+ *   kind: npc
+ *   label: NPC Response node-12
+ *   position: 250,50
+ *   ---
+ *   Merchant: Welcome!
+ *   <<set $met to true>>
+ *   -> Show me your wares <<if $gold > 0>>
+ *       <<jump Merchant_Greeting_node_13>>
+ *   ===
+ *
+ * The start node of a conversation is titled <Npc>_<Dialogue>, which is also what
+ * jump nodes target.
+ */
+
+export const YARN_VARIABLES_TITLE = 'DialogueVariables';
+
+/**
+ * Turns arbitrary text into a valid Yarn identifier (letters, digits, underscores).
+ */
+export const toYarnIdentifier = (text: string): string => {
+  const cleaned = text.trim().replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!cleaned) return '_';
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `_${cleaned}`;
+};
+
+export const toYarnVariable = (name: string): string => `$${toYarnIdentifier(name)}`;
+
+/**
+ * Escapes characters that Yarn would otherwise read as markup, commands, tags or comments.
+ */
+export const escapeYarnText = (text: string): string => text.replace(/[\\#{}[\]<>/]/g, char => `\\${char}`);
+
+const formatYarnValue = (value: DialogueVariableValue | undefined): string =>
+  typeof value === 'string' ? JSON.stringify(value) : String(value ?? 0);
+
+/**
+ * Converts an edge condition to a Yarn expression ($-prefixed variables).
+ * Malformed conditions are exported as written so nothing is silently dropped.
+ */
+export const conditionToYarn = (condition: string): string => {
+  try {
+    return formatCondition(parseCondition(condition), { variable: toYarnVariable });
+  } catch {
+    console.warn(`[YarnExport] Condition "${condition}" is not valid and was exported as-is.`);
+    return condition;
+  }
+};
+
+const actionToYarn = (action: DialogueNodeAction): string => {
+  if (action.type === 'event') {
+    const argument = action.argument?.trim();
+    return `<<${toYarnIdentifier(action.event)}${argument ? ` ${argument}` : ''}>>`;
+  }
+  const variable = toYarnVariable(action.variable);
+  switch (action.operator) {
+    case '+=': return `<<set ${variable} to ${variable} + ${formatYarnValue(action.value)}>>`;
+    case '-=': return `<<set ${variable} to ${variable} - ${formatYarnValue(action.value)}>>`;
+    case 'toggle': return `<<set ${variable} to !${variable}>>`;
+    default: return `<<set ${variable} to ${formatYarnValue(action.value)}>>`;
+  }
+};
+
+const getTextLines = (text: string | undefined): string[] =>
+  (text || '').split('\n').map(line => line.trim()).filter(Boolean);
+
+/**
+ * Yarn titles for every conversation (its start node) and every node, unique across the project.
+ * The importer uses the same function to resolve jumps into dialogues already in the project.
+ */
+export const getYarnTitles = (npcs: NPC[]) => {
+  const used = new Set<string>([YARN_VARIABLES_TITLE]);
+  const unique = (base: string) => {
+    let title = base;
+    for (let i = 2; used.has(title); i++) title = `${base}_${i}`;
+    used.add(title);
+    return title;
+  };
+
+  const conversationTitles = new Map<string, string>(); // conversation id -> title
+  const nodeTitles = new Map<string, string>(); // `${conversation id}:${node id}` -> title
+  npcs.forEach(npc => npc.conversations.forEach(conv => {
+    const convTitle = unique(`${toYarnIdentifier(npc.name)}_${toYarnIdentifier(conv.name)}`);
+    conversationTitles.set(conv.id, convTitle);
+    const startNode = getStartNode(conv);
+    conv.nodes.forEach(node => {
+      nodeTitles.set(`${conv.id}:${node.id}`, node === startNode ? convTitle : unique(`${convTitle}_${toYarnIdentifier(node.id)}`));
+    });
+  }));
+  return { conversationTitles, nodeTitles };
+};
+
+const KIND_BY_NODE_TYPE: Record<string, string> = { input: 'start', npc: 'npc', user: 'user', custom: 'custom', jump: 'jump' };
+
+/**
+ * Exports every conversation of every NPC as a single .yarn source.
+ */
+export const exportToYarn = (npcs: NPC[], variables: DialogueVariable[]): string => {
+  const { conversationTitles, nodeTitles } = getYarnTitles(npcs);
+  const blocks: string[] = [];
+
+  if (variables.length > 0) {
+    const declarations = variables.map(variable => `<<declare ${toYarnVariable(variable.name)} = ${formatYarnValue(variable.defaultValue)}>>`);
+    blocks.push([`title: ${YARN_VARIABLES_TITLE}`, 'kind: variables', '---', ...declarations, '==='].join('\n'));
+  }
+
+  const exportNode = (npc: NPC, conv: Conversation, node: DialogueNode): string => {
+    const titleOf = (target: DialogueNode) => nodeTitles.get(`${conv.id}:${target.id}`)!;
+    const headers = [
+      `title: ${titleOf(node)}`,
+      `npc: ${npc.name}`,
+      `dialogue: ${conv.name}`,
+      `kind: ${KIND_BY_NODE_TYPE[node.type || 'custom'] ?? 'custom'}`,
+      `label: ${node.data.label}`,
+      `position: ${Math.round(node.position.x)},${Math.round(node.position.y)}`,
+    ];
+    const body: string[] = [];
+
+    if (node.type === 'npc') {
+      // Speaker names must not contain the ':' that separates them from the line
+      const speaker = (npcs.find(n => n.id === node.data.npcId) ?? npc).name.replace(/:/g, '');
+      getTextLines(node.data.text).forEach(line => body.push(`${speaker}: ${escapeYarnText(line)}`));
+    } else if (node.type === 'custom') {
+      getTextLines(node.data.text).forEach(line => body.push(escapeYarnText(line)));
+    }
+
+    node.data.actions?.forEach(action => body.push(actionToYarn(action)));
+
+    if (node.type === 'jump') {
+      const targetTitle = node.data.targetConversationId ? conversationTitles.get(node.data.targetConversationId) : undefined;
+      body.push(targetTitle ? `<<jump ${targetTitle}>>` : '// Jump target not set');
+    } else {
+      const outgoing = conv.edges
+        .filter(edge => edge.source === node.id)
+        .map(edge => ({ edge, target: conv.nodes.find(n => n.id === edge.target) }))
+        .filter((item): item is { edge: typeof item.edge; target: DialogueNode } => !!item.target);
+
+      // User responses become options; the option text is the user node's text
+      outgoing.filter(({ target }) => target.type === 'user').forEach(({ edge, target }) => {
+        const optionText = getTextLines(target.data.text).join(' ') || target.data.label;
+        const condition = edge.data?.condition ? ` <<if ${conditionToYarn(edge.data.condition)}>>` : '';
+        body.push(`-> ${escapeYarnText(optionText)}${condition}`);
+        body.push(`    <<jump ${titleOf(target)}>>`);
+      });
+
+      // Everything else follows the first target whose condition passes
+      for (const { edge, target } of outgoing.filter(({ target }) => target.type !== 'user')) {
+        if (edge.data?.condition) {
+          body.push(`<<if ${conditionToYarn(edge.data.condition)}>>`, `    <<jump ${titleOf(target)}>>`, '<<endif>>');
+        } else {
+          body.push(`<<jump ${titleOf(target)}>>`);
+          break; // Later targets can never be reached
+        }
+      }
+    }
+
+    return [...headers, '---', ...body, '==='].join('\n');
+  };
+
+  npcs.forEach(npc => npc.conversations.forEach(conv => {
+    // Start node first so the conversation entry point leads each group
+    const startNode = getStartNode(conv);
+    const ordered = startNode ? [startNode, ...conv.nodes.filter(n => n !== startNode)] : conv.nodes;
+    ordered.forEach(node => blocks.push(exportNode(npc, conv, node)));
+  }));
+
+  return `${blocks.join('\n')}\n`;
+};
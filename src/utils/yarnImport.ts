@@ -0,0 +1,559 @@
+// src/utils/yarnImport.ts
+import { Position } from 'reactflow';
+import {
+  Conversation,
+  DialogueEdge,
+  DialogueNode,
+  DialogueNodeAction,
+  DialogueVariable,
+  DialogueVariableType,
+  DialogueVariableValue,
+  NPC,
+} from '../types';
+import { getNextNodeId, DEFAULT_NPC_ACCENT_COLOR, DEFAULT_NPC_LAYOUT_HORIZONTAL } from '../constants/initialData';
+import IdManager from './IdManager';
+import { combineConditions, getInitialValueForType, negateCondition, parseCondition } from './conditionUtils';
+import { calculateDagreLayout } from './dagreLayout';
+import { getYarnTitles, YARN_VARIABLES_TITLE } from './yarnExport';
+
+export interface YarnImportResult {
+  npcs: NPC[]; // New NPCs, or existing ones (same id) holding only the imported conversations
+  variables: DialogueVariable[]; // Declared or assigned variables that the project doesn't have yet
+  warnings: string[];
+}
+
+interface YarnSourceNode {
+  title: string;
+  headers: Record<string, string>;
+  body: string[];
+}
+
+interface YarnOption {
+  text: string;
+  condition?: string;
+  body: YarnStatement[];
+}
+
+type YarnStatement =
+  | { type: 'line'; text: string; condition?: string }
+  | { type: 'options'; options: YarnOption[] }
+  | { type: 'jump'; target: string }
+  | { type: 'set'; variable: string; expression: string }
+  | { type: 'if'; branches: { condition?: string; body: YarnStatement[] }[] }
+  | { type: 'command'; name: string; argument?: string }
+  | { type: 'stop' };
+
+interface BodyLine {
+  indent: number;
+  text: string;
+}
+
+// Dangling end of the graph built so far; the next node is connected from here
+interface Exit {
+  nodeId: string;
+  condition?: string;
+  inBranch?: boolean; // Inside an <<if>> block, so content can't be merged into the node itself
+}
+
+const WORD_OPERATORS: Record<string, string> = {
+  and: '&&', or: '||', not: '!', is: '==', eq: '==', neq: '!=', gt: '>', lt: '<', gte: '>=', lte: '<=',
+};
+
+const unescapeYarnText = (text: string) => text.replace(/\\(.)/g, '$1');
+
+// Removes a trailing `// comment` (unescaped) from a body line
+const stripComment = (line: string) => {
+  const match = /(^|[^\\])\/\//.exec(line);
+  return match ? line.slice(0, match.index + match[1].length) : line;
+};
+
+// Removes unescaped `#hashtags` (line IDs, metadata) from dialogue text
+const stripHashtags = (text: string) => text.replace(/(^|\s)(?<!\\)#\S+/g, '').trim();
+
+/**
+ * Converts a Yarn expression to the editor's condition syntax:
+ * `$gold > 2 and not $met` -> `gold > 2 && ! met`.
+ */
+export const yarnToCondition = (expression: string): string =>
+  expression
+    .replace(/"(?:[^"\\]|\\.)*"|\$([A-Za-z_][A-Za-z0-9_]*)|\b(and|or|not|is|eq|neq|gt|lt|gte|lte)\b/g,
+      (match, variable: string | undefined, word: string | undefined) => {
+        if (variable) return variable;
+        if (word) return WORD_OPERATORS[word];
+        return match; // String literal, left untouched
+      })
+    .replace(/!\s+/g, '!')
+    .trim();
+
+const parseYarnLiteral = (text: string): DialogueVariableValue | undefined => {
+  const trimmed = text.trim();
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  const quoted = /^"((?:[^"\\]|\\.)*)"$/.exec(trimmed);
+  return quoted ? unescapeYarnText(quoted[1]) : undefined;
+};
+
+const getValueType = (value: DialogueVariableValue): DialogueVariableType =>
+  typeof value === 'boolean' ? 'boolean' : typeof value === 'number' ? 'number' : 'string';
+
+/**
+ * Splits a .yarn source into its nodes (headers, then body between `---` and `===`).
+ */
+const parseYarnNodes = (source: string, warnings: string[]): YarnSourceNode[] => {
+  const nodes: YarnSourceNode[] = [];
+  let headers: Record<string, string> = {};
+  let body: string[] | null = null;
+
+  const finishNode = () => {
+    if (headers.title) {
+      nodes.push({ title: headers.title.trim(), headers, body: body ?? [] });
+    } else {
+      warnings.push('Skipped a node without a title.');
+    }
+    headers = {};
+    body = null;
+  };
+
+  source.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (body) {
+      if (trimmed === '===') finishNode();
+      else body.push(line);
+      return;
+    }
+    if (trimmed === '---') {
+      body = [];
+      return;
+    }
+    const header = /^([A-Za-z_][\w-]*):\s?(.*)$/.exec(trimmed);
+    if (header) headers[header[1]] = header[2].trim();
+  });
+  if (body) finishNode();
+  return nodes;
+};
+
+/**
+ * Parses the body lines of a node into statements, following indentation for option bodies
+ * and <<if>> / <<elseif>> / <<else>> / <<endif>> for conditional blocks.
+ */
+const parseStatements = (rawLines: string[], title: string, warnings: string[]): YarnStatement[] => {
+  const lines: BodyLine[] = rawLines
+    .map(raw => {
+      const text = stripComment(raw);
+      const indent = (/^[ \t]*/.exec(text)?.[0] ?? '').replace(/\t/g, '    ').length;
+      return { indent, text: text.trim() };
+    })
+    .filter(line => line.text.length > 0);
+
+  let pos = 0;
+  const commandOf = (text: string) => /^<<\s*([A-Za-z_][\w.]*)\s*(.*?)\s*>>$/.exec(text);
+
+  const parseBlock = (minIndent: number): YarnStatement[] => {
+    const statements: YarnStatement[] = [];
+    while (pos < lines.length) {
+      const line = lines[pos];
+      if (line.indent < minIndent) break;
+
+      const command = commandOf(line.text);
+      if (command) {
+        const [, name, rest] = command;
+        if (name === 'elseif' || name === 'else' || name === 'endif') break;
+        pos++;
+        if (name === 'if') {
+          const branches: { condition?: string; body: YarnStatement[] }[] = [];
+          let condition: string | undefined = rest;
+          for (;;) {
+            branches.push({ condition, body: parseBlock(minIndent) });
+            const closing = pos < lines.length ? commandOf(lines[pos].text) : null;
+            if (!closing) {
+              warnings.push(`${title}: <<if>> without <<endif>>.`);
+              break;
+            }
+            pos++;
+            if (closing[1] === 'endif') break;
+            condition = closing[1] === 'elseif' ? closing[2] : undefined;
+          }
+          statements.push({ type: 'if', branches });
+        } else if (name === 'jump') {
+          statements.push({ type: 'jump', target: rest.trim() });
+        } else if (name === 'set') {
+          const assignment = /^\$([A-Za-z_]\w*)\s*(to|=|\+=|-=)\s*(.+)$/.exec(rest);
+          if (!assignment) {
+            warnings.push(`${title}: could not read "<<set ${rest}>>".`);
+            continue;
+          }
+          const [, variable, operator, value] = assignment;
+          // Normalise compound assignments to the `to` form handled below
+          const expression = operator === '+=' || operator === '-=' ? `$${variable} ${operator[0]} ${value}` : value;
+          statements.push({ type: 'set', variable, expression });
+        } else if (name === 'declare' || name === 'enum' || name === 'case' || name === 'endenum') {
+          // Declarations are collected separately
+        } else if (name === 'stop') {
+          statements.push({ type: 'stop' });
+        } else {
+          statements.push({ type: 'command', name, argument: rest || undefined });
+        }
+        continue;
+      }
+
+      if (line.text.startsWith('->')) {
+        const indent = line.indent;
+        const options: YarnOption[] = [];
+        while (pos < lines.length && lines[pos].indent === indent && lines[pos].text.startsWith('->')) {
+          const optionMatch = /^->\s*(.*?)\s*(?:<<\s*if\s+(.+?)\s*>>)?$/.exec(lines[pos].text)!;
+          pos++;
+          options.push({
+            text: unescapeYarnText(stripHashtags(optionMatch[1])),
+            condition: optionMatch[2],
+            body: parseBlock(indent + 1),
+          });
+        }
+        statements.push({ type: 'options', options });
+        continue;
+      }
+
+      pos++;
+      const lineMatch = /^(.*?)\s*(?:<<\s*if\s+(.+?)\s*>>)?$/.exec(line.text)!;
+      statements.push({ type: 'line', text: stripHashtags(lineMatch[1]), condition: lineMatch[2] });
+    }
+    return statements;
+  };
+
+  const statements = parseBlock(0);
+  if (pos < lines.length) warnings.push(`${title}: ignored unexpected "${lines[pos].text}".`);
+  return statements;
+};
+
+const collectDeclarations = (nodes: YarnSourceNode[]) => {
+  const declared: { name: string; value: DialogueVariableValue }[] = [];
+  nodes.forEach(node => node.body.forEach(line => {
+    const match = /<<\s*declare\s+\$([A-Za-z_]\w*)\s*(?:=|to)\s*(.+?)(?:\s+as\s+\w+)?\s*>>/.exec(line);
+    const value = match ? parseYarnLiteral(match[2]) : undefined;
+    if (match && value !== undefined) declared.push({ name: match[1], value });
+  }));
+  return declared;
+};
+
+/**
+ * Imports a .yarn source as new conversations. Files written by the Yarn export keep their
+ * NPC / dialogue grouping (via custom headers); any other Yarn node becomes its own dialogue
+ * owned by `defaultNpcName`, with jumps between nodes turned into jump nodes.
+ * Nodes are laid out with calculateDagreLayout.
+ */
+export const parseYarn = (
+  source: string,
+  existingNpcs: NPC[],
+  existingVariables: DialogueVariable[],
+  defaultNpcName: string
+): YarnImportResult => {
+  const warnings: string[] = [];
+  const yarnNodes = parseYarnNodes(source, warnings).filter(node => node.title !== YARN_VARIABLES_TITLE);
+  const resultNpcs: NPC[] = [];
+  const newVariables: DialogueVariable[] = [];
+  const knownVariableNames = new Set(existingVariables.map(v => v.name));
+
+  // --- NPC lookup, reusing existing NPCs by name ---
+  const findOrCreateNpc = (name: string): NPC => {
+    const key = name.trim().toLowerCase();
+    const imported = resultNpcs.find(npc => npc.name.toLowerCase() === key);
+    if (imported) return imported;
+    const existing = existingNpcs.find(npc => npc.name.trim().toLowerCase() === key);
+    const npc: NPC = existing
+      ? { ...existing, conversations: [] }
+      : {
+          id: IdManager.generateNpcId(),
+          name: name.trim(),
+          accentColor: DEFAULT_NPC_ACCENT_COLOR,
+          isHorizontal: DEFAULT_NPC_LAYOUT_HORIZONTAL,
+          conversations: [],
+        };
+    resultNpcs.push(npc);
+    return npc;
+  };
+
+  const addVariable = (name: string, type: DialogueVariableType, defaultValue = getInitialValueForType(type)) => {
+    if (knownVariableNames.has(name)) return;
+    knownVariableNames.add(name);
+    newVariables.push({ id: IdManager.generateVariableId(), name, type, defaultValue });
+  };
+  collectDeclarations(parseYarnNodes(source, [])).forEach(({ name, value }) => addVariable(name, getValueType(value), value));
+
+  // --- Group Yarn nodes into conversations ---
+  interface Group {
+    npc: NPC;
+    conversation: Conversation;
+    nodes: YarnSourceNode[];
+  }
+  const groups = new Map<string, Group>();
+  const groupOfTitle = new Map<string, Group>();
+  yarnNodes.forEach(yarnNode => {
+    const { npc: npcName, dialogue } = yarnNode.headers;
+    const key = npcName && dialogue ? `${npcName}\u0000${dialogue}` : yarnNode.title;
+    let group = groups.get(key);
+    if (!group) {
+      const npc = findOrCreateNpc(npcName || defaultNpcName);
+      const conversation: Conversation = { id: IdManager.generateConversationId(), name: dialogue || yarnNode.title, nodes: [], edges: [] };
+      npc.conversations.push(conversation);
+      group = { npc, conversation, nodes: [] };
+      groups.set(key, group);
+    }
+    group.nodes.push(yarnNode);
+    groupOfTitle.set(yarnNode.title, group);
+  });
+
+  // Jumps may also target dialogues that are already in the project
+  const { conversationTitles } = getYarnTitles(existingNpcs);
+  const resolveJumpTarget = (title: string): { npcId: string; conversationId: string } | null => {
+    const group = groupOfTitle.get(title);
+    if (group) return { npcId: group.npc.id, conversationId: group.conversation.id };
+    for (const npc of existingNpcs) {
+      const conv = npc.conversations.find(c => conversationTitles.get(c.id) === title);
+      if (conv) return { npcId: npc.id, conversationId: conv.id };
+    }
+    return null;
+  };
+
+  groups.forEach(group => {
+    const { npc, conversation } = group;
+    const isHorizontal = npc.isHorizontal ?? DEFAULT_NPC_LAYOUT_HORIZONTAL;
+    let edgeCounter = 0;
+
+    const createNode = (type: string, label: string | undefined, data: Partial<DialogueNode['data']> = {}): DialogueNode => {
+      const id = getNextNodeId();
+      const prefix = { input: 'Start', npc: 'NPC Response', user: 'User Response', jump: 'Jump' }[type] ?? 'Narration';
+      const node: DialogueNode = {
+        id,
+        type,
+        position: { x: 0, y: 0 },
+        data: { label: label || `${prefix} ${id}`, text: '', ...data },
+        sourcePosition: isHorizontal ? Position.Right : Position.Bottom,
+        targetPosition: isHorizontal ? Position.Left : Position.Top,
+      };
+      conversation.nodes.push(node);
+      return node;
+    };
+
+    const connect = (exits: Exit[], targetId: string, condition?: string) => {
+      exits.forEach(exit => {
+        const combined = combineConditions(exit.condition, condition);
+        const edge: DialogueEdge = { id: `e-${exit.nodeId}-${targetId}-${++edgeCounter}`, source: exit.nodeId, target: targetId };
+        if (combined) edge.data = { condition: combined };
+        conversation.edges.push(edge);
+      });
+    };
+
+    const toCondition = (expression: string, title: string) => {
+      const condition = yarnToCondition(expression);
+      try {
+        parseCondition(condition);
+      } catch {
+        warnings.push(`${title}: condition "${expression}" could not be converted and was kept as written.`);
+      }
+      return condition;
+    };
+
+    const splitSpeaker = (text: string) => {
+      const match = /^([^:<>{}[\]#]{1,60}?):\s+(.*)$/.exec(text);
+      return match ? { speaker: match[1].trim(), text: match[2] } : { speaker: undefined, text };
+    };
+
+    const createLineNode = (text: string, allowSpeaker: boolean, label?: string) => {
+      const { speaker, text: lineText } = allowSpeaker ? splitSpeaker(text) : { speaker: undefined, text };
+      return speaker
+        ? createNode('npc', label, { text: unescapeYarnText(lineText), npcId: findOrCreateNpc(speaker).id })
+        : createNode('custom', label, { text: unescapeYarnText(lineText) });
+    };
+
+    // --- Pass 1: one entry node per Yarn node ---
+    const entries = new Map<string, { node: DialogueNode; kind?: string; statements: YarnStatement[] }>();
+    const startText = `This is the starting point of the '${conversation.name}' dialogue.`;
+    const hasStart = group.nodes.some(yarnNode => yarnNode.headers.kind === 'start');
+    const startNode = hasStart ? null : createNode('input', `Start: ${conversation.name}`, { text: startText });
+
+    group.nodes.forEach(yarnNode => {
+      const { kind, label } = yarnNode.headers;
+      const statements = parseStatements(yarnNode.body, yarnNode.title, warnings);
+      let node: DialogueNode;
+
+      if (kind === 'start') {
+        node = createNode('input', label, { text: startText });
+      } else if (kind === 'npc' || kind === 'custom') {
+        // Leading lines form the node's text
+        const lines: string[] = [];
+        let speakerId: string | undefined;
+        while (statements[0]?.type === 'line' && !statements[0].condition) {
+          const line = statements.shift() as { text: string };
+          const split = kind === 'npc' ? splitSpeaker(line.text) : { speaker: undefined, text: line.text };
+          if (split.speaker && !speakerId) speakerId = findOrCreateNpc(split.speaker).id;
+          lines.push(unescapeYarnText(split.text));
+        }
+        node = createNode(kind, label, { text: lines.join('\n'), ...(kind === 'npc' ? { npcId: speakerId ?? npc.id } : {}) });
+      } else if (kind === 'user' || kind === 'jump') {
+        node = createNode(kind, label);
+      } else {
+        const first = statements[0];
+        if (first?.type === 'line' && !first.condition) {
+          statements.shift();
+          node = createLineNode(first.text, true);
+        } else {
+          node = createNode('custom', yarnNode.title);
+        }
+      }
+      entries.set(yarnNode.title, { node, kind, statements });
+    });
+
+    if (startNode && group.nodes.length > 0) {
+      connect([{ nodeId: startNode.id }], entries.get(group.nodes[0].title)!.node.id);
+    }
+
+    // --- Pass 2: compile statements into nodes and edges ---
+    const nodeById = (id: string) => conversation.nodes.find(node => node.id === id)!;
+
+    // Actions need a single, unconditional node to live on; otherwise a node is added for them
+    const actionTarget = (exits: Exit[]): { node: DialogueNode; exits: Exit[] } => {
+      if (exits.length === 1 && !exits[0].condition && !exits[0].inBranch && nodeById(exits[0].nodeId).type !== 'input') {
+        return { node: nodeById(exits[0].nodeId), exits };
+      }
+      const node = createNode('custom', undefined);
+      connect(exits, node.id);
+      return { node, exits: [{ nodeId: node.id }] };
+    };
+
+    const addAction = (exits: Exit[], action: DialogueNodeAction): Exit[] => {
+      if (exits.length === 0) return exits;
+      const target = actionTarget(exits);
+      target.node.data.actions = [...(target.node.data.actions ?? []), action];
+      return target.exits;
+    };
+
+    const toSetAction = (variable: string, expression: string, title: string): DialogueNodeAction | null => {
+      const trimmed = expression.trim();
+      const arithmetic = new RegExp(`^\\$${variable}\\s*([+-])\\s*(.+)$`).exec(trimmed);
+      if (arithmetic) {
+        const value = parseYarnLiteral(arithmetic[2]);
+        if (typeof value === 'number') {
+          addVariable(variable, 'number');
+          return { type: 'setVariable', variable, operator: arithmetic[1] === '+' ? '+=' : '-=', value };
+        }
+      }
+      if (new RegExp(`^(!|not\\s+)\\s*\\$${variable}$`).test(trimmed)) {
+        addVariable(variable, 'boolean');
+        return { type: 'setVariable', variable, operator: 'toggle' };
+      }
+      const value = parseYarnLiteral(trimmed);
+      if (value !== undefined) {
+        addVariable(variable, getValueType(value));
+        return { type: 'setVariable', variable, operator: '=', value };
+      }
+      warnings.push(`${title}: "<<set $${variable} to ${expression}>>" is not supported and was skipped.`);
+      return null;
+    };
+
+    const compile = (statements: YarnStatement[], exits: Exit[], title: string, entryId: string): Exit[] => {
+      let current = exits;
+      for (const statement of statements) {
+        if (current.length === 0 && statement.type !== 'if') {
+          warnings.push(`${title}: content after a jump or stop can't be reached and was skipped.`);
+          break;
+        }
+        switch (statement.type) {
+          case 'line': {
+            const node = createLineNode(statement.text, entries.get(title)?.kind !== 'custom');
+            connect(current, node.id, statement.condition ? toCondition(statement.condition, title) : undefined);
+            current = [{ nodeId: node.id }];
+            break;
+          }
+          case 'options': {
+            const results: Exit[] = [];
+            statement.options.forEach(option => {
+              const condition = option.condition ? toCondition(option.condition, title) : undefined;
+              // Exported user nodes: "-> text / <<jump UserNode>>" links straight to that node
+              const onlyJump = option.body.length === 1 && option.body[0].type === 'jump' ? option.body[0].target : null;
+              const linkedEntry = onlyJump && groupOfTitle.get(onlyJump) === group ? entries.get(onlyJump) : undefined;
+              if (linkedEntry?.kind === 'user') {
+                if (!linkedEntry.node.data.text) linkedEntry.node.data.text = unescapeYarnText(option.text);
+                connect(current, linkedEntry.node.id, condition);
+                return;
+              }
+              const userNode = createNode('user', undefined, { text: option.text });
+              connect(current, userNode.id, condition);
+              results.push(...compile(option.body, [{ nodeId: userNode.id }], title, entryId));
+            });
+            current = results;
+            break;
+          }
+          case 'jump': {
+            const entry = entries.get(statement.target);
+            const self = nodeById(entryId);
+            if (entry && groupOfTitle.get(statement.target) === group) {
+              connect(current, entry.node.id);
+            } else if (self.type === 'jump' && !self.data.targetConversationId && current.length === 1 && current[0].nodeId === entryId) {
+              const target = resolveJumpTarget(statement.target);
+              if (target) {
+                self.data.targetNpcId = target.npcId;
+                self.data.targetConversationId = target.conversationId;
+              } else {
+                warnings.push(`${title}: jump target "${statement.target}" was not found.`);
+              }
+            } else {
+              const target = resolveJumpTarget(statement.target);
+              if (!target) warnings.push(`${title}: jump target "${statement.target}" was not found.`);
+              const jumpNode = createNode('jump', undefined, target ? { targetNpcId: target.npcId, targetConversationId: target.conversationId } : {});
+              connect(current, jumpNode.id);
+            }
+            current = [];
+            break;
+          }
+          case 'set': {
+            const action = toSetAction(statement.variable, statement.expression, title);
+            if (action) current = addAction(current, action);
+            break;
+          }
+          case 'command':
+            current = addAction(current, { type: 'event', event: statement.name, ...(statement.argument ? { argument: statement.argument } : {}) });
+            break;
+          case 'if': {
+            // Each branch also excludes the ones before it: choices are all offered at once,
+            // so an <<else>> option must not show up next to its <<if>> option
+            const results: Exit[] = [];
+            const previous: string[] = [];
+            statement.branches.forEach(branch => {
+              const condition = branch.condition ? toCondition(branch.condition, title) : undefined;
+              const guard = combineConditions(...previous.map(negateCondition), condition);
+              const branchExits = current.map(exit => ({ ...exit, condition: combineConditions(exit.condition, guard), inBranch: true }));
+              results.push(...compile(branch.body, branchExits, title, entryId));
+              if (condition) previous.push(condition);
+            });
+            // Without <<else>> the flow can also skip the block
+            if (statement.branches.every(branch => branch.condition)) {
+              const skip = combineConditions(...previous.map(negateCondition));
+              results.push(...current.map(exit => ({ ...exit, condition: combineConditions(exit.condition, skip) })));
+            }
+            current = results;
+            break;
+          }
+          case 'stop':
+            current = [];
+            break;
+        }
+      }
+      return current;
+    };
+
+    group.nodes.forEach(yarnNode => {
+      const entry = entries.get(yarnNode.title)!;
+      compile(entry.statements, [{ nodeId: entry.node.id }], yarnNode.title, entry.node.id);
+      if (entry.kind === 'jump' && !entry.node.data.targetConversationId) {
+        warnings.push(`${yarnNode.title}: jump node has no target.`);
+      }
+    });
+
+    // Automatic layout, same algorithm as the Smart Layout button
+    const positions = calculateDagreLayout(conversation.nodes, conversation.edges, isHorizontal ? 'LR' : 'TB');
+    conversation.nodes.forEach(node => {
+      if (positions[node.id]) node.position = positions[node.id];
+    });
+  });
+
+  return { npcs: resultNpcs, variables: newVariables, warnings };
+};